@@ -0,0 +1,128 @@
+-- CreateTable
+CREATE TABLE "public"."BuildRun" (
+    "id" TEXT NOT NULL,
+    "mode" TEXT NOT NULL DEFAULT 'asm',
+    "success" BOOLEAN NOT NULL DEFAULT false,
+    "errors" TEXT[],
+    "romName" TEXT,
+    "romSize" INTEGER,
+    "romCrc" TEXT,
+    "meta" JSONB,
+    "projectId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" UUID NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "deletedBy" UUID,
+    "updatedAt" TIMESTAMP(3),
+    "updatedBy" UUID,
+
+    CONSTRAINT "BuildRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."BlockArtifactVersion" (
+    "id" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "meta" JSONB,
+    "blockId" TEXT NOT NULL,
+    "buildRunId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" UUID NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "deletedBy" UUID,
+    "updatedAt" TIMESTAMP(3),
+    "updatedBy" UUID,
+
+    CONSTRAINT "BlockArtifactVersion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BuildRun_projectId_idx" ON "public"."BuildRun"("projectId");
+
+-- CreateIndex
+CREATE INDEX "BuildRun_createdBy_idx" ON "public"."BuildRun"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "BuildRun_updatedBy_idx" ON "public"."BuildRun"("updatedBy");
+
+-- CreateIndex
+CREATE INDEX "BuildRun_deletedBy_idx" ON "public"."BuildRun"("deletedBy");
+
+-- CreateIndex
+CREATE INDEX "BlockArtifactVersion_blockId_idx" ON "public"."BlockArtifactVersion"("blockId");
+
+-- CreateIndex
+CREATE INDEX "BlockArtifactVersion_buildRunId_idx" ON "public"."BlockArtifactVersion"("buildRunId");
+
+-- CreateIndex
+CREATE INDEX "BlockArtifactVersion_createdBy_idx" ON "public"."BlockArtifactVersion"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "BlockArtifactVersion_updatedBy_idx" ON "public"."BlockArtifactVersion"("updatedBy");
+
+-- CreateIndex
+CREATE INDEX "BlockArtifactVersion_deletedBy_idx" ON "public"."BlockArtifactVersion"("deletedBy");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlockArtifactVersion_buildRunId_blockId_key" ON "public"."BlockArtifactVersion"("buildRunId", "blockId");
+
+-- AddForeignKey
+ALTER TABLE "public"."BuildRun" ADD CONSTRAINT "BuildRun_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."ScribeProject"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BuildRun" ADD CONSTRAINT "BuildRun_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BuildRun" ADD CONSTRAINT "BuildRun_deletedBy_fkey" FOREIGN KEY ("deletedBy") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BuildRun" ADD CONSTRAINT "BuildRun_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BlockArtifactVersion" ADD CONSTRAINT "BlockArtifactVersion_blockId_fkey" FOREIGN KEY ("blockId") REFERENCES "public"."Block"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BlockArtifactVersion" ADD CONSTRAINT "BlockArtifactVersion_buildRunId_fkey" FOREIGN KEY ("buildRunId") REFERENCES "public"."BuildRun"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BlockArtifactVersion" ADD CONSTRAINT "BlockArtifactVersion_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BlockArtifactVersion" ADD CONSTRAINT "BlockArtifactVersion_deletedBy_fkey" FOREIGN KEY ("deletedBy") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."BlockArtifactVersion" ADD CONSTRAINT "BlockArtifactVersion_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+DO $$
+BEGIN
+  -- Check if we're in a Supabase/production environment by looking for specific extensions
+  -- Also check if auth schema exists to avoid shadow database issues
+  IF (EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') OR
+      EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'supabase_auth_admin')) AND
+     EXISTS (SELECT 1 FROM information_schema.schemata WHERE schema_name = 'auth') THEN
+    
+    -- Grant SELECT access to anon and authenticated on all tables
+    GRANT SELECT ON "BuildRun", "BlockArtifactVersion" TO anon, authenticated;
+    GRANT INSERT, UPDATE, DELETE ON "BuildRun", "BlockArtifactVersion" TO authenticated;
+    
+    -- ====================================
+    -- BUILD RUN TABLE POLICIES
+    -- ====================================
+    CALL create_child_table_policies('BuildRun');
+
+    -- ====================================
+    -- BLOCK ARTIFACT VERSION TABLE POLICIES
+    -- ====================================
+    CALL create_block_table_policies('BlockArtifactVersion');
+
+    -- ====================================
+    -- REALTIME SETUP FOR COLLABORATIVE EDITING
+    -- ====================================
+    ALTER PUBLICATION supabase_realtime ADD TABLE "BuildRun";
+    
+    RAISE NOTICE 'Applied RLS policies and grants for production environment';
+  ELSE
+    RAISE NOTICE 'Skipped RLS setup - not in production environment';
+  END IF;
+END
+$$;
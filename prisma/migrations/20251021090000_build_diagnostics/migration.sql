@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."BuildRun" ADD COLUMN "diagnostics" JSONB;
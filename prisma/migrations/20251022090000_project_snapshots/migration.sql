@@ -0,0 +1,67 @@
+-- CreateTable
+CREATE TABLE "public"."ProjectSnapshot" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "kind" TEXT NOT NULL DEFAULT 'manual',
+    "data" JSONB NOT NULL,
+    "recordCount" INTEGER NOT NULL DEFAULT 0,
+    "meta" JSONB,
+    "projectId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdBy" UUID NOT NULL,
+    "deletedAt" TIMESTAMP(3),
+    "deletedBy" UUID,
+    "updatedAt" TIMESTAMP(3),
+    "updatedBy" UUID,
+
+    CONSTRAINT "ProjectSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProjectSnapshot_projectId_idx" ON "public"."ProjectSnapshot"("projectId");
+
+-- CreateIndex
+CREATE INDEX "ProjectSnapshot_createdBy_idx" ON "public"."ProjectSnapshot"("createdBy");
+
+-- CreateIndex
+CREATE INDEX "ProjectSnapshot_updatedBy_idx" ON "public"."ProjectSnapshot"("updatedBy");
+
+-- CreateIndex
+CREATE INDEX "ProjectSnapshot_deletedBy_idx" ON "public"."ProjectSnapshot"("deletedBy");
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSnapshot" ADD CONSTRAINT "ProjectSnapshot_projectId_fkey" FOREIGN KEY ("projectId") REFERENCES "public"."ScribeProject"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSnapshot" ADD CONSTRAINT "ProjectSnapshot_createdBy_fkey" FOREIGN KEY ("createdBy") REFERENCES "public"."User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSnapshot" ADD CONSTRAINT "ProjectSnapshot_deletedBy_fkey" FOREIGN KEY ("deletedBy") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."ProjectSnapshot" ADD CONSTRAINT "ProjectSnapshot_updatedBy_fkey" FOREIGN KEY ("updatedBy") REFERENCES "public"."User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+DO $$
+BEGIN
+  -- Check if we're in a Supabase/production environment by looking for specific extensions
+  -- Also check if auth schema exists to avoid shadow database issues
+  IF (EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'supabase_vault') OR
+      EXISTS (SELECT 1 FROM pg_roles WHERE rolname = 'supabase_auth_admin')) AND
+     EXISTS (SELECT 1 FROM information_schema.schemata WHERE schema_name = 'auth') THEN
+    
+    -- Grant SELECT access to anon and authenticated on all tables
+    GRANT SELECT ON "ProjectSnapshot" TO anon, authenticated;
+    GRANT INSERT, UPDATE, DELETE ON "ProjectSnapshot" TO authenticated;
+    
+    -- ====================================
+    -- PROJECT SNAPSHOT TABLE POLICIES
+    -- ====================================
+    CALL create_child_table_policies('ProjectSnapshot');
+    
+    RAISE NOTICE 'Applied RLS policies and grants for production environment';
+  ELSE
+    RAISE NOTICE 'Skipped RLS setup - not in production environment';
+  END IF;
+END
+$$;
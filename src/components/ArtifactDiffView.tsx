@@ -0,0 +1,156 @@
+import { useEffect, useMemo, useState } from 'react'
+import { History } from 'lucide-react'
+import clsx from 'clsx'
+import { diffLines, summarizeDiff, toSplitRows, type DiffLine } from '../lib/text-diff'
+import type { BlockArtifactVersionWithRun } from '../services/supabase/block-artifact-versions'
+
+interface ArtifactDiffViewProps {
+  versions: BlockArtifactVersionWithRun[] // Newest first
+}
+
+type DiffStyle = 'unified' | 'split'
+
+const EMPTY_VERSION = ''
+
+function formatVersion(version: BlockArtifactVersionWithRun): string {
+  const date = new Date(version.buildRun.createdAt).toLocaleString()
+  const mode = version.buildRun.mode === 'rom' ? 'ROM build' : 'Build'
+  return `${date} · ${mode}${version.buildRun.success ? '' : ' (failed)'}`
+}
+
+function lineClass(line: DiffLine | null): string {
+  if (!line) return 'bg-gray-800'
+  if (line.type === 'added') return 'bg-green-900/60 text-green-200'
+  if (line.type === 'removed') return 'bg-red-900/60 text-red-200'
+  return 'text-gray-300'
+}
+
+function linePrefix(line: DiffLine): string {
+  if (line.type === 'added') return '+'
+  if (line.type === 'removed') return '-'
+  return ' '
+}
+
+export default function ArtifactDiffView({ versions }: ArtifactDiffViewProps) {
+  const [fromId, setFromId] = useState<string>(EMPTY_VERSION)
+  const [toId, setToId] = useState<string>(EMPTY_VERSION)
+  const [style, setStyle] = useState<DiffStyle>('unified')
+
+  // Default to comparing the two most recent builds of the block
+  useEffect(() => {
+    setToId(versions[0]?.id ?? EMPTY_VERSION)
+    setFromId(versions[1]?.id ?? EMPTY_VERSION)
+  }, [versions])
+
+  const from = versions.find(version => version.id === fromId)
+  const to = versions.find(version => version.id === toId)
+
+  const lines = useMemo(
+    () => diffLines(from?.content ?? '', to?.content ?? ''),
+    [from, to]
+  )
+  const summary = useMemo(() => summarizeDiff(lines), [lines])
+  const rows = useMemo(() => (style === 'split' ? toSplitRows(lines) : []), [lines, style])
+
+  if (versions.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <div className="text-center p-6">
+          <History className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+          <h3 className="text-lg font-medium text-gray-900 mb-2">No Build History</h3>
+          <p className="text-gray-600">
+            Each build that regenerates this block records a version here so builds can be compared.
+          </p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Version selection */}
+      <div className="grid grid-cols-1 gap-2 text-sm">
+        <label className="flex items-center space-x-2">
+          <span className="w-12 text-gray-600">From</span>
+          <select
+            value={fromId}
+            onChange={(e) => setFromId(e.target.value)}
+            className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            <option value={EMPTY_VERSION}>(empty)</option>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{formatVersion(version)}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className="w-12 text-gray-600">To</span>
+          <select
+            value={toId}
+            onChange={(e) => setToId(e.target.value)}
+            className="flex-1 border border-gray-300 rounded-md px-2 py-1 text-sm"
+          >
+            <option value={EMPTY_VERSION}>(empty)</option>
+            {versions.map(version => (
+              <option key={version.id} value={version.id}>{formatVersion(version)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {/* Summary and style toggle */}
+      <div className="flex items-center justify-between text-xs">
+        <div className="space-x-3">
+          <span className="text-green-700">+{summary.added}</span>
+          <span className="text-red-700">-{summary.removed}</span>
+        </div>
+        <div className="inline-flex rounded-md border border-gray-300 overflow-hidden">
+          {(['unified', 'split'] as DiffStyle[]).map(option => (
+            <button
+              key={option}
+              onClick={() => setStyle(option)}
+              className={clsx(
+                'px-2 py-1 capitalize',
+                style === option ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              )}
+            >
+              {option}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Diff content */}
+      <div className="bg-gray-900 rounded-lg p-2 overflow-auto font-mono text-xs">
+        {summary.added === 0 && summary.removed === 0 ? (
+          <div className="p-2 text-gray-400">The selected versions are identical.</div>
+        ) : style === 'unified' ? (
+          <table className="w-full border-collapse">
+            <tbody>
+              {lines.map((line, index) => (
+                <tr key={index} className={lineClass(line)}>
+                  <td className="px-1 text-right text-gray-500 select-none">{line.oldLine ?? ''}</td>
+                  <td className="px-1 text-right text-gray-500 select-none">{line.newLine ?? ''}</td>
+                  <td className="px-2 whitespace-pre">{linePrefix(line)} {line.text}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full border-collapse table-fixed">
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index}>
+                  <td className="w-8 px-1 text-right text-gray-500 select-none">{row.left?.oldLine ?? ''}</td>
+                  <td className={clsx('px-2 whitespace-pre overflow-hidden', lineClass(row.left))}>{row.left?.text ?? ''}</td>
+                  <td className="w-8 px-1 text-right text-gray-500 select-none">{row.right?.newLine ?? ''}</td>
+                  <td className={clsx('px-2 whitespace-pre overflow-hidden', lineClass(row.right))}>{row.right?.text ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  )
+}
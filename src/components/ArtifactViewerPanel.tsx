@@ -1,8 +1,11 @@
 import { useEffect, useCallback, useRef, useState } from 'react'
-import { X, Code, AlertCircle, Loader, GripVertical } from 'lucide-react'
+import { X, Code, AlertCircle, Loader, GripVertical, History } from 'lucide-react'
 import clsx from 'clsx'
 import { useArtifactViewerStore } from '../stores/artifact-viewer-store'
 import { db } from '../services/supabase'
+import ArtifactDiffView from './ArtifactDiffView'
+
+type ArtifactView = 'current' | 'history'
 
 export default function ArtifactViewerPanel() {
   const {
@@ -14,9 +17,12 @@ export default function ArtifactViewerPanel() {
     maxWidth,
     selectedBlock,
     artifact,
+    versions,
+    highlightLine,
     closePanel,
     setFinalWidth,
     setArtifact,
+    setVersions,
     setLoading,
     setError
   } = useArtifactViewerStore()
@@ -25,6 +31,7 @@ export default function ArtifactViewerPanel() {
   const resizeHandleRef = useRef<HTMLDivElement>(null)
   const [isResizing, setIsResizing] = useState(false)
   const [dragIndicatorPosition, setDragIndicatorPosition] = useState<number | null>(null)
+  const [view, setView] = useState<ArtifactView>('current')
 
   // Load artifact when block is selected
   useEffect(() => {
@@ -35,7 +42,15 @@ export default function ArtifactViewerPanel() {
         setLoading(true)
         setError(null)
 
-        const { data, error: fetchError } = await db.blockArtifacts.getByBlock(selectedBlock.id)
+        const [{ data, error: fetchError }, { data: history, error: historyError }] = await Promise.all([
+          db.blockArtifacts.getByBlock(selectedBlock.id),
+          db.blockArtifactVersions.getByBlock(selectedBlock.id)
+        ])
+
+        if (historyError) {
+          console.warn('Error loading artifact history:', historyError)
+        }
+        setVersions(history || [])
 
         if (fetchError) {
           if (fetchError.code === 'PGRST116') {
@@ -54,8 +69,16 @@ export default function ArtifactViewerPanel() {
       }
     }
 
+    setView('current')
     loadArtifact()
-  }, [selectedBlock, isOpen, setLoading, setError, setArtifact])
+  }, [selectedBlock, isOpen, setLoading, setError, setArtifact, setVersions])
+
+  // Scroll to the requested line once the artifact is shown
+  useEffect(() => {
+    if (!artifact || highlightLine === null || view !== 'current') return
+    const line = panelRef.current?.querySelector(`[data-line="${highlightLine}"]`)
+    line?.scrollIntoView({ block: 'center' })
+  }, [artifact, highlightLine, view])
 
   // Handle escape key
   useEffect(() => {
@@ -183,6 +206,28 @@ export default function ArtifactViewerPanel() {
           </button>
         </div>
 
+        {/* View Tabs */}
+        <div className="flex border-b border-gray-200 text-sm">
+          {([
+            { key: 'current', label: 'Current', icon: Code },
+            { key: 'history', label: `History (${versions.length})`, icon: History }
+          ] as const).map(tab => (
+            <button
+              key={tab.key}
+              onClick={() => setView(tab.key)}
+              className={clsx(
+                'flex items-center px-4 py-2 border-b-2 -mb-px',
+                view === tab.key
+                  ? 'border-blue-600 text-blue-600 font-medium'
+                  : 'border-transparent text-gray-600 hover:text-gray-900'
+              )}
+            >
+              <tab.icon className="h-4 w-4 mr-1" />
+              {tab.label}
+            </button>
+          ))}
+        </div>
+
         {/* Content */}
         <div className="flex-1 overflow-hidden">
           {isLoading ? (
@@ -215,6 +260,10 @@ export default function ArtifactViewerPanel() {
                 </button>
               </div>
             </div>
+          ) : view === 'history' ? (
+            <div className="h-full overflow-auto p-4">
+              <ArtifactDiffView versions={versions} />
+            </div>
           ) : artifact ? (
             <div className="h-full overflow-auto p-4">
               <div className="space-y-4">
@@ -235,7 +284,15 @@ export default function ArtifactViewerPanel() {
                 {/* Code content */}
                 <div className="bg-gray-900 rounded-lg p-4 overflow-auto">
                   <pre className="text-green-400 font-mono text-sm whitespace-pre-wrap">
-                    {artifact.content}
+                    {artifact.content.split('\n').map((text, index) => (
+                      <div
+                        key={index}
+                        data-line={index + 1}
+                        className={clsx(index + 1 === highlightLine && 'bg-yellow-500/30 text-yellow-100')}
+                      >
+                        {text || ' '}
+                      </div>
+                    ))}
                   </pre>
                 </div>
                 
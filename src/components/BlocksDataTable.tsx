@@ -1,5 +1,5 @@
-import { useState, useMemo, useEffect, useCallback } from 'react'
-import { ChevronLeft, ChevronRight, ChevronDown, ChevronRight as ChevronRightIcon, Check, X, Trash2, Hammer, Eye, Plus } from 'lucide-react'
+import { useState, useMemo, useEffect, useCallback, useRef } from 'react'
+import { ChevronLeft, ChevronRight, ChevronDown, ChevronRight as ChevronRightIcon, Check, X, Trash2, Hammer, Eye, Plus, HardDrive, Download, FileDiff, ListChecks, FileArchive } from 'lucide-react'
 import { type DataTableProps } from './DataTable'
 import { useAuthStore } from '../stores/auth-store'
 import { useArtifactViewerStore } from '../stores/artifact-viewer-store'
@@ -9,7 +9,12 @@ import type { Block, BlockPart, ScribeProject } from '@prisma/client'
 import clsx from 'clsx'
 import RomPathModal from './RomPathModal'
 import NotificationModal from './NotificationModal'
-import { createBuildOrchestrator, type BuildProgressCallback } from '../lib/build-orchestrator'
+import BuildDiagnosticsPanel from './BuildDiagnosticsPanel'
+import { createBuildOrchestrator, type BuildDiagnostic, type BuildOrchestrator, type BuildProgressCallback, type BuildMode, type BuiltRom } from '../lib/build-orchestrator'
+import { downloadBytes } from '../lib/download-utils'
+import { exportSourceTree } from '../lib/source-export'
+import { checkPatchSource, createPatch, type PatchFormat } from '../lib/patch-utils'
+import { romCacheDB } from '../lib/rom-cache-db'
 import { sortBlockPartsInPlace } from '../lib/sort-utils'
 import { createId } from '@paralleldrive/cuid2'
 
@@ -216,6 +221,18 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
   const [showRomPathModal, setShowRomPathModal] = useState(false)
   const [isBuilding, setIsBuilding] = useState(false)
   const [buildProgress, setBuildProgress] = useState<{ step: string; progress: number; total: number } | null>(null)
+  const [buildMode, setBuildMode] = useState<BuildMode>('asm')
+  const [romAction, setRomAction] = useState<'build' | 'export'>('build')
+  const [isExporting, setIsExporting] = useState(false)
+  const [builtRom, setBuiltRom] = useState<BuiltRom | null>(null)
+  const [isCreatingPatch, setIsCreatingPatch] = useState(false)
+  const [isCancellingBuild, setIsCancellingBuild] = useState(false)
+  const buildOrchestratorRef = useRef<BuildOrchestrator | null>(null)
+
+  // Diagnostics from the latest build run
+  const [buildDiagnostics, setBuildDiagnostics] = useState<{ items: BuildDiagnostic[]; builtAt: Date | string | null } | null>(null)
+  const [showDiagnostics, setShowDiagnostics] = useState(false)
+  const [highlightedBlockId, setHighlightedBlockId] = useState<string | null>(null)
 
   // Notification state
   const [notification, setNotification] = useState<{
@@ -241,6 +258,31 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
     }
   }
 
+  // Load diagnostics recorded by the latest build run
+  useEffect(() => {
+    if (!projectId) return
+
+    const loadLatestDiagnostics = async () => {
+      const { data, error } = await db.buildRuns.getLatestByProject(projectId)
+      if (error) {
+        console.warn('Failed to load latest build run:', error)
+        return
+      }
+      if (data) {
+        setBuildDiagnostics({ items: (data.diagnostics as unknown as BuildDiagnostic[] | null) ?? [], builtAt: data.createdAt })
+      }
+    }
+
+    loadLatestDiagnostics()
+  }, [projectId])
+
+  // Scroll a block row into view after navigating to it from a diagnostic
+  useEffect(() => {
+    if (!highlightedBlockId) return
+    const row = document.querySelector(`[data-row-id="${highlightedBlockId}"]`)
+    row?.scrollIntoView({ block: 'center', behavior: 'smooth' })
+  }, [highlightedBlockId, currentBank])
+
   // Fetch all BlockParts for the project
   useEffect(() => {
     if (!projectId) {
@@ -1662,7 +1704,7 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
   }, [availableBanks, currentBank, handlePreviousBank, handleNextBank])
 
   // Build functionality
-  const handleBuildProject = () => {
+  const handleBuildProject = (mode: BuildMode = 'asm') => {
     if (!project) {
       console.error('Project not available for build')
       showNotification(
@@ -1684,6 +1726,13 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
       return
     }
 
+    setBuildMode(mode)
+    setRomAction('build')
+    setShowRomPathModal(true)
+  }
+
+  const handleExportSource = () => {
+    setRomAction('export')
     setShowRomPathModal(true)
   }
 
@@ -1714,24 +1763,61 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
   const handleRomFileConfirm = async (romFile: File, romData: Uint8Array) => {
     if (!project) return
 
+    if (romAction === 'export') {
+      await handleExportConfirm(romData)
+      return
+    }
+
+    const mode = buildMode
     setIsBuilding(true)
-    setBuildProgress({ step: 'Initializing build...', progress: 0, total: 6 })
+    setBuildProgress({ step: 'Initializing build...', progress: 0, total: mode === 'rom' ? 8 : 6 })
 
     try {
       const progressCallback: BuildProgressCallback = (step, progress, total) => {
         setBuildProgress({ step, progress, total })
       }
 
-      const orchestrator = createBuildOrchestrator(project, romFile, romData, progressCallback)
+      const orchestrator = createBuildOrchestrator(project, romFile, romData, progressCallback, mode)
+      buildOrchestratorRef.current = orchestrator
       const result = await orchestrator.build()
 
-      if (result.success) {
+      if (!result.cancelled) {
+        setBuildDiagnostics({ items: result.diagnostics, builtAt: new Date() })
+        setShowDiagnostics(result.diagnostics.length > 0)
+      }
+
+      if (result.cancelled) {
+        showNotification(
+          'info',
+          'Build Cancelled',
+          'The build was cancelled. No build artifacts were saved.'
+        )
+      } else if (result.success && result.rom) {
+        console.log('ROM build completed successfully:', result.rom.fileName)
+        setBuiltRom(result.rom)
+        downloadBytes(result.rom.data, result.rom.fileName)
+        showNotification(
+          'success',
+          'ROM Built Successfully',
+          `Rebuilt ${result.rom.fileName} (${result.rebuilt.length} blocks regenerated, ${result.skipped} unchanged). The download should start automatically.`,
+          [
+            `Size: ${(result.rom.data.length / 1024).toFixed(0)} KB`,
+            `Checksum: 0x${result.rom.checksum.toString(16).toUpperCase().padStart(4, '0')}`,
+            ...result.rebuilt.map(block => `${block.blockName}: ${block.reasons.join(', ')}`)
+          ]
+        )
+        if (onBuildComplete) {
+          onBuildComplete()
+        }
+      } else if (result.success) {
         console.log('Build completed successfully:', result.artifacts)
         showNotification(
           'success',
           'Build Completed Successfully',
-          `Generated ${result.artifacts.length} assembly artifacts for your blocks.`,
-          result.artifacts.map(artifact => `${artifact.blockName}: ${artifact.content.split('\n').length} lines`)
+          result.rebuilt.length > 0
+            ? `Regenerated ${result.rebuilt.length} assembly artifacts; ${result.skipped} unchanged blocks were skipped.`
+            : `All ${result.skipped} blocks are up to date; nothing needed to be regenerated.`,
+          result.rebuilt.map(block => `${block.blockName}: ${block.reasons.join(', ')}`)
         )
         if (onBuildComplete) {
           onBuildComplete()
@@ -1759,19 +1845,103 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
         () => handleRomFileConfirm(romFile, romData)
       )
     } finally {
+      buildOrchestratorRef.current = null
       setIsBuilding(false)
+      setIsCancellingBuild(false)
       setBuildProgress(null)
     }
   }
 
+  const handleExportConfirm = async (romData: Uint8Array) => {
+    if (!project) return
+
+    setIsExporting(true)
+    try {
+      const result = await exportSourceTree(project, romData)
+      downloadBytes(result.data, result.fileName, 'application/zip')
+
+      const details = [
+        ...result.missingArtifacts.map(name => `${name}: not built yet`),
+        ...result.errors,
+        ...result.warnings
+      ]
+      const hint = result.missingArtifacts.length > 0 ? ' Build the project to include the missing blocks.' : ''
+      showNotification(
+        details.length > 0 ? 'warning' : 'success',
+        'Source Exported',
+        `Exported ${result.assemblyCount} assembly files and ${result.binaryCount} binary files to ${result.fileName}.${hint}`,
+        details.length > 0 ? details : undefined
+      )
+    } catch (error) {
+      console.error('Source export failed:', error)
+      showNotification(
+        'error',
+        'Export Failed',
+        'The source tree could not be exported.',
+        [error instanceof Error ? error.message : 'An unknown error occurred']
+      )
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleCancelBuild = () => {
+    const orchestrator = buildOrchestratorRef.current
+    if (!orchestrator) return
+
+    if (orchestrator.cancel()) {
+      setIsCancellingBuild(true)
+    }
+  }
+
+  const handleDownloadPatch = async (format: PatchFormat) => {
+    if (!builtRom || !project) return
+
+    setIsCreatingPatch(true)
+    try {
+      const baseRom = project.gameRomBranchId ? await romCacheDB.getRom(project.gameRomBranchId) : null
+      if (!baseRom) {
+        showNotification(
+          'error',
+          'Base ROM Not Available',
+          'The base ROM for this project is not cached. Run the build again and select your ROM file so it can be saved.'
+        )
+        return
+      }
+
+      const patch = createPatch(format, baseRom.data, builtRom.data)
+      const fileName = `${builtRom.fileName.replace(/\.sfc$/i, '')}.${format}`
+      downloadBytes(patch, fileName)
+
+      // Patches against a modified or bad dump still work, but only on that dump
+      const sourceWarning = checkPatchSource(baseRom.data)
+      if (sourceWarning) {
+        showNotification(
+          'warning',
+          'Base ROM Not Verified',
+          `The patch was created, but it only applies to this exact ROM. ${sourceWarning}`
+        )
+      }
+    } catch (error) {
+      console.error(`Failed to create ${format.toUpperCase()} patch:`, error)
+      showNotification(
+        'error',
+        'Patch Creation Failed',
+        error instanceof Error ? error.message : 'An unknown error occurred while creating the patch.'
+      )
+    } finally {
+      setIsCreatingPatch(false)
+    }
+  }
+
   const handleRomPathCancel = () => {
     setShowRomPathModal(false)
   }
 
   // Artifact viewing functionality
-  const handleViewArtifact = useCallback((block: Block) => {
+  const handleViewArtifact = useCallback((block: Block, line?: number) => {
     try {
-      openPanel(block)
+      openPanel(block, line)
     } catch (error) {
       console.error('Error opening artifact panel:', error)
       showNotification(
@@ -1783,6 +1953,22 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
     }
   }, [openPanel, showNotification])
 
+  // Jump to the block a diagnostic refers to, and open its artifact at the reported line
+  const handleDiagnosticSelect = useCallback((diagnostic: BuildDiagnostic) => {
+    const block = blocksWithAddresses.find(x => x.id === diagnostic.blockId) ??
+      blocksWithAddresses.find(x => x.name === diagnostic.blockName)
+    if (!block) return
+
+    if (block.startAddress !== undefined) {
+      setCurrentBank((block.startAddress & 0xFF0000) >> 16)
+    }
+    setHighlightedBlockId(block.id)
+
+    if (diagnostic.line !== undefined) {
+      handleViewArtifact(block, diagnostic.line)
+    }
+  }, [blocksWithAddresses, handleViewArtifact])
+
   // Enhanced columns with expand functionality
   // const enhancedColumns = useMemo(() => {
   //   return columns.map(col => {
@@ -1879,6 +2065,18 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
             )}
           </div>
 
+          {/* Diagnostics Toggle */}
+          {buildDiagnostics && (
+            <button
+              onClick={() => setShowDiagnostics(prev => !prev)}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+              title="Show diagnostics from the latest build"
+            >
+              <ListChecks className="h-4 w-4 mr-2" />
+              Diagnostics ({buildDiagnostics.items.length})
+            </button>
+          )}
+
           {/* Build Button */}
           {project && (
             <button
@@ -1894,18 +2092,81 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
           {/* Build Button */}
           {project && (
             <button
-              onClick={handleBuildProject}
+              onClick={() => handleBuildProject('asm')}
               disabled={isBuilding || blocksWithAddresses.length === 0}
               className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-green-600 hover:bg-green-700 disabled:opacity-50 disabled:cursor-not-allowed"
               title="Build project and generate assembly code"
             >
               <Hammer className="h-4 w-4 mr-2" />
-              {isBuilding ? 'Building...' : 'Build'}
+              {isBuilding && buildMode === 'asm' ? 'Building...' : 'Build'}
+            </button>
+          )}
+
+          {/* Build ROM Button */}
+          {project && (
+            <button
+              onClick={() => handleBuildProject('rom')}
+              disabled={isBuilding || blocksWithAddresses.length === 0}
+              className="inline-flex items-center px-3 py-2 border border-transparent text-sm font-medium rounded-md text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Build project and rebuild a patched ROM image"
+            >
+              <HardDrive className="h-4 w-4 mr-2" />
+              {isBuilding && buildMode === 'rom' ? 'Building...' : 'Build ROM'}
             </button>
           )}
+
+          {/* Export Source Button */}
+          {project && (
+            <button
+              onClick={handleExportSource}
+              disabled={isBuilding || isExporting}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Download the generated assembly and extracted files as a ZIP source tree"
+            >
+              <FileArchive className="h-4 w-4 mr-2" />
+              {isExporting ? 'Exporting...' : 'Export Source'}
+            </button>
+          )}
+
+          {/* Download ROM Button */}
+          {builtRom && (
+            <button
+              onClick={() => downloadBytes(builtRom.data, builtRom.fileName)}
+              disabled={isBuilding}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={`Download ${builtRom.fileName}`}
+            >
+              <Download className="h-4 w-4 mr-2" />
+              Download ROM
+            </button>
+          )}
+
+          {/* Download Patch Buttons */}
+          {builtRom && (['ips', 'bps'] as PatchFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownloadPatch(format)}
+              disabled={isBuilding || isCreatingPatch}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              title={`Download an ${format.toUpperCase()} patch against the cached base ROM`}
+            >
+              <FileDiff className="h-4 w-4 mr-2" />
+              {format.toUpperCase()} Patch
+            </button>
+          ))}
         </div>
       </div>
 
+      {/* Build Diagnostics */}
+      {showDiagnostics && buildDiagnostics && (
+        <BuildDiagnosticsPanel
+          diagnostics={buildDiagnostics.items}
+          builtAt={buildDiagnostics.builtAt}
+          onSelect={handleDiagnosticSelect}
+          onClose={() => setShowDiagnostics(false)}
+        />
+      )}
+
       {/* Enhanced Data Grid with Inline Editing */}
       <div className="bg-white shadow-sm rounded-lg border overflow-hidden">
         <div className="overflow-x-auto">
@@ -1961,10 +2222,12 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
                   return (
                     <tr
                       key={row.id}
+                      data-row-id={row.id}
                       className={clsx(
                         index % 2 === 0 ? 'bg-white' : 'bg-gray-50',
                         isDirty && 'bg-yellow-50 border-l-4 border-yellow-400',
-                        isPart && 'bg-blue-50/30'
+                        isPart && 'bg-blue-50/30',
+                        row.id === highlightedBlockId && 'ring-2 ring-inset ring-blue-400'
                       )}
                     >
                     {/* Expand/Collapse Column */}
@@ -2124,8 +2387,12 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
         isOpen={showRomPathModal}
         onClose={handleRomPathCancel}
         onConfirm={handleRomFileConfirm}
-        title="Build Project"
-        description="To build the project and generate assembly code, please select your ROM file."
+        title={romAction === 'export' ? 'Export Source' : buildMode === 'rom' ? 'Build ROM' : 'Build Project'}
+        description={romAction === 'export'
+          ? 'To extract the project files into the source tree, please select your ROM file.'
+          : buildMode === 'rom'
+            ? 'To rebuild a patched ROM image from the project, please select your base ROM file.'
+            : 'To build the project and generate assembly code, please select your ROM file.'}
         baseRomId={project?.gameRomBranchId}
       />
 
@@ -2163,7 +2430,21 @@ export default function BlocksDataTable({ projectId, project, onBuildComplete }:
             </div>
 
             <div className="text-xs text-gray-500">
-              Please wait while we analyze your ROM and generate assembly code...
+              {buildMode === 'rom'
+                ? 'Please wait while we analyze your ROM, generate assembly code and write the new ROM image...'
+                : 'Please wait while we analyze your ROM and generate assembly code...'}
+            </div>
+
+            <div className="mt-4 flex justify-end">
+              <button
+                onClick={handleCancelBuild}
+                disabled={isCancellingBuild || buildProgress.progress >= buildProgress.total}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                title="Stop the build without saving any artifacts"
+              >
+                <X className="h-4 w-4 mr-2" />
+                {isCancellingBuild ? 'Cancelling...' : 'Cancel Build'}
+              </button>
             </div>
           </div>
         </div>
@@ -0,0 +1,138 @@
+import { useMemo, useState } from 'react'
+import { AlertCircle, AlertTriangle, Info, Search, X } from 'lucide-react'
+import clsx from 'clsx'
+import type { BuildDiagnostic, BuildDiagnosticSeverity } from '../lib/build-orchestrator'
+
+interface BuildDiagnosticsPanelProps {
+  diagnostics: BuildDiagnostic[]
+  builtAt?: Date | string | null
+  onSelect: (diagnostic: BuildDiagnostic) => void
+  onClose: () => void
+}
+
+const SEVERITIES: Array<{ key: BuildDiagnosticSeverity; label: string; icon: typeof AlertCircle; className: string }> = [
+  { key: 'error', label: 'Errors', icon: AlertCircle, className: 'text-red-600' },
+  { key: 'warning', label: 'Warnings', icon: AlertTriangle, className: 'text-yellow-600' },
+  { key: 'info', label: 'Info', icon: Info, className: 'text-blue-600' }
+]
+
+export default function BuildDiagnosticsPanel({ diagnostics, builtAt, onSelect, onClose }: BuildDiagnosticsPanelProps) {
+  const [enabled, setEnabled] = useState<Set<BuildDiagnosticSeverity>>(new Set(['error', 'warning', 'info']))
+  const [search, setSearch] = useState('')
+
+  const counts = useMemo(() => {
+    const result: Record<BuildDiagnosticSeverity, number> = { error: 0, warning: 0, info: 0 }
+    diagnostics.forEach(diagnostic => {
+      result[diagnostic.severity]++
+    })
+    return result
+  }, [diagnostics])
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    return diagnostics.filter(diagnostic => {
+      if (!enabled.has(diagnostic.severity)) return false
+      if (!term) return true
+      return diagnostic.message.toLowerCase().includes(term) ||
+        (diagnostic.blockName?.toLowerCase().includes(term) ?? false)
+    })
+  }, [diagnostics, enabled, search])
+
+  const toggleSeverity = (severity: BuildDiagnosticSeverity) => {
+    setEnabled(prev => {
+      const next = new Set(prev)
+      if (next.has(severity)) {
+        next.delete(severity)
+      } else {
+        next.add(severity)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="border rounded-lg bg-white">
+      {/* Header and filters */}
+      <div className="flex flex-wrap items-center justify-between gap-2 px-4 py-2 border-b bg-gray-50 rounded-t-lg">
+        <div className="flex items-center space-x-2">
+          <span className="text-sm font-medium text-gray-700">Build Diagnostics</span>
+          {builtAt && (
+            <span className="text-xs text-gray-500">{new Date(builtAt).toLocaleString()}</span>
+          )}
+        </div>
+
+        <div className="flex items-center space-x-2">
+          {SEVERITIES.map(severity => (
+            <button
+              key={severity.key}
+              onClick={() => toggleSeverity(severity.key)}
+              className={clsx(
+                'inline-flex items-center px-2 py-1 text-xs rounded-md border',
+                enabled.has(severity.key) ? 'bg-white border-gray-300' : 'bg-gray-100 border-transparent opacity-50'
+              )}
+              title={`Show ${severity.label.toLowerCase()}`}
+            >
+              <severity.icon className={clsx('h-3 w-3 mr-1', severity.className)} />
+              {counts[severity.key]} {severity.label}
+            </button>
+          ))}
+
+          <div className="relative">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-3 w-3 text-gray-400" />
+            <input
+              type="text"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+              placeholder="Filter..."
+              className="pl-6 pr-2 py-1 text-xs border border-gray-300 rounded-md w-40"
+            />
+          </div>
+
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-400 hover:text-gray-600 rounded"
+            title="Hide diagnostics"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      <div className="max-h-60 overflow-auto divide-y divide-gray-100">
+        {filtered.length === 0 ? (
+          <div className="px-4 py-3 text-sm text-gray-500">
+            {diagnostics.length === 0 ? 'The last build reported no diagnostics.' : 'No diagnostics match the current filter.'}
+          </div>
+        ) : (
+          filtered.map((diagnostic, index) => {
+            const severity = SEVERITIES.find(x => x.key === diagnostic.severity) ?? SEVERITIES[2]
+            const canNavigate = Boolean(diagnostic.blockId || diagnostic.blockName)
+
+            return (
+              <button
+                key={index}
+                onClick={() => onSelect(diagnostic)}
+                disabled={!canNavigate}
+                className="w-full flex items-start px-4 py-2 text-left text-sm hover:bg-gray-50 disabled:hover:bg-white disabled:cursor-default"
+                title={canNavigate ? 'Go to block' : undefined}
+              >
+                <severity.icon className={clsx('h-4 w-4 mr-2 mt-0.5 flex-shrink-0', severity.className)} />
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-x-2 text-xs text-gray-500">
+                    {diagnostic.blockName && <span className="font-medium text-gray-700">{diagnostic.blockName}</span>}
+                    {diagnostic.address !== undefined && (
+                      <span className="font-mono">0x{diagnostic.address.toString(16).toUpperCase().padStart(6, '0')}</span>
+                    )}
+                    {diagnostic.line !== undefined && <span>line {diagnostic.line}</span>}
+                  </div>
+                  <div className="text-gray-900 break-words">{diagnostic.message}</div>
+                </div>
+              </button>
+            )
+          })
+        )}
+      </div>
+    </div>
+  )
+}
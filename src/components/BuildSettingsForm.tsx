@@ -0,0 +1,354 @@
+import { useEffect, useState } from 'react'
+import { Plus, RotateCcw, Save, Trash2 } from 'lucide-react'
+import '@gaialabs/core' // Registers the built-in compression providers
+import { CompressionRegistry } from '@gaialabs/shared'
+import type { ScribeProject, Vector } from '@prisma/client'
+import { db } from '../services/supabase'
+import { useAuthStore } from '../stores/auth-store'
+import { getBuildSettings, getDefaultEntryPoints, withBuildSettings, type BuildEntryPoint } from '../lib/build-settings'
+import { ASM_DIALECTS, type AsmDialect } from '../lib/asm-dialects'
+
+interface BuildSettingsFormProps {
+  project: ScribeProject
+  canEdit: boolean
+  onSaved?: (project: ScribeProject) => void
+}
+
+interface EntryPointRow {
+  name: string
+  address: string
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-50'
+
+function toHex(value: number): string {
+  return value.toString(16).toUpperCase()
+}
+
+function parseHex(value: string): number | null {
+  const trimmed = value.trim().replace(/^(0x|\$)/i, '')
+  if (!/^[0-9a-f]+$/i.test(trimmed)) return null
+  return parseInt(trimmed, 16)
+}
+
+function toRows(entryPoints: BuildEntryPoint[]): EntryPointRow[] {
+  return entryPoints.map(entryPoint => ({ name: entryPoint.name, address: toHex(entryPoint.address) }))
+}
+
+export default function BuildSettingsForm({ project, canEdit, onSaved }: BuildSettingsFormProps) {
+  const { user } = useAuthStore()
+  const [compression, setCompression] = useState('')
+  const [sfxLocation, setSfxLocation] = useState('')
+  const [sfxCount, setSfxCount] = useState('')
+  const [accentMap, setAccentMap] = useState('')
+  const [entryPoints, setEntryPoints] = useState<EntryPointRow[] | null>(null)
+  const [dialect, setDialect] = useState<AsmDialect>('gaia')
+  const [vectors, setVectors] = useState<Vector[]>([])
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const compressionIds = CompressionRegistry.getRegisteredIds()
+  const platformEntryPoints = getDefaultEntryPoints(vectors)
+
+  // Initialize form from the stored settings
+  useEffect(() => {
+    const settings = getBuildSettings(project.meta)
+    setCompression(settings.compression)
+    setSfxLocation(toHex(settings.sfxLocation))
+    setSfxCount(settings.sfxCount.toString())
+    setAccentMap(settings.accentMap.join('\n'))
+    setEntryPoints(settings.entryPoints ? toRows(settings.entryPoints) : null)
+    setDialect(settings.dialect)
+    setError(null)
+  }, [project])
+
+  // Platform vectors supply the default entry points
+  useEffect(() => {
+    const loadVectors = async () => {
+      const { data, error } = await db.vectors.getByPlatform(project.platformId)
+      if (error) {
+        console.error('Error loading platform vectors:', error)
+        return
+      }
+      setVectors((data || []) as Vector[])
+    }
+
+    loadVectors()
+  }, [project.platformId])
+
+  const updateEntryPoint = (index: number, updates: Partial<EntryPointRow>) => {
+    setEntryPoints(prev => prev && prev.map((row, i) => (i === index ? { ...row, ...updates } : row)))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user?.id) return
+
+    const location = parseHex(sfxLocation)
+    if (location === null) {
+      setError('SFX table location must be a hexadecimal address')
+      return
+    }
+    const count = parseInt(sfxCount, 10)
+    if (isNaN(count) || count < 0) {
+      setError('SFX count must be a non-negative number')
+      return
+    }
+
+    let parsedEntryPoints: BuildEntryPoint[] | null = null
+    if (entryPoints) {
+      parsedEntryPoints = []
+      for (const row of entryPoints) {
+        const address = parseHex(row.address)
+        if (!row.name.trim() || address === null) {
+          setError('Each entry point needs a label and a hexadecimal vector address')
+          return
+        }
+        parsedEntryPoints.push({ name: row.name.trim(), address })
+      }
+    }
+
+    setSaving(true)
+    setError(null)
+    setSaved(false)
+
+    try {
+      const meta = withBuildSettings(project.meta, {
+        compression,
+        sfxLocation: location,
+        sfxCount: count,
+        accentMap: accentMap.split('\n').map(x => x.trim()).filter(Boolean),
+        entryPoints: parsedEntryPoints,
+        dialect
+      })
+
+      const { data, error } = await db.projects.update(project.id, { meta }, user.id)
+      if (error) {
+        setError(`Failed to save build settings: ${error.message}`)
+        return
+      }
+
+      if (data) {
+        setSaved(true)
+        onSaved?.(data)
+      }
+    } catch (err) {
+      console.error('Error saving build settings:', err)
+      setError('Failed to save build settings. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const disabled = !canEdit || saving
+
+  return (
+    <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-6">
+      {/* Compression */}
+      <div>
+        <label htmlFor="build-compression" className="block text-sm font-medium text-gray-700 mb-2">
+          Compression
+        </label>
+        <select
+          id="build-compression"
+          value={compression}
+          onChange={(e) => setCompression(e.target.value)}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {!compressionIds.includes(compression) && (
+            <option value={compression}>{compression} (not available)</option>
+          )}
+          {compressionIds.map(id => (
+            <option key={id} value={id}>{id}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">Used to decompress and recompress compressed files.</p>
+      </div>
+
+      {/* Export dialect */}
+      <div>
+        <label htmlFor="build-dialect" className="block text-sm font-medium text-gray-700 mb-2">
+          Export Dialect
+        </label>
+        <select
+          id="build-dialect"
+          value={dialect}
+          onChange={(e) => setDialect(e.target.value as AsmDialect)}
+          className={inputClass}
+          disabled={disabled}
+        >
+          {ASM_DIALECTS.map(option => (
+            <option key={option.id} value={option.id}>{option.name} - {option.description}</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">Assembler syntax of the exported source tree. Builds and stored artifacts always use GaiaLabs syntax.</p>
+      </div>
+
+      {/* Sound effects */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="build-sfx-location" className="block text-sm font-medium text-gray-700 mb-2">
+            SFX Table Location
+          </label>
+          <div className="flex items-center">
+            <span className="mr-2 text-sm text-gray-500 font-mono">0x</span>
+            <input
+              id="build-sfx-location"
+              type="text"
+              value={sfxLocation}
+              onChange={(e) => setSfxLocation(e.target.value)}
+              className={`${inputClass} font-mono`}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="build-sfx-count" className="block text-sm font-medium text-gray-700 mb-2">
+            SFX Count
+          </label>
+          <input
+            id="build-sfx-count"
+            type="number"
+            min={0}
+            value={sfxCount}
+            onChange={(e) => setSfxCount(e.target.value)}
+            className={inputClass}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+
+      {/* Accent map */}
+      <div>
+        <label htmlFor="build-accent-map" className="block text-sm font-medium text-gray-700 mb-2">
+          Accent Map
+        </label>
+        <textarea
+          id="build-accent-map"
+          value={accentMap}
+          onChange={(e) => setAccentMap(e.target.value)}
+          rows={4}
+          placeholder="One entry per line"
+          className={`${inputClass} font-mono text-sm`}
+          disabled={disabled}
+        />
+      </div>
+
+      {/* Entry points */}
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <span className="block text-sm font-medium text-gray-700">Entry Points</span>
+          {canEdit && (
+            entryPoints ? (
+              <button
+                type="button"
+                onClick={() => setEntryPoints(null)}
+                disabled={saving}
+                className="inline-flex items-center px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Reset to Platform Defaults
+              </button>
+            ) : (
+              <button
+                type="button"
+                onClick={() => setEntryPoints(toRows(platformEntryPoints))}
+                disabled={saving}
+                className="inline-flex items-center px-2 py-1 text-xs text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+              >
+                Customize
+              </button>
+            )
+          )}
+        </div>
+
+        {entryPoints ? (
+          <div className="space-y-2">
+            {entryPoints.map((row, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={(e) => updateEntryPoint(index, { name: e.target.value })}
+                  placeholder="Label"
+                  className={`${inputClass} font-mono`}
+                  disabled={disabled}
+                />
+                <span className="text-sm text-gray-500 font-mono">0x</span>
+                <input
+                  type="text"
+                  value={row.address}
+                  onChange={(e) => updateEntryPoint(index, { address: e.target.value })}
+                  placeholder="FFEA"
+                  className={`${inputClass} font-mono w-32`}
+                  disabled={disabled}
+                />
+                {canEdit && (
+                  <button
+                    type="button"
+                    onClick={() => setEntryPoints(prev => prev && prev.filter((_, i) => i !== index))}
+                    disabled={saving}
+                    className="p-2 text-gray-400 hover:text-red-600 rounded"
+                    title="Remove entry point"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+            {canEdit && (
+              <button
+                type="button"
+                onClick={() => setEntryPoints(prev => [...(prev || []), { name: '', address: '' }])}
+                disabled={saving}
+                className="inline-flex items-center px-2 py-1 text-xs text-blue-600 hover:text-blue-800"
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Entry Point
+              </button>
+            )}
+          </div>
+        ) : (
+          <div className="border border-gray-200 rounded-md divide-y divide-gray-100">
+            {platformEntryPoints.length === 0 ? (
+              <div className="px-3 py-2 text-sm text-gray-500">
+                The platform defines no entry point vectors.
+              </div>
+            ) : (
+              platformEntryPoints.map(entryPoint => (
+                <div key={entryPoint.address} className="flex items-center justify-between px-3 py-2 text-sm">
+                  <span className="font-mono text-gray-900">{entryPoint.name}</span>
+                  <span className="font-mono text-gray-500">0x{toHex(entryPoint.address).padStart(4, '0')}</span>
+                </div>
+              ))
+            )}
+            <div className="px-3 py-2 text-xs text-gray-500">Using the platform&apos;s entry point vectors.</div>
+          </div>
+        )}
+      </div>
+
+      {/* Error Message */}
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+          {error}
+        </div>
+      )}
+
+      {canEdit && (
+        <div className="flex items-center justify-end space-x-3">
+          {saved && <span className="text-sm text-green-700">Settings saved</span>}
+          <button
+            type="submit"
+            disabled={saving}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Settings'}
+          </button>
+        </div>
+      )}
+    </form>
+  )
+}
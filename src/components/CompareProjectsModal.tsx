@@ -0,0 +1,252 @@
+import { useEffect, useState } from 'react'
+import { ArrowRight, ArrowLeftRight } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import Modal from './Modal'
+import ProjectChangesList from './ProjectChangesList'
+import { canEditProject } from '../lib/permissions'
+import { cherryPickChanges, compareProjects, getComparableProjects, type ProjectComparison } from '../lib/project-compare'
+
+interface CompareProjectsModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ScribeProject
+  canEdit: boolean
+}
+
+export default function CompareProjectsModal({
+  isOpen,
+  onClose,
+  project,
+  canEdit,
+}: CompareProjectsModalProps) {
+  const { user } = useAuthStore()
+  const [projects, setProjects] = useState<ScribeProject[]>([])
+  const [otherId, setOtherId] = useState('')
+  const [canEditOther, setCanEditOther] = useState(false)
+  // When set, changes flow from this project into the other one
+  const [intoOther, setIntoOther] = useState(false)
+  const [comparison, setComparison] = useState<ProjectComparison | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [skipped, setSkipped] = useState<string[]>([])
+  const [applied, setApplied] = useState<number | null>(null)
+
+  // Projects on the same GameRomBranch
+  useEffect(() => {
+    if (!isOpen) return
+
+    const loadProjects = async () => {
+      setError(null)
+      try {
+        setProjects(await getComparableProjects(project))
+      } catch (err) {
+        console.error('Error loading projects:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load projects')
+      }
+    }
+
+    loadProjects()
+  }, [isOpen, project])
+
+  const other = projects.find(x => x.id === otherId) ?? null
+
+  useEffect(() => {
+    setCanEditOther(false)
+    setIntoOther(false)
+    if (!otherId) return
+
+    let isMounted = true
+    canEditProject(otherId).then(permission => {
+      if (isMounted) setCanEditOther(permission.allowed)
+    })
+    return () => {
+      isMounted = false
+    }
+  }, [otherId])
+
+  // Compare whenever the pair or the direction changes
+  useEffect(() => {
+    setComparison(null)
+    setSelected(new Set())
+    setSkipped([])
+    setApplied(null)
+    if (!isOpen || !other) return
+
+    let isMounted = true
+    const loadComparison = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const result = intoOther ? await compareProjects(other, project) : await compareProjects(project, other)
+        if (isMounted) setComparison(result)
+      } catch (err) {
+        console.error('Error comparing projects:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to compare projects')
+      } finally {
+        if (isMounted) setLoading(false)
+      }
+    }
+
+    loadComparison()
+    return () => {
+      isMounted = false
+    }
+  }, [isOpen, project, other, intoOther])
+
+  const handleApply = async () => {
+    if (!user?.id || !comparison) return
+
+    setApplying(true)
+    setError(null)
+
+    try {
+      const changes = comparison.diff.changes.filter(change => selected.has(change.id))
+      const result = await cherryPickChanges(comparison, changes, user.id)
+      setApplied(result.applied)
+      setSkipped(result.skipped)
+
+      // Refresh so the list reflects the target after the cherry-pick
+      const refreshed = await compareProjects(comparison.target, comparison.source)
+      setComparison(refreshed)
+      setSelected(new Set())
+    } catch (err) {
+      console.error('Error applying changes:', err)
+      setError(err instanceof Error ? err.message : 'Failed to apply changes')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const changes = comparison?.diff.changes ?? []
+  const canApply = intoOther ? canEditOther : canEdit
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Compare Projects"
+      className="max-w-4xl"
+    >
+      <div className="p-6 space-y-4">
+        {!project.gameRomBranchId ? (
+          <div className="text-sm text-gray-600">
+            This project was not imported from a GameRomBranch, so there is nothing to line it up against.
+          </div>
+        ) : (
+          <div className="flex items-end space-x-3">
+            <div className="flex-1">
+              <label htmlFor="compare-project" className="block text-sm font-medium text-gray-700 mb-2">
+                Compare with
+              </label>
+              <select
+                id="compare-project"
+                value={otherId}
+                onChange={(e) => setOtherId(e.target.value)}
+                disabled={applying}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+              >
+                <option value="">
+                  {projects.length === 0 ? 'No other projects use this GameRomBranch' : 'Select a project...'}
+                </option>
+                {projects.map(x => (
+                  <option key={x.id} value={x.id}>{x.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="button"
+              onClick={() => setIntoOther(!intoOther)}
+              disabled={!other || applying || loading}
+              className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+              title="Swap which project receives the changes"
+            >
+              <ArrowLeftRight className="h-4 w-4 mr-2" />
+              Swap
+            </button>
+          </div>
+        )}
+
+        {comparison && (
+          <div className="flex items-center text-sm text-gray-700">
+            <span className="font-medium">{comparison.source.name}</span>
+            <ArrowRight className="h-4 w-4 mx-2 text-gray-400" />
+            <span className="font-medium">{comparison.target.name}</span>
+            {!canApply && (
+              <span className="ml-3 text-xs text-gray-500">Read only: you cannot edit {comparison.target.name}</span>
+            )}
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Comparing projects...</span>
+          </div>
+        )}
+
+        {comparison && (
+          <>
+            <p className="text-sm text-gray-600">
+              {changes.length} difference{changes.length === 1 ? '' : 's'}.
+              {canApply && ' Checked rows are copied from the source into the target.'}
+            </p>
+            <div className="max-h-96 overflow-y-auto">
+              <ProjectChangesList
+                changes={changes}
+                selected={canApply ? selected : undefined}
+                onSelectedChange={canApply ? setSelected : undefined}
+                localLabel="Target"
+                incomingLabel="Source"
+                disabled={applying}
+              />
+            </div>
+          </>
+        )}
+
+        {applied !== null && (
+          <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-700 text-sm">
+            Applied {applied} change{applied === 1 ? '' : 's'}.
+          </div>
+        )}
+
+        {skipped.length > 0 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm">
+            <div className="font-medium mb-1">Some changes were not applied:</div>
+            <ul className="list-disc list-inside space-y-0.5">
+              {skipped.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Close
+          </button>
+          {canApply && (
+            <button
+              onClick={handleApply}
+              disabled={!comparison || applying || selected.size === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {applying ? 'Applying...' : `Apply ${selected.size} Change${selected.size === 1 ? '' : 's'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -4,13 +4,27 @@ import DataTable, { type DataTableProps } from './DataTable'
 import type { File as PrismaFile, ScribeProject } from '@prisma/client'
 import RomPathModal from './RomPathModal'
 import GraphicsViewerModal from './GraphicsViewerModal'
-import { extractAndConvertGraphics } from '../lib/graphics-extractor'
+import PaletteViewerModal from './PaletteViewerModal'
+import SceneViewerModal from './SceneViewerModal'
+import { extractFileData, extractPaletteColors } from '../lib/graphics-extractor'
+import type { PaletteColor } from '../lib/palette-decoder'
 
 interface FilesDataTableProps extends Omit<DataTableProps<PrismaFile>, 'data'> {
   data: PrismaFile[]
   project?: ScribeProject // Optional project for BaseRomID access
 }
 
+/** File types that may hold tile graphics */
+const GRAPHICS_FILE_TYPES = new Set(['Bitmap', 'Unknown'])
+
+const PALETTE_FILE_TYPE = 'Palette'
+const TILEMAP_FILE_TYPE = 'Tilemap'
+
+function isGraphicsFile(file: PrismaFile): boolean {
+  const meta = file.meta as Record<string, any> | null
+  return GRAPHICS_FILE_TYPES.has(file.type) || !!meta?.graphics
+}
+
 export default function FilesDataTable({ data, project, ...props }: FilesDataTableProps) {
   const [currentBank, setCurrentBank] = useState<number>(0)
 
@@ -18,7 +32,11 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
   const [showRomPathModal, setShowRomPathModal] = useState(false)
   const [showGraphicsViewer, setShowGraphicsViewer] = useState(false)
   const [selectedFile, setSelectedFile] = useState<PrismaFile | null>(null)
-  const [graphicsImageData, setGraphicsImageData] = useState<ImageData | null>(null)
+  const [graphicsData, setGraphicsData] = useState<Uint8Array | null>(null)
+  const [romData, setRomData] = useState<Uint8Array | null>(null)
+  const [showPaletteViewer, setShowPaletteViewer] = useState(false)
+  const [paletteColors, setPaletteColors] = useState<PaletteColor[] | null>(null)
+  const [showSceneViewer, setShowSceneViewer] = useState(false)
   const [isExtracting, setIsExtracting] = useState(false)
   const [extractionError, setExtractionError] = useState<string | null>(null)
 
@@ -95,6 +113,13 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
     setShowRomPathModal(true)
   }, [])
 
+  // Palette files graphics can be drawn with
+  const paletteFiles = useMemo(() => {
+    return data
+      .filter(file => file.type === PALETTE_FILE_TYPE)
+      .sort((a, b) => a.name.localeCompare(b.name))
+  }, [data])
+
   // Handle ROM selection and graphics extraction
   const handleRomConfirm = useCallback(async (_romFile: File, romData: Uint8Array) => {
     if (!selectedFile) return
@@ -103,10 +128,26 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
     setExtractionError(null)
 
     try {
-      // Extract and convert graphics
-      const imageData = await extractAndConvertGraphics(romData, selectedFile)
+      setRomData(romData)
+
+      // Tilemaps are composed with their scene's graphics and palette
+      if (selectedFile.type === TILEMAP_FILE_TYPE) {
+        setShowRomPathModal(false)
+        setShowSceneViewer(true)
+        return
+      }
 
-      setGraphicsImageData(imageData)
+      if (selectedFile.type === PALETTE_FILE_TYPE) {
+        setPaletteColors(await extractPaletteColors(romData, selectedFile))
+        setShowRomPathModal(false)
+        setShowPaletteViewer(true)
+        return
+      }
+
+      // Extract the file; the viewer decodes it in the chosen tile format
+      const fileData = await extractFileData(romData, selectedFile, 'QuintetLZ')
+
+      setGraphicsData(fileData)
       setShowRomPathModal(false)
       setShowGraphicsViewer(true)
     } catch (error) {
@@ -120,10 +161,28 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
   // Handle graphics viewer close
   const handleGraphicsViewerClose = useCallback(() => {
     setShowGraphicsViewer(false)
-    setGraphicsImageData(null)
+    setGraphicsData(null)
+    setSelectedFile(null)
+  }, [])
+
+  const handleSceneViewerClose = useCallback(() => {
+    setShowSceneViewer(false)
     setSelectedFile(null)
   }, [])
 
+  const handlePaletteViewerClose = useCallback(() => {
+    setShowPaletteViewer(false)
+    setPaletteColors(null)
+    setSelectedFile(null)
+  }, [])
+
+  // Keep the viewer and the table in sync with saved graphics settings
+  const { onRefresh } = props
+  const handleFileUpdated = useCallback((file: PrismaFile) => {
+    setSelectedFile(file)
+    onRefresh?.()
+  }, [onRefresh])
+
   // Enhanced columns with actions for Graphics files
   const enhancedColumns = useMemo(() => {
     return props.columns?.map(col => {
@@ -131,13 +190,13 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
         return {
           ...col,
           render: (_value: any, row: PrismaFile) => {
-            // Only show Eye icon for Graphics type files
-            if (row.type === 'Bitmap') {
+            // Only show Eye icon for files that may hold tile graphics, colors or maps
+            if (isGraphicsFile(row) || row.type === PALETTE_FILE_TYPE || row.type === TILEMAP_FILE_TYPE) {
               return (
                 <button
                   onClick={() => handleViewGraphics(row)}
                   className="p-1 hover:bg-gray-100 rounded text-blue-600 hover:text-blue-900"
-                  title="View Graphics"
+                  title={row.type === PALETTE_FILE_TYPE ? 'View Palette' : row.type === TILEMAP_FILE_TYPE ? 'View Scene' : 'View Graphics'}
                 >
                   <Eye className="h-4 w-4" />
                 </button>
@@ -194,7 +253,28 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
           isOpen={showGraphicsViewer}
           onClose={handleGraphicsViewerClose}
           file={selectedFile}
-          imageData={graphicsImageData}
+          data={graphicsData}
+          romData={romData}
+          paletteFiles={paletteFiles}
+          canEdit={!!props.onEdit}
+          onFileUpdated={handleFileUpdated}
+        />
+
+        {/* Palette Viewer Modal */}
+        <PaletteViewerModal
+          isOpen={showPaletteViewer}
+          onClose={handlePaletteViewerClose}
+          file={selectedFile}
+          colors={paletteColors}
+        />
+
+        {/* Scene Viewer Modal */}
+        <SceneViewerModal
+          isOpen={showSceneViewer}
+          onClose={handleSceneViewerClose}
+          file={selectedFile}
+          files={data}
+          romData={romData}
         />
 
         {/* Extraction Error Display */}
@@ -290,7 +370,28 @@ export default function FilesDataTable({ data, project, ...props }: FilesDataTab
         isOpen={showGraphicsViewer}
         onClose={handleGraphicsViewerClose}
         file={selectedFile}
-        imageData={graphicsImageData}
+        data={graphicsData}
+        romData={romData}
+        paletteFiles={paletteFiles}
+        canEdit={!!props.onEdit}
+        onFileUpdated={handleFileUpdated}
+      />
+
+      {/* Palette Viewer Modal */}
+      <PaletteViewerModal
+        isOpen={showPaletteViewer}
+        onClose={handlePaletteViewerClose}
+        file={selectedFile}
+        colors={paletteColors}
+      />
+
+      {/* Scene Viewer Modal */}
+      <SceneViewerModal
+        isOpen={showSceneViewer}
+        onClose={handleSceneViewerClose}
+        file={selectedFile}
+        files={data}
+        romData={romData}
       />
     </>
   )
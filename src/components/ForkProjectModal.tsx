@@ -0,0 +1,127 @@
+import { useEffect, useState } from 'react'
+import { GitFork } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import Modal from './Modal'
+import { forkProject, type ForkProgressCallback } from '../lib/project-fork'
+
+interface ForkProjectModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ScribeProject
+  onForked?: (project: ScribeProject) => void
+}
+
+export default function ForkProjectModal({
+  isOpen,
+  onClose,
+  project,
+  onForked,
+}: ForkProjectModalProps) {
+  const { user } = useAuthStore()
+  const [name, setName] = useState('')
+  const [forking, setForking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [progress, setProgress] = useState<{
+    step: string
+    progress: number
+    total: number
+  } | null>(null)
+
+  // Suggest a name each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return
+    setName(`${project.name} (Fork)`)
+    setError(null)
+  }, [isOpen, project])
+
+  const handleFork = async () => {
+    if (!user?.id || !name.trim()) return
+
+    setForking(true)
+    setError(null)
+    setProgress(null)
+
+    try {
+      const onProgress: ForkProgressCallback = (step, progress, total) => {
+        setProgress({ step, progress, total })
+      }
+
+      const forked = await forkProject(project, name.trim(), user.id, onProgress)
+      onForked?.(forked)
+      onClose()
+    } catch (err) {
+      console.error('Error forking project:', err)
+      setError(err instanceof Error ? err.message : 'Failed to fork project')
+    } finally {
+      setForking(false)
+      setProgress(null)
+    }
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Fork Project"
+      className="max-w-lg"
+    >
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          Creates a private copy of <span className="font-medium text-gray-900">{project.name}</span> that you own,
+          including its files, blocks, COPs, strings, structs, labels, rewrites, mnemonics and overrides.
+        </p>
+
+        <div>
+          <label htmlFor="fork-name" className="block text-sm font-medium text-gray-700 mb-2">
+            Project Name
+          </label>
+          <input
+            id="fork-name"
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            disabled={forking}
+            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+        </div>
+
+        {forking && progress && (
+          <div className="p-3 bg-blue-50 border border-blue-200 rounded-md">
+            <div className="text-sm text-blue-700 mb-2">{progress.step}</div>
+            <div className="w-full bg-blue-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                style={{ width: `${(progress.progress / progress.total) * 100}%` }}
+              ></div>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={forking}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleFork}
+            disabled={forking || !name.trim() || !user?.id}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <GitFork className="h-4 w-4 mr-2" />
+            {forking ? 'Forking...' : 'Fork Project'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
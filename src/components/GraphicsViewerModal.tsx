@@ -2,30 +2,115 @@
  * Graphics Viewer Modal Component
  * 
  * Displays extracted SNES graphics files as rendered images on a canvas.
- * Supports zoom, pan, and export functionality.
+ * Supports switching the tile format and layout, zoom, pan, and export, and
+ * importing an edited PNG back as a replacement payload for the file.
  */
 
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useMemo, useRef, useState } from 'react'
 import Modal from './Modal'
-import { Download, ZoomIn, ZoomOut, RotateCcw } from 'lucide-react'
+import { Download, ZoomIn, ZoomOut, RotateCcw, Save, Upload } from 'lucide-react'
 import type { File as PrismaFile } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import { db } from '../services/supabase'
+import { convertTilesToImageData, extractPaletteColors } from '../lib/graphics-extractor'
+import { getPaletteRowCount, getSubpalette, paletteToRgba, type PaletteColor } from '../lib/palette-decoder'
+import PaletteSwatches from './PaletteSwatches'
+import { encodeGraphicsFile, loadImageData, writeFilePayload, type GraphicsEncodeResult } from '../lib/graphics-encoder'
+import { createIpsPatch } from '../lib/patch-utils'
+import { downloadBytes, sanitizeFileName } from '../lib/download-utils'
+import { TILE_DECODERS, getGraphicsOptions, setGraphicsOptions, type GraphicsOptions, type TileFormat } from '../lib/tile-decoders'
 
 interface GraphicsViewerModalProps {
   isOpen: boolean
   onClose: () => void
   file: PrismaFile | null
-  imageData: ImageData | null
+  /** Extracted (decompressed) file data */
+  data: Uint8Array | null
+  /** ROM the file was extracted from, used to load palettes */
+  romData?: Uint8Array | null
+  /** Palette files the graphic can be drawn with */
+  paletteFiles?: PrismaFile[]
+  /** Allow saving the format, layout and palette to the file */
+  canEdit?: boolean
+  onFileUpdated?: (file: PrismaFile) => void
 }
 
 export default function GraphicsViewerModal({
   isOpen,
   onClose,
   file,
-  imageData
+  data,
+  romData = null,
+  paletteFiles = [],
+  canEdit = false,
+  onFileUpdated
 }: GraphicsViewerModalProps) {
+  const { user } = useAuthStore()
   const canvasRef = useRef<HTMLCanvasElement>(null)
   const [zoom, setZoom] = useState(2) // Default 2x zoom
   const [error, setError] = useState<string | null>(null)
+  const [options, setOptions] = useState<GraphicsOptions>(() => getGraphicsOptions(file?.meta))
+  const [saving, setSaving] = useState(false)
+  const [paletteColors, setPaletteColors] = useState<PaletteColor[] | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importResult, setImportResult] = useState<GraphicsEncodeResult | null>(null)
+
+  // Start from the file's stored settings
+  useEffect(() => {
+    setOptions(getGraphicsOptions(file?.meta))
+  }, [file])
+
+  const decoder = TILE_DECODERS[options.format]
+  const paletteFile = paletteFiles.find(x => x.name === options.palette) ?? null
+
+  // Load the chosen palette from the ROM
+  useEffect(() => {
+    setPaletteColors(null)
+    if (!romData || !paletteFile) return
+
+    let isMounted = true
+    extractPaletteColors(romData, paletteFile)
+      .then(colors => {
+        if (isMounted) setPaletteColors(colors)
+      })
+      .catch(err => {
+        console.error('Error loading palette:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load palette')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [romData, paletteFile])
+
+  const palette = useMemo(() => paletteColors ? paletteToRgba(paletteColors) : null, [paletteColors])
+  const paletteRows = palette ? getPaletteRowCount(palette, decoder.bitsPerPixel) : 0
+  const paletteRow = Math.min(options.paletteRow ?? 0, Math.max(0, paletteRows - 1))
+
+  const subpalette = useMemo(
+    () => palette ? getSubpalette(palette, decoder.bitsPerPixel, paletteRow) : undefined,
+    [palette, decoder, paletteRow]
+  )
+
+  const imageData = useMemo(() => {
+    if (!data) return null
+    try {
+      return convertTilesToImageData(data, options, subpalette)
+    } catch (err) {
+      console.error('Error decoding graphics:', err)
+      return null
+    }
+  }, [data, options, subpalette])
+
+  // An import report only applies to the format and palette it was encoded with
+  useEffect(() => {
+    setImportResult(null)
+  }, [file, options, subpalette])
+
+  const storedOptions = getGraphicsOptions(file?.meta)
+  const optionsChanged = storedOptions.format !== options.format
+    || storedOptions.tilesPerRow !== options.tilesPerRow
+    || storedOptions.palette !== options.palette
+    || storedOptions.paletteRow !== options.paletteRow
 
   // Render image data to canvas
   useEffect(() => {
@@ -65,6 +150,61 @@ export default function GraphicsViewerModal({
     setZoom(2)
   }
 
+  const handleSaveOptions = async () => {
+    if (!file || !user?.id) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { data: updated, error } = await db.files.update(file.id, { meta: setGraphicsOptions(file.meta, options) }, user.id)
+      if (error || !updated) throw new Error(error?.message || 'Failed to save graphics settings')
+      onFileUpdated?.(updated)
+    } catch (err) {
+      console.error('Error saving graphics settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save graphics settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const image = event.target.files?.[0]
+    event.target.value = ''
+    if (!image || !file || !data) return
+
+    setImporting(true)
+    setError(null)
+    setImportResult(null)
+
+    try {
+      const imported = await loadImageData(image)
+      setImportResult(encodeGraphicsFile(imported, file, options, data, subpalette))
+    } catch (err) {
+      console.error('Error importing image:', err)
+      setError(err instanceof Error ? err.message : 'Failed to import image')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const handleDownloadPayload = () => {
+    if (!file || !importResult) return
+    downloadBytes(importResult.payload, `${sanitizeFileName(file.name)}.bin`)
+  }
+
+  const handleDownloadPatch = () => {
+    if (!file || !importResult || !romData) return
+
+    try {
+      const patched = writeFilePayload(romData, file, importResult.payload)
+      downloadBytes(createIpsPatch(romData, patched), `${sanitizeFileName(file.name)}.ips`)
+    } catch (err) {
+      console.error('Error creating patch:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create patch')
+    }
+  }
+
   const handleExport = () => {
     if (!canvasRef.current) return
 
@@ -89,7 +229,7 @@ export default function GraphicsViewerModal({
     }
   }
 
-  if (!file || !imageData) {
+  if (!file || !data || !imageData) {
     return null
   }
 
@@ -123,6 +263,74 @@ export default function GraphicsViewerModal({
           {file.scene && <div><strong>Scene:</strong> {file.scene}</div>}
         </div>
 
+        {/* Tile Format */}
+        <div className="flex items-end space-x-3">
+          <div>
+            <label htmlFor="graphics-format" className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+            <select
+              id="graphics-format"
+              value={options.format}
+              onChange={(e) => setOptions({ ...options, format: e.target.value as TileFormat })}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {Object.values(TILE_DECODERS).map(x => (
+                <option key={x.format} value={x.format}>{x.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="graphics-tiles-per-row" className="block text-xs font-medium text-gray-700 mb-1">Tiles per row</label>
+            <input
+              id="graphics-tiles-per-row"
+              type="number"
+              min={1}
+              max={256}
+              value={options.tilesPerRow}
+              onChange={(e) => {
+                const tilesPerRow = parseInt(e.target.value)
+                if (tilesPerRow > 0 && tilesPerRow <= 256) setOptions({ ...options, tilesPerRow })
+              }}
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="graphics-palette" className="block text-xs font-medium text-gray-700 mb-1">Palette</label>
+            <select
+              id="graphics-palette"
+              value={options.palette ?? ''}
+              onChange={(e) => setOptions({ ...options, palette: e.target.value || null, paletteRow: 0 })}
+              disabled={!romData}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              <option value="">Grayscale</option>
+              {paletteFiles.map(x => (
+                <option key={x.id} value={x.name}>{x.name}</option>
+              ))}
+            </select>
+          </div>
+          {canEdit && optionsChanged && (
+            <button
+              onClick={handleSaveOptions}
+              disabled={saving || !user?.id}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+              title="Remember this format, layout and palette for the file"
+            >
+              <Save className="h-4 w-4 mr-1.5" />
+              {saving ? 'Saving...' : 'Save as Default'}
+            </button>
+          )}
+        </div>
+
+        {/* Palette rows; 8bpp graphics use the whole palette */}
+        {paletteColors && (
+          <PaletteSwatches
+            colors={paletteColors}
+            rowSize={decoder.bitsPerPixel < 8 ? 1 << decoder.bitsPerPixel : undefined}
+            selectedRow={decoder.bitsPerPixel < 8 ? paletteRow : undefined}
+            onRowSelect={(row) => setOptions({ ...options, paletteRow: row })}
+          />
+        )}
+
         {/* Toolbar */}
         <div className="flex items-center justify-between border-t border-b border-gray-200 py-2">
           <div className="flex items-center space-x-2">
@@ -152,15 +360,66 @@ export default function GraphicsViewerModal({
             </button>
           </div>
 
-          <button
-            onClick={handleExport}
-            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded"
-          >
-            <Download className="h-4 w-4 mr-1.5" />
-            Export PNG
-          </button>
+          <div className="flex items-center space-x-2">
+            <label
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded cursor-pointer"
+              title="Encode an edited PNG with the current format and palette"
+            >
+              <Upload className="h-4 w-4 mr-1.5" />
+              {importing ? 'Importing...' : 'Import PNG'}
+              <input type="file" accept="image/png" onChange={handleImport} disabled={importing} className="hidden" />
+            </label>
+            <button
+              onClick={handleExport}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded"
+            >
+              <Download className="h-4 w-4 mr-1.5" />
+              Export PNG
+            </button>
+          </div>
         </div>
 
+        {/* Import Report */}
+        {importResult && (
+          <div className="p-3 bg-gray-50 border border-gray-200 rounded text-sm space-y-2">
+            <div className="text-gray-700">
+              Encoded {importResult.tileCount} tiles into {importResult.payload.length} bytes
+              {file.compressed ? ` (${importResult.raw.length} bytes before compression)` : ''}.
+            </div>
+            {importResult.unmatchedCount > 0 && (
+              <div className="text-yellow-800">
+                {importResult.unmatchedCount} pixel{importResult.unmatchedCount === 1 ? '' : 's'} used colors outside the palette and were mapped to the nearest entry:
+                <ul className="mt-1 max-h-24 overflow-y-auto font-mono text-xs">
+                  {importResult.unmatched.map(pixel => (
+                    <li key={`${pixel.x},${pixel.y}`}>({pixel.x}, {pixel.y}) {pixel.color} → {pixel.index}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {importResult.warnings.map(warning => (
+              <div key={warning} className="text-orange-600">{warning}</div>
+            ))}
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleDownloadPayload}
+                className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+              >
+                <Download className="h-3 w-3 mr-1" />
+                Payload (.bin)
+              </button>
+              <button
+                onClick={handleDownloadPatch}
+                disabled={!romData || importResult.overflow > 0}
+                className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                title="IPS patch that writes the payload at the file's location"
+              >
+                <Download className="h-3 w-3 mr-1" />
+                IPS Patch
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Canvas Container */}
         <div className="border border-gray-300 rounded bg-gray-100 overflow-auto" style={{ maxHeight: '500px' }}>
           <div className="p-4 inline-block">
@@ -181,8 +440,8 @@ export default function GraphicsViewerModal({
         {/* Image Information */}
         <div className="text-xs text-gray-500 space-y-1">
           <div><strong>Image Size:</strong> {imageData.width} × {imageData.height} pixels</div>
-          <div><strong>Format:</strong> SNES 4bpp (16 colors)</div>
-          <div><strong>Tile Layout:</strong> 16 × 32 tiles (8×8 pixels each)</div>
+          <div><strong>Format:</strong> SNES {decoder.name}</div>
+          <div><strong>Tile Layout:</strong> {imageData.width >> 3} × {imageData.height >> 3} tiles (8×8 pixels each)</div>
         </div>
       </div>
     </Modal>
@@ -1,9 +1,11 @@
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { useAuthStore } from '../stores/auth-store'
 import Modal from './Modal'
-import { Search, Download, Cpu } from 'lucide-react'
+import ProjectChangesList from './ProjectChangesList'
+import { Search, Download, Cpu, RefreshCw } from 'lucide-react'
 import { db } from '../services/supabase'
-import { createPlatformImportOrchestrator, type PlatformImportProgressCallback } from '../lib/platform-import-orchestrator'
+import { createPlatformImportOrchestrator, type PlatformImportProgressCallback, type PlatformUpdatePreview } from '../lib/platform-import-orchestrator'
+import { PLATFORM_TABLES } from '../lib/platform-diff'
 import type { Platform } from '@prisma/client'
 import clsx from 'clsx'
 import { PlatformBranchData } from '@gaialabs/shared'
@@ -29,12 +31,16 @@ interface ImportPlatformModalProps {
   isOpen: boolean
   onClose: () => void
   onImportComplete?: (platform: Platform) => void
+  onUpdateComplete?: (platform: Platform) => void
 }
 
+type ImportMode = 'create' | 'update'
+
 export default function ImportPlatformModal({
   isOpen,
   onClose,
   onImportComplete,
+  onUpdateComplete,
 }: ImportPlatformModalProps) {
   const { user } = useAuthStore()
   const [searchQuery, setSearchQuery] = useState('')
@@ -49,6 +55,45 @@ export default function ImportPlatformModal({
   } | null>(null)
   const [selectedPlatformBranch, setSelectedPlatformBranch] = useState<PlatformBranchData | null>(null)
   const [customPlatformName, setCustomPlatformName] = useState('')
+  const [importMode, setImportMode] = useState<ImportMode>('create')
+  const [userPlatforms, setUserPlatforms] = useState<Platform[]>([])
+  const [targetPlatformId, setTargetPlatformId] = useState('')
+  const [updatePreview, setUpdatePreview] = useState<PlatformUpdatePreview | null>(null)
+  const [selectedChanges, setSelectedChanges] = useState<Set<string>>(new Set())
+  const [comparing, setComparing] = useState(false)
+  const [skippedChanges, setSkippedChanges] = useState<string[]>([])
+  const [updatedPlatform, setUpdatedPlatform] = useState<Platform | null>(null)
+
+  // Load the user's platforms as update targets
+  useEffect(() => {
+    if (importMode !== 'update' || !selectedPlatformBranch || !user?.id) return
+
+    const loadUserPlatforms = async () => {
+      const { data, error: platformsError } = await db.platforms.getByUser(user.id)
+      if (platformsError) {
+        setError('Failed to load your platforms. Please try again.')
+        return
+      }
+
+      const platforms = data ?? []
+      setUserPlatforms(platforms)
+      // Suggest the platform previously imported from the same external platform
+      const match = platforms.find(platform => {
+        const meta = platform.meta as Record<string, unknown> | null
+        return platform.platformBranchId === selectedPlatformBranch.id
+          || meta?.originalPlatformId === selectedPlatformBranch.platformId
+      })
+      setTargetPlatformId(current => current || match?.id || '')
+    }
+
+    loadUserPlatforms()
+  }, [importMode, selectedPlatformBranch, user?.id])
+
+  // A diff only describes the platform it was computed for
+  useEffect(() => {
+    setUpdatePreview(null)
+    setSelectedChanges(new Set())
+  }, [selectedPlatformBranch, targetPlatformId, importMode])
 
   // Search for platform branches
   const handleSearch = async () => {
@@ -145,6 +190,79 @@ export default function ImportPlatformModal({
     }
   }
 
+  // Compare the chosen platform with the selected PlatformBranch
+  const handleCompare = async () => {
+    if (!user?.id || !selectedPlatformBranch || !targetPlatformId) return
+
+    setComparing(true)
+    setError(null)
+
+    try {
+      const orchestrator = createPlatformImportOrchestrator()
+      const preview = await orchestrator.previewPlatformBranchUpdate(selectedPlatformBranch.id, targetPlatformId, user.id)
+      setUpdatePreview(preview)
+      // Default to taking every incoming change
+      setSelectedChanges(new Set(preview.diff.changes.map(change => change.id)))
+    } catch (err) {
+      console.error('Error comparing platform:', err)
+      setError(err instanceof Error ? err.message : 'Failed to compare platform. Please try again.')
+    } finally {
+      setComparing(false)
+    }
+  }
+
+  // Apply the reviewed changes to the existing platform
+  const handleUpdate = async () => {
+    if (!user?.id || !updatePreview || !targetPlatformId) return
+
+    setImporting(targetPlatformId)
+    setError(null)
+    setImportProgress(null)
+
+    try {
+      const orchestrator = createPlatformImportOrchestrator()
+
+      const onProgress: PlatformImportProgressCallback = (step, progress, total) => {
+        setImportProgress({ step, progress, total })
+      }
+
+      const changes = updatePreview.diff.changes.filter(change => selectedChanges.has(change.id))
+      const result = await orchestrator.updateExistingPlatform(targetPlatformId, updatePreview, changes, user.id, onProgress)
+
+      if (!result.success) {
+        throw new Error(result.error || 'Update failed')
+      }
+
+      const { data: platform, error: fetchError } = await db.platforms.getById(targetPlatformId)
+      if (fetchError) throw fetchError
+
+      // Report the update once the user has seen any skipped changes
+      if (result.skippedChanges && result.skippedChanges.length > 0) {
+        setSkippedChanges(result.skippedChanges)
+        setUpdatedPlatform(platform)
+        return
+      }
+
+      onUpdateComplete?.(platform)
+      handleBackToList()
+      onClose()
+    } catch (err) {
+      console.error('Error updating platform:', err)
+      setError(err instanceof Error ? err.message : 'Failed to update platform. Please try again.')
+    } finally {
+      setImporting(null)
+      setImportProgress(null)
+    }
+  }
+
+  const handleClose = () => {
+    if (updatedPlatform) {
+      onUpdateComplete?.(updatedPlatform)
+      handleBackToList()
+    }
+    onClose()
+  }
+
   const handleReset = () => {
     setSearchQuery('')
     setPlatformBranches([])
@@ -156,13 +274,19 @@ export default function ImportPlatformModal({
   const handleBackToList = () => {
     setSelectedPlatformBranch(null)
     setCustomPlatformName('')
+    setImportMode('create')
+    setTargetPlatformId('')
+    setSkippedChanges([])
+    setUpdatedPlatform(null)
     setError(null)
   }
 
+  const changes = updatePreview?.diff.changes ?? []
+
   return (
     <Modal
       isOpen={isOpen}
-      onClose={onClose}
+      onClose={handleClose}
       title={selectedPlatformBranch ? "Import Platform" : "Import Public Platform"}
       className="max-w-2xl"
     >
@@ -193,7 +317,109 @@ export default function ImportPlatformModal({
               </div>
             </div>
 
-            {/* Platform Name Input */}
+            {/* Import Mode */}
+            <div className="mb-6 flex rounded-md border border-gray-300 overflow-hidden text-sm font-medium">
+              {([['create', 'Create new platform'], ['update', 'Update existing platform']] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setImportMode(mode)}
+                  disabled={!!importing || comparing || updatedPlatform !== null}
+                  className={clsx(
+                    'flex-1 px-3 py-2 disabled:opacity-50',
+                    importMode === mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {importMode === 'update' ? (
+            <div className="mb-6 space-y-4">
+              <div>
+                <label htmlFor="target-platform" className="block text-sm font-medium text-gray-700 mb-2">
+                  Platform to Update
+                </label>
+                <div className="flex space-x-3">
+                  <select
+                    id="target-platform"
+                    value={targetPlatformId}
+                    onChange={(e) => setTargetPlatformId(e.target.value)}
+                    disabled={!!importing || comparing || updatedPlatform !== null}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="">Select a platform...</option>
+                    {userPlatforms.map(platform => (
+                      <option key={platform.id} value={platform.id}>{platform.name}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleCompare}
+                    disabled={!targetPlatformId || comparing || !!importing || updatedPlatform !== null}
+                    className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    <RefreshCw className={clsx('h-4 w-4 mr-2', comparing && 'animate-spin')} />
+                    Compare
+                  </button>
+                </div>
+                <p className="mt-1 text-sm text-gray-500">
+                  Changes are applied in place, so projects using this platform keep working
+                </p>
+              </div>
+
+              {updatePreview && (
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <p className="text-sm text-gray-600">
+                      {changes.length} difference{changes.length === 1 ? '' : 's'}. Checked rows are applied.
+                    </p>
+                    {changes.length > 0 && (
+                      <div className="flex items-center space-x-2 text-xs">
+                        <button
+                          type="button"
+                          onClick={() => setSelectedChanges(new Set())}
+                          disabled={!!importing}
+                          className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Keep All Current
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setSelectedChanges(new Set(changes.map(change => change.id)))}
+                          disabled={!!importing}
+                          className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          Take All Incoming
+                        </button>
+                      </div>
+                    )}
+                  </div>
+                  <div className="max-h-72 overflow-y-auto">
+                    <ProjectChangesList
+                      changes={changes}
+                      tables={PLATFORM_TABLES}
+                      selected={selectedChanges}
+                      onSelectedChange={setSelectedChanges}
+                      localLabel="Current"
+                      incomingLabel="Incoming"
+                      disabled={!!importing || updatedPlatform !== null}
+                    />
+                  </div>
+                </div>
+              )}
+
+              {skippedChanges.length > 0 && (
+                <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm">
+                  <div className="font-medium mb-1">Some changes were not applied:</div>
+                  <ul className="list-disc list-inside space-y-0.5">
+                    {skippedChanges.map(message => <li key={message}>{message}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+            ) : (
             <div className="mb-6">
               <label htmlFor="platform-name" className="block text-sm font-medium text-gray-700 mb-2">
                 Platform Name
@@ -210,6 +436,7 @@ export default function ImportPlatformModal({
                 Choose a unique name for your imported platform
               </p>
             </div>
+            )}
 
             {/* Import Progress */}
             {importProgress && (
@@ -237,12 +464,23 @@ export default function ImportPlatformModal({
             {/* Action Buttons */}
             <div className="flex justify-end space-x-3">
               <button
-                onClick={handleBackToList}
+                onClick={updatedPlatform ? handleClose : handleBackToList}
                 disabled={!!importing}
                 className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
               >
-                Cancel
+                {updatedPlatform ? 'Close' : 'Cancel'}
               </button>
+              {importMode === 'update' ? (
+                !updatedPlatform && (
+                  <button
+                    onClick={handleUpdate}
+                    disabled={!!importing || !updatePreview || selectedChanges.size === 0}
+                    className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {importing ? 'Updating...' : `Apply ${selectedChanges.size} Change${selectedChanges.size === 1 ? '' : 's'}`}
+                  </button>
+                )
+              ) : (
               <button
                 onClick={handleImport}
                 disabled={!!importing || !customPlatformName.trim()}
@@ -265,6 +503,7 @@ export default function ImportPlatformModal({
                   </>
                 )}
               </button>
+              )}
             </div>
           </div>
         ) : (
@@ -1,9 +1,10 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import { useAuthStore } from '../stores/auth-store'
 import Modal from './Modal'
-import { Search, Download, Calendar, Eye, Tag } from 'lucide-react'
+import { Search, Download, Calendar, Eye, Tag, Upload, FileJson, AlertTriangle } from 'lucide-react'
 import { db } from '../services/supabase'
-import { createImportOrchestrator, type ImportProgressCallback } from '../lib/import-orchestrator'
+import { createImportOrchestrator, type ImportProgressCallback, type ImportServiceResult } from '../lib/import-orchestrator'
+import { parseProjectBundle, type ParsedProjectBundle } from '../lib/project-bundle'
 
 import EnhancedPlatformSelector from './EnhancedPlatformSelector'
 import type { ScribeProject } from '@prisma/client'
@@ -35,6 +36,15 @@ export default function ImportProjectModal({
   const [selectedGameRomBranch, setSelectedGameRomBranch] = useState<GameRomBranchData | null>(null)
   const [customProjectName, setCustomProjectName] = useState('')
   const [selectedPlatformId, setSelectedPlatformId] = useState<string>('')
+  const [bundle, setBundle] = useState<ParsedProjectBundle | null>(null)
+  const [bundleFileName, setBundleFileName] = useState('')
+  const [report, setReport] = useState<ImportServiceResult | null>(null)
+  const bundleInputRef = useRef<HTMLInputElement>(null)
+
+  // A report only describes the name and platform it was run with
+  useEffect(() => {
+    setReport(null)
+  }, [selectedGameRomBranch, bundle, customProjectName, selectedPlatformId])
 
   // Search for external GameRomBranches
   useEffect(() => {
@@ -73,11 +83,30 @@ export default function ImportProjectModal({
     setError(null)
   }
 
-  // Handle GameRomBranch import with comprehensive data transformation
-  const handleImport = async () => {
-    if (!user?.id || !selectedGameRomBranch || !customProjectName.trim() || !selectedPlatformId) return
+  // Handle choosing a local project bundle
+  const handleBundleSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    setError(null)
+    try {
+      const parsed = parseProjectBundle(file.name, new Uint8Array(await file.arrayBuffer()))
+      setBundle(parsed)
+      setBundleFileName(file.name)
+      setCustomProjectName(parsed.name)
+    } catch (err) {
+      console.error('Error reading project bundle:', err)
+      setError(err instanceof Error ? err.message : 'Failed to read project bundle')
+    }
+  }
+
+  // Handle GameRomBranch or bundle import with comprehensive data transformation.
+  // A dry run builds the preview report; the real import runs once it is confirmed.
+  const handleImport = async (dryRun: boolean) => {
+    if (!user?.id || (!selectedGameRomBranch && !bundle) || !customProjectName.trim() || !selectedPlatformId) return
 
-    setImporting(selectedGameRomBranch.id)
+    setImporting(selectedGameRomBranch?.id ?? bundleFileName)
     setError(null)
     setImportProgress(null)
 
@@ -93,19 +122,44 @@ export default function ImportProjectModal({
       const projectName = customProjectName.trim()
 
       // Use the comprehensive import service
-      const result = await orchestrator.importExternalGameRomBranch(
-        selectedGameRomBranch.id,
-        user.id,
-        projectName,
-        selectedPlatformId,
-        onProgress
-      )
+      let result: ImportServiceResult
+      if (selectedGameRomBranch) {
+        result = await orchestrator.importExternalGameRomBranch(
+          selectedGameRomBranch.id,
+          user.id,
+          projectName,
+          selectedPlatformId,
+          onProgress,
+          { dryRun }
+        )
+      } else if (bundle) {
+        result = await orchestrator.importLocalBundle(
+          bundle.bundle,
+          bundleFileName,
+          user.id,
+          projectName,
+          selectedPlatformId,
+          onProgress,
+          { dryRun }
+        )
+      } else {
+        return
+      }
+
+      if (dryRun) {
+        setReport(result)
+        return
+      }
 
       if (!result.success) {
         if (result.validationErrors && result.validationErrors.length > 0) {
           setError(`Validation failed: ${result.validationErrors.join(', ')}`)
         } else if (result.error && result.error.includes('already exists')) {
           setError(`A project with the name "${projectName}" already exists. Please choose a different name.`)
+        } else if (result.rollbackErrors && result.rollbackErrors.length > 0) {
+          setError(`${result.error || 'Import failed'}. The partially imported project could not be fully removed: ${result.rollbackErrors.join(', ')}`)
+        } else if (result.rolledBack) {
+          setError(`${result.error || 'Import failed'}. All partially imported records were rolled back.`)
         } else {
           setError(result.error || 'Import failed for unknown reason')
         }
@@ -122,8 +176,11 @@ export default function ImportProjectModal({
 
       // Reset form and close modal on success
       setSelectedGameRomBranch(null)
+      setBundle(null)
+      setBundleFileName('')
       setCustomProjectName('')
       setSelectedPlatformId('')
+      setReport(null)
       onClose()
     } catch (err) {
       console.error('Error importing project:', err)
@@ -145,20 +202,40 @@ export default function ImportProjectModal({
 
   const handleBackToList = () => {
     setSelectedGameRomBranch(null)
+    setBundle(null)
+    setBundleFileName('')
     setCustomProjectName('')
     setSelectedPlatformId('')
+    setReport(null)
     setError(null)
   }
 
+  const reportCounts = report?.importDetails ? [
+    ['Files', report.importDetails.filesCreated],
+    ['COPs', report.importDetails.copsCreated],
+    ['Blocks', report.importDetails.blocksCreated],
+    ['Block Parts', report.importDetails.blockPartsCreated],
+    ['Block Transforms', report.importDetails.blockTransformsCreated],
+    ['Labels', report.importDetails.labelsCreated],
+    ['Mnemonics', report.importDetails.mnemonicsCreated],
+    ['Overrides', report.importDetails.overridesCreated],
+    ['Rewrites', report.importDetails.rewritesCreated],
+    ['String Types', report.importDetails.stringTypesCreated],
+    ['String Commands', report.importDetails.stringCommandsCreated],
+    ['Structs', report.importDetails.structsCreated]
+  ] as const : []
+
+  const importDisabled = !!importing || !customProjectName.trim() || !selectedPlatformId || (!!report && !report.success)
+
   return (
     <Modal
       isOpen={isOpen}
       onClose={onClose}
-      title={selectedGameRomBranch ? "Import Project" : "Import Public Project"}
+      title={selectedGameRomBranch || bundle ? "Import Project" : "Import Public Project"}
       className="max-w-2xl"
     >
       <div className="p-6">
-        {selectedGameRomBranch ? (
+        {selectedGameRomBranch || bundle ? (
           /* Import Form View */
           <div>
             {/* Back Button */}
@@ -170,6 +247,7 @@ export default function ImportProjectModal({
             </button>
 
             {/* Selected GameRomBranch Info */}
+            {selectedGameRomBranch ? (
             <div className="mb-6 p-4 bg-gray-50 rounded-lg">
               <h3 className="text-lg font-medium text-gray-900 mb-2">
                 {selectedGameRomBranch.gameRom.game.name}
@@ -181,6 +259,18 @@ export default function ImportProjectModal({
                 {selectedGameRomBranch.name && <div>Branch: {selectedGameRomBranch.name}</div>}
               </div>
             </div>
+            ) : bundle && (
+            <div className="mb-6 p-4 bg-gray-50 rounded-lg">
+              <h3 className="text-lg font-medium text-gray-900 mb-2 flex items-center">
+                <FileJson className="h-5 w-5 mr-2 text-gray-500" />
+                {bundleFileName}
+              </h3>
+              <div className="text-sm text-gray-600 space-y-1">
+                <div>Local bundle</div>
+                <div>Sections: {bundle.sections.join(', ')}</div>
+              </div>
+            </div>
+            )}
 
             {/* Project Name Input */}
             <div className="mb-6">
@@ -204,7 +294,7 @@ export default function ImportProjectModal({
             <EnhancedPlatformSelector
               selectedPlatformId={selectedPlatformId}
               onPlatformSelect={setSelectedPlatformId}
-              requiredPlatformBranchId={selectedGameRomBranch.platformBranch.id}
+              requiredPlatformBranchId={selectedGameRomBranch?.platformBranch.id}
               disabled={!!importing}
               className="mb-6"
             />
@@ -216,6 +306,46 @@ export default function ImportProjectModal({
               </div>
             )}
 
+            {/* Dry Run Report */}
+            {report && (
+              <div className="mb-4 space-y-3">
+                <div className="p-4 bg-gray-50 rounded-lg">
+                  <h4 className="text-sm font-medium text-gray-900 mb-2">Import Preview</h4>
+                  <dl className="grid grid-cols-3 gap-x-4 gap-y-1 text-sm">
+                    {reportCounts.map(([name, count]) => (
+                      <div key={name} className="flex justify-between">
+                        <dt className="text-gray-600">{name}</dt>
+                        <dd className="font-medium text-gray-900">{count}</dd>
+                      </div>
+                    ))}
+                  </dl>
+                </div>
+
+                {report.error && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                    <div className="font-medium">{report.error}</div>
+                    {report.validationErrors && report.validationErrors.length > 0 && (
+                      <ul className="mt-1 list-disc list-inside space-y-0.5 max-h-32 overflow-y-auto">
+                        {report.validationErrors.map((message, index) => <li key={index}>{message}</li>)}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {report.warnings && report.warnings.length > 0 && (
+                  <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm">
+                    <div className="font-medium flex items-center mb-1">
+                      <AlertTriangle className="h-4 w-4 mr-2" />
+                      {report.warnings.length} warning{report.warnings.length === 1 ? '' : 's'}
+                    </div>
+                    <ul className="list-disc list-inside space-y-0.5 max-h-32 overflow-y-auto">
+                      {report.warnings.map((message, index) => <li key={index}>{message}</li>)}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+
             {/* Import Progress */}
             {importing && importProgress && (
               <div className="mb-4 p-3 bg-blue-50 border border-blue-200 rounded-md">
@@ -244,11 +374,11 @@ export default function ImportProjectModal({
                 Cancel
               </button>
               <button
-                onClick={handleImport}
-                disabled={!!importing || !customProjectName.trim() || !selectedPlatformId}
+                onClick={() => handleImport(!report)}
+                disabled={importDisabled}
                 className={clsx(
                   'px-4 py-2 text-sm font-medium rounded-md focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500',
-                  importing || !customProjectName.trim() || !selectedPlatformId
+                  importDisabled
                     ? 'bg-gray-300 text-gray-500 cursor-not-allowed'
                     : 'bg-blue-600 text-white hover:bg-blue-700'
                 )}
@@ -256,10 +386,10 @@ export default function ImportProjectModal({
                 {importing ? (
                   <>
                     <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2 inline-block"></div>
-                    Importing...
+                    {report ? 'Importing...' : 'Checking...'}
                   </>
                 ) : (
-                  'Import Project'
+                  report ? 'Confirm Import' : 'Preview Import'
                 )}
               </button>
             </div>
@@ -269,9 +399,27 @@ export default function ImportProjectModal({
           <div>
             {/* Search Bar */}
             <div className="mb-6">
-              <label htmlFor="project-search" className="block text-sm font-medium text-gray-700 mb-2">
-                Search public projects
-              </label>
+              <div className="flex items-center justify-between mb-2">
+                <label htmlFor="project-search" className="block text-sm font-medium text-gray-700">
+                  Search public projects
+                </label>
+                <button
+                  type="button"
+                  onClick={() => bundleInputRef.current?.click()}
+                  className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                  title="Import a local GaiaLabs JSON or ZIP bundle"
+                >
+                  <Upload className="h-3 w-3 mr-1" />
+                  Upload Bundle
+                </button>
+                <input
+                  ref={bundleInputRef}
+                  type="file"
+                  accept=".json,.zip,application/json,application/zip"
+                  onChange={handleBundleSelected}
+                  className="hidden"
+                />
+              </div>
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
                 <input
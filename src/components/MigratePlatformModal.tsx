@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, CheckCircle, Cpu } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import Modal from './Modal'
+import EnhancedPlatformSelector from './EnhancedPlatformSelector'
+import { checkPlatformCompatibility, migrateProjectPlatform, type PlatformCompatibilityReport, type PlatformGapKind } from '../lib/platform-migration'
+
+interface MigratePlatformModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ScribeProject
+  onMigrated?: (project: ScribeProject) => void
+}
+
+const GAP_KIND_NAMES: Record<PlatformGapKind, string> = {
+  instructionGroup: 'Instruction Groups',
+  addressingMode: 'Addressing Modes',
+  instructionCode: 'Instruction Codes',
+  type: 'Types'
+}
+
+export default function MigratePlatformModal({
+  isOpen,
+  onClose,
+  project,
+  onMigrated,
+}: MigratePlatformModalProps) {
+  const { user } = useAuthStore()
+  const [targetPlatformId, setTargetPlatformId] = useState('')
+  const [report, setReport] = useState<PlatformCompatibilityReport | null>(null)
+  const [acceptGaps, setAcceptGaps] = useState(false)
+  const [checking, setChecking] = useState(false)
+  const [migrating, setMigrating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // A report only describes the platform it was run against
+  useEffect(() => {
+    setReport(null)
+    setAcceptGaps(false)
+  }, [targetPlatformId, project])
+
+  const handleCheck = async () => {
+    if (!targetPlatformId) return
+
+    setChecking(true)
+    setError(null)
+
+    try {
+      setReport(await checkPlatformCompatibility(project, targetPlatformId))
+    } catch (err) {
+      console.error('Error checking platform compatibility:', err)
+      setError(err instanceof Error ? err.message : 'Failed to check platform compatibility')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleMigrate = async () => {
+    if (!user?.id || !report) return
+
+    setMigrating(true)
+    setError(null)
+
+    try {
+      const updated = await migrateProjectPlatform(project, report, user.id, acceptGaps)
+      setTargetPlatformId('')
+      onMigrated?.(updated)
+      onClose()
+    } catch (err) {
+      console.error('Error moving project:', err)
+      setError(err instanceof Error ? err.message : 'Failed to move project')
+    } finally {
+      setMigrating(false)
+    }
+  }
+
+  const isCurrentPlatform = targetPlatformId === project.platformId
+  const gapKinds = (Object.keys(GAP_KIND_NAMES) as PlatformGapKind[])
+    .map(kind => ({ kind, gaps: report?.gaps.filter(gap => gap.kind === kind) ?? [] }))
+    .filter(group => group.gaps.length > 0)
+  const canMigrate = report !== null && (report.gaps.length === 0 || acceptGaps) && !migrating
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Change Platform"
+      className="max-w-2xl"
+    >
+      <div className="p-6 space-y-4">
+        <p className="text-sm text-gray-600">
+          The target platform is checked for the instruction set, COPs and types this project uses before it is switched.
+        </p>
+
+        <EnhancedPlatformSelector
+          selectedPlatformId={targetPlatformId}
+          onPlatformSelect={setTargetPlatformId}
+          disabled={checking || migrating}
+        />
+
+        {isCurrentPlatform && (
+          <div className="text-sm text-gray-500">The project already uses this platform.</div>
+        )}
+
+        {report && (
+          report.gaps.length === 0 ? (
+            <div className="p-3 bg-green-50 border border-green-200 rounded-md text-green-800 text-sm flex items-center">
+              <CheckCircle className="h-4 w-4 mr-2 flex-shrink-0" />
+              No gaps found. Checked {report.checked.instructionGroup} instruction groups, {report.checked.addressingMode} addressing modes,{' '}
+              {report.checked.instructionCode} opcodes and {report.checked.type} types.
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                The target platform has {report.gaps.length} gap{report.gaps.length === 1 ? '' : 's'}. Disassembly and builds may fail until they are added.
+              </div>
+              <div className="max-h-72 overflow-y-auto border border-gray-200 rounded-md divide-y divide-gray-200">
+                {gapKinds.map(group => (
+                  <div key={group.kind}>
+                    <div className="px-3 py-2 bg-gray-50 text-sm font-medium text-gray-900">
+                      {GAP_KIND_NAMES[group.kind]}
+                      <span className="ml-2 text-xs font-normal text-gray-500">{group.gaps.length}</span>
+                    </div>
+                    <ul className="divide-y divide-gray-100">
+                      {group.gaps.map(gap => (
+                        <li key={`${gap.kind}:${gap.name}`} className="px-3 py-2 text-sm">
+                          <div>
+                            <span className="font-mono text-gray-900">{gap.name}</span>
+                            <span className="ml-2 text-gray-600">{gap.detail}</span>
+                          </div>
+                          {gap.usedBy.length > 0 && (
+                            <div className="mt-0.5 text-xs text-gray-500 truncate" title={gap.usedBy.join(', ')}>
+                              Used by {gap.usedBy.slice(0, 5).join(', ')}
+                              {gap.usedBy.length > 5 && ` and ${gap.usedBy.length - 5} more`}
+                            </div>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={acceptGaps}
+                  onChange={(e) => setAcceptGaps(e.target.checked)}
+                  disabled={migrating}
+                  className="mr-2"
+                />
+                Move the project anyway
+              </label>
+            </div>
+          )
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={migrating}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          {report ? (
+            <button
+              onClick={handleMigrate}
+              disabled={!canMigrate}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Cpu className="h-4 w-4 mr-2" />
+              {migrating ? 'Moving...' : 'Move Project'}
+            </button>
+          ) : (
+            <button
+              onClick={handleCheck}
+              disabled={!targetPlatformId || isCurrentPlatform || checking}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {checking ? 'Checking...' : 'Check Compatibility'}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,52 @@
+import clsx from 'clsx'
+import { formatBgr555, type PaletteColor } from '../lib/palette-decoder'
+
+interface PaletteSwatchesProps {
+  colors: PaletteColor[]
+  /** Colors per subpalette row; omit to treat the palette as a single row */
+  rowSize?: number
+  selectedRow?: number
+  onRowSelect?: (row: number) => void
+  /** Swatches per line */
+  columns?: number
+  swatchSize?: number
+}
+
+export default function PaletteSwatches({
+  colors,
+  rowSize,
+  selectedRow,
+  onRowSelect,
+  columns = 16,
+  swatchSize = 16
+}: PaletteSwatchesProps) {
+  if (colors.length === 0) {
+    return <div className="text-sm text-gray-500">The palette has no colors.</div>
+  }
+
+  const rowOf = (index: number) => rowSize ? Math.floor(index / rowSize) : 0
+  const selectable = !!onRowSelect && !!rowSize
+
+  return (
+    <div
+      className="inline-grid gap-px bg-gray-300 border border-gray-300"
+      style={{ gridTemplateColumns: `repeat(${columns}, ${swatchSize}px)` }}
+    >
+      {colors.map(color => {
+        const row = rowOf(color.index)
+        const selected = selectedRow !== undefined && row === selectedRow
+        return (
+          <button
+            key={color.index}
+            type="button"
+            onClick={() => onRowSelect?.(row)}
+            disabled={!selectable}
+            className={clsx('relative', selected && 'ring-2 ring-blue-500 z-10', selectable ? 'cursor-pointer' : 'cursor-default')}
+            style={{ width: swatchSize, height: swatchSize, backgroundColor: `rgb(${color.r}, ${color.g}, ${color.b})` }}
+            title={`${color.index}: ${formatBgr555(color.value)} (rgb ${color.r}, ${color.g}, ${color.b})${rowSize ? `, row ${row}` : ''}`}
+          />
+        )
+      })}
+    </div>
+  )
+}
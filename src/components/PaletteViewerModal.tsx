@@ -0,0 +1,65 @@
+/**
+ * Palette Viewer Modal Component
+ *
+ * Displays the BGR555 colors of a palette file as swatches, sixteen to a
+ * row so each line is one 4bpp subpalette.
+ */
+
+import { useMemo } from 'react'
+import Modal from './Modal'
+import PaletteSwatches from './PaletteSwatches'
+import type { File as PrismaFile } from '@prisma/client'
+import type { PaletteColor } from '../lib/palette-decoder'
+
+interface PaletteViewerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  file: PrismaFile | null
+  colors: PaletteColor[] | null
+}
+
+export default function PaletteViewerModal({
+  isOpen,
+  onClose,
+  file,
+  colors
+}: PaletteViewerModalProps) {
+  const rows = useMemo(() => Math.ceil((colors?.length ?? 0) / 16), [colors])
+
+  if (!file || !colors) {
+    return null
+  }
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Palette Viewer - ${file.name}`}
+      movable={true}
+      resizable={true}
+      transparentBackdrop={true}
+      closeOnBackdropClick={false}
+      initialSize={{ width: 520, height: 520 }}
+    >
+      <div className="p-6 space-y-4">
+        {/* File Information */}
+        <div className="text-sm text-gray-600 space-y-1">
+          <div><strong>File:</strong> {file.name}</div>
+          <div><strong>Location:</strong> 0x{file.location?.toString(16).toUpperCase().padStart(6, '0')}</div>
+          <div><strong>Colors:</strong> {colors.length} ({rows} row{rows === 1 ? '' : 's'} of 16)</div>
+        </div>
+
+        <div className="flex">
+          <div className="flex flex-col text-xs text-gray-500 font-mono mr-2" style={{ gap: 1, paddingTop: 1 }}>
+            {Array.from({ length: rows }, (_, row) => (
+              <div key={row} className="flex items-center justify-end" style={{ height: 24 }}>{row}</div>
+            ))}
+          </div>
+          <PaletteSwatches colors={colors} swatchSize={24} />
+        </div>
+
+        <div className="text-xs text-gray-500">Hover a swatch to see its index and BGR555 value.</div>
+      </div>
+    </Modal>
+  )
+}
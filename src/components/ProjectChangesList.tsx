@@ -0,0 +1,169 @@
+import { useMemo, useState } from 'react'
+import { ChevronDown, ChevronRight } from 'lucide-react'
+import clsx from 'clsx'
+import { RECORD_TABLES, type RecordChange } from '../lib/project-diff'
+
+interface ProjectChangesListProps {
+  changes: RecordChange<string>[]
+  /** Tables to group the changes by, in display order; defaults to the project tables */
+  tables?: { table: string; name: string }[]
+  /** IDs of the changes that will be taken from the incoming side; omit to only list the changes */
+  selected?: Set<string>
+  onSelectedChange?: (selected: Set<string>) => void
+  /** IDs of changes that were also made on the local side */
+  conflicts?: Set<string>
+  localLabel?: string
+  incomingLabel?: string
+  disabled?: boolean
+}
+
+const KIND_STYLES = {
+  added: 'bg-green-100 text-green-800',
+  changed: 'bg-yellow-100 text-yellow-800',
+  removed: 'bg-red-100 text-red-800'
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+export default function ProjectChangesList({
+  changes,
+  tables = RECORD_TABLES,
+  selected,
+  onSelectedChange,
+  conflicts,
+  localLabel = 'Local',
+  incomingLabel = 'Incoming',
+  disabled = false
+}: ProjectChangesListProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  const groups = useMemo(() => tables
+    .map(config => ({ table: config.table, name: config.name, changes: changes.filter(change => change.table === config.table) }))
+    .filter(group => group.changes.length > 0), [changes, tables])
+
+  const toggleExpanded = (table: string) => {
+    const next = new Set(expanded)
+    if (next.has(table)) next.delete(table)
+    else next.add(table)
+    setExpanded(next)
+  }
+
+  const readOnly = !selected || !onSelectedChange
+
+  const setTaken = (ids: string[], taken: boolean) => {
+    if (!onSelectedChange) return
+    const next = new Set(selected)
+    for (const id of ids) {
+      if (taken) next.add(id)
+      else next.delete(id)
+    }
+    onSelectedChange(next)
+  }
+
+  if (groups.length === 0) {
+    return (
+      <div className="p-4 text-sm text-gray-500 text-center border border-gray-200 rounded-md">
+        No differences found.
+      </div>
+    )
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-md divide-y divide-gray-200">
+      {groups.map(group => {
+        const ids = group.changes.map(change => change.id)
+        const takenCount = ids.filter(id => selected?.has(id)).length
+        const isExpanded = expanded.has(group.table)
+
+        return (
+          <div key={group.table}>
+            <div className="flex items-center justify-between px-3 py-2 bg-gray-50">
+              <button
+                type="button"
+                onClick={() => toggleExpanded(group.table)}
+                className="flex items-center text-sm font-medium text-gray-900"
+              >
+                {isExpanded ? <ChevronDown className="h-4 w-4 mr-1" /> : <ChevronRight className="h-4 w-4 mr-1" />}
+                {group.name}
+                <span className="ml-2 text-xs font-normal text-gray-500">
+                  {group.changes.length} change{group.changes.length === 1 ? '' : 's'}
+                  {!readOnly && `, ${takenCount} from ${incomingLabel.toLowerCase()}`}
+                </span>
+              </button>
+              {!readOnly && (
+                <div className="flex items-center space-x-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setTaken(ids, false)}
+                    disabled={disabled}
+                    className="px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-50"
+                  >
+                    Keep {localLabel.toLowerCase()}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setTaken(ids, true)}
+                    disabled={disabled}
+                    className="px-2 py-1 border border-gray-300 rounded hover:bg-white disabled:opacity-50"
+                  >
+                    Take {incomingLabel.toLowerCase()}
+                  </button>
+                </div>
+              )}
+            </div>
+
+            {isExpanded && (
+              <ul className="divide-y divide-gray-100">
+                {group.changes.map(change => (
+                  <li key={change.id} className="px-3 py-2 text-sm">
+                    <label className={clsx('flex items-start space-x-3', !readOnly && 'cursor-pointer')}>
+                      {!readOnly && (
+                        <input
+                          type="checkbox"
+                          checked={selected.has(change.id)}
+                          onChange={(e) => setTaken([change.id], e.target.checked)}
+                          disabled={disabled}
+                          className="mt-1"
+                          title={`Take ${incomingLabel.toLowerCase()}`}
+                        />
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center space-x-2">
+                          <span className={clsx('px-1.5 py-0.5 rounded text-xs font-medium', KIND_STYLES[change.kind])}>
+                            {change.kind}
+                          </span>
+                          <span className="font-mono text-gray-900 truncate">{change.key}</span>
+                          {conflicts?.has(change.id) && (
+                            <span className="px-1.5 py-0.5 rounded text-xs font-medium bg-orange-100 text-orange-800">
+                              {localLabel.toLowerCase()} edit
+                            </span>
+                          )}
+                        </div>
+                        {change.kind === 'changed' && (
+                          <div className="mt-1 space-y-0.5 font-mono text-xs">
+                            {change.fields.map(field => (
+                              <div key={field} className="truncate">
+                                <span className="text-gray-500">{field}: </span>
+                                <span className="text-red-700">{formatValue(change.local?.values[field])}</span>
+                                <span className="text-gray-400"> → </span>
+                                <span className="text-green-700">{formatValue(change.incoming?.values[field])}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                      </div>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
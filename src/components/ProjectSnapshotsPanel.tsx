@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Camera, GitCompare, RotateCcw, Trash2 } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import { db } from '../services/supabase'
+import type { ProjectSnapshotSummary } from '../services/supabase/project-snapshots'
+import { createSnapshot, deleteSnapshot, type SnapshotRestoreResult } from '../lib/project-snapshots'
+import SnapshotDiffModal from './SnapshotDiffModal'
+
+interface ProjectSnapshotsPanelProps {
+  project: ScribeProject
+  canEdit: boolean
+  onProjectUpdated?: (project: ScribeProject) => void
+}
+
+export default function ProjectSnapshotsPanel({ project, canEdit, onProjectUpdated }: ProjectSnapshotsPanelProps) {
+  const { user } = useAuthStore()
+  const [snapshots, setSnapshots] = useState<ProjectSnapshotSummary[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+  const [name, setName] = useState('')
+  const [creating, setCreating] = useState(false)
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [viewing, setViewing] = useState<ProjectSnapshotSummary | null>(null)
+
+  const loadSnapshots = useCallback(async () => {
+    try {
+      const { data, error } = await db.projectSnapshots.getByProject(project.id)
+      if (error) throw new Error(error.message)
+      setSnapshots(data || [])
+    } catch (err) {
+      console.error('Error loading snapshots:', err)
+      setError('Failed to load snapshots')
+    } finally {
+      setLoading(false)
+    }
+  }, [project.id])
+
+  useEffect(() => {
+    loadSnapshots()
+  }, [loadSnapshots])
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!user?.id || !name.trim()) return
+
+    setCreating(true)
+    setError(null)
+    setNotice(null)
+
+    try {
+      const snapshot = await createSnapshot(project, name.trim(), user.id)
+      setSnapshots(prev => [snapshot, ...prev])
+      setName('')
+    } catch (err) {
+      console.error('Error creating snapshot:', err)
+      setError(err instanceof Error ? err.message : 'Failed to create snapshot')
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const handleDelete = async (snapshot: ProjectSnapshotSummary) => {
+    if (!user?.id || !confirm(`Delete snapshot "${snapshot.name}"?`)) return
+
+    setDeletingId(snapshot.id)
+    setError(null)
+
+    try {
+      await deleteSnapshot(snapshot.id, user.id)
+      setSnapshots(prev => prev.filter(x => x.id !== snapshot.id))
+    } catch (err) {
+      console.error('Error deleting snapshot:', err)
+      setError(err instanceof Error ? err.message : 'Failed to delete snapshot')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  const handleRestored = (restore: SnapshotRestoreResult) => {
+    setSnapshots(prev => [restore.restorePoint, ...prev])
+    onProjectUpdated?.(restore.project)
+    const skipped = restore.result.skipped.length > 0 ? ` ${restore.result.skipped.length} change(s) were skipped.` : ''
+    setNotice(`Restored ${restore.result.applied} record${restore.result.applied === 1 ? '' : 's'}. Restore "${restore.restorePoint.name}" to undo.${skipped}`)
+  }
+
+  return (
+    <div className="bg-white shadow rounded-lg p-6">
+      <div className="flex items-center mb-4">
+        <Camera className="h-5 w-5 text-gray-400 mr-2" />
+        <h3 className="text-lg font-medium text-gray-900">Snapshots</h3>
+        <span className="ml-2 text-sm text-gray-500">
+          ({snapshots.length})
+        </span>
+      </div>
+
+      {canEdit && (
+        <form onSubmit={handleCreate} className="flex items-center space-x-3 mb-4">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Snapshot name"
+            disabled={creating}
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+          />
+          <button
+            type="submit"
+            disabled={creating || !name.trim()}
+            className="inline-flex items-center px-3 py-2 border border-transparent text-sm leading-4 font-medium rounded-md text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Camera className="h-4 w-4 mr-1" />
+            {creating ? 'Saving...' : 'Take Snapshot'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="mb-4 p-3 bg-red-50 border border-red-200 rounded-md">
+          <p className="text-sm text-red-600">{error}</p>
+        </div>
+      )}
+
+      {notice && (
+        <div className="mb-4 p-3 bg-green-50 border border-green-200 rounded-md">
+          <p className="text-sm text-green-700">{notice}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="animate-pulse space-y-3">
+          <div className="h-10 bg-gray-200 rounded"></div>
+          <div className="h-10 bg-gray-200 rounded"></div>
+        </div>
+      ) : snapshots.length === 0 ? (
+        <div className="text-center py-6">
+          <Camera className="mx-auto h-12 w-12 text-gray-400" />
+          <h3 className="mt-2 text-sm font-medium text-gray-900">No snapshots</h3>
+          <p className="mt-1 text-sm text-gray-500">
+            {canEdit
+              ? 'Take a snapshot to keep a restore point of the project data.'
+              : "This project doesn't have any snapshots yet."
+            }
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {snapshots.map((snapshot) => (
+            <div
+              key={snapshot.id}
+              className="flex items-center justify-between p-3 bg-gray-50 rounded-lg"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center">
+                  <p className="text-sm font-medium text-gray-900 truncate">{snapshot.name}</p>
+                  {snapshot.kind === 'restore-point' && (
+                    <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                      Restore point
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {new Date(snapshot.createdAt).toLocaleString()} · {snapshot.recordCount.toLocaleString()} records
+                </p>
+              </div>
+              <div className="flex items-center space-x-2 ml-4">
+                <button
+                  onClick={() => setViewing(snapshot)}
+                  className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                  title="Compare the snapshot with the current project"
+                >
+                  <GitCompare className="h-3 w-3 mr-1" />
+                  Diff
+                </button>
+                {canEdit && (
+                  <button
+                    onClick={() => setViewing(snapshot)}
+                    className="inline-flex items-center px-2 py-1 text-xs font-medium text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                    title="Review the changes and roll the project back to this snapshot"
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    Restore
+                  </button>
+                )}
+                {canEdit && (
+                  <button
+                    onClick={() => handleDelete(snapshot)}
+                    disabled={deletingId === snapshot.id}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-50"
+                    title="Delete snapshot"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <SnapshotDiffModal
+        isOpen={viewing !== null}
+        onClose={() => setViewing(null)}
+        project={project}
+        snapshot={viewing}
+        canRestore={canEdit}
+        onRestored={handleRestored}
+      />
+    </div>
+  )
+}
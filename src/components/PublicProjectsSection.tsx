@@ -1,9 +1,10 @@
 import { useState, useEffect } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { db } from '../services/supabase'
-import { Calendar, Download, Users as UsersIcon, Eye, TrendingUp, Clock, Star } from 'lucide-react'
+import { Calendar, Download, Users as UsersIcon, Eye, TrendingUp, Clock, Star, GitFork } from 'lucide-react'
 import type { ScribeProject } from '@prisma/client'
 import clsx from 'clsx'
+import ForkProjectModal from './ForkProjectModal'
 
 type DiscoveryFilter = 'recent' | 'updated' | 'active' | 'popular'
 
@@ -16,6 +17,7 @@ export default function PublicProjectsSection({ className }: PublicProjectsSecti
   const [projects, setProjects] = useState<ScribeProject[]>([])
   const [loading, setLoading] = useState(true)
   const [activeFilter, setActiveFilter] = useState<DiscoveryFilter>('recent')
+  const [forkingProject, setForkingProject] = useState<ScribeProject | null>(null)
 
   const filters = [
     {
@@ -215,21 +217,43 @@ export default function PublicProjectsSection({ className }: PublicProjectsSecti
                     <UsersIcon className="h-4 w-4 mr-1" />
                     <span>Community</span>
                   </div>
-                  <button
-                    onClick={(e) => {
-                      e.stopPropagation()
-                      handleProjectClick(project.id)
-                    }}
-                    className="text-blue-600 hover:text-blue-800 text-sm font-medium"
-                  >
-                    View →
-                  </button>
+                  <div className="flex items-center space-x-3">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        setForkingProject(project)
+                      }}
+                      className="inline-flex items-center text-gray-600 hover:text-gray-800 text-sm font-medium"
+                      title="Copy this project into a new project you own"
+                    >
+                      <GitFork className="h-4 w-4 mr-1" />
+                      Fork
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        handleProjectClick(project.id)
+                      }}
+                      className="text-blue-600 hover:text-blue-800 text-sm font-medium"
+                    >
+                      View →
+                    </button>
+                  </div>
                 </div>
               </div>
             </div>
           ))}
         </div>
       )}
+
+      {forkingProject && (
+        <ForkProjectModal
+          isOpen={true}
+          onClose={() => setForkingProject(null)}
+          project={forkingProject}
+          onForked={(forked) => handleProjectClick(forked.id)}
+        />
+      )}
     </div>
   )
 }
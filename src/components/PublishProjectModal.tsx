@@ -0,0 +1,195 @@
+import { useEffect, useState } from 'react'
+import { AlertTriangle, Upload } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import Modal from './Modal'
+import ProjectChangesList from './ProjectChangesList'
+import { getPublishedVersions, preparePublish, publishProject, type PublishPreview } from '../lib/upstream-publish'
+
+interface PublishProjectModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ScribeProject
+  onPublished?: (project: ScribeProject) => void
+}
+
+const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:ring-2 focus:ring-blue-500 focus:border-blue-500'
+
+export default function PublishProjectModal({
+  isOpen,
+  onClose,
+  project,
+  onPublished,
+}: PublishProjectModalProps) {
+  const { user } = useAuthStore()
+  const [preview, setPreview] = useState<PublishPreview | null>(null)
+  const [notes, setNotes] = useState('')
+  const [accessToken, setAccessToken] = useState('')
+  const [loading, setLoading] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Package the project and compare it with upstream each time the modal opens
+  useEffect(() => {
+    if (!isOpen || !user?.id) return
+
+    const loadPreview = async () => {
+      setLoading(true)
+      setError(null)
+      setPreview(null)
+
+      try {
+        setPreview(await preparePublish(project, user.id))
+      } catch (err) {
+        console.error('Error preparing publish:', err)
+        setError(err instanceof Error ? err.message : 'Failed to prepare publish')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadPreview()
+  }, [isOpen, project, user?.id])
+
+  const handlePublish = async () => {
+    if (!user?.id || !preview) return
+
+    setPublishing(true)
+    setError(null)
+
+    try {
+      const updated = await publishProject(project, preview, notes, accessToken.trim(), user.id)
+      setNotes('')
+      onPublished?.(updated)
+      onClose()
+    } catch (err) {
+      console.error('Error publishing project:', err)
+      setError(err instanceof Error ? err.message : 'Failed to publish project')
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const publishedVersions = getPublishedVersions(project)
+  const lastPublished = publishedVersions[publishedVersions.length - 1]
+  const canPublish = preview !== null
+    && preview.validationErrors.length === 0
+    && preview.newerVersion === null
+    && preview.diff.changes.length > 0
+    && accessToken.trim() !== ''
+    && !publishing
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Publish to GaiaLabs"
+      className="max-w-3xl"
+    >
+      <div className="p-6 space-y-4">
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Packaging project...</span>
+          </div>
+        )}
+
+        {preview && (
+          <>
+            <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600 space-y-1">
+              <div className="text-gray-900 font-medium">
+                {preview.branch.gameRom.game.name} - {preview.branch.name || 'Main'} ({preview.branch.gameRom.region.name})
+              </div>
+              <div>Publishes version v{preview.nextVersion} (based on v{preview.branch.version || 1})</div>
+              {lastPublished && (
+                <div>Last published v{lastPublished.version} on {new Date(lastPublished.publishedAt).toLocaleString()}</div>
+              )}
+            </div>
+
+            {preview.newerVersion !== null && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                Upstream is already at v{preview.newerVersion}. Pull upstream changes before publishing.
+              </div>
+            )}
+
+            {preview.validationErrors.length > 0 && (
+              <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+                <div className="font-medium mb-1">The package failed validation:</div>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {preview.validationErrors.map(message => <li key={message}>{message}</li>)}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <p className="text-sm text-gray-600 mb-2">
+                {preview.diff.changes.length} change{preview.diff.changes.length === 1 ? '' : 's'} since v{preview.branch.version || 1}
+              </p>
+              <div className="max-h-72 overflow-y-auto">
+                <ProjectChangesList changes={preview.diff.changes} />
+              </div>
+            </div>
+
+            <div>
+              <label htmlFor="publish-notes" className="block text-sm font-medium text-gray-700 mb-2">
+                Release Notes
+              </label>
+              <textarea
+                id="publish-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={3}
+                placeholder="Describe what changed in this version..."
+                className={inputClass}
+                disabled={publishing}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="publish-token" className="block text-sm font-medium text-gray-700 mb-2">
+                GaiaLabs Access Token
+              </label>
+              <input
+                id="publish-token"
+                type="password"
+                value={accessToken}
+                onChange={(e) => setAccessToken(e.target.value)}
+                autoComplete="off"
+                className={`${inputClass} font-mono`}
+                disabled={publishing}
+              />
+              <p className="mt-1 text-xs text-gray-500">
+                Needed to write to the GaiaLabs database. It is only used for this request and is not stored.
+              </p>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={publishing}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handlePublish}
+            disabled={!canPublish}
+            className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {publishing ? 'Publishing...' : 'Publish'}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  )
+}
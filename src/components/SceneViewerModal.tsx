@@ -0,0 +1,382 @@
+/**
+ * Scene Viewer Modal Component
+ *
+ * Composes a background layer from a tilemap file, the graphics files it
+ * draws tiles from and a palette, and renders it on a canvas. The scene's
+ * files are picked automatically from the tilemap's scene or group and can
+ * be changed. Supports zoom, pan, and export.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Modal from './Modal'
+import { Download, ZoomIn, ZoomOut, RotateCcw, X } from 'lucide-react'
+import type { File as PrismaFile } from '@prisma/client'
+import { extractFileData, extractPaletteColors, extractTilemapFile } from '../lib/graphics-extractor'
+import { paletteToRgba, type PaletteColor } from '../lib/palette-decoder'
+import { TILE_DECODERS, getGraphicsOptions, type TileFormat } from '../lib/tile-decoders'
+import { findSceneFiles, getTilemapWidth, parseTilemap, renderTilemap, type TilemapEntry, type TilemapLayer } from '../lib/tilemap-renderer'
+import { downloadBlob, sanitizeFileName } from '../lib/download-utils'
+
+interface SceneViewerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Tilemap file to compose */
+  file: PrismaFile | null
+  /** All files of the project, to pick graphics and palettes from */
+  files: PrismaFile[]
+  romData: Uint8Array | null
+}
+
+const LAYER_NAMES: Record<TilemapLayer, string> = {
+  all: 'All tiles',
+  low: 'Low priority',
+  high: 'High priority'
+}
+
+export default function SceneViewerModal({
+  isOpen,
+  onClose,
+  file,
+  files,
+  romData
+}: SceneViewerModalProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [zoom, setZoom] = useState(2) // Default 2x zoom
+  const [error, setError] = useState<string | null>(null)
+
+  // Scene composition
+  const [tilesetNames, setTilesetNames] = useState<string[]>([])
+  const [paletteName, setPaletteName] = useState<string | null>(null)
+  const [format, setFormat] = useState<TileFormat>('4bpp')
+  const [mapWidth, setMapWidth] = useState(32)
+  const [layer, setLayer] = useState<TilemapLayer>('all')
+
+  // Loaded data
+  const [entries, setEntries] = useState<TilemapEntry[] | null>(null)
+  const [tiles, setTiles] = useState<Uint8Array | null>(null)
+  const [paletteColors, setPaletteColors] = useState<PaletteColor[] | null>(null)
+
+  const graphicsFiles = useMemo(() => files.filter(x => x.type === 'Bitmap').sort((a, b) => a.name.localeCompare(b.name)), [files])
+  const paletteFiles = useMemo(() => files.filter(x => x.type === 'Palette').sort((a, b) => a.name.localeCompare(b.name)), [files])
+
+  // Pick the scene's files whenever a tilemap is opened
+  useEffect(() => {
+    if (!file) return
+    const scene = findSceneFiles(files, file)
+    setError(null)
+    setTilesetNames(scene.tilesets.map(x => x.name))
+    setPaletteName(scene.palettes[0]?.name ?? null)
+    setFormat(scene.tilesets.length > 0 ? getGraphicsOptions(scene.tilesets[0].meta).format : '4bpp')
+    setLayer('all')
+  }, [file, files])
+
+  // Load the tilemap
+  useEffect(() => {
+    setEntries(null)
+    if (!isOpen || !file || !romData) return
+
+    let isMounted = true
+    extractTilemapFile(romData, file)
+      .then(({ header, data }) => {
+        if (!isMounted) return
+        const parsed = parseTilemap(data)
+        setEntries(parsed)
+        setMapWidth(getTilemapWidth(header, parsed.length))
+      })
+      .catch(err => {
+        console.error('Error loading tilemap:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load tilemap')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [isOpen, file, romData])
+
+  // Load the graphics, in character order
+  useEffect(() => {
+    setTiles(null)
+    if (!isOpen || !romData) return
+
+    const selected = tilesetNames
+      .map(name => files.find(x => x.name === name))
+      .filter((x): x is PrismaFile => !!x)
+
+    let isMounted = true
+    Promise.all(selected.map(x => extractFileData(romData, x, 'QuintetLZ')))
+      .then(parts => {
+        if (!isMounted) return
+        const combined = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+        let offset = 0
+        for (const part of parts) {
+          combined.set(part, offset)
+          offset += part.length
+        }
+        setTiles(combined)
+      })
+      .catch(err => {
+        console.error('Error loading graphics:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load graphics')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [isOpen, romData, files, tilesetNames])
+
+  // Load the palette
+  useEffect(() => {
+    setPaletteColors(null)
+    const paletteFile = files.find(x => x.name === paletteName)
+    if (!isOpen || !romData || !paletteFile) return
+
+    let isMounted = true
+    extractPaletteColors(romData, paletteFile)
+      .then(colors => {
+        if (isMounted) setPaletteColors(colors)
+      })
+      .catch(err => {
+        console.error('Error loading palette:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load palette')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [isOpen, romData, files, paletteName])
+
+  const imageData = useMemo(() => {
+    if (!entries || !tiles) return null
+    try {
+      const palette = paletteColors ? paletteToRgba(paletteColors) : undefined
+      return renderTilemap(entries, tiles, { width: mapWidth, format, layer }, palette)
+    } catch (err) {
+      console.error('Error rendering scene:', err)
+      return null
+    }
+  }, [entries, tiles, paletteColors, mapWidth, format, layer])
+
+  // Render image data to canvas
+  useEffect(() => {
+    if (!canvasRef.current || !imageData) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      setError('Failed to get canvas context')
+      return
+    }
+
+    canvas.width = imageData.width
+    canvas.height = imageData.height
+    ctx.putImageData(imageData, 0, 0)
+  }, [imageData])
+
+  const handleExport = () => {
+    if (!canvasRef.current) return
+
+    canvasRef.current.toBlob((blob) => {
+      if (!blob) {
+        setError('Failed to export image')
+        return
+      }
+      downloadBlob(blob, `${sanitizeFileName(file?.name || 'scene')}.png`)
+    })
+  }
+
+  const addTileset = (name: string) => {
+    if (name && !tilesetNames.includes(name)) setTilesetNames([...tilesetNames, name])
+  }
+
+  const removeTileset = (name: string) => {
+    setTilesetNames(tilesetNames.filter(x => x !== name))
+  }
+
+  if (!file || !romData) {
+    return null
+  }
+
+  const tileCount = tiles ? Math.floor(tiles.length / TILE_DECODERS[format].bytesPerTile) : 0
+  const missingTiles = entries && tiles ? entries.filter(entry => entry.tile >= tileCount).length : 0
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Scene Viewer - ${file.name}`}
+      movable={true}
+      resizable={true}
+      transparentBackdrop={true}
+      closeOnBackdropClick={false}
+      initialSize={{ width: 720, height: 760 }}
+    >
+      <div className="p-6 space-y-4">
+        {/* Error Display */}
+        {error && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded">
+            <strong>Error:</strong> {error}
+          </div>
+        )}
+
+        {/* File Information */}
+        <div className="text-sm text-gray-600 space-y-1">
+          <div><strong>Tilemap:</strong> {file.name}</div>
+          {file.scene && <div><strong>Scene:</strong> {file.scene}</div>}
+          {file.group && <div><strong>Group:</strong> {file.group}</div>}
+        </div>
+
+        {/* Graphics */}
+        <div>
+          <div className="text-xs font-medium text-gray-700 mb-1">Graphics, in character order</div>
+          <div className="flex flex-wrap items-center gap-2">
+            {tilesetNames.map(name => (
+              <span key={name} className="inline-flex items-center px-2 py-1 rounded bg-gray-100 text-xs font-mono text-gray-800">
+                {name}
+                <button onClick={() => removeTileset(name)} className="ml-1 text-gray-400 hover:text-gray-700" title="Remove">
+                  <X className="h-3 w-3" />
+                </button>
+              </span>
+            ))}
+            <select
+              value=""
+              onChange={(e) => addTileset(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              <option value="">Add graphics...</option>
+              {graphicsFiles.filter(x => !tilesetNames.includes(x.name)).map(x => (
+                <option key={x.id} value={x.name}>{x.name}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Layout */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div>
+            <label htmlFor="scene-palette" className="block text-xs font-medium text-gray-700 mb-1">Palette</label>
+            <select
+              id="scene-palette"
+              value={paletteName ?? ''}
+              onChange={(e) => setPaletteName(e.target.value || null)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              <option value="">Grayscale</option>
+              {paletteFiles.map(x => (
+                <option key={x.id} value={x.name}>{x.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scene-format" className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+            <select
+              id="scene-format"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as TileFormat)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {Object.values(TILE_DECODERS).map(x => (
+                <option key={x.format} value={x.format}>{x.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="scene-width" className="block text-xs font-medium text-gray-700 mb-1">Map width</label>
+            <input
+              id="scene-width"
+              type="number"
+              min={1}
+              max={256}
+              value={mapWidth}
+              onChange={(e) => {
+                const width = parseInt(e.target.value)
+                if (width > 0 && width <= 256) setMapWidth(width)
+              }}
+              className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+            />
+          </div>
+          <div>
+            <label htmlFor="scene-layer" className="block text-xs font-medium text-gray-700 mb-1">Priority</label>
+            <select
+              id="scene-layer"
+              value={layer}
+              onChange={(e) => setLayer(e.target.value as TilemapLayer)}
+              className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+            >
+              {(Object.keys(LAYER_NAMES) as TilemapLayer[]).map(key => (
+                <option key={key} value={key}>{LAYER_NAMES[key]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Toolbar */}
+        <div className="flex items-center justify-between border-t border-b border-gray-200 py-2">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setZoom(prev => Math.max(prev - 0.5, 0.5))}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+              title="Zoom Out"
+            >
+              <ZoomOut className="h-4 w-4" />
+            </button>
+            <span className="text-sm font-medium text-gray-700 min-w-[60px] text-center">
+              {(zoom * 100).toFixed(0)}%
+            </span>
+            <button
+              onClick={() => setZoom(prev => Math.min(prev + 0.5, 8))}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+              title="Zoom In"
+            >
+              <ZoomIn className="h-4 w-4" />
+            </button>
+            <button
+              onClick={() => setZoom(2)}
+              className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+              title="Reset Zoom"
+            >
+              <RotateCcw className="h-4 w-4" />
+            </button>
+          </div>
+
+          <button
+            onClick={handleExport}
+            disabled={!imageData}
+            className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1.5" />
+            Export PNG
+          </button>
+        </div>
+
+        {/* Canvas Container */}
+        <div className="border border-gray-300 rounded bg-gray-100 overflow-auto" style={{ maxHeight: '500px' }}>
+          {imageData ? (
+            <div className="p-4 inline-block">
+              <canvas
+                ref={canvasRef}
+                className="border border-gray-400 bg-white"
+                style={{
+                  imageRendering: 'pixelated',
+                  transform: `scale(${zoom})`,
+                  transformOrigin: 'top left',
+                  width: imageData.width,
+                  height: imageData.height
+                }}
+              />
+            </div>
+          ) : (
+            <div className="p-8 text-sm text-gray-500 text-center">Loading scene...</div>
+          )}
+        </div>
+
+        {/* Image Information */}
+        {imageData && entries && (
+          <div className="text-xs text-gray-500 space-y-1">
+            <div><strong>Image Size:</strong> {imageData.width} × {imageData.height} pixels</div>
+            <div><strong>Map:</strong> {mapWidth} × {Math.ceil(entries.length / mapWidth)} tiles, {tileCount} tiles of graphics</div>
+            {missingTiles > 0 && (
+              <div className="text-orange-600">{missingTiles} entries point past the loaded graphics and are left blank</div>
+            )}
+          </div>
+        )}
+      </div>
+    </Modal>
+  )
+}
@@ -8,7 +8,7 @@ interface SectionCardProps {
   sectionName: string
   sectionKey: string
   icon: ReactNode
-  count: number
+  count?: number // Omit to hide the item count
   description: string
   loading?: boolean
   className?: string
@@ -66,20 +66,22 @@ export default function SectionCard({
       </div>
 
       {/* Count */}
-      <div className="mb-3">
-        {loading ? (
-          <div className="animate-pulse">
-            <div className="h-8 w-16 bg-gray-200 rounded"></div>
-          </div>
-        ) : (
-          <div className="text-3xl font-bold text-gray-900">
-            {count.toLocaleString()}
+      {count !== undefined && (
+        <div className="mb-3">
+          {loading ? (
+            <div className="animate-pulse">
+              <div className="h-8 w-16 bg-gray-200 rounded"></div>
+            </div>
+          ) : (
+            <div className="text-3xl font-bold text-gray-900">
+              {count.toLocaleString()}
+            </div>
+          )}
+          <div className="text-sm text-gray-500">
+            {count === 1 ? 'item' : 'items'}
           </div>
-        )}
-        <div className="text-sm text-gray-500">
-          {count === 1 ? 'item' : 'items'}
         </div>
-      </div>
+      )}
 
       {/* Description */}
       <p className="text-sm text-gray-600 leading-relaxed">
@@ -0,0 +1,135 @@
+import { useEffect, useState } from 'react'
+import { RotateCcw } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import Modal from './Modal'
+import ProjectChangesList from './ProjectChangesList'
+import type { ProjectSnapshotSummary } from '../services/supabase/project-snapshots'
+import { loadSnapshotDiff, restoreSnapshot, type SnapshotRestoreResult } from '../lib/project-snapshots'
+import type { ProjectDiff } from '../lib/project-diff'
+
+interface SnapshotDiffModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ScribeProject
+  snapshot: ProjectSnapshotSummary | null
+  canRestore: boolean
+  onRestored?: (restore: SnapshotRestoreResult) => void
+}
+
+export default function SnapshotDiffModal({
+  isOpen,
+  onClose,
+  project,
+  snapshot,
+  canRestore,
+  onRestored,
+}: SnapshotDiffModalProps) {
+  const { user } = useAuthStore()
+  const [diff, setDiff] = useState<ProjectDiff | null>(null)
+  const [loading, setLoading] = useState(false)
+  const [restoring, setRestoring] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!isOpen || !snapshot) return
+
+    const loadDiff = async () => {
+      setLoading(true)
+      setError(null)
+      setDiff(null)
+
+      try {
+        setDiff(await loadSnapshotDiff(project, snapshot.id))
+      } catch (err) {
+        console.error('Error comparing snapshot:', err)
+        setError(err instanceof Error ? err.message : 'Failed to compare snapshot')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadDiff()
+  }, [isOpen, project, snapshot])
+
+  const handleRestore = async () => {
+    if (!user?.id || !snapshot) return
+
+    setRestoring(true)
+    setError(null)
+
+    try {
+      const restore = await restoreSnapshot(project, snapshot.id, user.id)
+      onRestored?.(restore)
+      onClose()
+    } catch (err) {
+      console.error('Error restoring snapshot:', err)
+      setError(err instanceof Error ? err.message : 'Failed to restore snapshot')
+    } finally {
+      setRestoring(false)
+    }
+  }
+
+  const changes = diff?.changes ?? []
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={snapshot ? `Snapshot: ${snapshot.name}` : 'Snapshot'}
+      className="max-w-4xl"
+    >
+      <div className="p-6 space-y-4">
+        {loading && (
+          <div className="text-sm text-gray-500">Comparing snapshot with the current project...</div>
+        )}
+
+        {diff && (
+          changes.length === 0 ? (
+            <div className="text-sm text-gray-600">The project matches this snapshot.</div>
+          ) : (
+            <>
+              <p className="text-sm text-gray-600">
+                {changes.length} record{changes.length === 1 ? '' : 's'} differ from the snapshot. Restoring applies all of them;
+                the current state is saved as a restore point first, so the restore can be undone.
+              </p>
+              <div className="max-h-[28rem] overflow-y-auto">
+                <ProjectChangesList
+                  changes={changes}
+                  localLabel="Current"
+                  incomingLabel="Snapshot"
+                />
+              </div>
+            </>
+          )
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            disabled={restoring}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            Close
+          </button>
+          {canRestore && (
+            <button
+              onClick={handleRestore}
+              disabled={restoring || loading || !diff || changes.length === 0 || !user?.id}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {restoring ? 'Restoring...' : 'Restore Snapshot'}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
@@ -0,0 +1,570 @@
+/**
+ * Sprite Viewer Modal Component
+ *
+ * Assembles sprite frames from the tables a struct describes and plays a
+ * block's frames back as an animation. The struct fields holding each OAM
+ * attribute, the graphics and the palette can be changed and saved as the
+ * struct's defaults. Supports zoom, frame stepping, and export.
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react'
+import Modal from './Modal'
+import { Download, Pause, Play, RotateCcw, Save, SkipBack, SkipForward, ZoomIn, ZoomOut } from 'lucide-react'
+import type { ScribeProject, Struct } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import { db } from '../services/supabase'
+import { extractFileData, extractPaletteColors } from '../lib/graphics-extractor'
+import { paletteToRgba, type PaletteColor } from '../lib/palette-decoder'
+import { TILE_DECODERS, getGraphicsOptions, type TileFormat } from '../lib/tile-decoders'
+import {
+  SPRITE_FIELDS,
+  decodeSpriteSequence,
+  getEntrySize,
+  getSpriteBounds,
+  getSpriteOptions,
+  loadSpriteSources,
+  renderSpriteFrame,
+  setSpriteOptions,
+  type SpriteField,
+  type SpriteOptions,
+  type SpriteSources
+} from '../lib/sprite-assembler'
+import { downloadBlob, sanitizeFileName } from '../lib/download-utils'
+
+interface SpriteViewerModalProps {
+  isOpen: boolean
+  onClose: () => void
+  /** Struct describing one sprite table entry */
+  struct: Struct | null
+  project: ScribeProject
+  romData: Uint8Array | null
+  canEdit?: boolean
+  onStructUpdated?: (struct: Struct) => void
+}
+
+const FIELD_LABELS: Record<SpriteField, string> = {
+  x: 'X offset',
+  y: 'Y offset',
+  tile: 'Tile',
+  attr: 'Attributes',
+  size: 'Large'
+}
+
+const OPTIONAL_FIELDS = new Set<SpriteField>(['attr', 'size'])
+
+const formatHex = (value: number, width: number) => `$${value.toString(16).toUpperCase().padStart(width, '0')}`
+
+export default function SpriteViewerModal({
+  isOpen,
+  onClose,
+  struct,
+  project,
+  romData,
+  canEdit = false,
+  onStructUpdated
+}: SpriteViewerModalProps) {
+  const { user } = useAuthStore()
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [zoom, setZoom] = useState(3)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  // Loaded data
+  const [sources, setSources] = useState<SpriteSources | null>(null)
+  const [options, setOptions] = useState<SpriteOptions | null>(null)
+  const [tiles, setTiles] = useState<Uint8Array | null>(null)
+  const [paletteColors, setPaletteColors] = useState<PaletteColor[] | null>(null)
+
+  // Playback
+  const [sequenceName, setSequenceName] = useState<string | null>(null)
+  const [frameIndex, setFrameIndex] = useState(0)
+  const [playing, setPlaying] = useState(false)
+
+  // Load the struct layout, its tables and the project's graphics
+  useEffect(() => {
+    setSources(null)
+    setOptions(null)
+    setError(null)
+    setPlaying(false)
+    if (!isOpen || !struct) return
+
+    let isMounted = true
+    loadSpriteSources(project, struct)
+      .then(loaded => {
+        if (!isMounted) return
+        const stored = getSpriteOptions(struct.meta, loaded.fields)
+        setSources(loaded)
+        setOptions({ ...stored, graphics: stored.graphics ?? loaded.graphicsFiles[0]?.name ?? null })
+        setSequenceName(prev => loaded.sequences.some(x => x.name === prev) ? prev : loaded.sequences[0]?.name ?? null)
+        setFrameIndex(0)
+      })
+      .catch(err => {
+        console.error('Error loading sprite tables:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load sprite tables')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [isOpen, struct, project])
+
+  const graphicsFile = sources?.graphicsFiles.find(x => x.name === options?.graphics) ?? null
+  const paletteFile = sources?.paletteFiles.find(x => x.name === options?.palette) ?? null
+
+  // Load the graphics
+  useEffect(() => {
+    setTiles(null)
+    if (!romData || !graphicsFile) return
+
+    let isMounted = true
+    extractFileData(romData, graphicsFile, 'QuintetLZ')
+      .then(data => {
+        if (isMounted) setTiles(data)
+      })
+      .catch(err => {
+        console.error('Error loading graphics:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load graphics')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [romData, graphicsFile])
+
+  // Load the palette
+  useEffect(() => {
+    setPaletteColors(null)
+    if (!romData || !paletteFile) return
+
+    let isMounted = true
+    extractPaletteColors(romData, paletteFile)
+      .then(colors => {
+        if (isMounted) setPaletteColors(colors)
+      })
+      .catch(err => {
+        console.error('Error loading palette:', err)
+        if (isMounted) setError(err instanceof Error ? err.message : 'Failed to load palette')
+      })
+    return () => {
+      isMounted = false
+    }
+  }, [romData, paletteFile])
+
+  const sequence = sources?.sequences.find(x => x.name === sequenceName) ?? null
+
+  // Decode every frame of the sequence
+  const decoded = useMemo(() => {
+    if (!romData || !sources || !options || !sequence || !struct) return { frames: null, error: null }
+    try {
+      return { frames: decodeSpriteSequence(romData, sequence, sources.fields, options.fields, struct.delimiter), error: null }
+    } catch (err) {
+      return { frames: null, error: err instanceof Error ? err.message : 'Failed to decode sprite tables' }
+    }
+  }, [romData, sources, options, sequence, struct])
+
+  const frames = decoded.frames
+  const frame = frames && frames.length > 0 ? frames[Math.min(frameIndex, frames.length - 1)] : null
+
+  // The whole sequence shares one frame size so it plays back in place
+  const bounds = useMemo(() => frames ? getSpriteBounds(frames) : null, [frames])
+
+  const imageData = useMemo(() => {
+    if (!frame || !bounds || !tiles || !options) return null
+    try {
+      const palette = paletteColors ? paletteToRgba(paletteColors) : undefined
+      return renderSpriteFrame(frame.entries, tiles, options, bounds, palette)
+    } catch (err) {
+      console.error('Error rendering sprite:', err)
+      return null
+    }
+  }, [frame, bounds, tiles, options, paletteColors])
+
+  // Advance frames while playing
+  useEffect(() => {
+    if (!playing || !frames || frames.length < 2 || !options) return
+    const timer = setInterval(() => {
+      setFrameIndex(prev => (prev + 1) % frames.length)
+    }, options.frameDelay)
+    return () => clearInterval(timer)
+  }, [playing, frames, options])
+
+  // Render image data to canvas
+  useEffect(() => {
+    if (!canvasRef.current || !imageData) return
+
+    const canvas = canvasRef.current
+    const ctx = canvas.getContext('2d')
+    if (!ctx) {
+      setError('Failed to get canvas context')
+      return
+    }
+
+    canvas.width = imageData.width
+    canvas.height = imageData.height
+    ctx.putImageData(imageData, 0, 0)
+  }, [imageData])
+
+  const updateOptions = (changes: Partial<SpriteOptions>) => {
+    setOptions(prev => prev ? { ...prev, ...changes } : prev)
+  }
+
+  const updateField = (key: SpriteField, name: string) => {
+    setOptions(prev => prev ? { ...prev, fields: { ...prev.fields, [key]: name || null } } : prev)
+  }
+
+  const handleGraphicsChange = (name: string) => {
+    const file = sources?.graphicsFiles.find(x => x.name === name)
+    // Follow the graphics file's own format
+    updateOptions({ graphics: name || null, ...(file ? { format: getGraphicsOptions(file.meta).format } : {}) })
+  }
+
+  const handleSequenceChange = (name: string) => {
+    setSequenceName(name || null)
+    setFrameIndex(0)
+  }
+
+  const stepFrame = (delta: number) => {
+    if (!frames || frames.length === 0) return
+    setPlaying(false)
+    setFrameIndex(prev => (Math.min(prev, frames.length - 1) + delta + frames.length) % frames.length)
+  }
+
+  const handleSaveOptions = async () => {
+    if (!struct || !options || !user?.id) return
+
+    setSaving(true)
+    setError(null)
+
+    try {
+      const { data, error: updateError } = await db.structs.update(struct.id, {
+        meta: setSpriteOptions(struct.meta, options)
+      }, user.id)
+      if (updateError) throw new Error(updateError.message)
+      if (data) onStructUpdated?.(data)
+    } catch (err) {
+      console.error('Error saving sprite settings:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save sprite settings')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleExport = () => {
+    if (!canvasRef.current || !frame) return
+
+    canvasRef.current.toBlob((blob) => {
+      if (!blob) {
+        setError('Failed to export image')
+        return
+      }
+      downloadBlob(blob, `${sanitizeFileName(frame.name)}.png`)
+    })
+  }
+
+  if (!struct || !romData) {
+    return null
+  }
+
+  const tileCount = tiles && options ? Math.floor(tiles.length / TILE_DECODERS[options.format].bytesPerTile) : 0
+  const missingTiles = frame && tiles ? frame.entries.filter(entry => entry.tile >= tileCount).length : 0
+  const displayError = error ?? decoded.error
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Sprite Viewer - ${struct.name}`}
+      movable={true}
+      resizable={true}
+      transparentBackdrop={true}
+      closeOnBackdropClick={false}
+      initialSize={{ width: 760, height: 800 }}
+    >
+      <div className="p-6 space-y-4">
+        {/* Error Display */}
+        {displayError && (
+          <div className="p-3 text-sm text-red-700 bg-red-50 border border-red-200 rounded">
+            <strong>Error:</strong> {displayError}
+          </div>
+        )}
+
+        {!sources || !options ? (
+          !displayError && <div className="p-8 text-sm text-gray-500 text-center">Loading sprite tables...</div>
+        ) : (
+          <>
+            {/* Struct Information */}
+            <div className="text-sm text-gray-600 space-y-1">
+              <div>
+                <strong>Entry:</strong> {getEntrySize(sources.fields)} bytes
+                {struct.delimiter !== null && struct.delimiter !== undefined && `, ends at ${formatHex(struct.delimiter, 2)}`}
+              </div>
+              <div className="font-mono text-xs text-gray-500">
+                {sources.fields.map(field => `${field.name}: ${field.type}`).join(', ')}
+              </div>
+            </div>
+
+            {sources.sequences.length === 0 ? (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm">
+                No block parts use the type <span className="font-mono">{struct.name}</span>. Set a part's type to this struct to view it as sprite frames.
+              </div>
+            ) : (
+              <>
+                {/* Field Mapping */}
+                <div className="flex flex-wrap items-end gap-3">
+                  {SPRITE_FIELDS.map(key => (
+                    <div key={key}>
+                      <label htmlFor={`sprite-field-${key}`} className="block text-xs font-medium text-gray-700 mb-1">{FIELD_LABELS[key]}</label>
+                      <select
+                        id={`sprite-field-${key}`}
+                        value={options.fields[key] ?? ''}
+                        onChange={(e) => updateField(key, e.target.value)}
+                        className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                      >
+                        {OPTIONAL_FIELDS.has(key) ? <option value="">None</option> : <option value="">Select...</option>}
+                        {sources.fields.map(field => (
+                          <option key={field.name} value={field.name}>{field.name}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Graphics */}
+                <div className="flex flex-wrap items-end gap-3">
+                  <div>
+                    <label htmlFor="sprite-sequence" className="block text-xs font-medium text-gray-700 mb-1">Sequence</label>
+                    <select
+                      id="sprite-sequence"
+                      value={sequenceName ?? ''}
+                      onChange={(e) => handleSequenceChange(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      {sources.sequences.map(x => (
+                        <option key={x.name} value={x.name}>{x.name} ({x.parts.length})</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="sprite-graphics" className="block text-xs font-medium text-gray-700 mb-1">Graphics</label>
+                    <select
+                      id="sprite-graphics"
+                      value={options.graphics ?? ''}
+                      onChange={(e) => handleGraphicsChange(e.target.value)}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      <option value="">Select...</option>
+                      {sources.graphicsFiles.map(x => (
+                        <option key={x.id} value={x.name}>{x.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="sprite-format" className="block text-xs font-medium text-gray-700 mb-1">Format</label>
+                    <select
+                      id="sprite-format"
+                      value={options.format}
+                      onChange={(e) => updateOptions({ format: e.target.value as TileFormat })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      {Object.values(TILE_DECODERS).map(x => (
+                        <option key={x.format} value={x.format}>{x.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="sprite-palette" className="block text-xs font-medium text-gray-700 mb-1">Palette</label>
+                    <select
+                      id="sprite-palette"
+                      value={options.palette ?? ''}
+                      onChange={(e) => updateOptions({ palette: e.target.value || null })}
+                      className="px-2 py-1 border border-gray-300 rounded text-sm bg-white"
+                    >
+                      <option value="">Grayscale</option>
+                      {sources.paletteFiles.map(x => (
+                        <option key={x.id} value={x.name}>{x.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label htmlFor="sprite-palette-base" className="block text-xs font-medium text-gray-700 mb-1">First row</label>
+                    <input
+                      id="sprite-palette-base"
+                      type="number"
+                      min={0}
+                      max={15}
+                      value={options.paletteBase}
+                      onChange={(e) => {
+                        const row = parseInt(e.target.value)
+                        if (row >= 0 && row <= 15) updateOptions({ paletteBase: row })
+                      }}
+                      className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+                      title="Palette row that entry palette 0 uses"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="sprite-delay" className="block text-xs font-medium text-gray-700 mb-1">Frame delay (ms)</label>
+                    <input
+                      id="sprite-delay"
+                      type="number"
+                      min={16}
+                      max={5000}
+                      step={10}
+                      value={options.frameDelay}
+                      onChange={(e) => {
+                        const delay = parseInt(e.target.value)
+                        if (delay >= 16 && delay <= 5000) updateOptions({ frameDelay: delay })
+                      }}
+                      className="w-20 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                  </div>
+                </div>
+
+                {/* Toolbar */}
+                <div className="flex items-center justify-between border-t border-b border-gray-200 py-2">
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => stepFrame(-1)}
+                      disabled={!frames || frames.length < 2}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:opacity-50"
+                      title="Previous Frame"
+                    >
+                      <SkipBack className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setPlaying(prev => !prev)}
+                      disabled={!frames || frames.length < 2}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:opacity-50"
+                      title={playing ? 'Pause' : 'Play'}
+                    >
+                      {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                    </button>
+                    <button
+                      onClick={() => stepFrame(1)}
+                      disabled={!frames || frames.length < 2}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded disabled:opacity-50"
+                      title="Next Frame"
+                    >
+                      <SkipForward className="h-4 w-4" />
+                    </button>
+                    <span className="text-sm text-gray-700 min-w-[80px] text-center">
+                      {frames && frames.length > 0 ? `${Math.min(frameIndex, frames.length - 1) + 1} / ${frames.length}` : '-'}
+                    </span>
+                    <span className="border-l border-gray-200 h-6" />
+                    <button
+                      onClick={() => setZoom(prev => Math.max(prev - 0.5, 0.5))}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                      title="Zoom Out"
+                    >
+                      <ZoomOut className="h-4 w-4" />
+                    </button>
+                    <span className="text-sm font-medium text-gray-700 min-w-[60px] text-center">
+                      {(zoom * 100).toFixed(0)}%
+                    </span>
+                    <button
+                      onClick={() => setZoom(prev => Math.min(prev + 0.5, 8))}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                      title="Zoom In"
+                    >
+                      <ZoomIn className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => setZoom(3)}
+                      className="p-2 text-gray-600 hover:text-gray-900 hover:bg-gray-100 rounded"
+                      title="Reset Zoom"
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    {canEdit && (
+                      <button
+                        onClick={handleSaveOptions}
+                        disabled={saving}
+                        className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 hover:bg-gray-50 rounded disabled:opacity-50"
+                        title="Save these settings to the struct"
+                      >
+                        <Save className="h-4 w-4 mr-1.5" />
+                        {saving ? 'Saving...' : 'Save as Default'}
+                      </button>
+                    )}
+                    <button
+                      onClick={handleExport}
+                      disabled={!imageData}
+                      className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded disabled:opacity-50"
+                    >
+                      <Download className="h-4 w-4 mr-1.5" />
+                      Export PNG
+                    </button>
+                  </div>
+                </div>
+
+                {/* Canvas Container */}
+                <div className="border border-gray-300 rounded bg-gray-100 overflow-auto" style={{ maxHeight: '400px' }}>
+                  {imageData ? (
+                    <div className="p-4 inline-block">
+                      <canvas
+                        ref={canvasRef}
+                        className="border border-gray-400 bg-white"
+                        style={{
+                          imageRendering: 'pixelated',
+                          transform: `scale(${zoom})`,
+                          transformOrigin: 'top left',
+                          width: imageData.width,
+                          height: imageData.height
+                        }}
+                      />
+                    </div>
+                  ) : (
+                    <div className="p-8 text-sm text-gray-500 text-center">
+                      {options.graphics ? 'Loading sprite...' : 'Select the graphics the sprite draws tiles from.'}
+                    </div>
+                  )}
+                </div>
+
+                {/* Frame Information */}
+                {frame && bounds && (
+                  <div className="text-xs text-gray-500 space-y-1">
+                    <div>
+                      <strong>Frame:</strong> {frame.name} at {formatHex(frame.location, 6)}, {frame.entries.length} objects,
+                      {' '}{bounds.width} × {bounds.height} pixels from ({bounds.left}, {bounds.top})
+                    </div>
+                    {missingTiles > 0 && (
+                      <div className="text-orange-600">{missingTiles} objects point past the loaded graphics and are left blank</div>
+                    )}
+                    <div className="max-h-32 overflow-y-auto border border-gray-200 rounded">
+                      <table className="min-w-full font-mono">
+                        <thead className="bg-gray-50 text-gray-600">
+                          <tr>
+                            <th className="px-2 py-1 text-left">#</th>
+                            <th className="px-2 py-1 text-left">X</th>
+                            <th className="px-2 py-1 text-left">Y</th>
+                            <th className="px-2 py-1 text-left">Tile</th>
+                            <th className="px-2 py-1 text-left">Palette</th>
+                            <th className="px-2 py-1 text-left">Flip</th>
+                            <th className="px-2 py-1 text-left">Size</th>
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-100">
+                          {frame.entries.map((entry, i) => (
+                            <tr key={i}>
+                              <td className="px-2 py-0.5">{i}</td>
+                              <td className="px-2 py-0.5">{entry.x}</td>
+                              <td className="px-2 py-0.5">{entry.y}</td>
+                              <td className="px-2 py-0.5">{formatHex(entry.tile, 3)}</td>
+                              <td className="px-2 py-0.5">{entry.palette}</td>
+                              <td className="px-2 py-0.5">{`${entry.hFlip ? 'H' : ''}${entry.vFlip ? 'V' : ''}` || '-'}</td>
+                              <td className="px-2 py-0.5">{entry.large ? '16' : '8'}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )}
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </Modal>
+  )
+}
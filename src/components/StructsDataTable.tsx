@@ -0,0 +1,88 @@
+import { useState, useMemo, useCallback } from 'react'
+import { Eye } from 'lucide-react'
+import DataTable, { type DataTableProps } from './DataTable'
+import type { ScribeProject, Struct } from '@prisma/client'
+import RomPathModal from './RomPathModal'
+import SpriteViewerModal from './SpriteViewerModal'
+
+interface StructsDataTableProps extends DataTableProps<Struct> {
+  project: ScribeProject
+}
+
+export default function StructsDataTable({ project, ...props }: StructsDataTableProps) {
+  const [selectedStruct, setSelectedStruct] = useState<Struct | null>(null)
+  const [romData, setRomData] = useState<Uint8Array | null>(null)
+  const [showRomPathModal, setShowRomPathModal] = useState(false)
+  const [showSpriteViewer, setShowSpriteViewer] = useState(false)
+
+  const handleViewSprites = useCallback((struct: Struct) => {
+    setSelectedStruct(struct)
+    setShowRomPathModal(true)
+  }, [])
+
+  const handleRomConfirm = useCallback((_romFile: File, romData: Uint8Array) => {
+    setRomData(romData)
+    setShowRomPathModal(false)
+    setShowSpriteViewer(true)
+  }, [])
+
+  const handleSpriteViewerClose = useCallback(() => {
+    setShowSpriteViewer(false)
+    setSelectedStruct(null)
+  }, [])
+
+  // Keep the viewer and the table in sync with saved sprite settings
+  const { onRefresh } = props
+  const handleStructUpdated = useCallback((struct: Struct) => {
+    setSelectedStruct(struct)
+    onRefresh?.()
+  }, [onRefresh])
+
+  // Enhanced columns with the sprite viewer action
+  const enhancedColumns = useMemo(() => {
+    return props.columns.map(col => {
+      if (col.key === 'actions') {
+        return {
+          ...col,
+          render: (_value: any, row: Struct) => (
+            <button
+              onClick={() => handleViewSprites(row)}
+              className="p-1 hover:bg-gray-100 rounded text-blue-600 hover:text-blue-900"
+              title="View Sprites"
+            >
+              <Eye className="h-4 w-4" />
+            </button>
+          )
+        }
+      }
+      return col
+    })
+  }, [props.columns, handleViewSprites])
+
+  return (
+    <>
+      <DataTable {...props} columns={enhancedColumns} />
+
+      {/* ROM Path Modal */}
+      <RomPathModal
+        isOpen={showRomPathModal}
+        onClose={() => setShowRomPathModal(false)}
+        onConfirm={handleRomConfirm}
+        title="Select ROM File"
+        description="Select the ROM file to read sprite tables from."
+        baseRomId={project.gameRomBranchId}
+      />
+
+      {/* Sprite Viewer Modal */}
+      <SpriteViewerModal
+        isOpen={showSpriteViewer}
+        onClose={handleSpriteViewerClose}
+        struct={selectedStruct}
+        project={project}
+        romData={romData}
+        canEdit={!!props.onEdit}
+        onStructUpdated={handleStructUpdated}
+      />
+    </>
+  )
+}
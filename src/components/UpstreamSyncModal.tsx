@@ -0,0 +1,202 @@
+import { useEffect, useState } from 'react'
+import { GitPullRequest } from 'lucide-react'
+import type { ScribeProject } from '@prisma/client'
+import { useAuthStore } from '../stores/auth-store'
+import { db } from '../services/supabase'
+import Modal from './Modal'
+import ProjectChangesList from './ProjectChangesList'
+import { UPSTREAM_TABLES, applyUpstreamChanges, loadUpstreamDiff, type UpstreamDiff } from '../lib/upstream-sync'
+
+interface UpstreamSyncModalProps {
+  isOpen: boolean
+  onClose: () => void
+  project: ScribeProject
+  onSynced?: (project: ScribeProject) => void
+}
+
+export default function UpstreamSyncModal({
+  isOpen,
+  onClose,
+  project,
+  onSynced,
+}: UpstreamSyncModalProps) {
+  const { user } = useAuthStore()
+  const [upstream, setUpstream] = useState<UpstreamDiff | null>(null)
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(false)
+  const [applying, setApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [skipped, setSkipped] = useState<string[]>([])
+  const [syncedProject, setSyncedProject] = useState<ScribeProject | null>(null)
+
+  // Fetch the upstream branch and compute the diff each time the modal opens
+  useEffect(() => {
+    if (!isOpen || !user?.id) return
+
+    const loadDiff = async () => {
+      setLoading(true)
+      setError(null)
+      setSkipped([])
+      setSyncedProject(null)
+      setUpstream(null)
+
+      try {
+        const result = await loadUpstreamDiff(project, user.id)
+        setUpstream(result)
+        // Default to taking upstream edits the project has not touched; conflicts start unchecked
+        setSelected(new Set([...result.metaChanges, ...result.diff.changes]
+          .map(change => change.id)
+          .filter(id => !result.conflicts.has(id))))
+      } catch (err) {
+        console.error('Error loading upstream changes:', err)
+        setError(err instanceof Error ? err.message : 'Failed to load upstream changes')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadDiff()
+  }, [isOpen, project, user?.id])
+
+  const handleApply = async () => {
+    if (!user?.id || !upstream) return
+
+    setApplying(true)
+    setError(null)
+
+    try {
+      const result = await applyUpstreamChanges(project, upstream, changes.filter(change => selected.has(change.id)), user.id)
+
+      const { data: updatedProject } = await db.projects.getById(project.id)
+
+      // Report the sync once the user has seen any skipped changes
+      if (result.skipped.length > 0) {
+        setSkipped(result.skipped)
+        setSyncedProject(updatedProject)
+        return
+      }
+      if (updatedProject) onSynced?.(updatedProject)
+      onClose()
+    } catch (err) {
+      console.error('Error applying upstream changes:', err)
+      setError(err instanceof Error ? err.message : 'Failed to apply upstream changes')
+    } finally {
+      setApplying(false)
+    }
+  }
+
+  const handleClose = () => {
+    if (syncedProject) onSynced?.(syncedProject)
+    onClose()
+  }
+
+  const changes = upstream ? [...upstream.metaChanges, ...upstream.diff.changes] : []
+  const branch = upstream?.branch
+  const base = upstream?.base
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Pull Upstream Changes"
+      className="max-w-3xl"
+    >
+      <div className="p-6 space-y-4">
+        {branch && (
+          <div className="p-4 bg-gray-50 rounded-lg text-sm text-gray-600 space-y-1">
+            <div className="flex items-center text-gray-900 font-medium">
+              <GitPullRequest className="h-4 w-4 mr-2" />
+              {branch.gameRom.game.name} - {branch.name || 'Main'} ({branch.gameRom.region.name})
+            </div>
+            <div>Upstream version: v{base?.version || 1} → v{branch.version || 1}</div>
+          </div>
+        )}
+
+        {loading && (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <span className="ml-3 text-gray-600">Comparing with upstream...</span>
+          </div>
+        )}
+
+        {upstream && (
+          <>
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-600">
+                {changes.length} upstream change{changes.length === 1 ? '' : 's'} since v{upstream.base.version || 1}
+                {upstream.conflicts.size > 0 && `, ${upstream.conflicts.size} also changed locally`}.
+                Checked rows take the upstream value; unchecked rows keep the local one.
+              </p>
+              {changes.length > 0 && (
+                <div className="flex items-center space-x-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setSelected(new Set())}
+                    disabled={applying}
+                    className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Keep All Local
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setSelected(new Set(changes.map(change => change.id)))}
+                    disabled={applying}
+                    className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Take All Upstream
+                  </button>
+                </div>
+              )}
+            </div>
+
+            <div className="max-h-96 overflow-y-auto">
+              <ProjectChangesList
+                changes={changes}
+                tables={UPSTREAM_TABLES}
+                selected={selected}
+                onSelectedChange={setSelected}
+                conflicts={upstream.conflicts}
+                incomingLabel="Upstream"
+                disabled={applying}
+              />
+            </div>
+          </>
+        )}
+
+        {skipped.length > 0 && (
+          <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-md text-yellow-800 text-sm">
+            <div className="font-medium mb-1">Some changes were not applied:</div>
+            <ul className="list-disc list-inside space-y-0.5">
+              {skipped.map(message => <li key={message}>{message}</li>)}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-3">
+          <button
+            onClick={handleClose}
+            disabled={applying}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50"
+          >
+            {skipped.length > 0 ? 'Close' : 'Cancel'}
+          </button>
+          {skipped.length === 0 && (
+            <button
+              onClick={handleApply}
+              disabled={!upstream || applying}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 border border-transparent rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {applying ? 'Applying...' : `Apply ${selected.size} Change${selected.size === 1 ? '' : 's'}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </Modal>
+  )
+}
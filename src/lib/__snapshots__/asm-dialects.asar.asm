@@ -0,0 +1,33 @@
+; bank $02
+freecode
+; requires sys_routines
+
+joypad = $065A
+
+intro_main:
+    SEP #$20
+    LDA #$01
+    STA $065A
+    LDA.w (intro_text)&$FFFF,X
+    REP #$20
+    LDX.w #(intro_text)&$FFFF
+    JSL.l sys_print
+    COP #$04
+  db $10
+  dw (intro_text)&$FFFF
+    BRA intro_main
+    RTL
+
+intro_table:
+  dw (intro_text)&$FFFF,(intro_menu)&$FFFF,$0000
+
+intro_text:
+  db $C1,$1A,"Hello, ",$22,"world",$22,$21," C:",$5C,"GAIA",$00
+
+intro_more:
+  db $C2,$2C,$01,$C4,$01,$02,$03,$FF,$C3
+  dw intro_text
+  db "50% done",$C0 ; halts without a terminator
+
+intro_menu:
+  db $0D,$04,$26,$2A,$06,$00,$0C,$04,$CB,$02,$0E,$0D,$23,$08,$0D,$24,$04,$2E,$CA
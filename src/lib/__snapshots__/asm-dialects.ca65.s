@@ -0,0 +1,34 @@
+.segment "BANK02"
+; requires sys_routines
+
+joypad = $065A
+
+intro_main:
+    SEP #$20
+    .a8
+    LDA #$01
+    STA $065A
+    LDA a:.loword(intro_text),X
+    REP #$20
+    .i16
+    LDX #.loword(intro_text)
+    JSL f:sys_print
+    COP #$04
+  .byte $10
+  .word .loword(intro_text)
+    BRA intro_main
+    RTL
+
+intro_table:
+  .word .loword(intro_text),.loword(intro_menu),$0000
+
+intro_text:
+  .byte $C1,$1A,"Hello, ",$22,"world",$22,"! C:",$5C,"GAIA",$00
+
+intro_more:
+  .byte $C2,$2C,$01,$C4,$01,$02,$03,$FF,$C3
+  .word intro_text
+  .byte "50% done",$C0 ; halts without a terminator
+
+intro_menu:
+  .byte $0D,$04,$26,$2A,$06,$00,$0C,$04,$CB,$02,$0E,$0D,$23,$08,$0D,$24,$04,$2E,$CA
@@ -0,0 +1,29 @@
+?INCLUDE 'sys_routines'
+?BANK 02
+
+!joypad 065A
+
+intro_main {
+  SEP #$20
+  LDA #$01
+  STA $065A
+  LDA &intro_text,X
+  REP #$20
+  LDX #&intro_text
+  JSL @sys_print
+  COP [04] ( #$10, &intro_text )
+  BRA intro_main
+  RTL
+}
+
+intro_table:
+  &intro_text, &intro_menu, #$0000
+
+intro_text:
+  `[PAL:1A]Hello, "world"! C:\GAIA[]`
+
+intro_more:
+  `[WAIT:012C][RAW:01 02 03][PTR:intro_text]50% [NOPE]done[END]` ; halts without a terminator
+
+intro_menu:
+  ~NEW GAME[NL]CONTINUE?~
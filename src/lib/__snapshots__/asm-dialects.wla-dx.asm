@@ -0,0 +1,37 @@
+.BANK 2 SLOT 0
+.SECTION "intro" FREE
+; requires sys_routines
+
+.DEFINE joypad $065A
+
+intro_main:
+    SEP #$20
+    .ACCU 8
+    LDA #$01
+    STA $065A
+    LDA (intro_text)&$FFFF.w,X
+    REP #$20
+    .INDEX 16
+    LDX #(intro_text)&$FFFF
+    JSL sys_print.l
+    COP #$04
+  .DB $10
+  .DW (intro_text)&$FFFF
+    BRA intro_main
+    RTL
+
+intro_table:
+  .DW (intro_text)&$FFFF,(intro_menu)&$FFFF,$0000
+
+intro_text:
+  .DB $C1,$1A,"Hello, ",$22,"world",$22,"! C:",$5C,"GAIA",$00
+
+intro_more:
+  .DB $C2,$2C,$01,$C4,$01,$02,$03,$FF,$C3
+  .DW intro_text
+  .DB "50% done",$C0 ; halts without a terminator
+
+intro_menu:
+  .DB $0D,$04,$26,$2A,$06,$00,$0C,$04,$CB,$02,$0E,$0D,$23,$08,$0D,$24,$04,$2E,$CA
+
+.ENDS
\ No newline at end of file
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import type { AddressingMode, Cop, InstructionCode, InstructionGroup, StringCommand, StringType } from '@prisma/client'
+import { ASM_DIALECTS, createDialectContext, translateAsm, type DialectSource } from './asm-dialects'
+
+// Only the fields the translator reads are filled in
+const addressingModes = [
+  { id: 'imm', name: 'Immediate', size: 2, pattern: '^#(.+)$', format: '#${0:X2}' },
+  { id: 'abs', name: 'Absolute', size: 3, pattern: '^([^,()\\[\\]]+)$', format: '${0:X4}' },
+  { id: 'abs_x', name: 'AbsoluteIndexedX', size: 3, pattern: '^([^,()\\[\\]]+),X$', format: '${0:X4},X' },
+  { id: 'long', name: 'AbsoluteLong', size: 4, pattern: '^([^,()\\[\\]]+)$', format: '${0:X6}' },
+  { id: 'rel', name: 'PCRelative', size: 2, pattern: null, format: null },
+  { id: 'imp', name: 'Implied', size: 1, pattern: null, format: null }
+] as AddressingMode[]
+
+const instructions: Array<[string, string, number]> = [
+  ['LDA', 'imm', 0xA9], ['LDA', 'abs', 0xAD], ['LDA', 'abs_x', 0xBD],
+  ['STA', 'abs', 0x8D], ['LDX', 'imm', 0xA2], ['SEP', 'imm', 0xE2], ['REP', 'imm', 0xC2],
+  ['JSL', 'long', 0x22], ['BRA', 'rel', 0x80], ['RTL', 'imp', 0x6B]
+]
+
+const instructionGroups = [...new Set(instructions.map(([name]) => name))]
+  .map(name => ({ id: name, name })) as InstructionGroup[]
+
+const instructionCodes = instructions
+  .map(([groupId, modeId, code]) => ({ id: `${groupId}_${modeId}`, groupId, modeId, code })) as InstructionCode[]
+
+const cops = [
+  { id: 'cop04', code: 0x04, mnemonic: '04', parts: ['Byte', 'Offset'] }
+] as Cop[]
+
+// Plain text maps printable ASCII to itself; menu text packs its map with h2
+const asciiMap = Array.from({ length: 0x80 }, (_, i) => (i >= 0x20 && i < 0x7F ? String.fromCharCode(i) : ''))
+const stringTypes = [
+  { id: 'text', name: 'ASCIIString', delimiter: '`', shiftType: null, terminator: 0x00, characterMap: asciiMap },
+  { id: 'menu', name: 'MenuString', delimiter: '~', shiftType: 'h2', terminator: 0xCA, characterMap: [...'ABCDEFGHIJKLMNOPQRSTUVWXYZ .,!?'] }
+] as StringType[]
+
+const stringCommands = [
+  { id: 'end', stringTypeId: 'text', code: 0xC0, mnemonic: 'END', types: [], delimiter: null, halt: true },
+  { id: 'pal', stringTypeId: 'text', code: 0xC1, mnemonic: 'PAL', types: ['Byte'], delimiter: null, halt: false },
+  { id: 'wait', stringTypeId: 'text', code: 0xC2, mnemonic: 'WAIT', types: ['Word'], delimiter: null, halt: false },
+  { id: 'ptr', stringTypeId: 'text', code: 0xC3, mnemonic: 'PTR', types: ['Offset'], delimiter: null, halt: false },
+  { id: 'raw', stringTypeId: 'text', code: 0xC4, mnemonic: 'RAW', types: ['Binary'], delimiter: 0xFF, halt: false },
+  { id: 'nl', stringTypeId: 'menu', code: 0xCB, mnemonic: 'NL', types: [], delimiter: null, halt: false }
+] as StringCommand[]
+
+const source: DialectSource = { addressingModes, instructionGroups, instructionCodes, cops, stringTypes, stringCommands }
+
+// A block as BlockWriter writes it: code, a COP call, a pointer table and strings
+const block = `?INCLUDE 'sys_routines'
+?BANK 02
+
+!joypad 065A
+
+intro_main {
+  SEP #$20
+  LDA #$01
+  STA $065A
+  LDA &intro_text,X
+  REP #$20
+  LDX #&intro_text
+  JSL @sys_print
+  COP [04] ( #$10, &intro_text )
+  BRA intro_main
+  RTL
+}
+
+intro_table:
+  &intro_text, &intro_menu, #$0000
+
+intro_text:
+  \`[PAL:1A]Hello, "world"! C:\\GAIA[]\`
+
+intro_more:
+  \`[WAIT:012C][RAW:01 02 03][PTR:intro_text]50% [NOPE]done[END]\` ; halts without a terminator
+
+intro_menu:
+  ~NEW GAME[NL]CONTINUE?~
+`
+
+describe('translateAsm', () => {
+  const context = createDialectContext(source, 'LoROM')
+
+  for (const dialect of ASM_DIALECTS) {
+    it(`writes a known block as ${dialect.name}`, async () => {
+      const { text, warnings } = translateAsm(block, dialect.id, context, { blockName: 'intro', location: 0x012000, movable: true })
+
+      expect(warnings).toEqual(dialect.id === 'gaia' ? [] : ['intro: unknown string command [NOPE]'])
+      await expect(text).toMatchFileSnapshot(`__snapshots__/asm-dialects.${dialect.id}.${dialect.extension}`)
+    })
+  }
+
+  it('writes string bytes instead of leaving strings as comments', () => {
+    const { text } = translateAsm('msg:\n  `AB[PAL:1A]`\n', 'asar', context, { blockName: 'msg' })
+
+    expect(text).toContain('  db "AB",$C1,$1A,$00')
+  })
+
+  it('warns about unknown string commands instead of encoding them as text', () => {
+    const { text, warnings } = translateAsm('msg:\n  `A[NOPE:01]B`\n', 'wla-dx', context, { blockName: 'msg' })
+
+    expect(text).toContain('  .DB "AB",$00')
+    expect(warnings).toEqual(['msg: unknown string command [NOPE:01]'])
+  })
+
+  it('warns about characters missing from the character map', () => {
+    const { text, warnings } = translateAsm('msg:\n  ~HI@~\n', 'ca65', context, { blockName: 'msg' })
+
+    expect(text).toContain('  .byte $07,$08,$CA')
+    expect(warnings).toEqual(['msg: 1 string characters have no mapping in their string type and were dropped'])
+  })
+})
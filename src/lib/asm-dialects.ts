@@ -0,0 +1,798 @@
+/**
+ * Assembler Output Dialects
+ *
+ * Translates the GaiaLabs assembly emitted by BlockWriter into the syntax of
+ * other 65816 assemblers. Instruction operands are recognised with the
+ * platform AddressingMode patterns and rebuilt from their formats, so only the
+ * parts that differ between assemblers (directives, size hints, symbol
+ * operators and data pseudo-ops) are dialect specific. Strings are encoded
+ * with their string type's character map and commands, the way the GaiaLabs
+ * assembler does, and written as data.
+ */
+
+import type { AddressingMode, Cop, InstructionCode, InstructionGroup, StringCommand, StringType } from '@prisma/client'
+import type { RomHeaderInfo } from './rom-parser'
+
+export type AsmDialect = 'gaia' | 'asar' | 'ca65' | 'wla-dx'
+
+export interface AsmDialectInfo {
+  id: AsmDialect
+  name: string
+  /** Source file extension used when exporting */
+  extension: string
+  description: string
+}
+
+export const ASM_DIALECTS: AsmDialectInfo[] = [
+  { id: 'gaia', name: 'GaiaLabs', extension: 'asm', description: 'Native syntax read by the GaiaLabs assembler' },
+  { id: 'asar', name: 'asar', extension: 'asm', description: 'asar patch assembler' },
+  { id: 'ca65', name: 'ca65', extension: 's', description: 'cc65 macro assembler (linked with ld65)' },
+  { id: 'wla-dx', name: 'WLA-DX', extension: 'asm', description: 'WLA-DX 65816 assembler' }
+]
+
+export function getDialectInfo(dialect: AsmDialect): AsmDialectInfo {
+  return ASM_DIALECTS.find(info => info.id === dialect) ?? ASM_DIALECTS[0]
+}
+
+type MapMode = RomHeaderInfo['mapMode']
+type Register = 'a' | 'i'
+type DataSize = 1 | 2 | 3
+
+interface OperandMode {
+  name: string
+  /** Instruction size including the opcode */
+  size: number
+  format: string | null
+  pattern: RegExp | null
+}
+
+interface StringEncoding {
+  characterMap: string[]
+  shift: (index: number) => number
+  terminator: number | null
+  /** Commands by mnemonic */
+  commands: Record<string, { code: number; types: string[]; delimiter: number | null; halt: boolean }>
+}
+
+/**
+ * Platform and project data needed to translate a block
+ */
+export interface DialectContext {
+  /** Addressing modes available to each mnemonic, in instruction code order */
+  modes: Record<string, OperandMode[]>
+  cops: Record<string, { code: number; parts: string[] }>
+  stringDelimiters: string[]
+  /** String encodings by delimiter */
+  strings: Record<string, StringEncoding>
+  mapMode: MapMode
+}
+
+export interface DialectSource {
+  addressingModes: AddressingMode[]
+  instructionGroups: InstructionGroup[]
+  instructionCodes: InstructionCode[]
+  cops: Cop[]
+  stringTypes: StringType[]
+  stringCommands: StringCommand[]
+}
+
+export interface TranslateOptions {
+  blockName: string
+  /** ROM file offset of the block, used to place fixed blocks */
+  location?: number
+  movable?: boolean
+}
+
+export interface DialectTranslation {
+  text: string
+  warnings: string[]
+}
+
+/**
+ * Dialect specific syntax
+ */
+interface DialectSyntax {
+  data: Record<DataSize, string>
+  /** Printable characters that cannot appear inside a quoted string and are written as bytes */
+  stringUnsafe: string
+  include: (path: string) => string
+  incbin: (path: string) => string
+  define: (name: string, value: string) => string
+  bankOf: (name: string, offset: string) => string
+  offsetOf: (expr: string) => string
+  /** Mnemonic suffix for a symbolic operand of the given width */
+  mnemonicHint?: (width: DataSize) => string
+  /** Operand decoration for a symbolic operand of the given width */
+  operandHint?: (expr: string, width: DataSize, indirect: boolean) => string
+  /** Directive switching a register width; null when widths are inferred from literals */
+  registerWidth: ((register: Register, bits: 8 | 16) => string) | null
+  fixedOrigin: (location: number, mapMode: MapMode) => string[]
+  freeOrigin: (blockName: string, isCode: boolean, bank: number | null, mapMode: MapMode) => string[]
+  freeEnd: string[]
+}
+
+const SIZE_SUFFIX: Record<DataSize, string> = { 1: 'b', 2: 'w', 3: 'l' }
+
+const BRANCH_MODES = ['PCRelative', 'PCRelativeLong']
+
+// Immediates on these instructions never depend on the M/X flags
+const FIXED_IMMEDIATE = ['REP', 'SEP', 'COP', 'BRK', 'WDM']
+const INDEX_IMMEDIATE = ['LDX', 'LDY', 'CPX', 'CPY']
+
+function hex(value: number, width: number): string {
+  return value.toString(16).toUpperCase().padStart(width, '0')
+}
+
+/**
+ * CPU address of a ROM file offset
+ */
+function toCpuAddress(location: number, mapMode: MapMode): number {
+  switch (mapMode) {
+    case 'HiROM':
+      return 0xC00000 | location
+    case 'ExHiROM':
+      return location < 0x400000 ? 0xC00000 | location : location
+    default:
+      return ((location >> 15) << 16) | 0x8000 | (location & 0x7FFF)
+  }
+}
+
+/**
+ * WLA-DX ROM bank and bank-relative origin of a ROM file offset
+ */
+function toWlaBank(location: number, mapMode: MapMode): [number, number] {
+  return mapMode === 'LoROM' || mapMode === 'Unknown'
+    ? [location >> 15, location & 0x7FFF]
+    : [location >> 16, location & 0xFFFF]
+}
+
+/**
+ * WLA-DX ROM bank of a CPU bank
+ */
+function toWlaBankNumber(bank: number, mapMode: MapMode): number {
+  switch (mapMode) {
+    case 'HiROM':
+      return bank & 0x3F
+    case 'ExHiROM':
+      return bank >= 0xC0 ? bank & 0x3F : (bank & 0x3F) + 0x40
+    default:
+      return bank & 0x7F
+  }
+}
+
+const DIALECT_SYNTAX: Record<Exclude<AsmDialect, 'gaia'>, DialectSyntax> = {
+  asar: {
+    data: { 1: 'db', 2: 'dw', 3: 'dl' },
+    // asar substitutes !defines inside strings
+    stringUnsafe: '"\\!',
+    include: path => `incsrc "${path}"`,
+    incbin: path => `incbin "${path}"`,
+    define: (name, value) => `${name} = ${value}`,
+    bankOf: (name, offset) => `(${name}${offset})>>16`,
+    offsetOf: expr => `(${expr})&$FFFF`,
+    mnemonicHint: width => `.${SIZE_SUFFIX[width]}`,
+    registerWidth: null,
+    fixedOrigin: (location, mapMode) => [`org $${hex(toCpuAddress(location, mapMode), 6)}`],
+    freeOrigin: (_blockName, isCode, bank) => [
+      ...(bank !== null ? [`; bank $${hex(bank, 2)}`] : []),
+      isCode ? 'freecode' : 'freedata'
+    ],
+    freeEnd: []
+  },
+  ca65: {
+    data: { 1: '.byte', 2: '.word', 3: '.faraddr' },
+    stringUnsafe: '"\\',
+    include: path => `.include "${path}"`,
+    incbin: path => `.incbin "${path}"`,
+    define: (name, value) => `${name} = ${value}`,
+    bankOf: (name, offset) => `.bankbyte(${name}${offset})`,
+    offsetOf: expr => `.loword(${expr})`,
+    operandHint: (expr, width, indirect) => (indirect ? expr : `${['z', 'a', 'f'][width - 1]}:${expr}`),
+    registerWidth: (register, bits) => `.${register}${bits}`,
+    fixedOrigin: (location, mapMode) => {
+      const address = toCpuAddress(location, mapMode)
+      return [`.segment "BANK${hex(address >> 16, 2)}"`, `; $${hex(address, 6)}`]
+    },
+    freeOrigin: (_blockName, isCode, bank) => [
+      bank !== null ? `.segment "BANK${hex(bank, 2)}"` : `.segment "${isCode ? 'CODE' : 'RODATA'}"`
+    ],
+    freeEnd: []
+  },
+  'wla-dx': {
+    data: { 1: '.DB', 2: '.DW', 3: '.DL' },
+    stringUnsafe: '"\\',
+    include: path => `.INCLUDE "${path}"`,
+    incbin: path => `.INCBIN "${path}"`,
+    define: (name, value) => `.DEFINE ${name} ${value}`,
+    bankOf: name => `:${name}`,
+    offsetOf: expr => `(${expr})&$FFFF`,
+    operandHint: (expr, width) => `${expr}.${SIZE_SUFFIX[width]}`,
+    registerWidth: (register, bits) => `.${register === 'a' ? 'ACCU' : 'INDEX'} ${bits}`,
+    fixedOrigin: (location, mapMode) => {
+      const [bank, origin] = toWlaBank(location, mapMode)
+      return [`.BANK ${bank} SLOT 0`, `.ORG $${hex(origin, 4)}`]
+    },
+    freeOrigin: (blockName, _isCode, bank, mapMode) => bank !== null
+      ? [`.BANK ${toWlaBankNumber(bank, mapMode)} SLOT 0`, `.SECTION "${blockName}" FREE`]
+      : [`.SECTION "${blockName}" SUPERFREE`],
+    freeEnd: ['.ENDS']
+  }
+}
+
+/**
+ * Index the platform instruction set and project COPs for translation
+ */
+export function createDialectContext(source: DialectSource, mapMode: MapMode): DialectContext {
+  const modeById = new Map<string, OperandMode>()
+  for (const mode of source.addressingModes) {
+    let pattern: RegExp | null = null
+    if (mode.pattern) {
+      try {
+        pattern = new RegExp(mode.pattern)
+      } catch {
+        pattern = null
+      }
+    }
+    modeById.set(mode.id, { name: mode.name, size: mode.size, format: mode.format, pattern })
+  }
+
+  const groupNames = new Map(source.instructionGroups.map(group => [group.id, group.name.toUpperCase()]))
+  const modes: Record<string, OperandMode[]> = {}
+  for (const code of [...source.instructionCodes].sort((a, b) => a.code - b.code)) {
+    const mnemonic = groupNames.get(code.groupId)
+    const mode = modeById.get(code.modeId)
+    if (!mnemonic || !mode) continue
+    if (!modes[mnemonic]) modes[mnemonic] = []
+    modes[mnemonic].push(mode)
+  }
+
+  const cops: DialectContext['cops'] = {}
+  for (const cop of source.cops) {
+    cops[cop.mnemonic] = { code: cop.code, parts: cop.parts || [] }
+  }
+
+  const strings: DialectContext['strings'] = {}
+  for (const type of source.stringTypes) {
+    if (!type.delimiter) continue
+    const commands: StringEncoding['commands'] = {}
+    for (const command of source.stringCommands.filter(x => x.stringTypeId === type.id)) {
+      commands[command.mnemonic] = { code: command.code, types: command.types || [], delimiter: command.delimiter, halt: !!command.halt }
+    }
+    strings[type.delimiter] = {
+      characterMap: type.characterMap || [],
+      shift: getShiftUp(type.shiftType),
+      terminator: type.terminator,
+      commands
+    }
+  }
+
+  return {
+    modes,
+    cops,
+    stringDelimiters: Object.keys(strings),
+    strings,
+    mapMode
+  }
+}
+
+/**
+ * Map a character map index to its encoded value for a string type's shift type
+ */
+function getShiftUp(shiftType: string | null): (index: number) => number {
+  switch (shiftType) {
+    case 'h2':
+      return x => ((x & 0x70) << 1) | (x & 0x0F)
+    case 'wh2':
+      return x => ((x & 0x38) << 1) | (x & 0x07)
+    default:
+      return x => x
+  }
+}
+
+/**
+ * Split a line into code and comment, ignoring comment markers inside strings
+ */
+function splitComment(line: string, delimiters: string[]): [string, string | null] {
+  let quote: string | null = null
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i]
+    if (quote) {
+      if (ch === quote) quote = null
+      continue
+    }
+    if (delimiters.includes(ch)) {
+      quote = ch
+      continue
+    }
+    if (ch === ';') return [line.substring(0, i), line.substring(i + 1)]
+    if ((ch === '/' || ch === '-') && line[i + 1] === ch) return [line.substring(0, i), line.substring(i + 2)]
+  }
+  return [line, null]
+}
+
+/**
+ * Split a list of values on commas and whitespace, keeping strings intact
+ */
+function splitValues(text: string, delimiters: string[]): string[] {
+  const values: string[] = []
+  let current = ''
+  let quote: string | null = null
+  for (const ch of text) {
+    if (quote) {
+      current += ch
+      if (ch === quote) quote = null
+    } else if (delimiters.includes(ch)) {
+      quote = ch
+      current += ch
+    } else if (ch === ',' || ch === ' ' || ch === '\t') {
+      if (current) values.push(current)
+      current = ''
+    } else {
+      current += ch
+    }
+  }
+  if (current) values.push(current)
+  return values
+}
+
+const IDENTIFIER = /^[A-Za-z_][\w.]*$/
+
+/**
+ * Translator for a single block
+ */
+class DialectTranslator {
+  private readonly lines: string[] = []
+  private readonly warnings: string[] = []
+  private readonly widths: Record<Register, 8 | 16 | null> = { a: null, i: null }
+  private codeDepth = 0
+  private unmappedCharacters = 0
+
+  constructor(
+    private readonly syntax: DialectSyntax,
+    private readonly context: DialectContext,
+    private readonly options: TranslateOptions
+  ) {}
+
+  translate(text: string): DialectTranslation {
+    const source = text.replace(/\r/g, '').split('\n')
+    const bankLine = source.find(line => /^\?BANK\s/i.test(line.trim()))
+    const bank = bankLine ? parseInt(bankLine.trim().substring(5), 16) : null
+    const isCode = source.some(line => line.trim() === '{' || line.trim().endsWith(' {'))
+    const fixed = this.options.location !== undefined && !this.options.movable
+
+    this.lines.push(...(fixed
+      ? this.syntax.fixedOrigin(this.options.location as number, this.context.mapMode)
+      : this.syntax.freeOrigin(this.options.blockName, isCode, isNaN(bank as number) ? null : bank, this.context.mapMode)))
+
+    for (const line of source) {
+      const [code, comment] = splitComment(line, this.context.stringDelimiters)
+      const start = this.lines.length
+      this.translateLine(code.trim())
+
+      if (comment !== null) {
+        const text = `;${comment}`
+        if (this.lines.length > start) {
+          this.lines[this.lines.length - 1] += ` ${text}`
+        } else {
+          this.lines.push(text)
+        }
+      } else if (this.lines.length === start && code.trim() === '') {
+        this.lines.push('')
+      }
+    }
+
+    if (!fixed) {
+      this.lines.push(...this.syntax.freeEnd)
+    }
+    if (this.unmappedCharacters > 0) {
+      this.warnings.push(`${this.options.blockName}: ${this.unmappedCharacters} string characters have no mapping in their string type and were dropped`)
+    }
+
+    return { text: this.lines.join('\n'), warnings: this.warnings }
+  }
+
+  private translateLine(code: string): void {
+    if (!code) return
+
+    if (code.startsWith('?')) {
+      const [directive, ...rest] = code.substring(1).split(/[\s,]+/)
+      if (directive.toUpperCase() === 'INCLUDE') {
+        // The main include file pulls in every block, so dependencies are only noted
+        this.lines.push(`; requires ${rest.join(' ').replace(/'/g, '')}`)
+      }
+      return
+    }
+
+    if (code.startsWith('!')) {
+      const parts = code.substring(1).trim().split(/\s+/)
+      for (let i = 0; i + 1 < parts.length; i += 2) {
+        this.lines.push(this.syntax.define(parts[i], `$${parts[i + 1].toUpperCase()}`))
+      }
+      return
+    }
+
+    if (code === '{') {
+      this.codeDepth++
+      return
+    }
+    if (code === '}') {
+      this.codeDepth = Math.max(0, this.codeDepth - 1)
+      return
+    }
+    if (code === '[' || code === ']') return
+
+    const label = /^([A-Za-z_][\w.]*):$/.exec(code)
+    if (label) {
+      this.lines.push(`${label[1]}:`)
+      return
+    }
+
+    const mnemonic = code.split(/\s+/)[0].toUpperCase()
+    if (this.codeDepth > 0 && (this.context.modes[mnemonic] || mnemonic === 'COP')) {
+      this.translateInstruction(mnemonic, code.substring(mnemonic.length).trim())
+      return
+    }
+
+    this.translateDataLine(code)
+  }
+
+  private translateDataLine(code: string): void {
+    let rest = code
+    const space = code.search(/\s/)
+    if (space > 0) {
+      const first = code.substring(0, space)
+      const remainder = code.substring(space).trim()
+      // "Name < ... >" is a struct, "label Name < ... >" a labelled struct
+      if (IDENTIFIER.test(first) && !remainder.startsWith('<')) {
+        this.lines.push(`${first}:`)
+        rest = remainder
+      }
+    }
+
+    if (rest === '{') {
+      this.codeDepth++
+      return
+    }
+    if (rest === '[') return
+
+    const struct = /^([A-Za-z_]\w*)\s*<\s*(.*?)\s*>$/.exec(rest)
+    if (struct) {
+      this.lines.push(`  ; ${struct[1]}`)
+      rest = struct[2]
+    }
+
+    this.writeData(splitValues(rest, this.context.stringDelimiters))
+  }
+
+  /**
+   * Write data values, grouping runs of the same size into one pseudo-op
+   */
+  private writeData(values: string[], sizes?: DataSize[]): void {
+    let run: { size: DataSize; values: string[] } | null = null
+    const flush = () => {
+      if (run) this.lines.push(`  ${this.syntax.data[run.size]} ${run.values.join(',')}`)
+      run = null
+    }
+
+    values.forEach((value, index) => {
+      const items = this.context.stringDelimiters.includes(value[0])
+        ? this.translateString(value)
+        : this.translateDataValue(value, sizes?.[index])
+
+      for (const item of items) {
+        if (run && run.size !== item.size) flush()
+        if (!run) run = { size: item.size, values: [] }
+        run.values.push(item.expr)
+      }
+    })
+    flush()
+  }
+
+  private translateDataValue(value: string, size?: DataSize): Array<{ size: DataSize; expr: string }> {
+    // Byte arrays and numbers: #AABBCC, #$AAAA, #$AAAAAA
+    let match = /^#([0-9A-Fa-f]+)$/.exec(value)
+    if (match) {
+      if (size && size > 1) return [{ size, expr: `$${match[1].toUpperCase()}` }]
+      return (match[1].match(/../g) || []).map(byte => ({ size: 1 as DataSize, expr: `$${byte.toUpperCase()}` }))
+    }
+    match = /^#?\$([0-9A-Fa-f]+)$/.exec(value)
+    if (match) {
+      const digits = match[1].toUpperCase()
+      return [{ size: size ?? (Math.min(3, Math.ceil(digits.length / 2)) as DataSize), expr: `$${digits}` }]
+    }
+
+    const prefix = value[0]
+    const defaultSize: DataSize = prefix === '@' ? 3 : prefix === '^' ? 1 : 2
+    return [{ size: size ?? defaultSize, expr: this.translateExpression(value) }]
+  }
+
+  /**
+   * Encode a string with its string type, as the GaiaLabs assembler does
+   *
+   * Characters are looked up in the character map and shifted, `[CMD:args]`
+   * sequences become the command code and its arguments, and the terminator
+   * follows unless the last command halts. Bytes that encode their own
+   * printable character are kept as quoted text.
+   */
+  private translateString(value: string): Array<{ size: DataSize; expr: string }> {
+    const encoding = this.context.strings[value[0]]
+    const end = value.indexOf(value[0], 1)
+    const text = end >= 0 ? value.substring(1, end) : value.substring(1)
+
+    const items: Array<{ size: DataSize; expr: string }> = []
+    let bytes: Array<{ value: number; char?: string }> = []
+    const flushBytes = () => {
+      let quoted = ''
+      for (const byte of bytes) {
+        if (byte.char !== undefined) {
+          quoted += byte.char
+          continue
+        }
+        if (quoted) items.push({ size: 1, expr: `"${quoted}"` })
+        quoted = ''
+        items.push({ size: 1, expr: `$${hex(byte.value & 0xFF, 2)}` })
+      }
+      if (quoted) items.push({ size: 1, expr: `"${quoted}"` })
+      bytes = []
+    }
+
+    let lastCommand: StringEncoding['commands'][string] | null = null
+    for (let x = 0; x < text.length; x++) {
+      const c = text[x]
+      if (c === '[') {
+        const close = text.indexOf(']', x + 1)
+        if (close >= 0) {
+          const body = text.substring(x + 1, close)
+          const parts = body.split(/[:, ]/).filter(part => part.length > 0)
+          x = close
+          // An empty [] marks a position inside the string and encodes nothing
+          if (parts.length === 0) continue
+
+          const command = encoding.commands[parts[0]]
+          if (command) {
+            lastCommand = command
+            bytes.push({ value: command.code })
+            for (let y = 0, pix = 1; y < command.types.length; y++, pix++) {
+              switch (command.types[y]) {
+                case 'Byte':
+                  bytes.push({ value: parseInt(parts[pix], 16) })
+                  break
+                case 'Word': {
+                  const word = parseInt(parts[pix], 16)
+                  bytes.push({ value: word }, { value: word >> 8 })
+                  break
+                }
+                case 'Binary':
+                  for (; pix < parts.length; pix++) bytes.push({ value: parseInt(parts[pix], 16) })
+                  if (command.delimiter !== null) bytes.push({ value: command.delimiter })
+                  break
+                case 'Offset':
+                case 'Address':
+                  flushBytes()
+                  items.push({ size: command.types[y] === 'Offset' ? 2 : 3, expr: this.translateExpression(parts[pix] ?? '') })
+                  break
+              }
+            }
+            continue
+          }
+
+          // The GaiaLabs assembler would encode the bracket as text; flag it rather than guess
+          lastCommand = null
+          this.warnings.push(`${this.options.blockName}: unknown string command [${body}]`)
+          continue
+        }
+      }
+
+      lastCommand = null
+      const index = encoding.characterMap.findIndex(entry => entry && entry[0] === c)
+      if (index < 0) {
+        this.unmappedCharacters++
+        continue
+      }
+      const encoded = encoding.shift(index)
+      const printable = encoded === c.charCodeAt(0) && encoded >= 0x20 && encoded < 0x7F && !this.syntax.stringUnsafe.includes(c)
+      bytes.push(printable ? { value: encoded, char: c } : { value: encoded })
+    }
+
+    if (!lastCommand?.halt && encoding.terminator !== null) {
+      bytes.push({ value: encoding.terminator })
+    }
+    flushBytes()
+    return items
+  }
+
+  private translateInstruction(mnemonic: string, operand: string): void {
+    if (mnemonic === 'COP' && operand.startsWith('[')) {
+      this.translateCop(operand)
+      return
+    }
+    if (!operand) {
+      this.lines.push(`    ${mnemonic}`)
+      return
+    }
+
+    let mode: OperandMode | null = null
+    let values: string[] = [operand]
+    for (const candidate of this.context.modes[mnemonic] || []) {
+      if (BRANCH_MODES.includes(candidate.name)) {
+        mode = candidate
+        break
+      }
+      const match = candidate.pattern?.exec(operand)
+      if (match) {
+        mode = candidate
+        values = match.length > 1 ? match.slice(1).filter(x => x !== undefined) : [operand]
+        break
+      }
+    }
+
+    const isBranch = mode !== null && BRANCH_MODES.includes(mode.name)
+    const isImmediate = operand.startsWith('#')
+    const translated = values.map(value => this.translateExpression(value.replace(/^#/, '')))
+    const symbolic = translated.some(value => !/^\$[0-9A-F]+$/.test(value))
+    const width = mode ? (Math.min(3, Math.max(1, mode.size - 1)) as DataSize) : null
+    const indirect = /^[([]/.test(mode?.format ?? operand)
+
+    let suffix = ''
+    if (!isBranch && !isImmediate && symbolic && width) {
+      if (this.syntax.mnemonicHint) suffix = this.syntax.mnemonicHint(width)
+      if (this.syntax.operandHint) translated[0] = this.syntax.operandHint(translated[0], width, indirect)
+    }
+
+    let text: string
+    if (mode?.format && !isBranch) {
+      text = mode.format.replace(/\$?\{(\d+)(?::[^}]*)?\}/g, (_match, index: string) => translated[parseInt(index, 10)] ?? '')
+    } else {
+      text = `${isImmediate ? '#' : ''}${translated.join(',')}`
+    }
+
+    if (isImmediate) {
+      const bits = this.trackImmediateWidth(mnemonic, operand.substring(1))
+      if (bits && symbolic && this.syntax.mnemonicHint) {
+        suffix = this.syntax.mnemonicHint(bits === 8 ? 1 : 2)
+      }
+    }
+
+    this.lines.push(`    ${mnemonic}${suffix} ${text}`)
+  }
+
+  /**
+   * Width implied by an immediate operand; dialects that track register
+   * widths get a directive whenever it changes
+   */
+  private trackImmediateWidth(mnemonic: string, operand: string): 8 | 16 | null {
+    if (FIXED_IMMEDIATE.includes(mnemonic)) return null
+
+    let bits: 8 | 16 | null = null
+    const literal = /^\$?([0-9A-Fa-f]+)$/.exec(operand)
+    if (literal) {
+      bits = literal[1].length <= 2 ? 8 : 16
+    } else if (operand[0] === '^') {
+      bits = 8
+    } else if (operand[0] === '&' || operand[0] === '*') {
+      bits = 16
+    }
+    if (bits === null) return null
+
+    const register: Register = INDEX_IMMEDIATE.includes(mnemonic) ? 'i' : 'a'
+    if (this.syntax.registerWidth && this.widths[register] !== bits) {
+      this.lines.push(`    ${this.syntax.registerWidth(register, bits)}`)
+      this.widths[register] = bits
+    }
+    return bits
+  }
+
+  private translateCop(operand: string): void {
+    const match = /^\[([^\]]+)\]\s*(?:\(\s*(.*?)\s*\))?$/.exec(operand)
+    const cop = match ? this.context.cops[match[1]] : undefined
+    if (!match || !cop) {
+      this.lines.push(`    ; COP ${operand}`)
+      this.warnings.push(`${this.options.blockName}: unknown COP command ${operand}`)
+      return
+    }
+
+    this.lines.push(`    COP #$${hex(cop.code, 2)}`)
+    if (match[2]) {
+      const sizes = cop.parts.map(part => (part === 'Address' ? 3 : part === 'Word' || part === 'Offset' ? 2 : 1) as DataSize)
+      this.writeData(splitValues(match[2], this.context.stringDelimiters), sizes)
+    }
+  }
+
+  /**
+   * Translate a value or symbol reference
+   *
+   * GaiaLabs prefixes references with & (16-bit offset), @ (24-bit address),
+   * ^ (bank byte) or * (bank word), and writes label offsets in bare hex.
+   */
+  private translateExpression(expr: string): string {
+    const value = expr.trim()
+    if (!value) return value
+    if (value.startsWith('#')) return `#${this.translateExpression(value.substring(1))}`
+    if (/^\$[0-9A-Fa-f]+$/.test(value)) return value.toUpperCase()
+    if (/^([0-9A-Fa-f]{2}|[0-9A-Fa-f]{4}|[0-9A-Fa-f]{6})$/.test(value)) return `$${value.toUpperCase()}`
+
+    const prefix = value[0]
+    if ('&@^*$'.includes(prefix)) {
+      const { name, offset } = this.splitSymbol(value.substring(1))
+      switch (prefix) {
+        case '&':
+          return this.syntax.offsetOf(`${name}${offset}`)
+        case '^':
+        case '*':
+          return this.syntax.bankOf(name, offset)
+        default:
+          return `${name}${offset}`
+      }
+    }
+
+    const { name, offset } = this.splitSymbol(value)
+    return `${name}${offset}`
+  }
+
+  private splitSymbol(symbol: string): { name: string; offset: string } {
+    const match = /^(.*?)([+-])([0-9A-Fa-f]+)$/.exec(symbol)
+    return match && match[1]
+      ? { name: match[1], offset: `${match[2]}$${match[3].toUpperCase()}` }
+      : { name: symbol, offset: '' }
+  }
+}
+
+/**
+ * Translate a block's GaiaLabs assembly into another dialect
+ */
+export function translateAsm(
+  text: string,
+  dialect: AsmDialect,
+  context: DialectContext,
+  options: TranslateOptions
+): DialectTranslation {
+  if (dialect === 'gaia') {
+    return { text, warnings: [] }
+  }
+  return new DialectTranslator(DIALECT_SYNTAX[dialect], context, options).translate(text)
+}
+
+/**
+ * A file referenced from the main include file
+ */
+export interface IncludeEntry {
+  name: string
+  path: string
+  location: number | null
+  binary?: boolean
+  compressed?: boolean
+}
+
+/**
+ * Generate the main include file for a source tree
+ *
+ * GaiaLabs sources are included by block name and placed by the toolchain;
+ * other dialects include by path, and uncompressed binaries are placed with
+ * incbin at their ROM location.
+ */
+export function generateMainInclude(dialect: AsmDialect, projectName: string, entries: IncludeEntry[], mapMode: MapMode): string {
+  const lines = [`; ${projectName}`]
+
+  if (dialect === 'gaia') {
+    lines.push('; Generated by GaiaScribe. Blocks are included by name; see manifest.json for file paths.', '')
+    for (const entry of entries.filter(x => !x.binary)) {
+      const location = entry.location !== null ? hex(entry.location, 6) : '------'
+      lines.push(`${`?INCLUDE '${entry.name}'`.padEnd(40, ' ')}; ${location} ${entry.path}`)
+    }
+  } else {
+    const syntax = DIALECT_SYNTAX[dialect]
+    lines.push(`; Generated by GaiaScribe for ${getDialectInfo(dialect).name}.`, '')
+    for (const entry of entries) {
+      if (!entry.binary) {
+        lines.push(syntax.include(entry.path))
+      } else if (entry.compressed || entry.location === null) {
+        lines.push(`; ${entry.path} is stored compressed in the ROM; see manifest.json`)
+      } else {
+        lines.push('', ...syntax.fixedOrigin(entry.location, mapMode), syntax.incbin(entry.path))
+      }
+    }
+  }
+
+  lines.push('')
+  return lines.join('\n')
+}
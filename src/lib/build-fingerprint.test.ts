@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { computeBlockFingerprints, getRebuildReasons } from './build-fingerprint'
+import type { BuildBlock, BuildProjectData } from './build-pipeline'
+import { DEFAULT_BUILD_SETTINGS } from './build-settings'
+
+// Only the fields the fingerprints read are filled in
+function block(id: string, location: number): BuildBlock {
+  return {
+    id, name: id, movable: false, group: null, scene: null, postProcess: null, meta: null,
+    parts: [{ name: `${id}_code`, location, size: 0x10, type: 'Code', index: 0 }],
+    transforms: []
+  } as unknown as BuildBlock
+}
+
+function projectData(labels: Array<[string, number]>): BuildProjectData {
+  return {
+    blocks: [block('intro', 0x00), block('menu', 0x10), block('title', 0x20)],
+    labels: labels.map(([label, location]) => ({ label, location })),
+    mnemonics: [{ mnemonic: 'joypad', address: 0x065A }],
+    cops: [], files: [], overrides: [], rewrites: [], stringTypes: [], stringCommands: [], structs: [],
+    addressingModes: [], instructionGroups: [], instructionCodes: []
+  } as unknown as BuildProjectData
+}
+
+const rom = new Uint8Array(0x40)
+const asm = {
+  intro: 'intro_code {\n  JSL @menu_entry\n  LDA $joypad\n}\n',
+  menu: 'menu_code {\n  RTL\n}\n',
+  title: 'title_code {\n  JSL @sys_print\n}\n'
+}
+
+describe('computeBlockFingerprints', () => {
+  const before = computeBlockFingerprints(projectData([['menu_entry', 0x10], ['sys_print', 0x30]]), rom, DEFAULT_BUILD_SETTINGS)
+
+  it('rebuilds only the blocks that define or name an edited label', () => {
+    const after = computeBlockFingerprints(projectData([['menu_start', 0x10], ['sys_print', 0x30]]), rom, DEFAULT_BUILD_SETTINGS)
+    const reasons = (id: keyof typeof asm) => getRebuildReasons(before[id](asm[id]), after[id](asm[id]))
+
+    expect(reasons('intro')).toEqual(['referenced labels, mnemonics or parts changed'])
+    expect(reasons('menu')).toEqual(['labels changed'])
+    expect(reasons('title')).toEqual([])
+  })
+
+  it('ignores labels the block does not name', () => {
+    const after = computeBlockFingerprints(projectData([['menu_entry', 0x10], ['sys_print', 0x30], ['unused', 0x38]]), rom, DEFAULT_BUILD_SETTINGS)
+
+    for (const id of ['intro', 'menu', 'title'] as const) {
+      expect(getRebuildReasons(before[id](asm[id]), after[id](asm[id]))).toEqual([])
+    }
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Build Fingerprints
+ *
+ * Hashes the inputs of each block so incremental builds can skip blocks whose
+ * generated assembly cannot have changed. Fingerprints are stored in
+ * BlockArtifact.meta and compared on the next build.
+ */
+
+import { crc32_buffer, crc32_string } from '@gaialabs/shared'
+import type { BuildProjectData } from './build-pipeline'
+import type { BuildSettings } from './build-settings'
+
+/**
+ * Bump when the build pipeline changes in a way that affects generated output
+ */
+export const FINGERPRINT_VERSION = 3
+
+/**
+ * Per-component hashes of everything that feeds into a block's assembly
+ */
+export interface BlockFingerprint {
+  version: number
+  /** Project-wide inputs: build settings, COPs, strings, structs, files and the instruction set */
+  global: string
+  /** Labels, mnemonics and parts the block's assembly refers to by name, wherever they are defined */
+  symbols: string
+  block: string
+  parts: string
+  transforms: string
+  labels: string
+  overrides: string
+  rewrites: string
+  mnemonics: string
+  /** ROM bytes covered by the block's parts */
+  rom: string
+}
+
+type FingerprintComponent = Exclude<keyof BlockFingerprint, 'version'>
+
+const COMPONENT_REASONS: Record<FingerprintComponent, string> = {
+  global: 'project-wide build inputs changed',
+  symbols: 'referenced labels, mnemonics or parts changed',
+  block: 'block settings changed',
+  parts: 'parts changed',
+  transforms: 'transforms changed',
+  labels: 'labels changed',
+  overrides: 'overrides changed',
+  rewrites: 'rewrites changed',
+  mnemonics: 'mnemonics changed',
+  rom: 'ROM data changed'
+}
+
+function hash(value: unknown): string {
+  return (crc32_string(JSON.stringify(value)) >>> 0).toString(16).padStart(8, '0')
+}
+
+function hashBytes(data: Uint8Array): string {
+  return (crc32_buffer(data) >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * Fingerprint of a block given the assembly it is compared with or stored alongside
+ */
+export type BlockFingerprinter = (asm: string) => BlockFingerprint
+
+const SYMBOL_PATTERN = /[A-Za-z_][A-Za-z0-9_]*/g
+
+/**
+ * Compute fingerprints for every block in the project, keyed by block id
+ *
+ * Labels, overrides, rewrites and mnemonics are attributed to a block when
+ * their location falls inside one of its parts. A block's assembly also names
+ * symbols defined elsewhere; those are found in the assembly itself, so the
+ * fingerprint checked before a build is taken against the stored artifact and
+ * the one stored with a new artifact against its new text. Editing a symbol
+ * then only rebuilds the blocks that name it.
+ */
+export function computeBlockFingerprints(data: BuildProjectData, romData: Uint8Array, settings: BuildSettings): Record<string, BlockFingerprinter> {
+  const global = hash({
+    // Entry points only affect ROM assembly, not the generated text
+    settings: [settings.compression, settings.sfxLocation, settings.sfxCount, settings.accentMap],
+    cops: data.cops.map(x => [x.code, x.mnemonic, x.parts, x.halt]),
+    stringTypes: data.stringTypes.map(x => [x.id, x.name, x.delimiter, x.shiftType, x.terminator, x.greedy, x.characterMap]),
+    stringCommands: data.stringCommands.map(x => [x.stringTypeId, x.code, x.mnemonic, x.types, x.delimiter, x.halt]),
+    structs: data.structs.map(x => [x.name, x.types, x.delimiter, x.discriminator, x.parent]),
+    files: data.files.map(x => [x.name, x.location, x.size, x.type, x.compressed, x.upper, x.meta]),
+    addressingModes: data.addressingModes.map(x => [x.id, x.name, x.size, x.code, x.pattern, x.format]),
+    instructionGroups: data.instructionGroups.map(x => [x.id, x.name]),
+    instructionCodes: data.instructionCodes.map(x => [x.code, x.groupId, x.modeId])
+  })
+
+  const symbolTable = new Map<string, unknown[]>()
+  const addSymbol = (name: string | null, entry: unknown) => {
+    if (!name) return
+    const entries = symbolTable.get(name) ?? []
+    entries.push(entry)
+    symbolTable.set(name, entries)
+  }
+  for (const x of data.labels) addSymbol(x.label, ['label', x.location, x.label])
+  for (const x of data.mnemonics) addSymbol(x.mnemonic, ['mnemonic', x.address, x.mnemonic])
+  for (const block of data.blocks) {
+    for (const x of block.parts) addSymbol(x.name, ['part', block.name, x.name, x.location, x.size, x.type])
+  }
+
+  const hashSymbols = (asm: string) => {
+    const names = [...new Set(asm.match(SYMBOL_PATTERN))].sort()
+    return hash(names.flatMap(name => symbolTable.get(name) ?? []))
+  }
+
+  const result: Record<string, BlockFingerprinter> = {}
+  for (const block of data.blocks) {
+    const ranges = block.parts.map(part => [part.location, part.location + part.size])
+    const inRange = (location: number | null) =>
+      location !== null && ranges.some(([start, end]) => location >= start && location < end)
+
+    const romBytes = new Uint8Array(block.parts.reduce((sum, part) => sum + part.size, 0))
+    let offset = 0
+    for (const part of block.parts) {
+      romBytes.set(romData.subarray(part.location, part.location + part.size), offset)
+      offset += part.size
+    }
+
+    const fingerprint: Omit<BlockFingerprint, 'symbols'> = {
+      version: FINGERPRINT_VERSION,
+      global,
+      block: hash([block.name, block.movable, block.group, block.scene, block.postProcess, block.meta]),
+      parts: hash(block.parts.map(x => [x.name, x.location, x.size, x.type, x.index])),
+      transforms: hash(block.transforms.map(x => [x.regex, x.replacement]).sort()),
+      labels: hash(data.labels.filter(x => inRange(x.location)).map(x => [x.location, x.label]).sort()),
+      overrides: hash(data.overrides.filter(x => inRange(x.location)).map(x => [x.location, x.register, x.value]).sort()),
+      rewrites: hash(data.rewrites.filter(x => inRange(x.location)).map(x => [x.location, x.value]).sort()),
+      mnemonics: hash(data.mnemonics.filter(x => inRange(x.address)).map(x => [x.address, x.mnemonic]).sort()),
+      rom: hashBytes(romBytes)
+    }
+    result[block.id] = asm => ({ ...fingerprint, symbols: hashSymbols(asm) })
+  }
+
+  return result
+}
+
+/**
+ * Explain why a block needs rebuilding; an empty list means it is up to date
+ */
+export function getRebuildReasons(previous: BlockFingerprint | null | undefined, current: BlockFingerprint): string[] {
+  if (!previous) {
+    return ['no previous build']
+  }
+  if (previous.version !== current.version) {
+    return ['build pipeline changed']
+  }
+
+  return (Object.keys(COMPONENT_REASONS) as FingerprintComponent[])
+    .filter(component => previous[component] !== current[component])
+    .map(component => COMPONENT_REASONS[component])
+}
+
+/**
+ * Read a fingerprint from BlockArtifact.meta, if one was stored
+ */
+export function getStoredFingerprint(meta: unknown): BlockFingerprint | null {
+  if (!meta || typeof meta !== 'object') return null
+  const fingerprint = (meta as { fingerprint?: BlockFingerprint }).fingerprint
+  return fingerprint && typeof fingerprint === 'object' ? fingerprint : null
+}
@@ -2,39 +2,44 @@
  * Build Orchestrator - Main Service for Project Build Process
  * 
  * This service coordinates the complete build workflow:
- * 1. Construct DbRoot from project data
- * 2. Create BlockReader and analyze ROM
- * 3. Generate ASM text using BlockWriter
- * 4. Store artifacts in BlockArtifact table
- * 5. Provide progress feedback
+ * 1. Load project data for the DbRoot
+ * 2. Run the build pipeline (BlockReader, BlockWriter and optional ROM
+ *    assembly) in a Web Worker so the UI stays responsive
+ * 3. Store artifacts in BlockArtifact table; blocks whose input fingerprint
+ *    (kept in BlockArtifact.meta) is unchanged are skipped
+ * 4. Record a BuildRun with versioned artifacts for build history
+ * 5. Provide progress feedback and cancellation
  */
 
-import { BlockReader, BlockWriter } from '@gaialabs/core'
-import { BinType, CompressionRegistry, CopDef, DbBlock, DbFile, DbOverride, DbStringType, DbStruct, MemberType, RomProcessingConstants } from '@gaialabs/shared'
-import { type DbRoot, OpCode } from '@gaialabs/shared'
+import { crc32_buffer } from '@gaialabs/shared'
 import { db } from '../services/supabase'
 import { useAuthStore } from '../stores/auth-store'
-import type { ScribeProject, Block, BlockPart, Cop, File as PrismaFile, Label, GameMnemonic, Override, Rewrite, StringType, AddressingMode, InstructionGroup, InstructionCode, Struct, StringCommand } from '@prisma/client'
+import { getBuildStepCount, hasErrors, type BuildArtifact, type BuildDiagnostic, type BuildBlock, type BuildMode, type BuildPipelineOutput, type BuildProgressCallback, type BuildProjectData, type BuildWorkerRequest, type BuildWorkerResponse, type BuiltRom, type PreviousArtifact, type RebuiltBlock } from './build-pipeline'
+import { getStoredFingerprint } from './build-fingerprint'
+import { getBuildSettings, getDefaultEntryPoints, type BuildEntryPoint } from './build-settings'
+import type { ScribeProject, BlockTransform, Cop, File as PrismaFile, Label, GameMnemonic, Override, Rewrite, StringType, AddressingMode, InstructionGroup, InstructionCode, Struct, StringCommand } from '@prisma/client'
 
-/**
- * Progress callback for build operations
- */
-export type BuildProgressCallback = (step: string, progress: number, total: number) => void
+export type { BuildArtifact, BuildDiagnostic, BuildDiagnosticSeverity, BuildMode, BuildProgressCallback, BuiltRom, RebuiltBlock } from './build-pipeline'
 
 /**
  * Build result containing generated artifacts
  */
 export interface BuildResult {
   success: boolean
-  artifacts: Array<{
-    blockId: string
-    blockName: string
-    content: string
-  }>
+  cancelled?: boolean
+  /** Artifacts regenerated by this build; unchanged blocks keep their stored artifact */
+  artifacts: BuildArtifact[]
+  rebuilt: RebuiltBlock[]
+  skipped: number
+  diagnostics: BuildDiagnostic[]
+  /** Messages of the error diagnostics */
   errors: string[]
+  rom?: BuiltRom
+  /** Id of the BuildRun history record, when one was written */
+  buildRunId?: string
 }
 
-
+const CANCELLED_MESSAGE = 'Build cancelled'
 
 /**
  * Build orchestrator for managing the complete build process
@@ -44,12 +49,18 @@ export class BuildOrchestrator {
   private romFile: File
   private romData: Uint8Array
   private progressCallback?: BuildProgressCallback
+  private mode: BuildMode
+  private worker: Worker | null = null
+  private rejectWorker: ((error: Error) => void) | null = null
+  private cancelled = false
+  private storing = false
 
-  constructor(project: ScribeProject, romFile: File, romData: Uint8Array, progressCallback?: BuildProgressCallback) {
+  constructor(project: ScribeProject, romFile: File, romData: Uint8Array, progressCallback?: BuildProgressCallback, mode: BuildMode = 'asm') {
     this.project = project
     this.romFile = romFile
     this.romData = romData
     this.progressCallback = progressCallback
+    this.mode = mode
   }
 
   /**
@@ -59,69 +70,161 @@ export class BuildOrchestrator {
     const result: BuildResult = {
       success: false,
       artifacts: [],
+      rebuilt: [],
+      skipped: 0,
+      diagnostics: [],
       errors: []
     }
 
+    const totalSteps = getBuildStepCount(this.mode)
+    let stored = false
+
     try {
-      this.reportProgress('Initializing build process...', 0, 6)
+      this.reportProgress('Initializing build process...', 0, totalSteps)
 
       // Step 1: Load ROM data
-      this.reportProgress('Loading ROM file...', 1, 6)
+      this.reportProgress('Loading ROM file...', 1, totalSteps)
       const romData = await this.loadRomData()
 
-      // Step 2: Construct DbRoot
-      this.reportProgress('Constructing database root...', 2, 6)
-      const internalRoot = await this.constructDbRoot()
-      const dbRoot = null;// await DbRootUtils.fromSupabaseGameRom("Illusion of Gaia");// await this.constructDbRoot()
-      
-      // Step 3: Create BlockReader and analyze
-      this.reportProgress('Analyzing ROM blocks...', 3, 6)
-      const blockReader = new BlockReader(romData, dbRoot ?? internalRoot)
-      const chunkFiles = blockReader.analyzeAndResolve()
-
-      // Step 4: Generate ASM using BlockWriter
-      this.reportProgress('Generating assembly code...', 4, 6)
-      const blockWriter = new BlockWriter(blockReader)
-      const asmFiles = chunkFiles.filter(chunk => chunk.type === BinType.Assembly)
-
-      // Step 5: Generate ASM text for each assembly block
-      this.reportProgress('Processing assembly blocks...', 5, 6)
-      for (const block of asmFiles) {
-        try {
-          if (!block.textData) {
-            block.textData = blockWriter.generateAsm(block)
-          }
-          
-          if (block.textData && block.name && block.id) {
-            result.artifacts.push({
-              blockId: block.id,
-              blockName: block.name,
-              content: block.textData
-            })
-          }
-        } catch (error) {
-          const errorMsg = `Failed to generate ASM for block ${block.name}: ${error instanceof Error ? error.message : String(error)}`
-          result.errors.push(errorMsg)
-          console.error(errorMsg, error)
+      // Step 2: Load the project data the DbRoot is constructed from
+      this.reportProgress('Constructing database root...', 2, totalSteps)
+      const settings = getBuildSettings(this.project.meta)
+      const [data, previousArtifacts, entryPoints] = await Promise.all([
+        this.loadProjectData(),
+        this.loadPreviousArtifacts(),
+        settings.entryPoints ?? this.loadPlatformEntryPoints()
+      ])
+      this.throwIfCancelled()
+
+      // Steps 3-7: Analyze, generate and optionally assemble in the worker
+      const output = await this.runInWorker({
+        type: 'build',
+        input: {
+          projectName: this.project.name,
+          romData,
+          mode: this.mode,
+          data,
+          settings,
+          entryPoints,
+          previousArtifacts
         }
-      }
-
-      // Step 6: Store artifacts in database
-      this.reportProgress('Storing build artifacts...', 6, 6)
+      })
+      result.artifacts = output.artifacts
+      result.rebuilt = output.rebuilt
+      result.skipped = output.skipped
+      result.diagnostics.push(...output.diagnostics)
+      result.rom = output.rom
+
+      // Final step: Store artifacts in database. Nothing is written if the build was cancelled.
+      this.throwIfCancelled()
+      this.storing = true
+      this.reportProgress('Storing build artifacts...', totalSteps, totalSteps)
       await this.storeArtifacts(result.artifacts)
+      stored = true
 
-      result.success = result.errors.length === 0
-      this.reportProgress('Build completed!', 6, 6)
+      result.success = !hasErrors(result.diagnostics)
+      this.reportProgress('Build completed!', totalSteps, totalSteps)
 
     } catch (error) {
-      const errorMsg = `Build failed: ${error instanceof Error ? error.message : String(error)}`
-      result.errors.push(errorMsg)
-      console.error('Build orchestrator error:', error)
+      if (this.cancelled) {
+        result.cancelled = true
+        result.artifacts = []
+        result.rebuilt = []
+        result.skipped = 0
+        result.rom = undefined
+        result.diagnostics = [{ severity: 'info', message: CANCELLED_MESSAGE }]
+        console.log('Build cancelled by user')
+      } else {
+        const errorMsg = `Build failed: ${error instanceof Error ? error.message : String(error)}`
+        result.diagnostics.push({ severity: 'error', message: errorMsg })
+        console.error('Build orchestrator error:', error)
+      }
+    } finally {
+      this.terminateWorker()
+    }
+
+    result.errors = result.diagnostics
+      .filter(diagnostic => diagnostic.severity === 'error')
+      .map(diagnostic => diagnostic.blockName ? `${diagnostic.blockName}: ${diagnostic.message}` : diagnostic.message)
+    if (result.cancelled) {
+      result.errors = [CANCELLED_MESSAGE]
+    }
+
+    // Cancelled builds leave no trace in the build history
+    if (!result.cancelled) {
+      result.buildRunId = await this.recordBuildRun(result, stored)
     }
 
     return result
   }
 
+  /**
+   * Cancel a running build
+   *
+   * Returns false when the build has already started storing artifacts and can
+   * no longer be cancelled cleanly.
+   */
+  cancel(): boolean {
+    if (this.storing) return false
+    if (this.cancelled) return true
+
+    this.cancelled = true
+    this.terminateWorker()
+    if (this.rejectWorker) {
+      this.rejectWorker(new Error(CANCELLED_MESSAGE))
+      this.rejectWorker = null
+    }
+    return true
+  }
+
+  /**
+   * Run the build pipeline in a dedicated worker and relay its progress
+   */
+  private runInWorker(request: BuildWorkerRequest): Promise<BuildPipelineOutput> {
+    return new Promise((resolve, reject) => {
+      const worker = new Worker(new URL('../workers/build.worker.ts', import.meta.url), { type: 'module' })
+      this.worker = worker
+      this.rejectWorker = reject
+
+      worker.onmessage = (event: MessageEvent<BuildWorkerResponse>) => {
+        const message = event.data
+        switch (message.type) {
+          case 'progress':
+            this.reportProgress(message.step, message.progress, message.total)
+            break
+          case 'result':
+            this.rejectWorker = null
+            resolve(message.output)
+            break
+          case 'error':
+            this.rejectWorker = null
+            reject(new Error(message.message))
+            break
+        }
+      }
+
+      worker.onerror = (event: ErrorEvent) => {
+        this.rejectWorker = null
+        reject(new Error(event.message || 'Build worker failed to start'))
+      }
+
+      worker.postMessage(request)
+    })
+  }
+
+  private terminateWorker(): void {
+    if (this.worker) {
+      this.worker.terminate()
+      this.worker = null
+    }
+  }
+
+  private throwIfCancelled(): void {
+    if (this.cancelled) {
+      throw new Error(CANCELLED_MESSAGE)
+    }
+  }
+
   /**
    * Load ROM data from the provided File object and Uint8Array
    * The data is already loaded and validated by the RomPathModal
@@ -153,11 +256,10 @@ export class BuildOrchestrator {
   }
 
   /**
-   * Construct DbRoot from project data
+   * Load all project and platform data needed by the build pipeline
    */
-  private async constructDbRoot(): Promise<DbRoot> {
-    // Load all project data
-    const [blocks, cops, files, labels, mnemonics, overrides, rewrites, stringTypes, stringCommands, structs, adrModes, instrGroups, instrCodes] = await Promise.all([
+  private async loadProjectData(): Promise<BuildProjectData> {
+    const [blocks, cops, files, labels, mnemonics, overrides, rewrites, stringTypes, stringCommands, structs, addressingModes, instructionGroups, instructionCodes] = await Promise.all([
       this.loadProjectBlocks(),
       this.loadProjectCops(),
       this.loadProjectFiles(),
@@ -173,50 +275,48 @@ export class BuildOrchestrator {
       this.loadPlatformInstructionCodes()
     ])
 
-    const { addrLookup, codeLookup } = this.convertInstructionSetToDbFormat(adrModes, instrGroups, instrCodes);
-
-    // Convert to DbRoot format
-    const dbRoot: DbRoot = {
-      copDef: this.convertCopsToDbFormat(cops),
-      copLookup: {},
-      mnemonics: this.convertMnemonicsToDbFormat(mnemonics),
-      structs: this.convertStructsToDbFormat(structs),
-      stringTypes: this.convertStringTypesToDbFormat(stringTypes, stringCommands),
-      stringDelimiters: [],
-      stringCharLookup: {},
-      files: this.convertFilesToDbFormat(files),
-      config: {
-        sfxLocation: 0,
-        sfxCount: 0,
-        accentMap: [],
-        compression: 'none',
-        entryPoints: [],
-        paths: {} as any
-      },
-      blocks: this.convertBlocksToDbFormat(blocks),
-      overrides: this.convertOverridesToDbFormat(overrides),
-      labels: this.convertLabelsToDbFormat(labels),
-      rewrites: this.convertRewritesToDbFormat(rewrites),
-      entryPoints: [],
-      opCodes: codeLookup,
-      opLookup: {},
-      addrLookup,
-      compression: CompressionRegistry.get('QuintetLZ')
+    return { blocks, cops, files, labels, mnemonics, overrides, rewrites, stringTypes, stringCommands, structs, addressingModes, instructionGroups, instructionCodes }
+  }
+
+  /**
+   * Load the artifacts stored by the previous build, keyed by block id
+   */
+  private async loadPreviousArtifacts(): Promise<Record<string, PreviousArtifact>> {
+    const { data, error } = await db.blockArtifacts.getByProject(this.project.id)
+    if (error) throw new Error(`Failed to load previous artifacts: ${error.message}`)
+
+    const result: Record<string, PreviousArtifact> = {}
+    for (const artifact of data || []) {
+      result[artifact.blockId] = {
+        content: artifact.content,
+        fingerprint: getStoredFingerprint(artifact.meta)
+      }
     }
+    return result
+  }
 
-    return dbRoot
+  /**
+   * Default entry points from the platform's vectors
+   */
+  private async loadPlatformEntryPoints(): Promise<BuildEntryPoint[]> {
+    const { data, error } = await db.vectors.getByPlatform(this.project.platformId)
+    if (error) throw new Error(`Failed to load platform vectors: ${error.message}`)
+    return getDefaultEntryPoints(data || [])
   }
 
   /**
-   * Load project blocks with parts
+   * Load project blocks with parts and transforms
    */
-  private async loadProjectBlocks(): Promise<(Block & { parts: BlockPart[] })[]> {
+  private async loadProjectBlocks(): Promise<BuildBlock[]> {
     const { data: blocks, error } = await db.blocks.getByProject(this.project.id)
     if (error) throw new Error(`Failed to load blocks: ${error.message}`)
       
     const { data: parts, error: partsError } = await db.blockParts.getByProject(this.project.id)
     if (partsError) throw new Error(`Failed to load parts: ${partsError.message}`)
 
+    const { data: transforms, error: transformsError } = await db.blockTransforms.getByProject(this.project.id)
+    if (transformsError) throw new Error(`Failed to load transforms: ${transformsError.message}`)
+
     // Combine blocks and parts
     const blocksWithParts = (blocks || []).map((block : any) => ({
       ...block,
@@ -225,7 +325,8 @@ export class BuildOrchestrator {
           const orderB = b.index ?? 0;
           if (orderA !== orderB) return orderA - orderB;
           return a.location - b.location;
-      }) ?? []
+      }) ?? [],
+      transforms: (transforms || []).filter((transform: BlockTransform) => transform.blockId === block.id)
     }))
         
     return blocksWithParts
@@ -306,191 +407,10 @@ export class BuildOrchestrator {
     return data || []
   }
 
-  /**
-   * Convert project data to DbRoot format methods
-   * These will need to be implemented based on the exact DbRoot interface requirements
-   */
-  private convertCopsToDbFormat(cops: Cop[]): Record<number, CopDef> {
-    // Convert Scribe COPs to CopDef format
-    const result: Record<number, any> = {}
-    cops.forEach(cop => {
-      if (cop.code !== null) {
-        result[cop.code] = {
-          code: cop.code,
-          mnem: cop.mnemonic,
-          parts: cop.parts || [],
-          halt: cop.halt,
-          size: RomProcessingConstants.getSize(cop.parts)
-        }
-      }
-    })
-    return result
-  }
-
-  private convertMnemonicsToDbFormat(mnemonics: GameMnemonic[]): Record<number, string> {
-    const result: Record<number, string> = {}
-    mnemonics.forEach(mnemonic => {
-      if (mnemonic.address !== null) {
-        result[mnemonic.address] = mnemonic.mnemonic
-      }
-    })
-    return result
-  }
-
-  private convertStringTypesToDbFormat(stringTypes: StringType[], stringCommands: StringCommand[]): Record<string, DbStringType> {
-    // Convert Scribe string types to DbStringType format
-    const result: Record<string, DbStringType> = {}
-    const lookup: Record<string, DbStringType> = {};
-    stringTypes.forEach(stringType => {
-      result[stringType.name] = lookup[stringType.id] = {
-        name: stringType.name,
-        delimiter: stringType.delimiter || '',
-        shiftType: stringType.shiftType || 'none',
-        terminator: stringType.terminator || 0,
-        greedyTerminator: stringType.greedy || false,
-        commands: {},
-        characterMap: stringType.characterMap || [],
-        layers: []
-      }
-    })
-    stringCommands.forEach(stringCommand => {
-      lookup[stringCommand.stringTypeId].commands[stringCommand.code] = {
-        key: stringCommand.code,
-        value: stringCommand.mnemonic,
-        types: stringCommand.types.map(type => type as MemberType) || [],
-        delimiter: stringCommand.delimiter || 0,
-        halt: stringCommand.halt || false,
-        set: stringCommand.stringTypeId
-      }
-    })
-    return result
-  }
-
-  private convertFilesToDbFormat(files: PrismaFile[]): DbFile[] {
-    // Convert Scribe files to DbFile format
-    return files.map(file => ({
-      name: file.name,
-      start: file.location,
-      end: file.location + file.size,
-      size: file.size,
-      type: file.type as BinType,
-      group: file.group || null,
-      scene: file.scene || null,
-      compressed: file.compressed || false,
-      upper: file.upper || false,
-      meta: file.meta || {}
-    }))
-  }
-
-  private convertBlocksToDbFormat(blocks: (Block & { parts: BlockPart[] })[]): DbBlock[] {
-    // Convert Scribe blocks to DbBlock format
-    return blocks.map(block => ({
-      id: block.id,
-      name: block.name,
-      movable: block.movable || false,
-      group: block.group || '',
-      scene: block.scene || '',
-      postProcess: block.postProcess || '',
-      meta: block.meta || {},
-      parts: block.parts
-        .map((part: BlockPart) => ({
-          name: part.name,
-          start: part.location,
-          end: part.location + part.size,
-          size: part.size,
-          struct: part.type,
-          order: part.index || 0,
-          block: block.name
-        }))
-        .sort((a, b) => {
-          const orderA = a.order ?? 0;
-          const orderB = b.order ?? 0;
-          if (orderA !== orderB) return orderA - orderB;
-          return a.start - b.start;
-        })
-    })).sort((a, b) => a.parts[0].start - b.parts[0].start)
-  }
-
-  private convertOverridesToDbFormat(overrides: Override[]): Record<number, DbOverride> {
-    // Convert Scribe overrides to DbOverride format
-    const result: Record<number, any> = {}
-    overrides.forEach(override => {
-      if (override.location !== null) {
-        result[override.location] = {
-          location: override.location,
-          register: override.register || 'A', // Default register
-          value: override.value
-        }
-      }
-    })
-    return result
-  }
-
-  private convertLabelsToDbFormat(labels: Label[]): Record<number, string> {
-    const result: Record<number, string> = {}
-    labels.forEach(label => {
-      if (label.location !== null) {
-        result[label.location] = label.label
-      }
-    })
-    return result
-  }
-
-  private convertRewritesToDbFormat(rewrites: Rewrite[]): Record<number, number> {
-    const result: Record<number, number> = {}
-    rewrites.forEach(rewrite => {
-      if (rewrite.location !== null && rewrite.value !== null) {
-        result[rewrite.location] = rewrite.value
-      }
-    })
-    return result
-  }
-
-  private convertStructsToDbFormat(structs: Struct[]): Record<string, DbStruct> {
-    const result: Record<string, DbStruct> = {}
-    structs.forEach(struct => {
-      result[struct.name] = {
-        name: struct.name,
-        types: struct.types,
-        delimiter: struct.delimiter ?? undefined,
-        discriminator: struct.discriminator ?? undefined,
-        parent: struct.parent ?? undefined,
-      }
-    })
-    return result
-  }
-
-  private convertInstructionSetToDbFormat(addressingModes: AddressingMode[], instructionGroups: InstructionGroup[], instructionCodes: InstructionCode[]) {
-    const addrLookup: Record<string, any> = {};
-    const addrMap: Record<string, string> = {};
-    addressingModes.forEach(mode => {
-      addrLookup[mode.name] = {
-        size: mode.size,
-        shorthand: mode.code,
-        parseRegex: mode.pattern,
-        formatString: mode.format,
-      };
-      addrMap[mode.id] = mode.name;
-    });
-    const groupMap: Record<string, string> = {};
-    instructionGroups.forEach(group => {
-      groupMap[group.id] = group.name;
-    });
-    const codeLookup: Record<number, OpCode> = {};
-    instructionCodes.forEach(code => {
-      codeLookup[code.code] = new OpCode (
-        code.code,
-        groupMap[code.groupId],
-        addrMap[code.modeId],
-      );
-    });
-    return { addrLookup, codeLookup };
-  }
-
   /**
    * Store generated artifacts in the database
    */
-  private async storeArtifacts(artifacts: BuildResult['artifacts']): Promise<void> {
+  private async storeArtifacts(artifacts: BuildArtifact[]): Promise<void> {
     const { user } = useAuthStore.getState()
     if (!user) throw new Error('User not authenticated')
 
@@ -501,7 +421,7 @@ export class BuildOrchestrator {
       const artifactsToUpsert = artifacts.map(artifact => ({
         blockId: artifact.blockId,
         content: artifact.content,
-        meta: null,
+        meta: artifact.fingerprint ? { fingerprint: artifact.fingerprint } : null,
         createdBy: user.id,
         updatedBy: user.id
       }))
@@ -521,6 +441,54 @@ export class BuildOrchestrator {
     }
   }
 
+  /**
+   * Record the build in the history, with a version of every stored artifact
+   *
+   * History is best effort: a failure here is logged but does not fail the build.
+   */
+  private async recordBuildRun(result: BuildResult, stored: boolean): Promise<string | undefined> {
+    const { user } = useAuthStore.getState()
+    if (!user) return undefined
+
+    try {
+      const { data: run, error } = await db.buildRuns.create({
+        projectId: this.project.id,
+        mode: this.mode,
+        success: result.success,
+        errors: result.errors,
+        diagnostics: result.diagnostics,
+        romName: this.romFile.name,
+        romSize: this.romData.length,
+        romCrc: (crc32_buffer(this.romData) >>> 0).toString(16).toUpperCase().padStart(8, '0'),
+        meta: {
+          rebuilt: result.rebuilt.length,
+          skipped: result.skipped,
+          romChecksum: result.rom?.checksum ?? null
+        }
+      }, user.id)
+      if (error) throw new Error(error.message)
+
+      if (stored && result.artifacts.length > 0) {
+        const reasons = new Map(result.rebuilt.map(block => [block.blockId, block.reasons]))
+        const { error: versionsError } = await db.blockArtifactVersions.createBatch(
+          result.artifacts.map(artifact => ({
+            blockId: artifact.blockId,
+            buildRunId: run.id,
+            content: artifact.content,
+            meta: { reasons: reasons.get(artifact.blockId) ?? [] }
+          })),
+          user.id
+        )
+        if (versionsError) throw new Error(versionsError.message)
+      }
+
+      return run.id
+    } catch (error) {
+      console.error('Failed to record build run:', error)
+      return undefined
+    }
+  }
+
   /**
    * Report progress to callback if provided
    */
@@ -538,7 +506,8 @@ export function createBuildOrchestrator(
   project: ScribeProject,
   romFile: File,
   romData: Uint8Array,
-  progressCallback?: BuildProgressCallback
+  progressCallback?: BuildProgressCallback,
+  mode: BuildMode = 'asm'
 ): BuildOrchestrator {
-  return new BuildOrchestrator(project, romFile, romData, progressCallback)
+  return new BuildOrchestrator(project, romFile, romData, progressCallback, mode)
 }
@@ -0,0 +1,647 @@
+/**
+ * Build Pipeline - CPU-bound part of the project build
+ *
+ * Converts loaded project data into a DbRoot, analyzes the ROM with
+ * BlockReader, generates ASM with BlockWriter and optionally rebuilds a ROM
+ * image. This module has no database or store dependencies so it can run
+ * inside the build worker (see src/workers/build.worker.ts).
+ */
+
+import { Assembler, BlockReader, BlockWriter, RomProcessor, RomWriter } from '@gaialabs/core'
+import { BinType, ChunkFile, ChunkFileUtils, CompressionRegistry, CopDef, DbBlock, DbFile, DbOverride, DbStringType, DbStruct, MemberType, RomProcessingConstants } from '@gaialabs/shared'
+import { type DbEntryPoint, type DbRoot, OpCode } from '@gaialabs/shared'
+import { parseRomHeader, writeRomChecksum } from './rom-parser'
+import { sanitizeFileName } from './download-utils'
+import { computeBlockFingerprints, getRebuildReasons, type BlockFingerprint } from './build-fingerprint'
+import { toDbEntryPoints, type BuildEntryPoint, type BuildSettings } from './build-settings'
+import type { Block, BlockPart, BlockTransform, Cop, File as PrismaFile, Label, GameMnemonic, Override, Rewrite, StringType, AddressingMode, InstructionGroup, InstructionCode, Struct, StringCommand } from '@prisma/client'
+
+/**
+ * Progress callback for build operations
+ */
+export type BuildProgressCallback = (step: string, progress: number, total: number) => void
+
+/**
+ * Build mode
+ * - asm: generate assembly artifacts only
+ * - rom: generate assembly artifacts and rebuild a playable ROM image from them
+ */
+export type BuildMode = 'asm' | 'rom'
+
+/**
+ * ROM image produced by a 'rom' mode build
+ */
+export interface BuiltRom {
+  data: Uint8Array
+  fileName: string
+  checksum: number
+}
+
+/**
+ * Generated assembly for a single block
+ */
+export interface BuildArtifact {
+  blockId: string
+  blockName: string
+  content: string
+  fingerprint?: BlockFingerprint
+}
+
+export type BuildDiagnosticSeverity = 'error' | 'warning' | 'info'
+
+/**
+ * A structured message produced during a build
+ */
+export interface BuildDiagnostic {
+  severity: BuildDiagnosticSeverity
+  message: string
+  blockId?: string
+  blockName?: string
+  /** ROM address the diagnostic refers to */
+  address?: number
+  /** Line within the block's generated assembly */
+  line?: number
+}
+
+/**
+ * A block that was regenerated, and why
+ */
+export interface RebuiltBlock {
+  blockId: string
+  blockName: string
+  reasons: string[]
+}
+
+/**
+ * Artifact stored by a previous build, used to skip unchanged blocks
+ */
+export interface PreviousArtifact {
+  content: string
+  fingerprint: BlockFingerprint | null
+}
+
+export type BuildBlock = Block & { parts: BlockPart[]; transforms: BlockTransform[] }
+
+/**
+ * Project and platform rows needed to construct a DbRoot
+ */
+export interface BuildProjectData {
+  blocks: BuildBlock[]
+  cops: Cop[]
+  files: PrismaFile[]
+  labels: Label[]
+  mnemonics: GameMnemonic[]
+  overrides: Override[]
+  rewrites: Rewrite[]
+  stringTypes: StringType[]
+  stringCommands: StringCommand[]
+  structs: Struct[]
+  addressingModes: AddressingMode[]
+  instructionGroups: InstructionGroup[]
+  instructionCodes: InstructionCode[]
+}
+
+export interface BuildPipelineInput {
+  projectName: string
+  romData: Uint8Array
+  mode: BuildMode
+  data: BuildProjectData
+  settings: BuildSettings
+  /** Resolved entry points (project settings or platform defaults) as CPU vector addresses */
+  entryPoints: BuildEntryPoint[]
+  /** Artifacts from the last build keyed by block id; blocks whose fingerprint matches are skipped */
+  previousArtifacts: Record<string, PreviousArtifact>
+}
+
+export interface BuildPipelineOutput {
+  /** Artifacts for the blocks that were regenerated */
+  artifacts: BuildArtifact[]
+  rebuilt: RebuiltBlock[]
+  skipped: number
+  diagnostics: BuildDiagnostic[]
+  rom?: BuiltRom
+}
+
+/**
+ * Messages exchanged with the build worker
+ */
+export type BuildWorkerRequest = { type: 'build'; input: BuildPipelineInput }
+
+export type BuildWorkerResponse =
+  | { type: 'progress'; step: string; progress: number; total: number }
+  | { type: 'result'; output: BuildPipelineOutput }
+  | { type: 'error'; message: string }
+
+/**
+ * Total number of progress steps for a build mode
+ *
+ * Storing artifacts is always the final step.
+ */
+export function getBuildStepCount(mode: BuildMode): number {
+  return mode === 'rom' ? 8 : 6
+}
+
+/**
+ * Run the analyze/generate (and for 'rom' mode, assemble) steps of a build
+ */
+export async function runBuildPipeline(input: BuildPipelineInput, reportProgress: BuildProgressCallback): Promise<BuildPipelineOutput> {
+  const output: BuildPipelineOutput = {
+    artifacts: [],
+    rebuilt: [],
+    skipped: 0,
+    diagnostics: []
+  }
+  const totalSteps = getBuildStepCount(input.mode)
+  const blockAddresses = getBlockAddresses(input.data)
+
+  const { mapMode } = parseRomHeader(input.romData.slice().buffer)
+  const dbRoot = constructDbRoot(input.data, input.settings, toDbEntryPoints(input.entryPoints, mapMode))
+  const fingerprints = computeBlockFingerprints(input.data, input.romData, input.settings)
+
+  // Step 3: Create BlockReader and analyze
+  reportProgress('Analyzing ROM blocks...', 3, totalSteps)
+  const blockReader = new BlockReader(input.romData, dbRoot)
+  const chunkFiles = blockReader.analyzeAndResolve()
+
+  // Step 4: Generate ASM using BlockWriter
+  reportProgress('Generating assembly code...', 4, totalSteps)
+  const blockWriter = new BlockWriter(blockReader)
+  const asmFiles = chunkFiles.filter(chunk => chunk.type === BinType.Assembly)
+
+  // Step 5: Generate ASM text for each assembly block whose inputs changed
+  reportProgress('Processing assembly blocks...', 5, totalSteps)
+  for (const block of asmFiles) {
+    try {
+      const fingerprinter = block.id ? fingerprints[block.id] : undefined
+      const previous = block.id ? input.previousArtifacts[block.id] : undefined
+      const reasons = fingerprinter
+        ? getRebuildReasons(previous?.fingerprint, fingerprinter(previous?.content ?? ''))
+        : ['no fingerprint']
+
+      if (previous && reasons.length === 0) {
+        // Unchanged: keep the stored artifact, but the ROM image still needs its text
+        block.textData = previous.content
+        output.skipped++
+        continue
+      }
+
+      if (!block.textData) {
+        block.textData = blockWriter.generateAsm(block)
+      }
+
+      if (block.textData && block.name && block.id) {
+        output.artifacts.push({
+          blockId: block.id,
+          blockName: block.name,
+          content: block.textData,
+          fingerprint: fingerprinter?.(block.textData)
+        })
+        output.rebuilt.push({
+          blockId: block.id,
+          blockName: block.name,
+          reasons
+        })
+      }
+    } catch (error) {
+      const message = `Failed to generate ASM: ${error instanceof Error ? error.message : String(error)}`
+      output.diagnostics.push({
+        severity: 'error',
+        message,
+        blockId: block.id,
+        blockName: block.name,
+        address: block.id ? blockAddresses[block.id] : undefined
+      })
+      console.error(`${message} (block ${block.name})`, error)
+    }
+  }
+
+  // Steps 6-7: Assemble and write the ROM image
+  if (input.mode === 'rom') {
+    if (hasErrors(output.diagnostics)) {
+      output.diagnostics.push({
+        severity: 'warning',
+        message: 'The ROM image was not written because assembly generation failed'
+      })
+      return output
+    }
+
+    reportProgress('Assembling ROM image...', 6, totalSteps)
+    const image = await buildRomImage(dbRoot, input.projectName, chunkFiles, asmFiles, blockAddresses, output.diagnostics)
+    if (!image) {
+      return output
+    }
+
+    reportProgress('Writing ROM header and checksum...', 7, totalSteps)
+    output.rom = finalizeRomImage(input.romData, input.projectName, image, output.diagnostics)
+  }
+
+  return output
+}
+
+/**
+ * True when any diagnostic is an error
+ */
+export function hasErrors(diagnostics: BuildDiagnostic[]): boolean {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error')
+}
+
+/**
+ * Lowest ROM address of each block, keyed by block id
+ */
+function getBlockAddresses(data: BuildProjectData): Record<string, number> {
+  const result: Record<string, number> = {}
+  for (const block of data.blocks) {
+    if (block.parts.length > 0) {
+      result[block.id] = Math.min(...block.parts.map(part => part.location))
+    }
+  }
+  return result
+}
+
+/**
+ * Extract a line number from an assembler error message, if it mentions one
+ */
+function getErrorLine(message: string): number | undefined {
+  const match = /line\s+(\d+)/i.exec(message)
+  return match ? parseInt(match[1], 10) : undefined
+}
+
+/**
+ * Construct DbRoot from project data and build settings
+ */
+export function constructDbRoot(data: BuildProjectData, settings: BuildSettings, entryPoints: DbEntryPoint[]): DbRoot {
+  if (!CompressionRegistry.has(settings.compression)) {
+    throw new Error(`Unknown compression provider: ${settings.compression}`)
+  }
+
+  const { addrLookup, codeLookup, opLookup } = convertInstructionSetToDbFormat(data.addressingModes, data.instructionGroups, data.instructionCodes);
+  const copDef = convertCopsToDbFormat(data.cops)
+  const dbStringTypes = convertStringTypesToDbFormat(data.stringTypes, data.stringCommands)
+
+  // Convert to DbRoot format
+  const dbRoot: DbRoot = {
+    copDef,
+    copLookup: createCopLookup(copDef),
+    mnemonics: convertMnemonicsToDbFormat(data.mnemonics),
+    structs: convertStructsToDbFormat(data.structs),
+    stringTypes: dbStringTypes,
+    stringDelimiters: Object.values(dbStringTypes).map(x => x.delimiter).filter(Boolean),
+    stringCharLookup: createStringCharLookup(dbStringTypes),
+    files: convertFilesToDbFormat(data.files),
+    config: {
+      sfxLocation: settings.sfxLocation,
+      sfxCount: settings.sfxCount,
+      accentMap: settings.accentMap,
+      compression: settings.compression,
+      entryPoints,
+      paths: {} as any
+    },
+    blocks: convertBlocksToDbFormat(data.blocks),
+    overrides: convertOverridesToDbFormat(data.overrides),
+    labels: convertLabelsToDbFormat(data.labels),
+    rewrites: convertRewritesToDbFormat(data.rewrites),
+    entryPoints,
+    opCodes: codeLookup,
+    opLookup,
+    addrLookup,
+    compression: CompressionRegistry.get(settings.compression)
+  }
+
+  return dbRoot
+}
+
+/**
+ * Convert project data to DbRoot format methods
+ * These will need to be implemented based on the exact DbRoot interface requirements
+ */
+function convertCopsToDbFormat(cops: Cop[]): Record<number, CopDef> {
+  // Convert Scribe COPs to CopDef format
+  const result: Record<number, any> = {}
+  cops.forEach(cop => {
+    if (cop.code !== null) {
+      result[cop.code] = {
+        code: cop.code,
+        mnem: cop.mnemonic,
+        parts: cop.parts || [],
+        halt: cop.halt,
+        size: RomProcessingConstants.getSize(cop.parts)
+      }
+    }
+  })
+  return result
+}
+
+/**
+ * Index COP definitions by mnemonic, as required by the assembler
+ */
+function createCopLookup(copDef: Record<number, CopDef>): Record<string, CopDef> {
+  const result: Record<string, CopDef> = {}
+  Object.values(copDef).forEach(def => {
+    result[def.mnem] = def
+  })
+  return result
+}
+
+function convertMnemonicsToDbFormat(mnemonics: GameMnemonic[]): Record<number, string> {
+  const result: Record<number, string> = {}
+  mnemonics.forEach(mnemonic => {
+    if (mnemonic.address !== null) {
+      result[mnemonic.address] = mnemonic.mnemonic
+    }
+  })
+  return result
+}
+
+function convertStringTypesToDbFormat(stringTypes: StringType[], stringCommands: StringCommand[]): Record<string, DbStringType> {
+  // Convert Scribe string types to DbStringType format
+  const result: Record<string, DbStringType> = {}
+  const lookup: Record<string, DbStringType> = {};
+  stringTypes.forEach(stringType => {
+    result[stringType.name] = lookup[stringType.id] = {
+      name: stringType.name,
+      delimiter: stringType.delimiter || '',
+      shiftType: stringType.shiftType || 'none',
+      terminator: stringType.terminator || 0,
+      greedyTerminator: stringType.greedy || false,
+      commands: {},
+      characterMap: stringType.characterMap || [],
+      layers: []
+    }
+  })
+  stringCommands.forEach(stringCommand => {
+    lookup[stringCommand.stringTypeId].commands[stringCommand.code] = {
+      key: stringCommand.code,
+      value: stringCommand.mnemonic,
+      types: stringCommand.types.map(type => type as MemberType) || [],
+      delimiter: stringCommand.delimiter || 0,
+      halt: stringCommand.halt || false,
+      set: stringCommand.stringTypeId
+    }
+  })
+  return result
+}
+
+/**
+ * Index string types by delimiter character, as required by the assembler
+ */
+function createStringCharLookup(stringTypes: Record<string, DbStringType>): Record<string, DbStringType> {
+  const result: Record<string, DbStringType> = {}
+  Object.values(stringTypes).forEach(stringType => {
+    if (stringType.delimiter) {
+      result[stringType.delimiter] = stringType
+    }
+  })
+  return result
+}
+
+function convertFilesToDbFormat(files: PrismaFile[]): DbFile[] {
+  // Convert Scribe files to DbFile format
+  return files.map(file => ({
+    name: file.name,
+    start: file.location,
+    end: file.location + file.size,
+    size: file.size,
+    type: file.type as BinType,
+    group: file.group || null,
+    scene: file.scene || null,
+    compressed: file.compressed || false,
+    upper: file.upper || false,
+    meta: file.meta || {}
+  }))
+}
+
+function convertBlocksToDbFormat(blocks: BuildBlock[]): DbBlock[] {
+  // Convert Scribe blocks to DbBlock format
+  return blocks.map(block => ({
+    id: block.id,
+    name: block.name,
+    movable: block.movable || false,
+    group: block.group || '',
+    scene: block.scene || '',
+    postProcess: block.postProcess || '',
+    meta: block.meta || {},
+    transforms: block.transforms.map(transform => ({
+      key: transform.regex,
+      value: transform.replacement
+    })),
+    parts: block.parts
+      .map((part: BlockPart) => ({
+        name: part.name,
+        start: part.location,
+        end: part.location + part.size,
+        size: part.size,
+        struct: part.type,
+        order: part.index || 0,
+        block: block.name
+      }))
+      .sort((a, b) => {
+        const orderA = a.order ?? 0;
+        const orderB = b.order ?? 0;
+        if (orderA !== orderB) return orderA - orderB;
+        return a.start - b.start;
+      })
+  })).sort((a, b) => a.parts[0].start - b.parts[0].start)
+}
+
+function convertOverridesToDbFormat(overrides: Override[]): Record<number, DbOverride> {
+  // Convert Scribe overrides to DbOverride format
+  const result: Record<number, any> = {}
+  overrides.forEach(override => {
+    if (override.location !== null) {
+      result[override.location] = {
+        location: override.location,
+        register: override.register || 'A', // Default register
+        value: override.value
+      }
+    }
+  })
+  return result
+}
+
+function convertLabelsToDbFormat(labels: Label[]): Record<number, string> {
+  const result: Record<number, string> = {}
+  labels.forEach(label => {
+    if (label.location !== null) {
+      result[label.location] = label.label
+    }
+  })
+  return result
+}
+
+function convertRewritesToDbFormat(rewrites: Rewrite[]): Record<number, number> {
+  const result: Record<number, number> = {}
+  rewrites.forEach(rewrite => {
+    if (rewrite.location !== null && rewrite.value !== null) {
+      result[rewrite.location] = rewrite.value
+    }
+  })
+  return result
+}
+
+function convertStructsToDbFormat(structs: Struct[]): Record<string, DbStruct> {
+  const result: Record<string, DbStruct> = {}
+  structs.forEach(struct => {
+    result[struct.name] = {
+      name: struct.name,
+      types: struct.types,
+      delimiter: struct.delimiter ?? undefined,
+      discriminator: struct.discriminator ?? undefined,
+      parent: struct.parent ?? undefined,
+    }
+  })
+  return result
+}
+
+function convertInstructionSetToDbFormat(addressingModes: AddressingMode[], instructionGroups: InstructionGroup[], instructionCodes: InstructionCode[]) {
+  const addrLookup: Record<string, any> = {};
+  const addrMap: Record<string, string> = {};
+  addressingModes.forEach(mode => {
+    addrLookup[mode.name] = {
+      size: mode.size,
+      shorthand: mode.code,
+      parseRegex: mode.pattern,
+      formatString: mode.format,
+    };
+    addrMap[mode.id] = mode.name;
+  });
+  const groupMap: Record<string, string> = {};
+  instructionGroups.forEach(group => {
+    groupMap[group.id] = group.name;
+  });
+  const codeLookup: Record<number, OpCode> = {};
+  const opLookup: Record<string, OpCode[]> = {};
+  instructionCodes.forEach(code => {
+    const opCode = new OpCode (
+      code.code,
+      groupMap[code.groupId],
+      addrMap[code.modeId],
+    );
+    codeLookup[code.code] = opCode;
+    if (!opLookup[opCode.mnem]) opLookup[opCode.mnem] = [];
+    opLookup[opCode.mnem].push(opCode);
+  });
+  return { addrLookup, codeLookup, opLookup };
+}
+
+/**
+ * Assemble the generated blocks and write every chunk into a new ROM image
+ *
+ * Rewrites are already applied by the BlockReader (pointers become label
+ * offsets), so they follow their targets when blocks are relocated here.
+ */
+async function buildRomImage(
+  root: DbRoot,
+  projectName: string,
+  chunkFiles: ChunkFile[],
+  asmFiles: ChunkFile[],
+  blockAddresses: Record<string, number>,
+  diagnostics: BuildDiagnostic[]
+): Promise<{ image: Uint8Array; usedSize: number } | null> {
+  // Re-assemble the generated text so parts carry final sizes, labels and bank requirements
+  let failed = false
+  for (const block of asmFiles) {
+    try {
+      if (!block.textData) {
+        throw new Error('No generated assembly to assemble')
+      }
+      const assembler = new Assembler(root, block.textData)
+      const { blocks, includes, reqBank } = assembler.parseAssembly()
+      block.parts = blocks
+      block.includes = includes
+      block.bank = reqBank ?? undefined
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      diagnostics.push({
+        severity: 'error',
+        message: `Failed to assemble: ${message}`,
+        blockId: block.id,
+        blockName: block.name,
+        address: block.id ? blockAddresses[block.id] : undefined,
+        line: getErrorLine(message)
+      })
+      failed = true
+    }
+  }
+  if (failed) {
+    return null
+  }
+
+  if (root.entryPoints.length === 0) {
+    diagnostics.push({
+      severity: 'warning',
+      message: 'No entry points are configured, so the interrupt vectors were not rewritten'
+    })
+  }
+
+  // Recompress compressed files and settle the final size of every binary chunk
+  for (const file of chunkFiles) {
+    if (file.parts) continue
+
+    if (file.compressed === true && file.rawData) {
+      const headerSize = file.type === BinType.Tilemap ? 2 : file.type === BinType.Meta17 ? 4 : 0
+      const compacted = root.compression.compact(file.rawData.subarray(headerSize))
+      const data = new Uint8Array(headerSize + compacted.length)
+      data.set(file.rawData.subarray(0, headerSize))
+      data.set(compacted, headerSize)
+
+      // The compacted stream carries its own length header, so write it verbatim
+      file.rawData = data
+      file.size = data.length
+      file.compressed = undefined
+    }
+
+    ChunkFileUtils.calculateSize(file)
+  }
+
+  // Lay out all chunks (movable blocks may change bank) and write them
+  const writer = new RomWriter(root.entryPoints, projectName, '')
+  await new RomProcessor(writer).repack(chunkFiles)
+
+  const usedSize = chunkFiles.reduce((max, file) => Math.max(max, file.location + (file.size || 0)), 0)
+  return { image: writer.outBuffer, usedSize }
+}
+
+/**
+ * Size the ROM image, restore the base ROM header and correct its checksum
+ */
+function finalizeRomImage(
+  romData: Uint8Array,
+  projectName: string,
+  { image, usedSize }: { image: Uint8Array; usedSize: number },
+  diagnostics: BuildDiagnostic[]
+): BuiltRom {
+  const baseHeader = parseRomHeader(romData.slice().buffer)
+  if (baseHeader.headerLocation < 0) {
+    throw new Error('Unable to locate the internal header in the base ROM')
+  }
+
+  // Keep the base ROM size unless the new layout no longer fits in it
+  let size = romData.length
+  if (usedSize > size) {
+    size = 0x20000
+    while (size < usedSize) size *= 2
+  }
+
+  const output = new Uint8Array(size)
+  output.set(image.subarray(0, Math.min(size, image.length)))
+
+  // Restore the title, map mode and other header fields (but not the vectors written by the layout)
+  const headerStart = Math.max(0, baseHeader.headerLocation - 0x10)
+  output.set(romData.subarray(headerStart, baseHeader.headerLocation + 0x20), headerStart)
+
+  if (size !== romData.length) {
+    output[baseHeader.headerLocation + 0x17] = Math.ceil(Math.log2(size / 1024))
+    diagnostics.push({
+      severity: 'info',
+      message: `The ROM image grew from ${romData.length / 1024} KB to ${size / 1024} KB to fit the new layout`
+    })
+  }
+
+  const checksum = writeRomChecksum(output, baseHeader.headerLocation)
+
+  return {
+    data: output,
+    fileName: `${sanitizeFileName(projectName, 'project')}.sfc`,
+    checksum
+  }
+}
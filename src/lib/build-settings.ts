@@ -0,0 +1,103 @@
+/**
+ * Project Build Settings
+ *
+ * Per-project configuration for the DbRoot used by builds, stored under
+ * `buildSettings` in ScribeProject.meta.
+ */
+
+import type { DbEntryPoint } from '@gaialabs/shared'
+import type { Vector } from '@prisma/client'
+import type { RomHeaderInfo } from './rom-parser'
+import { ASM_DIALECTS, type AsmDialect } from './asm-dialects'
+
+/**
+ * An interrupt or reset vector that should point at a labelled routine
+ */
+export interface BuildEntryPoint {
+  /** Label of the routine the vector points to */
+  name: string
+  /** CPU address of the vector, e.g. 0xFFEA for native NMI */
+  address: number
+}
+
+export interface BuildSettings {
+  /** Compression provider id from CompressionRegistry */
+  compression: string
+  sfxLocation: number
+  sfxCount: number
+  accentMap: string[]
+  /** Null until customised; the platform's entry point vectors are used instead */
+  entryPoints: BuildEntryPoint[] | null
+  /** Assembler syntax of the source tree export; builds and stored artifacts always use GaiaLabs syntax */
+  dialect: AsmDialect
+}
+
+export const DEFAULT_BUILD_SETTINGS: BuildSettings = {
+  compression: 'QuintetLZ',
+  sfxLocation: 0,
+  sfxCount: 0,
+  accentMap: [],
+  entryPoints: null,
+  dialect: 'gaia'
+}
+
+const META_KEY = 'buildSettings'
+
+/**
+ * Read build settings from project meta, filling in defaults
+ */
+export function getBuildSettings(meta: unknown): BuildSettings {
+  const stored = meta && typeof meta === 'object'
+    ? (meta as Record<string, unknown>)[META_KEY] as Partial<BuildSettings> | undefined
+    : undefined
+
+  return {
+    compression: stored?.compression || DEFAULT_BUILD_SETTINGS.compression,
+    sfxLocation: stored?.sfxLocation ?? DEFAULT_BUILD_SETTINGS.sfxLocation,
+    sfxCount: stored?.sfxCount ?? DEFAULT_BUILD_SETTINGS.sfxCount,
+    accentMap: Array.isArray(stored?.accentMap) ? stored.accentMap : DEFAULT_BUILD_SETTINGS.accentMap,
+    entryPoints: Array.isArray(stored?.entryPoints) ? stored.entryPoints : DEFAULT_BUILD_SETTINGS.entryPoints,
+    dialect: ASM_DIALECTS.some(x => x.id === stored?.dialect) ? stored?.dialect as AsmDialect : DEFAULT_BUILD_SETTINGS.dialect
+  }
+}
+
+/**
+ * Return a copy of project meta with the build settings replaced
+ */
+export function withBuildSettings(meta: unknown, settings: BuildSettings): Record<string, unknown> {
+  const base = meta && typeof meta === 'object' && !Array.isArray(meta) ? meta as Record<string, unknown> : {}
+  return { ...base, [META_KEY]: settings }
+}
+
+/**
+ * Default entry points from the platform vectors marked as entry points
+ */
+export function getDefaultEntryPoints(vectors: Vector[]): BuildEntryPoint[] {
+  return vectors
+    .filter(vector => vector.isEntryPoint)
+    .sort((a, b) => a.address - b.address)
+    .map(vector => ({ name: vector.name, address: vector.address }))
+}
+
+/**
+ * Convert entry point vector addresses to ROM file offsets for the ROM's map mode
+ */
+export function toDbEntryPoints(entryPoints: BuildEntryPoint[], mapMode: RomHeaderInfo['mapMode']): DbEntryPoint[] {
+  return entryPoints.map(entryPoint => {
+    // Vectors live in bank $00
+    const address = entryPoint.address & 0xFFFF
+    let location: number
+    switch (mapMode) {
+      case 'HiROM':
+        location = address
+        break
+      case 'ExHiROM':
+        location = 0x400000 + address
+        break
+      default:
+        location = address & 0x7FFF
+        break
+    }
+    return { name: entryPoint.name, location }
+  })
+}
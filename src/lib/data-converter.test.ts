@@ -0,0 +1,190 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { ScribeProject } from '@prisma/client'
+import {
+  convertExternalToInternal,
+  convertInternalToExternal,
+  type CompleteGameRomData,
+  type InternalProjectData,
+  type ProjectRecordSet
+} from './data-converter'
+
+const timestamp = '2025-01-01T00:00:00.000Z'
+
+const platform = { id: 'ext-platform', name: 'SNES', meta: null, createdAt: timestamp, updatedAt: timestamp }
+const region = { id: 'ext-region', name: 'US', meta: null, platformId: platform.id, createdAt: timestamp, updatedAt: timestamp }
+const game = { id: 'ext-game', name: 'Illusion of Gaia', createdAt: timestamp, updatedAt: timestamp }
+const gameRom = { id: 'ext-rom', crc: 0x1C3848C0, meta: null, gameId: game.id, regionId: region.id, createdAt: timestamp, updatedAt: timestamp, game, region }
+const platformBranch = {
+  id: 'ext-platform-branch',
+  name: 'main',
+  version: 1,
+  platformId: platform.id,
+  addressingModes: null,
+  instructionSet: null,
+  vectors: null,
+  types: null,
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  platform
+}
+
+// A branch in the shape the GaiaLabs API returns, covering every section
+const source: CompleteGameRomData = {
+  gameRomBranch: {
+    id: 'ext-branch',
+    name: 'main',
+    version: 3,
+    gameRomId: gameRom.id,
+    platformBranchId: platformBranch.id,
+    coplib: {
+      '00': { code: 0x00, parts: ['Address'] },
+      'FF': { code: 0xFF, parts: [], halt: true }
+    },
+    config: { compression: 'QuintetLZ' },
+    files: {
+      'title_gfx': { location: 0x1C0000, size: 0x2000, type: 'Graphics', compressed: true },
+      'title_pal': { location: 0x1C2000, size: 0x200, type: 'Palette', group: 'title', scene: 'title_screen' },
+      'font_gfx': { location: 0x1D0000, size: 0x1000, type: 'Graphics', upper: true }
+    },
+    blocks: {
+      'intro_main': {
+        movable: true,
+        group: 'intro',
+        transforms: [{ regex: 'intro_(\\w+)', replacement: 'title_$1' }],
+        parts: {
+          'intro_code': { location: 0x028000, size: 0x120, type: 'Code', order: 0 },
+          'intro_text': { location: 0x028120, size: 0x40, type: 'String', order: 1 }
+        }
+      },
+      'menu_tables': {
+        scene: 'menu',
+        parts: {
+          'menu_ptrs': { location: 0x030000, size: 0x10, type: 'Offset', order: 0 }
+        }
+      }
+    },
+    fixups: {
+      labels: [{ label: 'intro_entry', location: 0x028000 }, { label: 'menu_entry', location: 0x030000 }],
+      mnemonics: { 'joypad': 0x065A, 'player_x': 0x0AA2 },
+      mnemonicMeta: { 'player_x': { note: 'Player X position' } },
+      overrides: [{ value: 0x20, location: 0x028010, register: 'M' }],
+      rewrites: [{ value: 0x9000, location: 0x028040 }]
+    },
+    strings: {
+      'ASCIIString': {
+        delimiter: '`',
+        terminator: 0xCA,
+        characterMap: ['A', 'B', 'C'],
+        layers: [],
+        meta: { font: 'dialog' },
+        commands: {
+          'END': { code: 0xC0, halt: true, types: [], parts: [] },
+          'PAL': { code: 0xC1, types: ['Byte'], parts: ['palette'] },
+          'RAW': { code: 0xC4, types: ['Binary'], parts: [], delimiter: 0xFF }
+        }
+      },
+      'MenuString': {
+        delimiter: '~',
+        shiftType: 'h2',
+        terminator: 0xCA,
+        greedyTerminator: true,
+        characterMap: ['0', '1'],
+        layers: [{ base: 0x80, map: ['a', 'b'] }],
+        commands: {
+          'NL': { code: 0xCB, types: [], parts: [] }
+        }
+      }
+    },
+    structs: {
+      'SpriteFrame': { types: ['Byte', 'Word'], parts: ['tile', 'attr'], delimiter: 0xFF, meta: { sprite: { tileField: 'tile', attrField: 'attr' } } },
+      'SpriteGroup': { types: ['Offset'], parts: ['frames'], parent: 'SpriteFrame' }
+    },
+    gameRom,
+    platformBranch,
+    createdAt: timestamp,
+    updatedAt: timestamp
+  },
+  platformBranch,
+  platform,
+  gameRom,
+  game,
+  region
+}
+
+/**
+ * Store imported data the way the importer does: give every record an id and
+ * link transforms and parts to their block
+ */
+function persist(data: InternalProjectData): { project: ScribeProject; records: ProjectRecordSet } {
+  let nextId = 0
+  const audit = { createdAt: new Date(timestamp), updatedAt: null, deletedAt: null, createdBy: 'user', updatedBy: null, deletedBy: null }
+  const project = { ...data.project, ...audit } as ScribeProject
+  const owned = <T extends object>(items: T[]) => items.map(item => ({ ...item, id: `id-${nextId++}`, projectId: project.id, ...audit }))
+
+  const blocks = owned(data.blocks)
+  const blockId = (block: unknown) => blocks[data.blocks.indexOf(block as any)].id
+  const linked = <T extends { block?: unknown }>(items: T[]) =>
+    items.map(({ block, ...item }) => ({ ...item, id: `id-${nextId++}`, blockId: blockId(block), ...audit }))
+
+  const records = {
+    cops: owned(data.cops),
+    files: owned(data.files),
+    blocks,
+    blockTransforms: linked(data.blockTransforms as any[]),
+    blockParts: linked(data.blockParts as any[]),
+    labels: owned(data.labels),
+    mnemonics: owned(data.mnemonics),
+    overrides: owned(data.overrides),
+    rewrites: owned(data.rewrites),
+    stringTypes: data.stringTypes.map(stringType => ({ ...stringType, projectId: project.id, ...audit })),
+    stringCommands: data.stringCommands.map(command => ({ ...command, id: `id-${nextId++}`, ...audit })),
+    structs: owned(data.structs)
+  } as unknown as ProjectRecordSet
+
+  return { project, records }
+}
+
+/**
+ * Records with generated ids replaced by the names they point at
+ */
+function comparable(data: InternalProjectData) {
+  const typeNames = new Map(data.stringTypes.map(stringType => [stringType.id, stringType.name]))
+  const byBlockName = (items: any[]) => items.map(({ block, ...item }) => ({ ...item, block: block.name }))
+  const { importedAt: _importedAt, ...meta } = data.project.meta as Record<string, unknown>
+
+  return {
+    ...data,
+    project: { ...data.project, id: undefined, meta },
+    blockTransforms: byBlockName(data.blockTransforms),
+    blockParts: byBlockName(data.blockParts),
+    stringTypes: data.stringTypes.map(stringType => ({ ...stringType, id: undefined })),
+    stringCommands: data.stringCommands.map(command => ({ ...command, stringTypeId: typeNames.get(command.stringTypeId) }))
+  }
+}
+
+describe('convertInternalToExternal', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  it('re-imports to the same records', () => {
+    const imported = convertExternalToInternal(source, 'user', 'Gaia', 'platform', 'branch')
+    const { project, records } = persist(imported)
+
+    const exported = convertInternalToExternal(project, records)
+    const reimported = convertExternalToInternal(exported, 'user', 'Gaia', 'platform', 'branch')
+
+    expect(comparable(reimported)).toEqual(comparable(imported))
+  })
+
+  it('keeps compressed files, string commands, block parts and record meta', () => {
+    const { project, records } = persist(convertExternalToInternal(source, 'user', 'Gaia', 'platform', 'branch'))
+    const { gameRomBranch } = convertInternalToExternal(project, records)
+
+    expect(gameRomBranch.files['title_gfx']).toEqual({ location: 0x1C0000, size: 0x2000, type: 'Graphics', compressed: true })
+    expect(gameRomBranch.strings['ASCIIString'].commands).toEqual(source.gameRomBranch.strings['ASCIIString'].commands)
+    expect(gameRomBranch.blocks['intro_main'].parts).toEqual(source.gameRomBranch.blocks['intro_main'].parts)
+    expect(gameRomBranch.blocks['intro_main'].transforms).toEqual(source.gameRomBranch.blocks['intro_main'].transforms)
+    expect(gameRomBranch.structs['SpriteFrame'].meta).toEqual({ sprite: { tileField: 'tile', attrField: 'attr' } })
+    expect(gameRomBranch.fixups.mnemonicMeta).toEqual({ 'player_x': { note: 'Player X position' } })
+    expect(gameRomBranch.strings['ASCIIString'].meta).toEqual({ font: 'dialog' })
+  })
+})
@@ -52,6 +52,36 @@ export interface CompleteGameRomData {
   region: RegionData
 }
 
+/**
+ * Project sections in the shape GaiaLabs stores them, whether they come from
+ * a GameRomBranch or from a local bundle
+ */
+export interface ProjectBundle {
+  coplib?: unknown
+  config?: unknown
+  files?: unknown
+  blocks?: unknown
+  fixups?: unknown
+  strings?: unknown
+  structs?: unknown
+}
+
+export const PROJECT_BUNDLE_SECTIONS = ['coplib', 'config', 'files', 'blocks', 'fixups', 'strings', 'structs'] as const
+
+/**
+ * Assemble the complete data structure from a GameRomBranch fetched with its relations
+ */
+export function toCompleteGameRomData(gameRomBranch: GameRomBranchData): CompleteGameRomData {
+  return {
+    gameRomBranch,
+    platformBranch: gameRomBranch.platformBranch,
+    platform: gameRomBranch.platformBranch.platform,
+    gameRom: gameRomBranch.gameRom,
+    game: gameRomBranch.gameRom.game,
+    region: gameRomBranch.gameRom.region
+  }
+}
+
 /**
  * Internal database creation data structure
  * Note: projectId will be set after the project is created
@@ -139,36 +169,88 @@ export function convertExternalToInternal(
     // Audit fields will be set by the database/import process
   }
 
-  // Extract and convert nested data structures from GameRomBranch
-  console.log('Starting data extraction from GameRomBranch...')
-  console.log('GameRomBranch structure:', {
-    hasBlocks: !!gameRomBranch.blocks,
-    blocksType: typeof gameRomBranch.blocks,
-    blocksKeys: gameRomBranch.blocks ? Object.keys(gameRomBranch.blocks).length : 0,
-    allKeys: Object.keys(gameRomBranch),
-    hasFiles: !!gameRomBranch.files,
-    hasCoplib: !!gameRomBranch.coplib,
-    hasFixups: !!gameRomBranch.fixups,
-    hasStrings: !!gameRomBranch.strings,
-    hasStructs: !!gameRomBranch.structs
+  return {
+    project,
+    ...extractProjectRecords(gameRomBranch)
+  }
+}
+
+/**
+ * Convert a local project bundle to internal Prisma format
+ *
+ * @param bundle - Project sections loaded from a local JSON or ZIP bundle
+ * @param userId - ID of the user creating the project (for audit fields)
+ * @param projectName - Name for the new project
+ * @param platformId - Internal platform the project targets
+ * @param bundleName - File name of the bundle, kept for reference
+ * @returns Internal project data ready for database insertion
+ */
+export function convertBundleToInternal(
+  bundle: ProjectBundle,
+  _userId: string,
+  projectName: string,
+  platformId: string,
+  bundleName: string
+): InternalProjectData {
+  const project = {
+    id: createId(),
+    name: projectName,
+    isPublic: false,
+    gameRomBranchId: null,
+    platformId,
+
+    meta: {
+      // Configuration data
+      coplib: bundle.coplib ?? null,
+      config: bundle.config ?? null,
+
+      // Import metadata
+      bundleName,
+      importedAt: new Date().toISOString(),
+      importSource: 'local-bundle'
+    }
+  }
+
+  return {
+    project,
+    ...extractProjectRecords(bundle)
+  }
+}
+
+/**
+ * Convert the nested project sections to individual table records
+ */
+function extractProjectRecords(source: ProjectBundle): Omit<InternalProjectData, 'project'> {
+  // Extract and convert nested data structures
+  console.log('Starting project data extraction...')
+  console.log('Project data structure:', {
+    hasBlocks: !!source.blocks,
+    blocksType: typeof source.blocks,
+    blocksKeys: source.blocks ? Object.keys(source.blocks).length : 0,
+    allKeys: Object.keys(source),
+    hasFiles: !!source.files,
+    hasCoplib: !!source.coplib,
+    hasFixups: !!source.fixups,
+    hasStrings: !!source.strings,
+    hasStructs: !!source.structs
   })
 
   // Debug: Log the actual blocks data if it exists
-  if (gameRomBranch.blocks) {
-    console.log('Blocks data sample:', JSON.stringify(gameRomBranch.blocks, null, 2).substring(0, 500))
+  if (source.blocks) {
+    console.log('Blocks data sample:', JSON.stringify(source.blocks, null, 2).substring(0, 500))
   } else {
-    console.log('No blocks field found in GameRomBranch data')
+    console.log('No blocks field found in project data')
   }
 
-  const cops = extractCops(gameRomBranch.coplib)
-  const files = extractFiles(gameRomBranch.files)
-  const { blocks, blockTransforms, blockParts } = extractBlocks(gameRomBranch.blocks)
-  const labels = extractLabels(gameRomBranch.fixups) // Use fixups for labels
-  const mnemonics = extractMnemonics(gameRomBranch.fixups) // Use fixups for mnemonics
-  const overrides = extractOverrides(gameRomBranch.fixups) // Use fixups for overrides
-  const rewrites = extractRewrites(gameRomBranch.fixups) // Use fixups for rewrites
-  const { stringTypes, stringCommands } = extractStringTypes(gameRomBranch.strings)
-  const structs = extractStructs(gameRomBranch.structs) // Use types for structs
+  const cops = extractCops(source.coplib)
+  const files = extractFiles(source.files)
+  const { blocks, blockTransforms, blockParts } = extractBlocks(source.blocks)
+  const labels = extractLabels(source.fixups) // Use fixups for labels
+  const mnemonics = extractMnemonics(source.fixups) // Use fixups for mnemonics
+  const overrides = extractOverrides(source.fixups) // Use fixups for overrides
+  const rewrites = extractRewrites(source.fixups) // Use fixups for rewrites
+  const { stringTypes, stringCommands } = extractStringTypes(source.strings)
+  const structs = extractStructs(source.structs) // Use types for structs
 
   console.log('Data extraction summary:', {
     cops: cops.length,
@@ -186,7 +268,6 @@ export function convertExternalToInternal(
   })
 
   return {
-    project,
     cops,
     files,
     blocks,
@@ -364,7 +445,7 @@ function extractLabels(fixups: any): Omit<Label, 'id' | 'projectId' | 'createdAt
 
 /**
  * Extract mnemonic definitions from fixups.mnemonics JSON structure
- * Mnemonics structure: { "mnemonic": address }
+ * Mnemonics structure: { "mnemonic": address }, with any meta in fixups.mnemonicMeta: { "mnemonic": meta }
  */
 function extractMnemonics(fixups: any): Omit<GameMnemonic, 'id' | 'projectId' | 'createdAt' | 'updatedAt' | 'deletedAt'>[] {
   if (!fixups || typeof fixups !== 'object' || !fixups.mnemonics || typeof fixups.mnemonics !== 'object') return []
@@ -372,13 +453,14 @@ function extractMnemonics(fixups: any): Omit<GameMnemonic, 'id' | 'projectId' |
   const mnemonicRecords: Omit<GameMnemonic, 'id' | 'projectId' | 'createdAt' | 'updatedAt' | 'deletedAt'>[] = []
 
   // Process each mnemonic entry in the mnemonics object
+  const metas = fixups.mnemonicMeta && typeof fixups.mnemonicMeta === 'object' ? fixups.mnemonicMeta : {}
   Object.entries(fixups.mnemonics).forEach(([mnemonic, address]: [string, any]) => {
     if (typeof address !== 'number') return
 
     mnemonicRecords.push({
       address,
       mnemonic,
-      meta: null,
+      meta: metas[mnemonic] ?? null,
       createdBy: '', // Will be set by caller
       updatedBy: null,
       deletedBy: null
@@ -469,7 +551,7 @@ function extractStringTypes(strings: any): {
       terminator: stringData.terminator || null,
       greedy: stringData.greedyTerminator || false,
       characterMap: stringData.characterMap || [],
-      meta: { layers: stringData.layers || [] }
+      meta: { ...stringData.meta, layers: stringData.layers || [] }
     })
 
     // Create StringCommand records for each command
@@ -513,9 +595,290 @@ function extractStructs(structs: any): Omit<Struct, 'id' | 'projectId' | 'create
       discriminator: structData.discriminator ?? null,
       parent: structData.parent ?? null,
       parts: structData.parts ?? [],
-      meta: null
+      meta: structData.meta ?? null
     })
   })
 
   return structRecords
 }
+
+/**
+ * Records of an internal project, as loaded from the database
+ */
+export interface ProjectRecordSet {
+  cops: Cop[]
+  files: File[]
+  blocks: Block[]
+  blockTransforms: BlockTransform[]
+  blockParts: BlockPart[]
+  labels: Label[]
+  mnemonics: GameMnemonic[]
+  overrides: Override[]
+  rewrites: Rewrite[]
+  stringTypes: StringType[]
+  stringCommands: StringCommand[]
+  structs: Struct[]
+}
+
+/**
+ * Convert an internal project back to the external GameRomBranch format
+ *
+ * This is the inverse of convertExternalToInternal: feeding the result back
+ * through the importer reproduces the same records. Entries are sorted so the
+ * output is stable enough to keep under version control.
+ *
+ * @param project - Project to export
+ * @param records - All records belonging to the project
+ * @returns External data in the shape returned by the GaiaLabs API
+ */
+export function convertInternalToExternal(project: ScribeProject, records: ProjectRecordSet): CompleteGameRomData {
+  const meta = (project.meta && typeof project.meta === 'object' && !Array.isArray(project.meta)
+    ? project.meta
+    : {}) as Record<string, any>
+  const createdAt = new Date(project.createdAt).toISOString()
+  const updatedAt = new Date(project.updatedAt ?? project.createdAt).toISOString()
+
+  // Reference data recorded when the project was imported, with fallbacks for native projects
+  const platform: PlatformData = {
+    id: meta.externalPlatformId ?? project.platformId,
+    name: meta.platformName ?? '',
+    meta: meta.platformMeta ?? null,
+    createdAt,
+    updatedAt
+  }
+  const region: RegionData = {
+    id: meta.externalRegionId ?? '',
+    name: meta.regionName ?? '',
+    meta: meta.regionMeta ?? null,
+    platformId: platform.id,
+    createdAt,
+    updatedAt
+  }
+  const game: GameData = {
+    id: meta.externalGameId ?? '',
+    name: meta.gameName ?? project.name,
+    createdAt,
+    updatedAt
+  }
+  const gameRom: GameRomData = {
+    id: meta.externalGameRomId ?? '',
+    crc: meta.gameRomCrc ?? 0,
+    meta: meta.gameRomMeta ?? null,
+    gameId: game.id,
+    regionId: region.id,
+    createdAt,
+    updatedAt,
+    game,
+    region
+  }
+  const platformBranch: PlatformBranchData = {
+    id: meta.externalPlatformBranchId ?? '',
+    name: meta.platformBranchName ?? null,
+    version: meta.platformBranchVersion ?? null,
+    platformId: platform.id,
+    addressingModes: meta.addressingModes ?? null,
+    instructionSet: meta.instructionSet ?? null,
+    vectors: meta.vectors ?? null,
+    types: null,
+    createdAt,
+    updatedAt,
+    platform
+  }
+  const gameRomBranch: GameRomBranchData = {
+    id: meta.externalGameRomBranchId ?? project.gameRomBranchId ?? project.id,
+    name: meta.gameRomBranchName ?? project.name,
+    version: meta.gameRomBranchVersion ?? null,
+    gameRomId: gameRom.id,
+    platformBranchId: platformBranch.id,
+    coplib: buildCoplib(records.cops),
+    config: meta.config ?? null,
+    files: buildFiles(records.files),
+    blocks: buildBlocks(records.blocks, records.blockTransforms, records.blockParts),
+    fixups: buildFixups(records),
+    strings: buildStrings(records.stringTypes, records.stringCommands),
+    structs: buildStructs(records.structs),
+    gameRom,
+    platformBranch,
+    createdAt,
+    updatedAt
+  }
+
+  return { gameRomBranch, platformBranch, platform, gameRom, game, region }
+}
+
+/**
+ * Build the coplib JSON structure from COP records
+ * Coplib structure: { "mnemonic": { code, parts[], halt? } }
+ */
+function buildCoplib(cops: Cop[]): Record<string, any> {
+  const coplib: Record<string, any> = {}
+  for (const cop of [...cops].sort((a, b) => a.code - b.code || a.mnemonic.localeCompare(b.mnemonic))) {
+    coplib[cop.mnemonic] = {
+      code: cop.code,
+      parts: cop.parts,
+      ...(cop.halt ? { halt: true } : {})
+    }
+  }
+  return coplib
+}
+
+/**
+ * Build the files JSON structure from File records, leaving out unset columns
+ * Files structure: { "filename": { size, type, location, compressed?, group?, scene?, upper? } }
+ */
+function buildFiles(files: File[]): Record<string, any> {
+  const result: Record<string, any> = {}
+  for (const file of [...files].sort((a, b) => a.location - b.location || a.name.localeCompare(b.name))) {
+    result[file.name] = omitNulls({
+      location: file.location,
+      size: file.size,
+      type: file.type,
+      group: file.group,
+      scene: file.scene,
+      compressed: file.compressed,
+      upper: file.upper,
+      meta: file.meta
+    })
+  }
+  return result
+}
+
+/**
+ * Build the blocks JSON structure with each block's transforms and parts
+ */
+function buildBlocks(blocks: Block[], transforms: BlockTransform[], parts: BlockPart[]): Record<string, any> {
+  const transformsByBlock = groupBy(transforms, transform => transform.blockId)
+  const partsByBlock = groupBy(parts, part => part.blockId)
+  const firstLocation = (block: Block) =>
+    Math.min(...(partsByBlock.get(block.id) ?? []).map(part => part.location), Infinity)
+
+  const result: Record<string, any> = {}
+  const sorted = [...blocks].sort((a, b) => firstLocation(a) - firstLocation(b) || a.name.localeCompare(b.name))
+  for (const block of sorted) {
+    const blockParts: Record<string, any> = {}
+    for (const part of (partsByBlock.get(block.id) ?? []).sort((a, b) => (a.index ?? 0) - (b.index ?? 0) || a.location - b.location)) {
+      blockParts[part.name] = {
+        location: part.location,
+        size: part.size,
+        type: part.type,
+        order: part.index ?? 0
+      }
+    }
+
+    const blockTransforms = transformsByBlock.get(block.id)
+    result[block.name] = {
+      ...omitNulls({
+        movable: block.movable || null,
+        group: block.group,
+        scene: block.scene,
+        postProcess: block.postProcess,
+        meta: block.meta
+      }),
+      ...(blockTransforms
+        ? {
+            transforms: blockTransforms.map(transform => ({
+              regex: transform.regex,
+              replacement: transform.replacement
+            }))
+          }
+        : {}),
+      parts: blockParts
+    }
+  }
+  return result
+}
+
+/**
+ * Build the fixups JSON structure from labels, mnemonics, overrides and rewrites
+ */
+function buildFixups(records: ProjectRecordSet): Record<string, any> {
+  const mnemonics: Record<string, number> = {}
+  // Mnemonics map names straight to addresses, so their meta is kept alongside
+  const mnemonicMeta: Record<string, unknown> = {}
+  for (const mnemonic of [...records.mnemonics].sort((a, b) => a.address - b.address || a.mnemonic.localeCompare(b.mnemonic))) {
+    mnemonics[mnemonic.mnemonic] = mnemonic.address
+    if (mnemonic.meta !== null && mnemonic.meta !== undefined) mnemonicMeta[mnemonic.mnemonic] = mnemonic.meta
+  }
+
+  return {
+    labels: [...records.labels]
+      .sort((a, b) => a.location - b.location || a.label.localeCompare(b.label))
+      .map(label => ({ label: label.label, location: label.location })),
+    mnemonics,
+    overrides: [...records.overrides]
+      .sort((a, b) => a.location - b.location)
+      .map(override => ({ value: override.value, location: override.location, register: override.register })),
+    rewrites: [...records.rewrites]
+      .sort((a, b) => a.location - b.location)
+      .map(rewrite => ({ value: rewrite.value, location: rewrite.location })),
+    ...(Object.keys(mnemonicMeta).length > 0 ? { mnemonicMeta } : {})
+  }
+}
+
+/**
+ * Build the strings JSON structure with each string type's commands
+ */
+function buildStrings(stringTypes: StringType[], stringCommands: StringCommand[]): Record<string, any> {
+  const commandsByType = groupBy(stringCommands, command => command.stringTypeId)
+
+  const result: Record<string, any> = {}
+  for (const stringType of [...stringTypes].sort((a, b) => a.name.localeCompare(b.name))) {
+    const commands: Record<string, any> = {}
+    for (const command of (commandsByType.get(stringType.id) ?? []).sort((a, b) => a.code - b.code)) {
+      commands[command.mnemonic] = omitNulls({
+        code: command.code,
+        halt: command.halt || null,
+        types: command.types,
+        parts: command.parts,
+        delimiter: command.delimiter,
+        meta: command.meta
+      })
+    }
+
+    // Layers are a section of their own in GaiaLabs; the rest of meta is kept as is
+    const { layers, ...meta } = (stringType.meta ?? {}) as Record<string, any>
+    result[stringType.name] = omitNulls({
+      delimiter: stringType.delimiter,
+      shiftType: stringType.shiftType,
+      terminator: stringType.terminator,
+      greedyTerminator: stringType.greedy || null,
+      characterMap: stringType.characterMap,
+      layers: layers ?? [],
+      meta: Object.keys(meta).length > 0 ? meta : null,
+      commands
+    })
+  }
+  return result
+}
+
+/**
+ * Build the structs JSON structure from Struct records
+ */
+function buildStructs(structs: Struct[]): Record<string, any> {
+  const result: Record<string, any> = {}
+  for (const struct of [...structs].sort((a, b) => a.name.localeCompare(b.name))) {
+    result[struct.name] = omitNulls({
+      types: struct.types,
+      delimiter: struct.delimiter,
+      discriminator: struct.discriminator,
+      parent: struct.parent,
+      parts: struct.parts,
+      meta: struct.meta
+    })
+  }
+  return result
+}
+
+function omitNulls(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== null && value !== undefined))
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): Map<string, T[]> {
+  const groups = new Map<string, T[]>()
+  for (const item of items) {
+    const group = groups.get(key(item))
+    if (group) group.push(item)
+    else groups.set(key(item), [item])
+  }
+  return groups
+}
@@ -0,0 +1,40 @@
+/**
+ * Browser download helpers
+ *
+ * Wraps the object URL / anchor click dance used to hand generated files
+ * (ROM images, patches, archives) back to the user.
+ */
+
+/**
+ * Trigger a browser download for a Blob
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+/**
+ * Trigger a browser download for binary data
+ */
+export function downloadBytes(data: Uint8Array, fileName: string, mimeType: string = 'application/octet-stream'): void {
+  // Copy into a fresh ArrayBuffer to satisfy the BlobPart type requirements
+  const buffer = new ArrayBuffer(data.length)
+  new Uint8Array(buffer).set(data)
+  downloadBlob(new Blob([buffer], { type: mimeType }), fileName)
+}
+
+/**
+ * Make a string safe to use as a download file name
+ */
+export function sanitizeFileName(name: string, fallback: string = 'download'): string {
+  const cleaned = Array.from(name.trim())
+    .filter(ch => ch.charCodeAt(0) >= 0x20)
+    .join('')
+    .replace(/[<>:"/\\|?*]+/g, '_')
+    .replace(/\s+/g, '_')
+  return cleaned || fallback
+}
@@ -0,0 +1,74 @@
+/**
+ * External Format Export
+ *
+ * Serializes a project back into the GaiaLabs GameRomBranch JSON format so it
+ * can be kept in git and imported again as a local bundle.
+ */
+
+import type { ScribeProject } from '@prisma/client'
+import { db } from '../services/supabase'
+import { convertInternalToExternal, type CompleteGameRomData, type ProjectRecordSet } from './data-converter'
+import { sanitizeFileName } from './download-utils'
+
+export interface ExternalExportResult {
+  data: CompleteGameRomData
+  json: string
+  fileName: string
+}
+
+/**
+ * Load every record belonging to a project
+ */
+export async function loadProjectRecords(projectId: string): Promise<ProjectRecordSet> {
+  const [
+    cops, files, blocks, blockTransforms, blockParts, labels,
+    mnemonics, overrides, rewrites, stringTypes, stringCommands, structs
+  ] = await Promise.all([
+    db.cops.getByProject(projectId),
+    db.files.getByProject(projectId),
+    db.blocks.getByProject(projectId),
+    db.blockTransforms.getByProject(projectId),
+    db.blockParts.getByProject(projectId),
+    db.labels.getByProject(projectId),
+    db.mnemonics.getByProject(projectId),
+    db.overrides.getByProject(projectId),
+    db.rewrites.getByProject(projectId),
+    db.stringTypes.getByProject(projectId),
+    db.stringCommands.getByProject(projectId),
+    db.structs.getByProject(projectId)
+  ])
+
+  const results = { cops, files, blocks, blockTransforms, blockParts, labels, mnemonics, overrides, rewrites, stringTypes, stringCommands, structs }
+  for (const [name, result] of Object.entries(results)) {
+    if (result.error) throw new Error(`Failed to load ${name}: ${result.error.message}`)
+  }
+
+  return {
+    cops: cops.data || [],
+    files: files.data || [],
+    blocks: blocks.data || [],
+    blockTransforms: blockTransforms.data || [],
+    blockParts: blockParts.data || [],
+    labels: labels.data || [],
+    mnemonics: mnemonics.data || [],
+    overrides: overrides.data || [],
+    rewrites: rewrites.data || [],
+    stringTypes: stringTypes.data || [],
+    stringCommands: stringCommands.data || [],
+    structs: structs.data || []
+  }
+}
+
+/**
+ * Export a project as GaiaLabs external JSON
+ */
+export async function exportProjectAsExternal(project: ScribeProject): Promise<ExternalExportResult> {
+  const records = await loadProjectRecords(project.id)
+  const data = convertInternalToExternal(project, records)
+
+  return {
+    data,
+    json: `${JSON.stringify(data, null, 2)}\n`,
+    fileName: `${sanitizeFileName(project.name, 'project')}.json`
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Graphics Encoding Utilities
+ *
+ * The inverse of the graphics extractor: turns an edited image back into
+ * SNES tile data for a graphics file. Pixels are matched against the palette
+ * the graphic is drawn with, tiles are encoded in the file's format and the
+ * result is recompressed when the file is stored compressed.
+ */
+
+import { CompressionRegistry } from '@gaialabs/shared'
+import type { File as PrismaFile } from '@prisma/client'
+import { TILE_DECODERS, type GraphicsOptions } from './tile-decoders'
+
+/** Most unmatched pixels listed individually */
+const MAX_REPORTED_PIXELS = 100
+
+/**
+ * A pixel whose color is not in the palette
+ */
+export interface UnmatchedPixel {
+  x: number
+  y: number
+  /** Color in the image, as #RRGGBB */
+  color: string
+  /** Index the pixel was mapped to */
+  index: number
+}
+
+export interface GraphicsEncodeResult {
+  /** Encoded tile data, before compression */
+  raw: Uint8Array
+  /** Data to write at the file's location */
+  payload: Uint8Array
+  tileCount: number
+  /** First unmatched pixels, up to a limit */
+  unmatched: UnmatchedPixel[]
+  unmatchedCount: number
+  /** Bytes the payload exceeds the file's size by; 0 when it fits */
+  overflow: number
+  warnings: string[]
+}
+
+const toHex = (r: number, g: number, b: number) =>
+  `#${[r, g, b].map(v => v.toString(16).toUpperCase().padStart(2, '0')).join('')}`
+
+/**
+ * Decode a PNG (or any browser-supported image) to ImageData
+ */
+export async function loadImageData(blob: Blob): Promise<ImageData> {
+  const bitmap = await createImageBitmap(blob)
+  try {
+    const canvas = document.createElement('canvas')
+    canvas.width = bitmap.width
+    canvas.height = bitmap.height
+    const ctx = canvas.getContext('2d')
+    if (!ctx) throw new Error('Failed to get canvas context')
+
+    ctx.drawImage(bitmap, 0, 0)
+    return ctx.getImageData(0, 0, bitmap.width, bitmap.height)
+  } finally {
+    bitmap.close()
+  }
+}
+
+/**
+ * Build a color lookup for quantizing
+ *
+ * Palette colors are compared at BGR555 precision, since that is all the
+ * hardware stores. Without a palette the grayscale ramp used for display is
+ * matched exactly.
+ */
+function createColorMatcher(bitsPerPixel: number, paletteData?: Uint8Array) {
+  const maxIndex = (1 << bitsPerPixel) - 1
+  const colors: { index: number; r: number; g: number; b: number }[] = []
+  for (let index = 1; index <= maxIndex; index++) {
+    const offset = index << 2
+    if (paletteData && offset + 3 < paletteData.length) {
+      colors.push({ index, r: paletteData[offset], g: paletteData[offset + 1], b: paletteData[offset + 2] })
+    } else if (!paletteData) {
+      const gray = Math.round((index * 0xFF) / maxIndex)
+      colors.push({ index, r: gray, g: gray, b: gray })
+    }
+  }
+
+  const exact = new Map<number, number>()
+  const key = paletteData
+    ? (r: number, g: number, b: number) => ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+    : (r: number, g: number, b: number) => (r << 16) | (g << 8) | b
+  // Earlier indexes win when a palette repeats a color
+  for (let i = colors.length - 1; i >= 0; i--) {
+    const color = colors[i]
+    exact.set(key(color.r, color.g, color.b), color.index)
+  }
+
+  return (r: number, g: number, b: number): { index: number; exact: boolean } => {
+    const match = exact.get(key(r, g, b))
+    if (match !== undefined) return { index: match, exact: true }
+
+    // Nearest color by squared distance
+    let best = 0
+    let bestDistance = Infinity
+    for (const color of colors) {
+      const distance = (color.r - r) ** 2 + (color.g - g) ** 2 + (color.b - b) ** 2
+      if (distance < bestDistance) {
+        best = color.index
+        bestDistance = distance
+      }
+    }
+    return { index: best, exact: false }
+  }
+}
+
+/**
+ * Encode an image into tile data
+ *
+ * The image is read as tiles laid out left to right, as the graphics viewer
+ * exports them; its width sets the tiles per row. Transparent pixels become
+ * color 0, and colors missing from the palette are mapped to the nearest
+ * entry and reported.
+ *
+ * @param image - Edited image
+ * @param options - Tile format of the file
+ * @param tileCount - Number of tiles to encode, normally the tile count of the original data
+ * @param paletteData - Palette (or subpalette) the image was drawn with, 4 bytes RGBA per color
+ */
+export function encodeImageToTiles(
+  image: ImageData,
+  options: Pick<GraphicsOptions, 'format'>,
+  tileCount: number,
+  paletteData?: Uint8Array
+): Pick<GraphicsEncodeResult, 'raw' | 'tileCount' | 'unmatched' | 'unmatchedCount' | 'warnings'> {
+  if (image.width % 8 !== 0 || image.height % 8 !== 0) {
+    throw new Error(`Image size ${image.width} × ${image.height} is not a whole number of 8×8 tiles`)
+  }
+
+  const decoder = TILE_DECODERS[options.format]
+  const tilesX = image.width >> 3
+  const available = tilesX * (image.height >> 3)
+  const warnings: string[] = []
+  if (available < tileCount) {
+    warnings.push(`The image holds ${available} tiles but the file has ${tileCount}; the missing tiles are left blank`)
+  }
+
+  const match = createColorMatcher(decoder.bitsPerPixel, paletteData)
+  const raw = new Uint8Array(tileCount * decoder.bytesPerTile)
+  const indexes = new Uint8Array(64)
+  const unmatched: UnmatchedPixel[] = []
+  let unmatchedCount = 0
+  const pixels = image.data
+
+  for (let tile = 0; tile < Math.min(tileCount, available); tile++) {
+    const tileX = (tile % tilesX) << 3
+    const tileY = Math.floor(tile / tilesX) << 3
+
+    for (let row = 0; row < 8; row++) {
+      for (let col = 0; col < 8; col++) {
+        const x = tileX + col
+        const y = tileY + row
+        const offset = ((y * image.width) + x) << 2
+        const [r, g, b, a] = [pixels[offset], pixels[offset + 1], pixels[offset + 2], pixels[offset + 3]]
+
+        if (a < 0x80) {
+          // Transparent pixel
+          indexes[(row << 3) + col] = 0
+          continue
+        }
+
+        const result = match(r, g, b)
+        indexes[(row << 3) + col] = result.index
+        if (!result.exact) {
+          unmatchedCount++
+          if (unmatched.length < MAX_REPORTED_PIXELS) unmatched.push({ x, y, color: toHex(r, g, b), index: result.index })
+        }
+      }
+    }
+
+    decoder.encodeTile(indexes, raw, tile * decoder.bytesPerTile)
+  }
+
+  return { raw, tileCount, unmatched, unmatchedCount, warnings }
+}
+
+/**
+ * Encode an edited image into a replacement payload for a graphics file
+ *
+ * @param image - Edited image
+ * @param file - Graphics file being replaced
+ * @param options - Tile format of the file
+ * @param originalData - Current (decompressed) file data, which sets the tile count
+ * @param paletteData - Palette the image was drawn with
+ * @param compressionProvider - Compression used by compressed files
+ */
+export function encodeGraphicsFile(
+  image: ImageData,
+  file: PrismaFile,
+  options: Pick<GraphicsOptions, 'format'>,
+  originalData: Uint8Array,
+  paletteData?: Uint8Array,
+  compressionProvider: string = 'QuintetLZ'
+): GraphicsEncodeResult {
+  const decoder = TILE_DECODERS[options.format]
+  const tileCount = Math.ceil(originalData.length / decoder.bytesPerTile)
+  const encoded = encodeImageToTiles(image, options, tileCount, paletteData)
+
+  // Keep the original length when the data ends in a partial tile
+  const raw = encoded.raw.slice(0, originalData.length)
+
+  let payload: Uint8Array = raw
+  if (file.compressed) {
+    const compression = CompressionRegistry.get(compressionProvider)
+    if (!compression) {
+      throw new Error(`${compressionProvider} compression not available`)
+    }
+    payload = compression.compact(raw)
+  }
+
+  const warnings = [...encoded.warnings]
+  const overflow = Math.max(0, payload.length - file.size)
+  if (overflow > 0) {
+    warnings.push(`The payload is ${payload.length} bytes, ${overflow} more than the file's size of ${file.size} bytes`)
+  }
+
+  return { ...encoded, raw, payload, overflow, warnings }
+}
+
+/**
+ * Write a payload over a file's location in a copy of the ROM
+ *
+ * @throws When the payload does not fit in the file's size
+ */
+export function writeFilePayload(romData: Uint8Array, file: PrismaFile, payload: Uint8Array): Uint8Array {
+  if (payload.length > file.size) {
+    throw new Error(`The payload does not fit in ${file.name} (${payload.length} of ${file.size} bytes)`)
+  }
+  if (file.location + file.size > romData.length) {
+    throw new Error(`${file.name} extends beyond the end of the ROM`)
+  }
+
+  const patched = romData.slice()
+  patched.set(payload, file.location)
+  return patched
+}
@@ -2,11 +2,13 @@
  * Graphics Extraction and Conversion Utilities
  * 
  * Handles extraction of graphics files from ROM data and conversion
- * of SNES 4bpp tile graphics to canvas ImageData for display.
+ * of SNES tile graphics to canvas ImageData for display.
  */
 
 import { CompressionRegistry } from '@gaialabs/shared'
 import type { File as PrismaFile } from '@prisma/client'
+import { decodePaletteColors, type PaletteColor } from './palette-decoder'
+import { DEFAULT_GRAPHICS_OPTIONS, TILE_DECODERS, getGraphicsOptions, type GraphicsOptions } from './tile-decoders'
 
 /**
  * Extract file data from ROM
@@ -71,99 +73,63 @@ export async function extractFileData(
 }
 
 /**
- * Convert SNES 4bpp tile graphics to canvas ImageData
- * 
- * Based on the SNES graphics format:
- * - 4 bits per pixel (16 colors)
- * - Tiles are 8x8 pixels
- * - Data is organized in bitplanes
- * - Output is 128x256 pixels (16 tiles wide × 32 tiles tall)
- * 
- * @param vramData - Extracted VRAM/graphics data
- * @param useOffset - Whether to use offset 0x6000 instead of 0x4000
- * @param paletteData - Optional palette data (256 colors × 4 bytes RGBA)
+ * Convert SNES tile graphics to canvas ImageData
+ *
+ * Tiles are 8x8 pixels, decoded with the decoder for the chosen format and
+ * laid out left to right, `tilesPerRow` tiles per row. Color index 0 is
+ * transparent; indexes the palette does not cover are drawn in grayscale.
+ *
+ * @param data - Extracted graphics data
+ * @param options - Tile format and tiles per row
+ * @param paletteData - Optional palette data (4 bytes RGBA per color)
  * @returns ImageData object ready for canvas rendering
  */
-export function convertSnes4bppToImageData(
-  vramData: Uint8Array,
-  //useOffset: boolean = false,
+export function convertTilesToImageData(
+  data: Uint8Array,
+  options: GraphicsOptions = DEFAULT_GRAPHICS_OPTIONS,
   paletteData?: Uint8Array
 ): ImageData {
-  // Output dimensions depend on data length
-  // Each gfx page is 128*128 pixels, 4bpp == 8192 (0x2000) bytes
-  const width = 128
-  const height = (vramData.length >> 6)
+  const decoder = TILE_DECODERS[options.format]
+  const tilesX = Math.max(1, Math.floor(options.tilesPerRow))
+  const tileCount = Math.ceil(data.length / decoder.bytesPerTile)
+  const tilesY = Math.max(1, Math.ceil(tileCount / tilesX))
+
+  const width = tilesX << 3
+  const height = tilesY << 3
   const imageData = new ImageData(width, height)
   const pixels = imageData.data
-  const tilesX = 16
-  const tilesY = height >> 3
-
-  // VRAM offset
-  let vOffset = 0 // 0x4000 + (useOffset ? 0x2000 : 0)
-
-  // Temporary buffers
-  const indexBuffer = new Uint8Array(8)
-  const offsetBuffer = new Uint32Array(2)
-
-  // Process 32 rows of tiles
-  for (let ty = 0; ty < tilesY; ty++) {
-    // Process 16 columns of tiles
-    for (let tx = 0; tx < tilesX; tx++) {
-      // Set up bitplane offsets
-      offsetBuffer[0] = vOffset
-      offsetBuffer[1] = vOffset + 16
-      vOffset += 32
-
-      // Process 8 rows within the tile
-      for (let row = 0; row < 8; row++) {
-        // Clear index buffer
-        indexBuffer.fill(0)
-
-        // Rotate bits from samples (4 bitplanes)
-        for (let plane = 0, planeBit = 1; plane < 4; plane++, planeBit <<= 1) {
-          const offset = offsetBuffer[plane >> 1]
-          if (offset >= vramData.length) continue
-
-          const sample = vramData[offset]
-          offsetBuffer[plane >> 1]++
-
-          for (let i = 0, testBit = 0x80; i < 8; i++, testBit >>= 1) {
-            if ((sample & testBit) !== 0) {
-              indexBuffer[i] |= planeBit
-            }
-          }
-        }
 
-        // Calculate output offset for this row
-        const rowY = (ty << 3) + row
-        const rowX = tx << 3
-        let cOffset = ((rowY * width) + rowX) << 2
-
-        // Write pixels for this row
-        for (let col = 0; col < 8; col++) {
-          const cIndex = indexBuffer[col]
-
-          if (cIndex === 0) {
-            // Transparent pixel
-            pixels[cOffset++] = 0
-            pixels[cOffset++] = 0
-            pixels[cOffset++] = 0
-            pixels[cOffset++] = 0
-          } else if (paletteData && paletteData.length >= 256 * 4) {
-            // Use palette data
-            const zOffset = cIndex << 2
-            pixels[cOffset++] = paletteData[zOffset]
-            pixels[cOffset++] = paletteData[zOffset + 1]
-            pixels[cOffset++] = paletteData[zOffset + 2]
-            pixels[cOffset++] = 0xFF
-          } else {
-            // Grayscale fallback
-            const gray = cIndex << 4
-            pixels[cOffset++] = gray
-            pixels[cOffset++] = gray
-            pixels[cOffset++] = gray
-            pixels[cOffset++] = 0xFF
-          }
+  const maxIndex = (1 << decoder.bitsPerPixel) - 1
+  const indexBuffer = new Uint8Array(64)
+
+  for (let tile = 0; tile < tileCount; tile++) {
+    decoder.decodeTile(data, tile * decoder.bytesPerTile, indexBuffer)
+
+    const rowX = (tile % tilesX) << 3
+    const rowY = Math.floor(tile / tilesX) << 3
+
+    for (let row = 0; row < 8; row++) {
+      let cOffset = (((rowY + row) * width) + rowX) << 2
+
+      for (let col = 0; col < 8; col++) {
+        const cIndex = indexBuffer[(row << 3) + col]
+
+        if (cIndex === 0) {
+          // Transparent pixel
+          cOffset += 4
+        } else if (paletteData && (cIndex << 2) + 3 < paletteData.length) {
+          const zOffset = cIndex << 2
+          pixels[cOffset++] = paletteData[zOffset]
+          pixels[cOffset++] = paletteData[zOffset + 1]
+          pixels[cOffset++] = paletteData[zOffset + 2]
+          pixels[cOffset++] = 0xFF
+        } else {
+          // Grayscale fallback
+          const gray = Math.round((cIndex * 0xFF) / maxIndex)
+          pixels[cOffset++] = gray
+          pixels[cOffset++] = gray
+          pixels[cOffset++] = gray
+          pixels[cOffset++] = 0xFF
         }
       }
     }
@@ -172,6 +138,20 @@ export function convertSnes4bppToImageData(
   return imageData
 }
 
+/**
+ * Convert SNES 4bpp tile graphics to canvas ImageData, 16 tiles wide
+ *
+ * @param vramData - Extracted VRAM/graphics data
+ * @param paletteData - Optional palette data (4 bytes RGBA per color)
+ * @returns ImageData object ready for canvas rendering
+ */
+export function convertSnes4bppToImageData(
+  vramData: Uint8Array,
+  paletteData?: Uint8Array
+): ImageData {
+  return convertTilesToImageData(vramData, { format: '4bpp', tilesPerRow: 16 }, paletteData)
+}
+
 /**
  * Extract and convert graphics file to ImageData
  * 
@@ -179,20 +159,82 @@ export function convertSnes4bppToImageData(
  * 
  * @param romData - Complete ROM data
  * @param file - Graphics file record
- * @param useOffset - Whether to use offset 0x6000 instead of 0x4000
+ * @param options - Tile format and layout; defaults to the file's stored settings
  * @returns ImageData ready for canvas rendering
  */
 export async function extractAndConvertGraphics(
   romData: Uint8Array,
   file: PrismaFile,
-  //useOffset: boolean = false
+  options: GraphicsOptions = getGraphicsOptions(file.meta)
 ): Promise<ImageData> {
   // Extract file data
   const fileData = await extractFileData(romData, file, 'QuintetLZ')
 
   // Convert to ImageData
-  const imageData = convertSnes4bppToImageData(fileData) //useOffset)
+  const imageData = convertTilesToImageData(fileData, options)
 
   return imageData
 }
 
+/**
+ * Extract a palette file and decode its BGR555 colors
+ *
+ * @param romData - Complete ROM data
+ * @param file - Palette file record
+ * @returns Decoded colors in palette order
+ */
+export async function extractPaletteColors(
+  romData: Uint8Array,
+  file: PrismaFile
+): Promise<PaletteColor[]> {
+  const fileData = await extractFileData(romData, file, 'QuintetLZ')
+  return decodePaletteColors(fileData)
+}
+
+/**
+ * Tilemap file contents: a two-byte header followed by the map entries
+ */
+export interface TilemapFileData {
+  header: Uint8Array
+  data: Uint8Array
+}
+
+/**
+ * Extract a tilemap file from ROM
+ *
+ * Tilemaps start with a two-byte header that is never compressed; the
+ * entries after it are expanded if the file is compressed. Files stored
+ * uncompressed in a compressible slot (`compressed === false`) carry a
+ * length word after the header, which is skipped.
+ *
+ * @param romData - Complete ROM data
+ * @param file - Tilemap file record
+ * @param compressionProvider - Compression used by compressed files
+ */
+export async function extractTilemapFile(
+  romData: Uint8Array,
+  file: PrismaFile,
+  compressionProvider: string = 'QuintetLZ'
+): Promise<TilemapFileData> {
+  const header = romData.slice(file.location, file.location + 2)
+  const start = file.location + 2
+  const length = Math.max(0, file.size - 2)
+
+  if (file.compressed === true) {
+    const compression = CompressionRegistry.get(compressionProvider)
+    if (!compression) {
+      throw new Error(`${compressionProvider} compression not available`)
+    }
+
+    try {
+      return { header, data: compression.expand(romData, start, length) }
+    } catch (error) {
+      throw new Error(
+        `Failed to decompress tilemap: ${error instanceof Error ? error.message : 'Unknown error'}`
+      )
+    }
+  }
+
+  const skip = file.compressed === false ? 2 : 0
+  return { header, data: romData.slice(start + skip, start + length) }
+}
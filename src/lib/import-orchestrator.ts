@@ -6,20 +6,28 @@
  * 2. Transform data to internal format
  * 3. Validate transformed data
  * 4. Create internal database records
- * 5. Handle errors and provide feedback
+ * 5. Handle errors, rolling back partially created records, and provide feedback
  */
 
 import { createId } from '@paralleldrive/cuid2'
 import { createWorkingClient } from './supabase'
 import { db } from '../services/supabase'
-import { convertExternalToInternal, InternalProjectData, type CompleteGameRomData } from './data-converter'
-import { validateProjectData } from './project-importer'
+import { convertBundleToInternal, convertExternalToInternal, toCompleteGameRomData, InternalProjectData, type ProjectBundle } from './data-converter'
+import { getProjectDataWarnings, validateProjectData } from './project-importer'
 
 /**
  * Progress callback for import operations
  */
 export type ImportProgressCallback = (step: string, progress: number, total: number) => void
 
+/**
+ * Options for import operations
+ */
+export interface ImportOptions {
+  /** Convert and validate only, reporting what would be created without writing anything */
+  dryRun?: boolean
+}
+
 /**
  * Test function to verify Block conversion is working
  */
@@ -79,6 +87,14 @@ export interface ImportServiceResult {
   projectName?: string
   error?: string
   validationErrors?: string[]
+  /** True when a failed import's partially created records were soft-deleted */
+  rolledBack?: boolean
+  /** Tables that could not be cleaned up while rolling back */
+  rollbackErrors?: string[]
+  /** True when nothing was written and importDetails holds the records that would be created */
+  dryRun?: boolean
+  /** Suspicious data that doesn't block the import */
+  warnings?: string[]
   importDetails?: {
     projectCreated: boolean
     copsCreated: number
@@ -96,6 +112,27 @@ export interface ImportServiceResult {
   }
 }
 
+/**
+ * Count the records an import of the given data would create
+ */
+function countProjectRecords(internalData: InternalProjectData): NonNullable<ImportServiceResult['importDetails']> {
+  return {
+    projectCreated: false,
+    copsCreated: internalData.cops.length,
+    filesCreated: internalData.files.length,
+    blocksCreated: internalData.blocks.length,
+    blockTransformsCreated: internalData.blockTransforms.length,
+    blockPartsCreated: internalData.blockParts.length,
+    labelsCreated: internalData.labels.length,
+    mnemonicsCreated: internalData.mnemonics.length,
+    overridesCreated: internalData.overrides.length,
+    rewritesCreated: internalData.rewrites.length,
+    stringTypesCreated: internalData.stringTypes.length,
+    stringCommandsCreated: internalData.stringCommands.length,
+    structsCreated: internalData.structs.length
+  }
+}
+
 /**
  * Main orchestration service for importing external projects
  */
@@ -111,6 +148,7 @@ export class ImportOrchestrator {
    * @param userId - ID of the user performing the import
    * @param projectName - Name for the new project
    * @param onProgress - Optional progress callback
+   * @param options - Import options, e.g. dry run
    * @returns Promise<ImportServiceResult>
    */
   async importExternalGameRomBranch(
@@ -118,7 +156,8 @@ export class ImportOrchestrator {
     userId: string,
     projectName: string,
     platformId: string,
-    onProgress?: ImportProgressCallback
+    onProgress?: ImportProgressCallback,
+    options: ImportOptions = {}
   ): Promise<ImportServiceResult> {
     try {
       onProgress?.('Fetching external GameRomBranch data...', 1, 6)
@@ -135,14 +174,7 @@ export class ImportOrchestrator {
       }
 
       // Create the complete data structure
-      const externalData: CompleteGameRomData = {
-        gameRomBranch: gameRomBranchData,
-        platformBranch: gameRomBranchData.platformBranch,
-        platform: gameRomBranchData.platformBranch.platform,
-        gameRom: gameRomBranchData.gameRom,
-        game: gameRomBranchData.gameRom.game,
-        region: gameRomBranchData.gameRom.region
-      }
+      const externalData = toCompleteGameRomData(gameRomBranchData)
 
       onProgress?.('Transforming data to internal format...', 2, 6)
 
@@ -150,63 +182,152 @@ export class ImportOrchestrator {
       console.log('Converting external data to internal format...')
       const internalData = convertExternalToInternal(externalData, userId, projectName, platformId, gameRomBranchId)
       
-      onProgress?.('Validating transformed data...', 3, 6)
-      
-      // Step 3: Validate transformed data
-      console.log('Validating transformed data...')
-      const validationErrors = validateProjectData(internalData)
-      
-      if (validationErrors.length > 0) {
-        return {
-          success: false,
-          error: 'Data validation failed',
-          validationErrors
-        }
+      return await this.validateAndImport(internalData, userId, onProgress, 3, 6, options)
+
+    } catch (error) {
+      console.error('Import orchestration failed:', error)
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred during import'
       }
-      
-      onProgress?.('Checking for existing project...', 4, 6)
+    }
+  }
+
+  /**
+   * Import a complete project from a local bundle
+   *
+   * Works entirely from the bundle contents, so no access to the external
+   * database is needed.
+   *
+   * @param bundle - Project sections parsed from a local JSON or ZIP file
+   * @param bundleName - File name of the bundle
+   * @param userId - ID of the user performing the import
+   * @param projectName - Name for the new project
+   * @param platformId - Internal platform the project targets
+   * @param onProgress - Optional progress callback
+   * @param options - Import options, e.g. dry run
+   * @returns Promise<ImportServiceResult>
+   */
+  async importLocalBundle(
+    bundle: ProjectBundle,
+    bundleName: string,
+    userId: string,
+    projectName: string,
+    platformId: string,
+    onProgress?: ImportProgressCallback,
+    options: ImportOptions = {}
+  ): Promise<ImportServiceResult> {
+    try {
+      onProgress?.('Transforming bundle to internal format...', 1, 5)
 
-      // Step 4: Check if project with same name already exists
-      const { data: existingProject } = await db.projects.getByName(internalData.project.name)
+      console.log('Converting local bundle to internal format:', bundleName)
+      const internalData = convertBundleToInternal(bundle, userId, projectName, platformId, bundleName)
 
-      if (existingProject && existingProject.length > 0) {
-        return {
-          success: false,
-          error: `A project with the name "${internalData.project.name}" already exists`
-        }
+      return await this.validateAndImport(internalData, userId, onProgress, 2, 5, options)
+
+    } catch (error) {
+      console.error('Bundle import failed:', error)
+
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred during import'
       }
+    }
+  }
 
-      onProgress?.('Creating internal database records...', 5, 6)
+  /**
+   * Validate converted data, check the name is free and create the records
+   *
+   * @param internalData - Transformed project data
+   * @param userId - User ID performing the import
+   * @param onProgress - Optional progress callback
+   * @param step - Progress step at which validation starts
+   * @param total - Total progress steps of the calling import
+   * @param options - Import options, e.g. dry run
+   * @returns Promise<ImportServiceResult>
+   */
+  private async validateAndImport(
+    internalData: InternalProjectData,
+    userId: string,
+    onProgress: ImportProgressCallback | undefined,
+    step: number,
+    total: number,
+    options: ImportOptions
+  ): Promise<ImportServiceResult> {
+    onProgress?.('Validating transformed data...', step, total)
 
-      // Step 5: Import data into internal database using Supabase
-      console.log('Importing data into internal database...')
-      const importResult = await this.importProjectWithSupabase(internalData, userId)
+    // Validate transformed data
+    console.log('Validating transformed data...')
+    const validationErrors = validateProjectData(internalData)
+    const warnings = getProjectDataWarnings(internalData)
 
-      if (!importResult.success) {
-        return {
-          success: false,
-          error: importResult.error,
-          importDetails: importResult.importDetails
-        }
+    // A dry run reports every problem at once instead of stopping at the first
+    if (validationErrors.length > 0 && !options.dryRun) {
+      return {
+        success: false,
+        error: 'Data validation failed',
+        validationErrors,
+        warnings
       }
-      
-      onProgress?.('Import completed successfully!', 6, 6)
-      
+    }
+
+    onProgress?.('Checking for existing project...', step + 1, total)
+
+    // Check if project with same name already exists
+    const { data: existingProject } = await db.projects.getByName(internalData.project.name)
+    const nameError = existingProject && existingProject.length > 0
+      ? `A project with the name "${internalData.project.name}" already exists`
+      : undefined
+
+    if (options.dryRun) {
+      onProgress?.('Dry run completed', total, total)
+
       return {
-        success: true,
-        projectId: importResult.projectId,
+        success: validationErrors.length === 0 && !nameError,
+        dryRun: true,
         projectName: internalData.project.name,
-        importDetails: importResult.importDetails
+        error: nameError ?? (validationErrors.length > 0 ? 'Data validation failed' : undefined),
+        validationErrors,
+        warnings,
+        importDetails: countProjectRecords(internalData)
+      }
+    }
+
+    if (nameError) {
+      return {
+        success: false,
+        error: nameError,
+        warnings
       }
+    }
 
-    } catch (error) {
-      console.error('Import orchestration failed:', error)
+    onProgress?.('Creating internal database records...', step + 2, total)
+
+    // Import data into internal database using Supabase
+    console.log('Importing data into internal database...')
+    const importResult = await this.importProjectWithSupabase(internalData, userId)
 
+    if (!importResult.success) {
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Unknown error occurred during import'
+        error: importResult.error,
+        rolledBack: importResult.rolledBack,
+        rollbackErrors: importResult.rollbackErrors,
+        warnings,
+        importDetails: importResult.importDetails
       }
     }
+
+    onProgress?.('Import completed successfully!', step + 3, total)
+
+    return {
+      success: true,
+      projectId: importResult.projectId,
+      projectName: internalData.project.name,
+      warnings,
+      importDetails: importResult.importDetails
+    }
   }
 
   /**
@@ -220,6 +341,8 @@ export class ImportOrchestrator {
     internalData: InternalProjectData,
     userId: string
   ): Promise<ImportServiceResult> {
+    let createdProjectId: string | null = null
+
     try {
       console.log('Creating ScribeProject record with Supabase...')
 
@@ -233,6 +356,7 @@ export class ImportOrchestrator {
         throw new Error(`Failed to create project: ${createError?.message || 'Unknown error'}`)
       }
 
+      createdProjectId = newProject.id
       console.log(`Created project: ${newProject.id} - ${newProject.name}`)
 
       // Now insert all the extracted data records
@@ -267,11 +391,11 @@ export class ImportOrchestrator {
           .insert(filesToInsert)
 
         if (filesError) {
-          console.error('Failed to insert files:', filesError)
-        } else {
-          importDetails.filesCreated = filesToInsert.length
-          console.log(`Successfully inserted ${filesToInsert.length} files`)
+          throw new Error(`Failed to insert files: ${filesError.message}`)
         }
+
+        importDetails.filesCreated = filesToInsert.length
+        console.log(`Successfully inserted ${filesToInsert.length} files`)
       }
 
       // Insert COPs
@@ -289,11 +413,11 @@ export class ImportOrchestrator {
           .insert(copsToInsert)
 
         if (copsError) {
-          console.error('Failed to insert COPs:', copsError)
-        } else {
-          importDetails.copsCreated = copsToInsert.length
-          console.log(`Successfully inserted ${copsToInsert.length} COPs`)
+          throw new Error(`Failed to insert COPs: ${copsError.message}`)
         }
+
+        importDetails.copsCreated = copsToInsert.length
+        console.log(`Successfully inserted ${copsToInsert.length} COPs`)
       }
 
       // First, insert Block records
@@ -426,11 +550,11 @@ export class ImportOrchestrator {
           .insert(labelsToInsert)
 
         if (labelsError) {
-          console.error('Failed to insert labels:', labelsError)
-        } else {
-          importDetails.labelsCreated = labelsToInsert.length
-          console.log(`Successfully inserted ${labelsToInsert.length} labels`)
+          throw new Error(`Failed to insert labels: ${labelsError.message}`)
         }
+
+        importDetails.labelsCreated = labelsToInsert.length
+        console.log(`Successfully inserted ${labelsToInsert.length} labels`)
       }
 
       // Insert Mnemonics
@@ -448,11 +572,11 @@ export class ImportOrchestrator {
           .insert(mnemonicsToInsert)
 
         if (mnemonicsError) {
-          console.error('Failed to insert mnemonics:', mnemonicsError)
-        } else {
-          importDetails.mnemonicsCreated = mnemonicsToInsert.length
-          console.log(`Successfully inserted ${mnemonicsToInsert.length} mnemonics`)
+          throw new Error(`Failed to insert mnemonics: ${mnemonicsError.message}`)
         }
+
+        importDetails.mnemonicsCreated = mnemonicsToInsert.length
+        console.log(`Successfully inserted ${mnemonicsToInsert.length} mnemonics`)
       }
 
       // Insert Overrides
@@ -470,11 +594,11 @@ export class ImportOrchestrator {
           .insert(overridesToInsert)
 
         if (overridesError) {
-          console.error('Failed to insert overrides:', overridesError)
-        } else {
-          importDetails.overridesCreated = overridesToInsert.length
-          console.log(`Successfully inserted ${overridesToInsert.length} overrides`)
+          throw new Error(`Failed to insert overrides: ${overridesError.message}`)
         }
+
+        importDetails.overridesCreated = overridesToInsert.length
+        console.log(`Successfully inserted ${overridesToInsert.length} overrides`)
       }
 
       // Insert Rewrites
@@ -492,11 +616,11 @@ export class ImportOrchestrator {
           .insert(rewritesToInsert)
 
         if (rewritesError) {
-          console.error('Failed to insert rewrites:', rewritesError)
-        } else {
-          importDetails.rewritesCreated = rewritesToInsert.length
-          console.log(`Successfully inserted ${rewritesToInsert.length} rewrites`)
+          throw new Error(`Failed to insert rewrites: ${rewritesError.message}`)
         }
+
+        importDetails.rewritesCreated = rewritesToInsert.length
+        console.log(`Successfully inserted ${rewritesToInsert.length} rewrites`)
       }
 
       // First, insert StringType records
@@ -516,11 +640,11 @@ export class ImportOrchestrator {
           .insert(stringTypesToInsert)
 
         if (stringTypesError) {
-          console.error('Failed to insert string types:', stringTypesError)
-        } else {
-          importDetails.stringTypesCreated = stringTypesToInsert.length
-          console.log(`Successfully inserted ${stringTypesToInsert.length} string types`)
+          throw new Error(`Failed to insert string types: ${stringTypesError.message}`)
         }
+
+        importDetails.stringTypesCreated = stringTypesToInsert.length
+        console.log(`Successfully inserted ${stringTypesToInsert.length} string types`)
       }
 
       // Insert StringCommands (after string types are created)
@@ -541,11 +665,11 @@ export class ImportOrchestrator {
             .insert(stringCommandsToInsert)
 
           if (stringCommandsError) {
-            console.error('Failed to insert string commands:', stringCommandsError)
-          } else {
-            importDetails.stringCommandsCreated = stringCommandsToInsert.length
-            console.log(`Successfully inserted ${stringCommandsToInsert.length} string commands`)
+            throw new Error(`Failed to insert string commands: ${stringCommandsError.message}`)
           }
+
+          importDetails.stringCommandsCreated = stringCommandsToInsert.length
+          console.log(`Successfully inserted ${stringCommandsToInsert.length} string commands`)
         }
       }
 
@@ -564,11 +688,11 @@ export class ImportOrchestrator {
           .insert(structsToInsert)
 
         if (structsError) {
-          console.error('Failed to insert structs:', structsError)
-        } else {
-          importDetails.structsCreated = structsToInsert.length
-          console.log(`Successfully inserted ${structsToInsert.length} structs`)
+          throw new Error(`Failed to insert structs: ${structsError.message}`)
         }
+
+        importDetails.structsCreated = structsToInsert.length
+        console.log(`Successfully inserted ${structsToInsert.length} structs`)
       }
 
       return {
@@ -580,9 +704,16 @@ export class ImportOrchestrator {
     } catch (error) {
       console.error('Supabase import failed:', error)
 
+      // Undo everything created so far so a failed import leaves no partial project behind
+      const rollbackErrors = createdProjectId
+        ? await this.rollbackImport(createdProjectId, internalData, userId)
+        : []
+
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Unknown error occurred',
+        rolledBack: createdProjectId !== null && rollbackErrors.length === 0,
+        rollbackErrors: rollbackErrors.length > 0 ? rollbackErrors : undefined,
         importDetails: {
           projectCreated: false,
           copsCreated: 0,
@@ -602,6 +733,61 @@ export class ImportOrchestrator {
     }
   }
   
+  /**
+   * Soft-delete every record created by a failed import
+   *
+   * Children are removed before the project itself so nothing is left
+   * reachable. Each table is attempted even if an earlier one fails.
+   *
+   * @param projectId - ID of the partially imported project
+   * @param internalData - Data that was being imported; supplies block and string type IDs
+   * @param userId - User ID performing the import
+   * @returns Tables that could not be cleaned up
+   */
+  private async rollbackImport(
+    projectId: string,
+    internalData: InternalProjectData,
+    userId: string
+  ): Promise<string[]> {
+    console.log(`Rolling back import of project ${projectId}...`)
+
+    const supabase = createWorkingClient()
+    const deletion = {
+      deletedAt: new Date().toISOString(),
+      deletedBy: userId
+    }
+    const errors: string[] = []
+
+    const softDelete = async (table: string, column: string, ids: string[]) => {
+      if (ids.length === 0) return
+      const { error } = await (supabase as any)
+        .from(table)
+        .update(deletion)
+        .in(column, ids)
+        .is('deletedAt', null)
+      if (error) {
+        console.error(`Failed to roll back ${table}:`, error)
+        errors.push(`${table}: ${error.message}`)
+      }
+    }
+
+    const blockIds = internalData.blocks.map((block: any) => block.id).filter(Boolean)
+    const stringTypeIds = internalData.stringTypes.map((stringType: any) => stringType.id).filter(Boolean)
+
+    await softDelete('BlockTransform', 'blockId', blockIds)
+    await softDelete('BlockPart', 'blockId', blockIds)
+    await softDelete('StringCommand', 'stringTypeId', stringTypeIds)
+    for (const table of ['File', 'Cop', 'Block', 'Label', 'GameMnemonic', 'Override', 'Rewrite', 'StringType', 'Struct']) {
+      await softDelete(table, 'projectId', [projectId])
+    }
+    await softDelete('ScribeProject', 'id', [projectId])
+
+    if (errors.length === 0) {
+      console.log(`Rolled back import of project ${projectId}`)
+    }
+    return errors
+  }
+
   /**
    * Get external project summary for preview before import
    * 
@@ -708,6 +894,7 @@ export function createImportOrchestrator(): ImportOrchestrator {
  * @param userId - User ID performing the import
  * @param projectName - Name for the new project
  * @param onProgress - Optional progress callback
+ * @param options - Import options, e.g. dry run
  * @returns Promise<ImportServiceResult>
  */
 export async function importExternalGameRomBranch(
@@ -715,8 +902,9 @@ export async function importExternalGameRomBranch(
   userId: string,
   projectName: string,
   platformId: string,
-  onProgress?: ImportProgressCallback
+  onProgress?: ImportProgressCallback,
+  options?: ImportOptions
 ): Promise<ImportServiceResult> {
   const orchestrator = createImportOrchestrator()
-  return orchestrator.importExternalGameRomBranch(gameRomBranchId, userId, projectName, platformId, onProgress)
+  return orchestrator.importExternalGameRomBranch(gameRomBranchId, userId, projectName, platformId, onProgress, options)
 }
@@ -0,0 +1,91 @@
+/**
+ * SNES Palette Decoding
+ *
+ * SNES colors are 15-bit little-endian words in BGR555 order:
+ * `0bbbbbgg gggrrrrr`. Palettes are decoded to RGBA, 4 bytes per color, the
+ * layout `convertTilesToImageData()` expects.
+ */
+
+export interface PaletteColor {
+  index: number
+  /** Raw BGR555 value */
+  value: number
+  r: number
+  g: number
+  b: number
+}
+
+/** Expand a 5-bit channel to 8 bits, repeating the high bits so white stays white */
+const expand5 = (value: number) => (value << 3) | (value >> 2)
+
+/**
+ * Decode one BGR555 color
+ */
+export function decodeBgr555(value: number): { r: number; g: number; b: number } {
+  return {
+    r: expand5(value & 0x1F),
+    g: expand5((value >> 5) & 0x1F),
+    b: expand5((value >> 10) & 0x1F)
+  }
+}
+
+/**
+ * Decode a palette file to a list of colors
+ */
+export function decodePaletteColors(data: Uint8Array): PaletteColor[] {
+  const colors: PaletteColor[] = []
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    const value = data[i] | (data[i + 1] << 8)
+    colors.push({ index: i >> 1, value, ...decodeBgr555(value) })
+  }
+  return colors
+}
+
+/**
+ * Convert decoded colors to RGBA, 4 bytes per color
+ */
+export function paletteToRgba(colors: PaletteColor[]): Uint8Array {
+  const rgba = new Uint8Array(colors.length * 4)
+  colors.forEach((color, i) => {
+    rgba[i * 4] = color.r
+    rgba[i * 4 + 1] = color.g
+    rgba[i * 4 + 2] = color.b
+    rgba[i * 4 + 3] = 0xFF
+  })
+  return rgba
+}
+
+/**
+ * Decode a palette file to RGBA, 4 bytes per color
+ */
+export function decodePalette(data: Uint8Array): Uint8Array {
+  return paletteToRgba(decodePaletteColors(data))
+}
+
+/**
+ * Number of subpalette rows a palette holds for a tile depth
+ *
+ * 8bpp graphics use the whole palette, so they always have a single row.
+ */
+export function getPaletteRowCount(rgba: Uint8Array, bitsPerPixel: number): number {
+  if (bitsPerPixel >= 8) return 1
+  const colorsPerRow = 1 << bitsPerPixel
+  return Math.max(1, Math.ceil((rgba.length >> 2) / colorsPerRow))
+}
+
+/**
+ * Select the subpalette a tile depth indexes into
+ *
+ * @param rgba - Decoded palette
+ * @param bitsPerPixel - Tile depth
+ * @param row - Subpalette row, e.g. 0-7 for the sixteen-color rows of 4bpp graphics
+ */
+export function getSubpalette(rgba: Uint8Array, bitsPerPixel: number, row: number): Uint8Array {
+  if (bitsPerPixel >= 8) return rgba
+  const rowSize = (1 << bitsPerPixel) * 4
+  return rgba.subarray(row * rowSize, (row + 1) * rowSize)
+}
+
+export function formatBgr555(value: number): string {
+  return `$${value.toString(16).toUpperCase().padStart(4, '0')}`
+}
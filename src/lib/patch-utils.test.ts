@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { applyPatch, checkPatchSource, createPatch, detectPatchFormat, type PatchFormat } from './patch-utils'
+import { writeRomChecksum } from './rom-parser'
+
+const HEADER = 0x7FC0
+
+// A 128KB LoROM with a valid internal header and checksum
+function createRom(): Uint8Array {
+  const rom = new Uint8Array(0x20000)
+  let seed = 0x1234
+  for (let i = 0; i < rom.length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0
+    rom[i] = seed >>> 24
+  }
+  rom.set(Array.from('GAIA PATCH TEST      ', ch => ch.charCodeAt(0)), HEADER)
+  rom[HEADER + 0x15] = 0x20
+  rom[HEADER + 0x17] = 0x07
+  writeRomChecksum(rom, HEADER)
+  return rom
+}
+
+// Build output: scattered edits, a long run, and data appended past the end
+function createTarget(source: Uint8Array): Uint8Array {
+  const target = new Uint8Array(source.length + 0x100)
+  target.set(source)
+  target.set([0xEA, 0xEA, 0x6B], 0x8000)
+  target.fill(0xFF, 0x10000, 0x10040)
+  target.fill(0x42, source.length)
+  writeRomChecksum(target, HEADER)
+  return target
+}
+
+describe('patches', () => {
+  const source = createRom()
+  const target = createTarget(source)
+
+  for (const format of ['ips', 'bps'] as PatchFormat[]) {
+    it(`applies a created ${format.toUpperCase()} patch back to the build output`, () => {
+      const patch = createPatch(format, source, target)
+
+      expect(detectPatchFormat(patch)).toBe(format)
+      expect(applyPatch(source, patch)).toEqual(target)
+    })
+  }
+
+  it('accepts a clean source', () => {
+    expect(checkPatchSource(source)).toBeNull()
+  })
+
+  it('refuses a source whose data does not match its header checksum', () => {
+    const modified = source.slice()
+    modified[0x9000] ^= 0xFF
+
+    expect(checkPatchSource(modified)).toMatch(/does not match its header/)
+    expect(() => applyPatch(modified, createPatch('ips', source, target))).toThrow(/does not match its header/)
+  })
+
+  it('refuses a source with a different checksum than expected', () => {
+    const patch = createPatch('bps', source, target)
+
+    expect(() => applyPatch(source, patch, { expectedChecksum: 0x1234 })).toThrow(/does not match the expected 0x1234/)
+  })
+})
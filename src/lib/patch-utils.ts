@@ -0,0 +1,482 @@
+/**
+ * ROM Patch Utilities
+ *
+ * Creates and applies IPS and BPS patches so that project builds can be
+ * distributed as a set of changes against the original ROM instead of as a
+ * full ROM image.
+ *
+ * IPS specification: https://zerosoft.zophar.net/ips.php
+ * BPS specification: https://www.romhacking.net/documents/746/
+ */
+
+import { crc32_buffer } from '@gaialabs/shared'
+import { calculateRomChecksum, parseRomHeader, type RomHeaderInfo } from './rom-parser'
+
+export type PatchFormat = 'ips' | 'bps'
+
+export interface ApplyPatchOptions {
+  /** Expected checksum of the source ROM header; skipped when undefined */
+  expectedChecksum?: number
+}
+
+// IPS constants
+const IPS_MAGIC = [0x50, 0x41, 0x54, 0x43, 0x48] // "PATCH"
+const IPS_EOF = [0x45, 0x4F, 0x46] // "EOF"
+const IPS_EOF_OFFSET = 0x454F46
+const IPS_MAX_OFFSET = 0xFFFFFF
+const IPS_MAX_RECORD = 0xFFFF
+const IPS_MIN_RLE = 8
+
+// BPS constants
+const BPS_MAGIC = [0x42, 0x50, 0x53, 0x31] // "BPS1"
+const BPS_SOURCE_READ = 0
+const BPS_TARGET_READ = 1
+const BPS_SOURCE_COPY = 2
+const BPS_TARGET_COPY = 3
+
+/**
+ * Growable byte buffer used while encoding patches
+ */
+class ByteWriter {
+  private buffer = new Uint8Array(1024)
+  private length = 0
+
+  private ensure(extra: number) {
+    if (this.length + extra <= this.buffer.length) return
+    let size = this.buffer.length * 2
+    while (size < this.length + extra) size *= 2
+    const next = new Uint8Array(size)
+    next.set(this.buffer.subarray(0, this.length))
+    this.buffer = next
+  }
+
+  writeByte(value: number) {
+    this.ensure(1)
+    this.buffer[this.length++] = value & 0xFF
+  }
+
+  writeBytes(values: ArrayLike<number>) {
+    this.ensure(values.length)
+    this.buffer.set(values, this.length)
+    this.length += values.length
+  }
+
+  writeUint16BE(value: number) {
+    this.writeByte(value >> 8)
+    this.writeByte(value)
+  }
+
+  writeUint24BE(value: number) {
+    this.writeByte(value >> 16)
+    this.writeByte(value >> 8)
+    this.writeByte(value)
+  }
+
+  writeUint32LE(value: number) {
+    this.writeByte(value)
+    this.writeByte(value >> 8)
+    this.writeByte(value >> 16)
+    this.writeByte(value >>> 24)
+  }
+
+  writeVarInt(value: number) {
+    let data = value
+    for (;;) {
+      const x = data % 128
+      data = Math.floor(data / 128)
+      if (data === 0) {
+        this.writeByte(0x80 | x)
+        break
+      }
+      this.writeByte(x)
+      data--
+    }
+  }
+
+  toArray(): Uint8Array {
+    return this.buffer.slice(0, this.length)
+  }
+}
+
+function crc32(data: Uint8Array): number {
+  return crc32_buffer(data) >>> 0
+}
+
+function readUint32LE(data: Uint8Array, offset: number): number {
+  return (data[offset] | (data[offset + 1] << 8) | (data[offset + 2] << 16) | (data[offset + 3] << 24)) >>> 0
+}
+
+function hasMagic(data: Uint8Array, magic: number[], offset: number = 0): boolean {
+  if (data.length < offset + magic.length) return false
+  return magic.every((byte, i) => data[offset + i] === byte)
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+function formatChecksum(value: number): string {
+  return `0x${value.toString(16).toUpperCase().padStart(4, '0')}`
+}
+
+/**
+ * Detect the format of a patch from its magic bytes
+ */
+export function detectPatchFormat(patch: Uint8Array): PatchFormat | null {
+  if (hasMagic(patch, IPS_MAGIC)) return 'ips'
+  if (hasMagic(patch, BPS_MAGIC)) return 'bps'
+  return null
+}
+
+/**
+ * Create an IPS patch that transforms source into target
+ *
+ * Runs of eight or more identical bytes are stored as RLE records. Targets
+ * shorter than the source use the truncation extension after the EOF marker.
+ */
+export function createIpsPatch(source: Uint8Array, target: Uint8Array): Uint8Array {
+  if (target.length > IPS_MAX_OFFSET + 1) {
+    throw new Error('Target is too large for an IPS patch (16 MB limit)')
+  }
+
+  const differs = (i: number) => i >= source.length || source[i] !== target[i]
+  const writer = new ByteWriter()
+  writer.writeBytes(IPS_MAGIC)
+
+  let offset = 0
+  while (offset < target.length) {
+    if (!differs(offset)) {
+      offset++
+      continue
+    }
+
+    // An offset of "EOF" would be read as the end marker, so start one byte earlier
+    let start = offset
+    if (start === IPS_EOF_OFFSET) {
+      start--
+    }
+
+    // Check for a run that is worth storing as RLE
+    let run = 1
+    while (start + run < target.length && run < IPS_MAX_RECORD && target[start + run] === target[start]) {
+      run++
+    }
+    if (run >= IPS_MIN_RLE) {
+      writer.writeUint24BE(start)
+      writer.writeUint16BE(0)
+      writer.writeUint16BE(run)
+      writer.writeByte(target[start])
+      offset = start + run
+      continue
+    }
+
+    let end = offset
+    while (end < target.length && end - start < IPS_MAX_RECORD && differs(end)) {
+      end++
+    }
+
+    writer.writeUint24BE(start)
+    writer.writeUint16BE(end - start)
+    writer.writeBytes(target.subarray(start, end))
+    offset = end
+  }
+
+  writer.writeBytes(IPS_EOF)
+  if (target.length < source.length) {
+    writer.writeUint24BE(target.length)
+  }
+
+  return writer.toArray()
+}
+
+/**
+ * Apply an IPS patch to source and return the patched data
+ */
+export function applyIpsPatch(source: Uint8Array, patch: Uint8Array): Uint8Array {
+  if (!hasMagic(patch, IPS_MAGIC)) {
+    throw new Error('Invalid IPS patch: missing PATCH header')
+  }
+
+  let output = source.slice()
+  let size = source.length
+  let pos = IPS_MAGIC.length
+
+  const ensureSize = (required: number) => {
+    if (required > output.length) {
+      const next = new Uint8Array(required)
+      next.set(output)
+      output = next
+    }
+    size = Math.max(size, required)
+  }
+
+  for (;;) {
+    if (pos + 3 > patch.length) {
+      throw new Error('Invalid IPS patch: missing EOF marker')
+    }
+    if (hasMagic(patch, IPS_EOF, pos)) {
+      pos += 3
+      break
+    }
+
+    const offset = (patch[pos] << 16) | (patch[pos + 1] << 8) | patch[pos + 2]
+    const length = (patch[pos + 3] << 8) | patch[pos + 4]
+    pos += 5
+
+    if (length === 0) {
+      // RLE record
+      const run = (patch[pos] << 8) | patch[pos + 1]
+      const value = patch[pos + 2]
+      pos += 3
+      if (pos > patch.length) {
+        throw new Error('Invalid IPS patch: truncated RLE record')
+      }
+      ensureSize(offset + run)
+      output.fill(value, offset, offset + run)
+    } else {
+      if (pos + length > patch.length) {
+        throw new Error('Invalid IPS patch: truncated record')
+      }
+      ensureSize(offset + length)
+      output.set(patch.subarray(pos, pos + length), offset)
+      pos += length
+    }
+  }
+
+  // Truncation extension
+  if (pos + 3 <= patch.length) {
+    size = (patch[pos] << 16) | (patch[pos + 1] << 8) | patch[pos + 2]
+  }
+
+  return output.slice(0, size)
+}
+
+/**
+ * Create a BPS patch that transforms source into target
+ *
+ * This is a linear encoder: bytes that match the source at the same offset
+ * are emitted as SourceRead actions and everything else as TargetRead.
+ */
+export function createBpsPatch(source: Uint8Array, target: Uint8Array, metadata: string = ''): Uint8Array {
+  const writer = new ByteWriter()
+  const metadataBytes = new TextEncoder().encode(metadata)
+
+  writer.writeBytes(BPS_MAGIC)
+  writer.writeVarInt(source.length)
+  writer.writeVarInt(target.length)
+  writer.writeVarInt(metadataBytes.length)
+  writer.writeBytes(metadataBytes)
+
+  const matches = (i: number) => i < source.length && source[i] === target[i]
+
+  let offset = 0
+  while (offset < target.length) {
+    const start = offset
+    const isSourceRead = matches(offset)
+    while (offset < target.length && matches(offset) === isSourceRead) {
+      offset++
+    }
+
+    const length = offset - start
+    writer.writeVarInt(((length - 1) * 4) + (isSourceRead ? BPS_SOURCE_READ : BPS_TARGET_READ))
+    if (!isSourceRead) {
+      writer.writeBytes(target.subarray(start, offset))
+    }
+  }
+
+  writer.writeUint32LE(crc32(source))
+  writer.writeUint32LE(crc32(target))
+  const body = writer.toArray()
+  writer.writeUint32LE(crc32(body))
+
+  return writer.toArray()
+}
+
+/**
+ * Apply a BPS patch to source and return the patched data
+ *
+ * The source, target and patch CRC32 values stored in the patch footer are
+ * all verified.
+ */
+export function applyBpsPatch(source: Uint8Array, patch: Uint8Array): Uint8Array {
+  if (!hasMagic(patch, BPS_MAGIC)) {
+    throw new Error('Invalid BPS patch: missing BPS1 header')
+  }
+  if (patch.length < BPS_MAGIC.length + 12) {
+    throw new Error('Invalid BPS patch: file is too short')
+  }
+
+  const footer = patch.length - 12
+  const sourceCrc = readUint32LE(patch, footer)
+  const targetCrc = readUint32LE(patch, footer + 4)
+  const patchCrc = readUint32LE(patch, footer + 8)
+
+  if (crc32(patch.subarray(0, footer + 8)) !== patchCrc) {
+    throw new Error('Invalid BPS patch: patch checksum mismatch')
+  }
+  if (crc32(source) !== sourceCrc) {
+    throw new Error('Source ROM does not match the BPS patch (CRC32 mismatch)')
+  }
+
+  let pos = BPS_MAGIC.length
+  const readVarInt = (): number => {
+    let data = 0
+    let shift = 1
+    for (;;) {
+      if (pos >= footer) {
+        throw new Error('Invalid BPS patch: truncated number')
+      }
+      const x = patch[pos++]
+      data += (x & 0x7F) * shift
+      if (x & 0x80) break
+      shift *= 128
+      data += shift
+    }
+    return data
+  }
+
+  const sourceSize = readVarInt()
+  const targetSize = readVarInt()
+  const metadataSize = readVarInt()
+  pos += metadataSize
+
+  if (sourceSize !== source.length) {
+    throw new Error(`Source ROM size ${source.length} does not match the BPS patch (${sourceSize})`)
+  }
+
+  const output = new Uint8Array(targetSize)
+  let outputOffset = 0
+  let sourceRelative = 0
+  let targetRelative = 0
+
+  while (pos < footer) {
+    const action = readVarInt()
+    const command = action & 3
+    const length = Math.floor(action / 4) + 1
+
+    if (outputOffset + length > targetSize) {
+      throw new Error('Invalid BPS patch: action writes past the end of the target')
+    }
+
+    switch (command) {
+      case BPS_SOURCE_READ:
+        output.set(source.subarray(outputOffset, outputOffset + length), outputOffset)
+        outputOffset += length
+        break
+      case BPS_TARGET_READ:
+        output.set(patch.subarray(pos, pos + length), outputOffset)
+        pos += length
+        outputOffset += length
+        break
+      case BPS_SOURCE_COPY: {
+        const data = readVarInt()
+        sourceRelative += (data & 1 ? -1 : 1) * Math.floor(data / 2)
+        output.set(source.subarray(sourceRelative, sourceRelative + length), outputOffset)
+        sourceRelative += length
+        outputOffset += length
+        break
+      }
+      case BPS_TARGET_COPY: {
+        const data = readVarInt()
+        targetRelative += (data & 1 ? -1 : 1) * Math.floor(data / 2)
+        // Byte-by-byte so overlapping copies repeat data as intended
+        for (let i = 0; i < length; i++) {
+          output[outputOffset++] = output[targetRelative++]
+        }
+        break
+      }
+    }
+  }
+
+  if (crc32(output) !== targetCrc) {
+    throw new Error('Patched ROM does not match the BPS target checksum')
+  }
+
+  return output
+}
+
+/**
+ * Check that a source ROM is intact before a patch is applied to it
+ *
+ * The internal header checksum from parseRomHeader() must be self-consistent,
+ * must match the checksum of the data, and must equal expectedChecksum when
+ * one is given.
+ */
+export function verifyPatchSource(source: Uint8Array, expectedChecksum?: number): RomHeaderInfo {
+  const header = parseRomHeader(source.slice().buffer)
+  if (header.headerLocation < 0) {
+    throw new Error('Could not locate a ROM header in the source ROM')
+  }
+
+  if (((header.checksum + header.checksumComplement) & 0xFFFF) !== 0xFFFF) {
+    throw new Error('Source ROM header checksum and complement do not agree')
+  }
+
+  const actual = calculateRomChecksum(source)
+  if (actual !== header.checksum) {
+    throw new Error(`Source ROM checksum ${formatChecksum(actual)} does not match its header (${formatChecksum(header.checksum)}); the ROM may be modified or a bad dump`)
+  }
+
+  if (expectedChecksum !== undefined && header.checksum !== expectedChecksum) {
+    throw new Error(`Source ROM checksum ${formatChecksum(header.checksum)} does not match the expected ${formatChecksum(expectedChecksum)}`)
+  }
+
+  return header
+}
+
+/**
+ * Describe why a ROM may not be a clean base for a patch, or null when it is
+ *
+ * Used when creating patches, where a modified or bad dump is still a valid
+ * base and only merits a warning.
+ */
+export function checkPatchSource(source: Uint8Array): string | null {
+  try {
+    verifyPatchSource(source)
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Source ROM could not be verified'
+  }
+}
+
+/**
+ * Verify the source ROM and apply a patch, detecting the format automatically
+ *
+ * BPS patches carry the CRC32 of the ROM they were made against, which
+ * applyBpsPatch() checks; the header is then only checked against
+ * expectedChecksum when one is given. IPS patches carry no source checksum,
+ * so the source header must be intact.
+ */
+export function applyPatch(source: Uint8Array, patch: Uint8Array, options: ApplyPatchOptions = {}): Uint8Array {
+  const format = detectPatchFormat(patch)
+  if (!format) {
+    throw new Error('Unrecognized patch format')
+  }
+
+  if (format === 'ips' || options.expectedChecksum !== undefined) {
+    verifyPatchSource(source, options.expectedChecksum)
+  }
+
+  return format === 'ips' ? applyIpsPatch(source, patch) : applyBpsPatch(source, patch)
+}
+
+/**
+ * Create a patch and confirm that applying it to source reproduces target
+ *
+ * The source ROM is not verified here: patches may be made against any dump.
+ * Use checkPatchSource() to warn about a modified or bad one.
+ */
+export function createPatch(format: PatchFormat, source: Uint8Array, target: Uint8Array): Uint8Array {
+  const patch = format === 'ips' ? createIpsPatch(source, target) : createBpsPatch(source, target)
+
+  const patched = format === 'ips' ? applyIpsPatch(source, patch) : applyBpsPatch(source, patch)
+  if (!bytesEqual(patched, target)) {
+    throw new Error(`Generated ${format.toUpperCase()} patch does not reproduce the build output`)
+  }
+
+  return patch
+}
@@ -0,0 +1,287 @@
+/**
+ * Platform Record Diff
+ *
+ * Compares a platform's instruction set against an external PlatformBranch
+ * and applies a chosen subset of the differences in place, so projects that
+ * point at the platform keep working across instruction set updates.
+ *
+ * Records are matched on natural keys: addressing modes by code, instruction
+ * groups and types by name, instruction codes by opcode and vectors by
+ * address. Instruction codes refer to their group by name and their mode by
+ * code, so they follow renamed IDs on either side.
+ */
+
+import { createId } from '@paralleldrive/cuid2'
+import { supabase } from './supabase'
+import { db } from '../services/supabase'
+import { diffRecordRows, type ApplyChangesResult, type RecordChange, type RecordRow } from './project-diff'
+import type { transformPlatformBranchToInternal } from './platform-import-orchestrator'
+
+export type PlatformTable =
+  | 'addressingModes'
+  | 'instructionGroups'
+  | 'types'
+  | 'vectors'
+  | 'instructionCodes'
+
+interface PlatformTableConfig {
+  table: PlatformTable
+  name: string
+  dbTable: string
+  /** Columns that make up the natural key, restored when inserting */
+  keyFields: string[]
+  /** Columns compared and written when applying changes */
+  fields: string[]
+  key: (record: any) => string
+}
+
+const hexKey = (value: number, width: number) => `0x${value.toString(16).toUpperCase().padStart(width, '0')}`
+
+/**
+ * Tables in dependency order: instruction codes come after the modes and groups they reference
+ */
+export const PLATFORM_TABLES: PlatformTableConfig[] = [
+  { table: 'addressingModes', name: 'Addressing Modes', dbTable: 'AddressingMode', keyFields: ['code'], fields: ['name', 'size', 'format', 'pattern', 'meta'], key: r => r.code },
+  { table: 'instructionGroups', name: 'Instruction Groups', dbTable: 'InstructionGroup', keyFields: ['name'], fields: ['meta'], key: r => r.name },
+  { table: 'types', name: 'Types', dbTable: 'PlatformType', keyFields: ['name'], fields: ['description', 'size', 'isPrimitive', 'isPointer', 'isSigned', 'isRelative', 'isBank', 'isData', 'isCode', 'pointerChar', 'meta'], key: r => r.name },
+  { table: 'vectors', name: 'Vectors', dbTable: 'Vector', keyFields: ['address'], fields: ['name', 'isEntryPoint', 'isRomHeader', 'meta'], key: r => hexKey(r.address, 4) },
+  { table: 'instructionCodes', name: 'Instruction Codes', dbTable: 'InstructionCode', keyFields: ['code'], fields: ['group', 'mode', 'cycles', 'meta'], key: r => hexKey(r.code, 2) }
+]
+
+const BOOLEAN_FIELDS = new Set(['isEntryPoint', 'isRomHeader', 'isPrimitive', 'isPointer', 'isSigned', 'isRelative', 'isBank', 'isData', 'isCode'])
+
+/**
+ * Platform records in database form; instruction codes carry the name of
+ * their group and the code of their mode in `group` and `mode`
+ */
+export type PlatformRecordSource = Record<PlatformTable, any[]>
+
+export type PlatformRecordChange = RecordChange<PlatformTable>
+
+export interface PlatformDiff {
+  changes: PlatformRecordChange[]
+  /** IDs of the platform's existing modes and groups, used to attach new instruction codes */
+  parentIds: {
+    addressingModes: Record<string, string>
+    instructionGroups: Record<string, string>
+  }
+}
+
+/**
+ * Load the instruction set of a platform
+ */
+export async function loadPlatformRecords(platformId: string): Promise<PlatformRecordSource> {
+  const [addressingModes, instructionGroups, instructionCodes, vectors, types] = await Promise.all([
+    db.addressingModes.getByPlatform(platformId),
+    db.instructionGroups.getByPlatform(platformId),
+    db.instructionCodes.getByPlatform(platformId),
+    db.vectors.getByPlatform(platformId),
+    db.platformTypes.getByPlatform(platformId)
+  ])
+
+  const results = { addressingModes, instructionGroups, instructionCodes, vectors, types }
+  for (const [name, result] of Object.entries(results)) {
+    if (result.error) throw new Error(`Failed to load ${name}: ${result.error.message}`)
+  }
+
+  return {
+    addressingModes: addressingModes.data || [],
+    instructionGroups: instructionGroups.data || [],
+    instructionCodes: (instructionCodes.data || []).map((code: any) => ({
+      ...code,
+      group: code.group?.name ?? null,
+      mode: code.mode?.code ?? null
+    })),
+    vectors: vectors.data || [],
+    types: types.data || []
+  }
+}
+
+/**
+ * Bring transformed PlatformBranch data into the same shape as loaded records
+ */
+export function toPlatformRecordSource(internalData: ReturnType<typeof transformPlatformBranchToInternal>): PlatformRecordSource {
+  // The branch's instruction set refers to addressing modes by name
+  const modeCodes = new Map<string, string>(internalData.addressingModes.map(mode => [mode.name, mode.code]))
+
+  return {
+    addressingModes: internalData.addressingModes,
+    instructionGroups: internalData.instructionGroups,
+    instructionCodes: internalData.instructionCodes.map(code => ({
+      code: code.code,
+      group: code.groupName,
+      mode: modeCodes.get(code.modeName) ?? code.modeName
+    })),
+    vectors: internalData.vectors,
+    types: internalData.types
+  }
+}
+
+function indexPlatformRecords(records: PlatformRecordSource): Record<PlatformTable, Map<string, RecordRow>> {
+  const index = {} as Record<PlatformTable, Map<string, RecordRow>>
+  for (const config of PLATFORM_TABLES) {
+    const rows = new Map<string, RecordRow>()
+    for (const record of records[config.table] || []) {
+      const baseKey = config.key(record)
+      // Disambiguate duplicate keys by occurrence
+      let key = baseKey
+      for (let n = 2; rows.has(key); n++) key = `${baseKey}#${n}`
+
+      const values: Record<string, unknown> = {}
+      for (const field of [...config.keyFields, ...config.fields]) {
+        const value = record[field]
+        values[field] = value === undefined || value === null ? (BOOLEAN_FIELDS.has(field) ? false : null) : value
+      }
+      rows.set(key, { key, values, id: record.id })
+    }
+    index[config.table] = rows
+  }
+  return index
+}
+
+/**
+ * Compare a platform's records with incoming records
+ *
+ * @param local - Records currently in the platform, as loaded from the database
+ * @param incoming - Records to compare against
+ * @returns Per-record changes that would turn the local records into the incoming ones
+ */
+export function diffPlatformRecords(local: PlatformRecordSource, incoming: PlatformRecordSource): PlatformDiff {
+  const localIndex = indexPlatformRecords(local)
+  const incomingIndex = indexPlatformRecords(incoming)
+  const changes = PLATFORM_TABLES.flatMap(config =>
+    diffRecordRows(config.table, config.fields, localIndex[config.table], incomingIndex[config.table])
+  )
+
+  const parentIds: PlatformDiff['parentIds'] = { addressingModes: {}, instructionGroups: {} }
+  for (const table of ['addressingModes', 'instructionGroups'] as const) {
+    for (const row of localIndex[table].values()) {
+      if (row.id) parentIds[table][row.key] = row.id
+    }
+  }
+
+  return { changes, parentIds }
+}
+
+/**
+ * Apply selected changes to a platform in place
+ *
+ * Additions and updates run in dependency order so new instruction codes can
+ * use new modes and groups; removals run instruction codes first. A mode or
+ * group is only removed once no remaining instruction code uses it, and an
+ * instruction code whose mode or group does not exist is skipped.
+ *
+ * @param platformId - Platform being changed
+ * @param diff - Diff the changes were taken from
+ * @param selected - Changes to apply
+ * @param userId - User applying the changes
+ */
+export async function applyPlatformChanges(
+  platformId: string,
+  diff: PlatformDiff,
+  selected: PlatformRecordChange[],
+  userId: string
+): Promise<ApplyChangesResult> {
+  const parentIds = {
+    addressingModes: { ...diff.parentIds.addressingModes },
+    instructionGroups: { ...diff.parentIds.instructionGroups }
+  }
+  const result: ApplyChangesResult = { applied: 0, skipped: [] }
+
+  // Resolve an instruction code's group and mode to the IDs it is stored with
+  const toColumns = (change: PlatformRecordChange, values: Record<string, unknown>): Record<string, unknown> | null => {
+    const { group, mode, ...columns } = values
+    if (change.table !== 'instructionCodes') return values
+
+    const groupId = parentIds.instructionGroups[group as string]
+    const modeId = parentIds.addressingModes[mode as string]
+    if (!groupId || !modeId) {
+      result.skipped.push(`Instruction code ${change.key}: ${!groupId ? `group ${group}` : `addressing mode ${mode}`} does not exist in the platform`)
+      return null
+    }
+    return { ...columns, groupId, modeId }
+  }
+
+  for (const config of PLATFORM_TABLES) {
+    const tableChanges = selected.filter(change => change.table === config.table)
+
+    // Additions
+    const inserts: Record<string, unknown>[] = []
+    for (const change of tableChanges.filter(x => x.kind === 'added' && x.incoming)) {
+      const row = change.incoming as RecordRow
+      const columns = toColumns(change, row.values)
+      if (!columns) continue
+
+      const record: Record<string, unknown> = { id: createId(), ...columns, createdBy: userId }
+      if (config.table !== 'instructionCodes') record.platformId = platformId
+      if (config.table === 'addressingModes' || config.table === 'instructionGroups') {
+        parentIds[config.table][row.key] = record.id as string
+      }
+      inserts.push(record)
+    }
+    if (inserts.length > 0) {
+      const { error } = await (supabase as any).from(config.dbTable).insert(inserts)
+      if (error) throw new Error(`Failed to add ${config.name.toLowerCase()}: ${error.message}`)
+      result.applied += inserts.length
+    }
+
+    // Updates
+    for (const change of tableChanges.filter(x => x.kind === 'changed' && x.local?.id && x.incoming)) {
+      const values: Record<string, unknown> = {}
+      for (const field of change.fields) values[field] = change.incoming?.values[field]
+      if (change.table === 'instructionCodes') {
+        values.group = change.incoming?.values.group
+        values.mode = change.incoming?.values.mode
+      }
+      const columns = toColumns(change, values)
+      if (!columns) continue
+
+      const { error } = await (supabase as any)
+        .from(config.dbTable)
+        .update({ ...columns, updatedBy: userId })
+        .eq('id', change.local?.id)
+      if (error) throw new Error(`Failed to update ${config.name.toLowerCase()} ${change.key}: ${error.message}`)
+      result.applied++
+    }
+  }
+
+  // Modes and groups still used by instruction codes that are being kept
+  const removedCodeIds = new Set(selected
+    .filter(change => change.table === 'instructionCodes' && change.kind === 'removed')
+    .map(change => change.local?.id))
+  const { data: remainingCodes, error: codesError } = await db.instructionCodes.getByPlatform(platformId)
+  if (codesError) throw new Error(`Failed to load instruction codes: ${codesError.message}`)
+
+  const inUse = {
+    addressingModes: new Set<string>(),
+    instructionGroups: new Set<string>()
+  }
+  for (const code of remainingCodes || []) {
+    if (removedCodeIds.has(code.id)) continue
+    inUse.addressingModes.add(code.modeId)
+    inUse.instructionGroups.add(code.groupId)
+  }
+
+  // Removals, instruction codes before the modes and groups they reference
+  for (const config of [...PLATFORM_TABLES].reverse()) {
+    const ids: string[] = []
+    for (const change of selected.filter(x => x.table === config.table && x.kind === 'removed' && x.local?.id)) {
+      const id = change.local?.id as string
+      if ((config.table === 'addressingModes' || config.table === 'instructionGroups') && inUse[config.table].has(id)) {
+        result.skipped.push(`${config.name} ${change.key}: still used by instruction codes`)
+        continue
+      }
+      ids.push(id)
+    }
+    if (ids.length === 0) continue
+
+    const { error } = await (supabase as any)
+      .from(config.dbTable)
+      .update({ deletedAt: new Date().toISOString(), deletedBy: userId })
+      .in('id', ids)
+    if (error) throw new Error(`Failed to remove ${config.name.toLowerCase()}: ${error.message}`)
+    result.applied += ids.length
+  }
+
+  return result
+}
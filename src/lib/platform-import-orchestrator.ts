@@ -5,7 +5,7 @@
  * 1. Fetch external PlatformBranch data from Supabase API
  * 2. Transform data to internal Platform format
  * 3. Validate transformed data
- * 4. Create internal database records
+ * 4. Create internal database records, or apply a reviewed diff to an existing platform
  * 5. Handle errors and provide feedback
  */
 
@@ -14,6 +14,7 @@ import { db } from '../services/supabase'
 import { logger } from './logger'
 import { createId } from '@paralleldrive/cuid2'
 import { PlatformBranchData } from '@gaialabs/shared'
+import { applyPlatformChanges, diffPlatformRecords, loadPlatformRecords, toPlatformRecordSource, type PlatformDiff, type PlatformRecordChange } from './platform-diff'
 
 /**
  * Progress callback for import operations
@@ -36,6 +37,18 @@ export interface PlatformImportResult {
     vectorsCreated: number
     typesCreated: number
   }
+  /** Records changed when updating an existing platform */
+  changesApplied?: number
+  /** Selected changes that could not be applied, with the reason */
+  skippedChanges?: string[]
+}
+
+/**
+ * Differences between an existing platform and a PlatformBranch, for review before updating
+ */
+export interface PlatformUpdatePreview {
+  platformBranch: PlatformBranchData
+  diff: PlatformDiff
 }
 
 /**
@@ -479,6 +492,114 @@ export class PlatformImportOrchestrator {
     }
   }
 
+  /**
+   * Compare an existing platform with an external PlatformBranch
+   *
+   * @param platformBranchId - External PlatformBranch ID to update from
+   * @param platformId - Existing platform to update
+   * @param userId - ID of the user performing the update
+   * @returns Promise<PlatformUpdatePreview>
+   */
+  async previewPlatformBranchUpdate(
+    platformBranchId: string,
+    platformId: string,
+    userId: string
+  ): Promise<PlatformUpdatePreview> {
+    logger.platform.import('Comparing platform with PlatformBranch', { platformBranchId, platformId })
+    const { data: platformBranch, error: fetchError } = await db.external.getPlatformBranchById(platformBranchId)
+
+    if (fetchError || !platformBranch) {
+      throw new Error(`Failed to fetch external PlatformBranch data: ${fetchError instanceof Error ? fetchError.message : 'Unknown error'}`)
+    }
+
+    const internalPlatformData = transformPlatformBranchToInternal(platformBranch, userId, platformBranch.platform.name)
+    const local = await loadPlatformRecords(platformId)
+
+    return {
+      platformBranch,
+      diff: diffPlatformRecords(local, toPlatformRecordSource(internalPlatformData))
+    }
+  }
+
+  /**
+   * Update an existing platform in place from a reviewed PlatformBranch diff
+   *
+   * The platform keeps its ID, so every project using it keeps working.
+   *
+   * @param platformId - Existing platform to update
+   * @param preview - Diff from previewPlatformBranchUpdate
+   * @param selected - Changes to apply
+   * @param userId - ID of the user performing the update
+   * @param onProgress - Optional progress callback
+   * @returns Promise<PlatformImportResult>
+   */
+  async updateExistingPlatform(
+    platformId: string,
+    preview: PlatformUpdatePreview,
+    selected: PlatformRecordChange[],
+    userId: string,
+    onProgress?: PlatformImportProgressCallback
+  ): Promise<PlatformImportResult> {
+    try {
+      onProgress?.('Loading platform...', 1, 3)
+
+      const { data: platform, error: platformError } = await db.platforms.getById(platformId)
+      if (platformError || !platform) {
+        return {
+          success: false,
+          error: `Failed to load platform: ${platformError?.message || 'Platform not found'}`
+        }
+      }
+
+      onProgress?.('Applying platform changes...', 2, 3)
+
+      logger.platform.import(`Applying ${selected.length} changes to platform`, { platformId })
+      const result = await applyPlatformChanges(platformId, preview.diff, selected, userId)
+
+      onProgress?.('Recording platform branch...', 3, 3)
+
+      const { platformBranch } = preview
+      const meta = platform.meta && typeof platform.meta === 'object' && !Array.isArray(platform.meta)
+        ? platform.meta as Record<string, unknown>
+        : {}
+      const { error: updateError } = await db.platforms.update(platformId, {
+        platformBranchId: platformBranch.id,
+        meta: {
+          ...meta,
+          originalPlatformBranchId: platformBranch.id,
+          branchName: platformBranch.name,
+          branchVersion: platformBranch.version,
+          updatedFromBranchAt: new Date().toISOString()
+        }
+      }, userId)
+
+      if (updateError) {
+        return {
+          success: false,
+          error: `Applied ${result.applied} changes but failed to record the platform branch: ${updateError.message}`,
+          changesApplied: result.applied,
+          skippedChanges: result.skipped
+        }
+      }
+
+      logger.platform.import('Platform update completed successfully', { platformId, applied: result.applied })
+
+      return {
+        success: true,
+        platformId,
+        platformName: platform.name,
+        changesApplied: result.applied,
+        skippedChanges: result.skipped
+      }
+    } catch (error) {
+      logger.platform.error('updating existing platform', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred during platform update'
+      }
+    }
+  }
+
   /**
    * Get external platform summary for preview before import
    * 
@@ -0,0 +1,203 @@
+/**
+ * Platform Migration
+ *
+ * Moves a project to a different platform. Before switching, the target
+ * platform is checked for everything the project relies on: the instruction
+ * set its code was disassembled with (groups by name, addressing modes by
+ * code, opcodes), the COP instruction when the project defines COPs, and the
+ * types referenced by structs, string commands and COP parts.
+ */
+
+import type { ScribeProject } from '@prisma/client'
+import { db } from '../services/supabase'
+import { loadProjectRecords } from './external-export'
+import { loadPlatformRecords } from './platform-diff'
+
+export type PlatformGapKind = 'instructionGroup' | 'addressingMode' | 'instructionCode' | 'type'
+
+/**
+ * Something the project uses that the target platform lacks or defines differently
+ */
+export interface PlatformGap {
+  kind: PlatformGapKind
+  name: string
+  detail: string
+  /** Project or platform records that depend on it */
+  usedBy: string[]
+}
+
+export interface PlatformCompatibilityReport {
+  sourcePlatformId: string
+  targetPlatformId: string
+  gaps: PlatformGap[]
+  /** Number of distinct references checked per kind */
+  checked: Record<PlatformGapKind, number>
+}
+
+const COP_GROUP = 'COP'
+
+/**
+ * Collect the records using each referenced name
+ */
+function addUse(uses: Map<string, string[]>, name: string, user: string) {
+  const users = uses.get(name) ?? []
+  if (!users.includes(user)) users.push(user)
+  uses.set(name, users)
+}
+
+/**
+ * Check whether a project can move to another platform
+ *
+ * @param project - Project to move
+ * @param targetPlatformId - Platform the project would move to
+ * @returns Every reference the target platform cannot satisfy
+ */
+export async function checkPlatformCompatibility(
+  project: ScribeProject,
+  targetPlatformId: string
+): Promise<PlatformCompatibilityReport> {
+  const [records, source, target] = await Promise.all([
+    loadProjectRecords(project.id),
+    loadPlatformRecords(project.platformId),
+    loadPlatformRecords(targetPlatformId)
+  ])
+  const gaps: PlatformGap[] = []
+
+  // Instruction set: the project's code was disassembled with the current platform's opcodes
+  const targetGroups = new Set<string>(target.instructionGroups.map(group => group.name))
+  const targetModes = new Map<string, any>(target.addressingModes.map(mode => [mode.code, mode]))
+  const targetCodes = new Map<number, any>(target.instructionCodes.map(code => [code.code, code]))
+  const formatOpcode = (code: number) => `0x${code.toString(16).toUpperCase().padStart(2, '0')}`
+
+  const groupUses = new Map<string, string[]>()
+  const modeUses = new Map<string, string[]>()
+  for (const code of source.instructionCodes) {
+    if (code.group) addUse(groupUses, code.group, `Opcode ${formatOpcode(code.code)}`)
+    if (code.mode) addUse(modeUses, code.mode, `Opcode ${formatOpcode(code.code)}`)
+  }
+  if (records.cops.length > 0) {
+    for (const cop of records.cops) addUse(groupUses, COP_GROUP, `COP ${cop.mnemonic}`)
+  }
+
+  const missingGroups = new Set<string>()
+  const missingModes = new Set<string>()
+  for (const [name, usedBy] of groupUses) {
+    if (!targetGroups.has(name)) {
+      missingGroups.add(name)
+      gaps.push({ kind: 'instructionGroup', name, detail: 'Instruction group is missing', usedBy })
+    }
+  }
+
+  for (const mode of source.addressingModes) {
+    const usedBy = modeUses.get(mode.code)
+    if (!usedBy) continue
+    const targetMode = targetModes.get(mode.code)
+    if (!targetMode) {
+      missingModes.add(mode.code)
+      gaps.push({ kind: 'addressingMode', name: mode.code, detail: `Addressing mode ${mode.name} is missing`, usedBy })
+    } else if (targetMode.size !== mode.size) {
+      gaps.push({ kind: 'addressingMode', name: mode.code, detail: `Operand size is ${targetMode.size} instead of ${mode.size}`, usedBy })
+    }
+  }
+
+  // Opcodes of missing groups and modes are already covered above
+  for (const code of source.instructionCodes) {
+    if (missingGroups.has(code.group) || missingModes.has(code.mode)) continue
+    const targetCode = targetCodes.get(code.code)
+    const name = formatOpcode(code.code)
+    if (!targetCode) {
+      gaps.push({ kind: 'instructionCode', name, detail: `Opcode for ${code.group} ${code.mode} is missing`, usedBy: [] })
+    } else if (targetCode.group !== code.group || targetCode.mode !== code.mode) {
+      gaps.push({ kind: 'instructionCode', name, detail: `Decodes as ${targetCode.group} ${targetCode.mode} instead of ${code.group} ${code.mode}`, usedBy: [] })
+    }
+  }
+
+  // Types: structs and string types can also be referenced by name
+  const projectTypes = new Set<string>([
+    ...records.structs.map(struct => struct.name),
+    ...records.stringTypes.map(stringType => stringType.name)
+  ])
+  const targetTypes = new Set<string>(target.types.map(type => type.name))
+  const pointerChars = new Set<string>([...source.types, ...target.types]
+    .map(type => type.pointerChar)
+    .filter((char): char is string => !!char))
+  const stringTypeNames = new Map<string, string>(records.stringTypes.map(stringType => [stringType.id, stringType.name]))
+
+  const typeUses = new Map<string, string[]>()
+  const addTypeUse = (type: string, user: string) => {
+    // Pointer references are written with the platform's pointer prefix
+    let name = type.trim()
+    while (name.length > 1 && pointerChars.has(name[0])) name = name.slice(1)
+    if (name && !projectTypes.has(name)) addUse(typeUses, name, user)
+  }
+  for (const struct of records.structs) {
+    for (const type of struct.types || []) addTypeUse(type, `Struct ${struct.name}`)
+  }
+  for (const command of records.stringCommands) {
+    const typeName = stringTypeNames.get(command.stringTypeId) ?? command.stringTypeId
+    for (const type of command.types || []) addTypeUse(type, `String command ${typeName}.${command.mnemonic}`)
+  }
+  for (const cop of records.cops) {
+    for (const part of cop.parts || []) addTypeUse(part, `COP ${cop.mnemonic}`)
+  }
+
+  for (const [name, usedBy] of typeUses) {
+    if (!targetTypes.has(name)) {
+      gaps.push({ kind: 'type', name, detail: 'Type is missing', usedBy })
+    }
+  }
+
+  return {
+    sourcePlatformId: project.platformId,
+    targetPlatformId,
+    gaps,
+    checked: {
+      instructionGroup: groupUses.size,
+      addressingMode: modeUses.size,
+      instructionCode: source.instructionCodes.length,
+      type: typeUses.size
+    }
+  }
+}
+
+/**
+ * Move a project to another platform
+ *
+ * @param project - Project to move
+ * @param report - Compatibility report for the target platform
+ * @param userId - User moving the project
+ * @param acceptGaps - Move even though the report lists gaps
+ * @returns The updated project
+ */
+export async function migrateProjectPlatform(
+  project: ScribeProject,
+  report: PlatformCompatibilityReport,
+  userId: string,
+  acceptGaps = false
+): Promise<ScribeProject> {
+  if (report.sourcePlatformId !== project.platformId) {
+    throw new Error('The project platform changed since the compatibility check; check again')
+  }
+  if (report.gaps.length > 0 && !acceptGaps) {
+    throw new Error(`The target platform has ${report.gaps.length} compatibility gaps`)
+  }
+
+  const meta = project.meta && typeof project.meta === 'object' && !Array.isArray(project.meta)
+    ? project.meta as Record<string, any>
+    : {}
+  const previousPlatforms = Array.isArray(meta.previousPlatforms) ? meta.previousPlatforms : []
+
+  const { data: updated, error } = await db.projects.update(project.id, {
+    platformId: report.targetPlatformId,
+    meta: {
+      ...meta,
+      previousPlatforms: [
+        ...previousPlatforms,
+        { platformId: project.platformId, migratedAt: new Date().toISOString(), migratedBy: userId, gaps: report.gaps.length }
+      ]
+    }
+  }, userId)
+  if (error || !updated) throw new Error(`Failed to move project: ${error?.message || 'Unknown error'}`)
+
+  return updated
+}
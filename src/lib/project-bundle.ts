@@ -0,0 +1,126 @@
+/**
+ * Local Project Bundles
+ *
+ * Reads GaiaLabs project data kept outside the external database, either as a
+ * single JSON document holding every section (including a full GameRomBranch
+ * export) or as a ZIP with one JSON file per section (coplib.json,
+ * files.json, blocks.json, ...).
+ */
+
+import { strFromU8, unzipSync } from 'fflate'
+import { PROJECT_BUNDLE_SECTIONS, type ProjectBundle } from './data-converter'
+
+type BundleSection = typeof PROJECT_BUNDLE_SECTIONS[number]
+
+export interface ParsedProjectBundle {
+  bundle: ProjectBundle
+  /** Sections found in the bundle */
+  sections: BundleSection[]
+  /** Suggested project name taken from the bundle */
+  name: string
+}
+
+function isSection(key: string): key is BundleSection {
+  return (PROJECT_BUNDLE_SECTIONS as readonly string[]).includes(key)
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text)
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Pick the known sections out of an all-in-one JSON document
+ */
+function readSections(document: unknown, source: string): ProjectBundle {
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`${source} must contain a JSON object`)
+  }
+
+  // Full external exports nest the sections under the GameRomBranch
+  const nested = (document as Record<string, unknown>).gameRomBranch
+  if (nested && typeof nested === 'object' && !Array.isArray(nested)) {
+    return readSections(nested, source)
+  }
+
+  const bundle: ProjectBundle = {}
+  for (const [key, value] of Object.entries(document)) {
+    if (isSection(key)) bundle[key] = value
+  }
+  return bundle
+}
+
+function getBaseName(path: string): string {
+  const segments = path.split('/')
+  return segments[segments.length - 1]
+}
+
+function stripExtension(fileName: string): string {
+  return fileName.replace(/\.[^.]+$/, '')
+}
+
+/**
+ * Read a ZIP bundle: per-section files, or one JSON document with every section
+ */
+function readZipBundle(data: Uint8Array, fileName: string): ProjectBundle {
+  let entries: Record<string, Uint8Array>
+  try {
+    entries = unzipSync(data)
+  } catch (error) {
+    throw new Error(`${fileName} is not a valid ZIP archive: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const jsonPaths = Object.keys(entries)
+    .filter(path => !path.endsWith('/') && !path.startsWith('__MACOSX/') && path.toLowerCase().endsWith('.json'))
+
+  const bundle: ProjectBundle = {}
+  const sources = new Map<BundleSection, string>()
+  for (const path of jsonPaths) {
+    const section = stripExtension(getBaseName(path)).toLowerCase()
+    if (!isSection(section)) continue
+
+    const existing = sources.get(section)
+    if (existing) {
+      throw new Error(`Bundle contains more than one ${section}.json (${existing} and ${path})`)
+    }
+    sources.set(section, path)
+    bundle[section] = parseJson(strFromU8(entries[path]), path)
+  }
+
+  if (sources.size > 0) return bundle
+
+  // No per-section files; fall back to a single document
+  if (jsonPaths.length === 1) {
+    return readSections(parseJson(strFromU8(entries[jsonPaths[0]]), jsonPaths[0]), jsonPaths[0])
+  }
+
+  throw new Error(`${fileName} does not contain any project sections (${PROJECT_BUNDLE_SECTIONS.join(', ')})`)
+}
+
+/**
+ * Parse a local project bundle from a .json or .zip file
+ *
+ * @param fileName - Name of the uploaded file; its extension selects the format
+ * @param data - Raw file contents
+ * @returns The project sections and a suggested project name
+ */
+export function parseProjectBundle(fileName: string, data: Uint8Array): ParsedProjectBundle {
+  const isZip = fileName.toLowerCase().endsWith('.zip') || (data[0] === 0x50 && data[1] === 0x4B)
+  const bundle = isZip
+    ? readZipBundle(data, fileName)
+    : readSections(parseJson(strFromU8(data), fileName), fileName)
+
+  const sections = PROJECT_BUNDLE_SECTIONS.filter(section => bundle[section] !== undefined)
+  if (sections.length === 0) {
+    throw new Error(`${fileName} does not contain any project sections (${PROJECT_BUNDLE_SECTIONS.join(', ')})`)
+  }
+
+  return {
+    bundle,
+    sections,
+    name: stripExtension(getBaseName(fileName))
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Project Comparison
+ *
+ * Lines up two projects built on the same GameRomBranch record by record and
+ * cherry-picks selected differences from one into the other. Matching and
+ * applying use the same natural keys as upstream sync and snapshots.
+ */
+
+import type { ScribeProject } from '@prisma/client'
+import { db } from '../services/supabase'
+import { loadProjectRecords } from './external-export'
+import { canEditProject } from './permissions'
+import { applyProjectChanges, diffProjectRecords, type ApplyChangesResult, type ProjectDiff, type RecordChange } from './project-diff'
+
+export interface ProjectComparison {
+  /** Project that selected changes are applied to */
+  target: ScribeProject
+  /** Project the changes are taken from */
+  source: ScribeProject
+  diff: ProjectDiff
+}
+
+/**
+ * Other visible projects built on the same GameRomBranch
+ */
+export async function getComparableProjects(project: ScribeProject): Promise<ScribeProject[]> {
+  if (!project.gameRomBranchId) return []
+
+  const { data, error } = await db.projects.getByGameRomBranch(project.gameRomBranchId)
+  if (error) throw new Error(`Failed to load projects: ${error.message}`)
+
+  return (data || []).filter(other => other.id !== project.id)
+}
+
+/**
+ * Compare two projects
+ *
+ * @param target - Project changes would be applied to
+ * @param source - Project changes would be taken from
+ * @returns Changes that would turn the target's records into the source's
+ */
+export async function compareProjects(target: ScribeProject, source: ScribeProject): Promise<ProjectComparison> {
+  if (!target.gameRomBranchId || target.gameRomBranchId !== source.gameRomBranchId) {
+    throw new Error('Only projects built on the same GameRomBranch can be compared')
+  }
+
+  const [targetRecords, sourceRecords] = await Promise.all([
+    loadProjectRecords(target.id),
+    loadProjectRecords(source.id)
+  ])
+
+  return { target, source, diff: diffProjectRecords(targetRecords, sourceRecords) }
+}
+
+/**
+ * Apply selected changes from the source project to the target project
+ *
+ * @param comparison - Comparison the changes were taken from
+ * @param selected - Changes to apply
+ * @param userId - User applying the changes
+ */
+export async function cherryPickChanges(
+  comparison: ProjectComparison,
+  selected: RecordChange[],
+  userId: string
+): Promise<ApplyChangesResult> {
+  const permission = await canEditProject(comparison.target.id)
+  if (!permission.allowed) {
+    throw new Error(`You do not have permission to edit ${comparison.target.name}`)
+  }
+
+  return applyProjectChanges(comparison.target.id, comparison.diff, selected, userId)
+}
@@ -0,0 +1,347 @@
+/**
+ * Project Record Diff
+ *
+ * Compares the records of a project against another set of project records
+ * (an upstream branch, a snapshot, another project) table by table, and
+ * applies a chosen subset of the differences back to the project.
+ *
+ * Records are matched on natural keys rather than IDs, since the two sides
+ * never share IDs: COPs by code; files, blocks, mnemonics, string types and
+ * structs by name; block parts and transforms by block name plus their own
+ * name or pattern; string commands by string type plus mnemonic; labels,
+ * overrides and rewrites by ROM location.
+ */
+
+import { createId } from '@paralleldrive/cuid2'
+import { supabase } from './supabase'
+
+export type RecordTable =
+  | 'cops'
+  | 'files'
+  | 'blocks'
+  | 'blockTransforms'
+  | 'blockParts'
+  | 'labels'
+  | 'mnemonics'
+  | 'overrides'
+  | 'rewrites'
+  | 'stringTypes'
+  | 'stringCommands'
+  | 'structs'
+
+type ParentTable = 'blocks' | 'stringTypes'
+
+interface RecordTableConfig {
+  table: RecordTable
+  name: string
+  dbTable: string
+  /** Columns compared and written when applying changes */
+  fields: string[]
+  /** Parent table for child records; top-level records belong to the project */
+  parent?: ParentTable
+  parentColumn?: string
+  key: (record: any) => string
+}
+
+const hexKey = (location: number) => `0x${location.toString(16).toUpperCase().padStart(6, '0')}`
+const copKey = (code: number) => `0x${code.toString(16).toUpperCase().padStart(2, '0')}`
+
+/**
+ * Tables in dependency order: parents come before their children
+ */
+export const RECORD_TABLES: RecordTableConfig[] = [
+  { table: 'cops', name: 'COPs', dbTable: 'Cop', fields: ['mnemonic', 'parts', 'halt'], key: r => copKey(r.code) },
+  { table: 'files', name: 'Files', dbTable: 'File', fields: ['location', 'size', 'type', 'group', 'scene', 'compressed', 'upper', 'meta'], key: r => r.name },
+  { table: 'blocks', name: 'Blocks', dbTable: 'Block', fields: ['movable', 'group', 'scene', 'postProcess', 'meta'], key: r => r.name },
+  { table: 'blockTransforms', name: 'Block Transforms', dbTable: 'BlockTransform', fields: ['replacement'], parent: 'blocks', parentColumn: 'blockId', key: r => r.regex },
+  { table: 'blockParts', name: 'Block Parts', dbTable: 'BlockPart', fields: ['location', 'size', 'type', 'index'], parent: 'blocks', parentColumn: 'blockId', key: r => r.name },
+  { table: 'labels', name: 'Labels', dbTable: 'Label', fields: ['label'], key: r => hexKey(r.location) },
+  { table: 'mnemonics', name: 'Mnemonics', dbTable: 'GameMnemonic', fields: ['address', 'meta'], key: r => r.mnemonic },
+  { table: 'overrides', name: 'Overrides', dbTable: 'Override', fields: ['register', 'value'], key: r => hexKey(r.location) },
+  { table: 'rewrites', name: 'Rewrites', dbTable: 'Rewrite', fields: ['value'], key: r => hexKey(r.location) },
+  { table: 'stringTypes', name: 'String Types', dbTable: 'StringType', fields: ['delimiter', 'shiftType', 'terminator', 'greedy', 'characterMap', 'meta'], key: r => r.name },
+  { table: 'stringCommands', name: 'String Commands', dbTable: 'StringCommand', fields: ['code', 'halt', 'types', 'parts', 'delimiter', 'meta'], parent: 'stringTypes', parentColumn: 'stringTypeId', key: r => r.mnemonic },
+  { table: 'structs', name: 'Structs', dbTable: 'Struct', fields: ['types', 'delimiter', 'discriminator', 'parent', 'parts', 'meta'], key: r => r.name }
+]
+
+/** Columns that make up a record's natural key, restored when inserting */
+const KEY_FIELDS: Record<RecordTable, string[]> = {
+  cops: ['code'],
+  files: ['name'],
+  blocks: ['name'],
+  blockTransforms: ['regex'],
+  blockParts: ['name'],
+  labels: ['location'],
+  mnemonics: ['mnemonic'],
+  overrides: ['location'],
+  rewrites: ['location'],
+  stringTypes: ['name'],
+  stringCommands: ['mnemonic'],
+  structs: ['name']
+}
+
+const BOOLEAN_FIELDS = new Set(['halt', 'greedy', 'movable', 'compressed', 'upper'])
+
+/**
+ * Records of a project in either database form (with IDs and foreign keys) or
+ * converter form (InternalProjectData, where children reference parent objects)
+ */
+export type ProjectRecordSource = Record<RecordTable, any[]>
+
+/**
+ * A record reduced to its natural key and compared values
+ */
+export interface RecordRow {
+  key: string
+  /** Natural key of the parent block or string type */
+  parentKey?: string
+  values: Record<string, unknown>
+  /** Database ID, only set for records of the project being changed */
+  id?: string
+}
+
+export type ChangeKind = 'added' | 'changed' | 'removed'
+
+/**
+ * One record that differs between the project and the incoming records
+ */
+export interface RecordChange<TTable extends string = RecordTable> {
+  /** Unique within a diff: table plus full key */
+  id: string
+  table: TTable
+  /** Display key, including the parent key for child records */
+  key: string
+  kind: ChangeKind
+  local?: RecordRow
+  incoming?: RecordRow
+  /** Fields whose values differ, for changed records */
+  fields: string[]
+}
+
+export interface ProjectDiff {
+  changes: RecordChange[]
+  /** IDs of the project's existing parents, used to attach new children */
+  parentIds: Record<ParentTable, Record<string, string>>
+}
+
+export interface ApplyChangesResult {
+  applied: number
+  /** Changes that could not be applied, with the reason */
+  skipped: string[]
+}
+
+/**
+ * Stable JSON encoding used to compare values regardless of key order
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value ?? null)
+}
+
+function normalizeValue(field: string, value: unknown): unknown {
+  if (value === undefined || value === null) return BOOLEAN_FIELDS.has(field) ? false : null
+  return value
+}
+
+/**
+ * Reduce a project's records to keyed rows per table
+ */
+export function indexProjectRecords(records: ProjectRecordSource): Record<RecordTable, Map<string, RecordRow>> {
+  const blockNames = new Map<string, string>((records.blocks || []).map(block => [block.id, block.name]))
+  const stringTypeNames = new Map<string, string>((records.stringTypes || []).map(type => [type.id, type.name]))
+  const parentName = (config: RecordTableConfig, record: any): string | undefined => {
+    if (config.parent === 'blocks') return record.block?.name ?? blockNames.get(record.blockId)
+    if (config.parent === 'stringTypes') return stringTypeNames.get(record.stringTypeId)
+    return undefined
+  }
+
+  const index = {} as Record<RecordTable, Map<string, RecordRow>>
+  for (const config of RECORD_TABLES) {
+    const rows = new Map<string, RecordRow>()
+    for (const record of records[config.table] || []) {
+      const parentKey = parentName(config, record)
+      if (config.parent && parentKey === undefined) continue
+
+      const baseKey = parentKey !== undefined ? `${parentKey}/${config.key(record)}` : config.key(record)
+      // Disambiguate duplicate keys by occurrence
+      let key = baseKey
+      for (let n = 2; rows.has(key); n++) key = `${baseKey}#${n}`
+
+      const values: Record<string, unknown> = {}
+      for (const field of [...KEY_FIELDS[config.table], ...config.fields]) {
+        values[field] = normalizeValue(field, record[field])
+      }
+      rows.set(key, { key, parentKey, values, id: record.id })
+    }
+    index[config.table] = rows
+  }
+  return index
+}
+
+/**
+ * Compare the keyed rows of one table
+ *
+ * @param table - Table the rows belong to
+ * @param fields - Fields compared for rows present on both sides
+ * @param localRows - Rows currently stored
+ * @param incomingRows - Rows to compare against
+ */
+export function diffRecordRows<TTable extends string>(
+  table: TTable,
+  fields: string[],
+  localRows: Map<string, RecordRow>,
+  incomingRows: Map<string, RecordRow>
+): RecordChange<TTable>[] {
+  const changes: RecordChange<TTable>[] = []
+
+  for (const [key, incomingRow] of incomingRows) {
+    const localRow = localRows.get(key)
+    if (!localRow) {
+      changes.push({ id: `${table}:${key}`, table, key, kind: 'added', incoming: incomingRow, fields: [] })
+      continue
+    }
+
+    const changedFields = fields.filter(field =>
+      stableStringify(localRow.values[field]) !== stableStringify(incomingRow.values[field])
+    )
+    if (changedFields.length > 0) {
+      changes.push({ id: `${table}:${key}`, table, key, kind: 'changed', local: localRow, incoming: incomingRow, fields: changedFields })
+    }
+  }
+
+  for (const [key, localRow] of localRows) {
+    if (!incomingRows.has(key)) {
+      changes.push({ id: `${table}:${key}`, table, key, kind: 'removed', local: localRow, fields: [] })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Compare the project's records with incoming records
+ *
+ * @param local - Records currently in the project, as loaded from the database
+ * @param incoming - Records to compare against
+ * @returns Per-record changes that would turn the local records into the incoming ones
+ */
+export function diffProjectRecords(local: ProjectRecordSource, incoming: ProjectRecordSource): ProjectDiff {
+  const localIndex = indexProjectRecords(local)
+  const incomingIndex = indexProjectRecords(incoming)
+  const changes = RECORD_TABLES.flatMap(config =>
+    diffRecordRows(config.table, config.fields, localIndex[config.table], incomingIndex[config.table])
+  )
+
+  const parentIds = { blocks: {}, stringTypes: {} } as ProjectDiff['parentIds']
+  for (const table of ['blocks', 'stringTypes'] as ParentTable[]) {
+    for (const row of localIndex[table].values()) {
+      if (row.id) parentIds[table][row.key] = row.id
+    }
+  }
+
+  return { changes, parentIds }
+}
+
+/**
+ * Count changes per table and kind
+ */
+export function summarizeChanges(changes: RecordChange[]): Partial<Record<RecordTable, Record<ChangeKind, number>>> {
+  const summary: Partial<Record<RecordTable, Record<ChangeKind, number>>> = {}
+  for (const change of changes) {
+    const counts = summary[change.table] ?? (summary[change.table] = { added: 0, changed: 0, removed: 0 })
+    counts[change.kind]++
+  }
+  return summary
+}
+
+export function getRecordTableName(table: RecordTable): string {
+  return RECORD_TABLES.find(config => config.table === table)?.name ?? table
+}
+
+/**
+ * Apply selected changes to a project
+ *
+ * Additions and updates run parents first so new children can be attached to
+ * new blocks and string types; removals run children first. A child whose
+ * parent does not exist in the project is skipped.
+ *
+ * @param projectId - Project being changed
+ * @param diff - Diff the changes were taken from
+ * @param selected - Changes to apply
+ * @param userId - User applying the changes
+ */
+export async function applyProjectChanges(
+  projectId: string,
+  diff: ProjectDiff,
+  selected: RecordChange[],
+  userId: string
+): Promise<ApplyChangesResult> {
+  const parentIds = {
+    blocks: { ...diff.parentIds.blocks },
+    stringTypes: { ...diff.parentIds.stringTypes }
+  }
+  const result: ApplyChangesResult = { applied: 0, skipped: [] }
+
+  for (const config of RECORD_TABLES) {
+    const tableChanges = selected.filter(change => change.table === config.table)
+
+    // Additions
+    const inserts: Record<string, unknown>[] = []
+    for (const change of tableChanges.filter(x => x.kind === 'added' && x.incoming)) {
+      const row = change.incoming as RecordRow
+      const record: Record<string, unknown> = { id: createId(), ...row.values, createdBy: userId }
+      if (config.parent && config.parentColumn) {
+        const parentId = parentIds[config.parent][row.parentKey ?? '']
+        if (!parentId) {
+          result.skipped.push(`${config.name} ${change.key}: ${row.parentKey} does not exist in the project`)
+          continue
+        }
+        record[config.parentColumn] = parentId
+      } else {
+        record.projectId = projectId
+      }
+      if (config.table === 'blocks' || config.table === 'stringTypes') {
+        parentIds[config.table][row.key] = record.id as string
+      }
+      inserts.push(record)
+    }
+    if (inserts.length > 0) {
+      const { error } = await (supabase as any).from(config.dbTable).insert(inserts)
+      if (error) throw new Error(`Failed to add ${config.name.toLowerCase()}: ${error.message}`)
+      result.applied += inserts.length
+    }
+
+    // Updates
+    for (const change of tableChanges.filter(x => x.kind === 'changed' && x.local?.id && x.incoming)) {
+      const updates: Record<string, unknown> = { updatedBy: userId }
+      for (const field of change.fields) updates[field] = change.incoming?.values[field]
+
+      const { error } = await (supabase as any).from(config.dbTable).update(updates).eq('id', change.local?.id)
+      if (error) throw new Error(`Failed to update ${config.name.toLowerCase()} ${change.key}: ${error.message}`)
+      result.applied++
+    }
+  }
+
+  // Removals, children before parents
+  for (const config of [...RECORD_TABLES].reverse()) {
+    const ids = selected
+      .filter(change => change.table === config.table && change.kind === 'removed' && change.local?.id)
+      .map(change => change.local?.id as string)
+    if (ids.length === 0) continue
+
+    const { error } = await (supabase as any)
+      .from(config.dbTable)
+      .update({ deletedAt: new Date().toISOString(), deletedBy: userId })
+      .in('id', ids)
+    if (error) throw new Error(`Failed to remove ${config.name.toLowerCase()}: ${error.message}`)
+    result.applied += ids.length
+  }
+
+  return result
+}
@@ -0,0 +1,165 @@
+/**
+ * Project Fork
+ *
+ * Deep-copies a project and all of its child records under the current user,
+ * so it can be experimented on without touching the original. Block artifacts
+ * are copied with their blocks; artifact versions belong to the source
+ * project's build runs and are left behind.
+ */
+
+import { createId } from '@paralleldrive/cuid2'
+import type { Prisma, ScribeProject } from '@prisma/client'
+import { supabase } from './supabase'
+import { db } from '../services/supabase'
+import { loadProjectRecords } from './external-export'
+import { RECORD_TABLES } from './project-diff'
+
+/**
+ * Source project recorded in a fork's meta
+ */
+export interface ForkSource {
+  projectId: string
+  projectName: string
+  forkedAt: string
+}
+
+export type ForkProgressCallback = (step: string, progress: number, total: number) => void
+
+/** Columns never copied: identity, ownership, audit fields and joined parents */
+const OMITTED_COLUMNS = new Set([
+  'id', 'projectId', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'deletedAt', 'deletedBy', 'block', 'stringType'
+])
+
+/**
+ * Meta keys about the source project's own history (upstream sync and
+ * publishes, platform migrations) that do not describe the fork
+ */
+const SOURCE_HISTORY_META_KEYS = ['upstream', 'publishedVersions', 'lastSyncedAt', 'previousPlatforms', 'forkedFrom']
+
+function copyColumns(record: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(record).filter(([column]) => !OMITTED_COLUMNS.has(column)))
+}
+
+/**
+ * Project a fork was created from, if any
+ */
+export function getForkSource(project: ScribeProject): ForkSource | null {
+  const meta = project.meta as Record<string, any> | null
+  return meta?.forkedFrom ?? null
+}
+
+/**
+ * Fork a project under the given user
+ *
+ * Records are inserted parents first with fresh IDs. If any insert fails, the
+ * records created so far are soft-deleted again before the error is thrown.
+ *
+ * @param source - Project to copy
+ * @param name - Name of the new project
+ * @param userId - User who will own the fork
+ * @param onProgress - Optional progress callback
+ * @returns The new project
+ */
+export async function forkProject(
+  source: ScribeProject,
+  name: string,
+  userId: string,
+  onProgress?: ForkProgressCallback
+): Promise<ScribeProject> {
+  const total = RECORD_TABLES.length + 3
+  onProgress?.('Loading project records...', 1, total)
+
+  const { data: existing } = await db.projects.getByName(name)
+  if (existing && existing.length > 0) throw new Error(`A project with the name "${name}" already exists`)
+
+  const records = await loadProjectRecords(source.id)
+  const { data: artifacts, error: artifactsError } = await db.blockArtifacts.getByProject(source.id)
+  if (artifactsError) throw new Error(`Failed to load block artifacts: ${artifactsError.message}`)
+
+  onProgress?.('Creating project...', 2, total)
+
+  const sourceMeta = source.meta && typeof source.meta === 'object' && !Array.isArray(source.meta)
+    ? source.meta as Prisma.JsonObject
+    : {}
+  const forkedFrom: ForkSource = { projectId: source.id, projectName: source.name, forkedAt: new Date().toISOString() }
+  const meta: Prisma.InputJsonValue = {
+    ...Object.fromEntries(Object.entries(sourceMeta).filter(([key]) => !SOURCE_HISTORY_META_KEYS.includes(key))),
+    forkedFrom: { ...forkedFrom }
+  }
+  const { data: project, error: createError } = await db.projects.create({
+    id: createId(),
+    name,
+    isPublic: false,
+    gameRomBranchId: source.gameRomBranchId,
+    platformId: source.platformId,
+    meta
+  }, userId)
+  if (createError || !project) throw new Error(`Failed to create project: ${createError?.message || 'Unknown error'}`)
+
+  // IDs inserted per table, for rollback
+  const created: { dbTable: string; ids: string[] }[] = []
+  const parentIds: Record<string, Map<string, string>> = { blocks: new Map(), stringTypes: new Map() }
+
+  try {
+    let step = 3
+    for (const config of RECORD_TABLES) {
+      onProgress?.(`Copying ${config.name.toLowerCase()}...`, step++, total)
+
+      const rows: Record<string, unknown>[] = []
+      for (const record of records[config.table] as Record<string, any>[]) {
+        const row: Record<string, unknown> = { id: createId(), ...copyColumns(record), createdBy: userId }
+        if (config.parent && config.parentColumn) {
+          const parentId = parentIds[config.parent].get(record[config.parentColumn])
+          if (!parentId) continue
+          row[config.parentColumn] = parentId
+        } else {
+          row.projectId = project.id
+        }
+        if (config.table === 'blocks' || config.table === 'stringTypes') {
+          parentIds[config.table].set(record.id, row.id as string)
+        }
+        rows.push(row)
+      }
+      if (rows.length === 0) continue
+
+      const { error } = await (supabase as any).from(config.dbTable).insert(rows)
+      if (error) throw new Error(`Failed to copy ${config.name.toLowerCase()}: ${error.message}`)
+      created.push({ dbTable: config.dbTable, ids: rows.map(row => row.id as string) })
+    }
+
+    onProgress?.('Copying block artifacts...', step, total)
+
+    // Artifacts are keyed by their block
+    const artifactRows = (artifacts || [])
+      .filter(artifact => parentIds.blocks.has(artifact.blockId))
+      .map(artifact => ({
+        ...copyColumns(artifact as unknown as Record<string, unknown>),
+        blockId: parentIds.blocks.get(artifact.blockId),
+        createdBy: userId
+      }))
+    if (artifactRows.length > 0) {
+      const { error } = await (supabase as any).from('BlockArtifact').insert(artifactRows)
+      if (error) throw new Error(`Failed to copy block artifacts: ${error.message}`)
+    }
+  } catch (error) {
+    await rollbackFork(project.id, created, userId)
+    throw error
+  }
+
+  return project
+}
+
+/**
+ * Soft-delete the records of a failed fork, children first
+ */
+async function rollbackFork(projectId: string, created: { dbTable: string; ids: string[] }[], userId: string) {
+  const deleted = { deletedAt: new Date().toISOString(), deletedBy: userId }
+
+  for (const { dbTable, ids } of [...created].reverse()) {
+    const { error } = await (supabase as any).from(dbTable).update(deleted).in('id', ids)
+    if (error) console.error(`Failed to roll back ${dbTable}:`, error)
+  }
+
+  const { error } = await (supabase as any).from('ScribeProject').update(deleted).eq('id', projectId)
+  if (error) console.error('Failed to roll back forked project:', error)
+}
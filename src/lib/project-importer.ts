@@ -349,3 +349,59 @@ export function validateProjectData(projectData: InternalProjectData): string[]
   
   return errors
 }
+
+/**
+ * Find data problems that don't block an import but usually mean the source is broken
+ * 
+ * @param projectData - Project data to inspect
+ * @returns Array of warnings (empty if none were found)
+ */
+export function getProjectDataWarnings(projectData: InternalProjectData): string[] {
+  const warnings: string[] = []
+  const formatLocation = (location: number) => `0x${location.toString(16).toUpperCase()}`
+
+  // Labels sharing a location make the disassembly ambiguous
+  const labelsByLocation = new Map<number, string[]>()
+  projectData.labels.forEach(label => {
+    const names = labelsByLocation.get(label.location) ?? []
+    names.push(label.label)
+    labelsByLocation.set(label.location, names)
+  })
+  labelsByLocation.forEach((names, location) => {
+    if (names.length > 1) {
+      warnings.push(`Duplicate labels at ${formatLocation(location)}: ${names.join(', ')}`)
+    }
+  })
+
+  // String types sharing a delimiter can't be told apart when parsing
+  const typesByDelimiter = new Map<string, string[]>()
+  projectData.stringTypes.forEach(stringType => {
+    if (!stringType.delimiter) return
+    const names = typesByDelimiter.get(stringType.delimiter) ?? []
+    names.push(stringType.name)
+    typesByDelimiter.set(stringType.delimiter, names)
+  })
+  typesByDelimiter.forEach((names, delimiter) => {
+    if (names.length > 1) {
+      warnings.push(`String types share the delimiter "${delimiter}": ${names.join(', ')}`)
+    }
+  })
+
+  // Blocks without parts produce no output
+  const blocksWithParts = new Set<unknown>(projectData.blockParts.map((part: any) => part.block))
+  projectData.blocks.forEach(block => {
+    if (!blocksWithParts.has(block)) {
+      warnings.push(`Block ${block.name} has no parts`)
+    }
+  })
+
+  // Transforms must belong to one of the imported blocks
+  const blocks = new Set<unknown>(projectData.blocks)
+  projectData.blockTransforms.forEach((transform: any, index) => {
+    if (!transform.block || !blocks.has(transform.block)) {
+      warnings.push(`Block transform ${index} (${transform.regex}) does not belong to an imported block`)
+    }
+  })
+
+  return warnings
+}
@@ -7,7 +7,8 @@ import {
   Tag, 
   Edit, 
   MapPin, 
-  Settings 
+  Settings,
+  Hammer
 } from 'lucide-react'
 
 export interface ProjectSection {
@@ -16,6 +17,7 @@ export interface ProjectSection {
   icon: React.ReactNode
   description: string
   route: string
+  showCount?: boolean // Settings sections have no item count
 }
 
 export const PROJECT_SECTIONS: ProjectSection[] = [
@@ -81,6 +83,14 @@ export const PROJECT_SECTIONS: ProjectSection[] = [
     icon: <Settings className="h-6 w-6" />,
     description: 'Override register values at specific memory locations during execution.',
     route: 'overrides'
+  },
+  {
+    key: 'build-settings',
+    name: 'Build Settings',
+    icon: <Hammer className="h-6 w-6" />,
+    description: 'Configure compression, sound effect tables, accent maps and entry points used when building.',
+    route: 'build-settings',
+    showCount: false
   }
 ]
 
@@ -0,0 +1,172 @@
+/**
+ * Project Snapshots
+ *
+ * Named copies of every project-owned record and the project's meta, stored
+ * with the project so it can be compared against or rolled back to later.
+ * Restoring a snapshot first saves the current state as a restore point, so a
+ * restore can be undone by restoring that point. Block artifacts are build
+ * output and are not kept.
+ */
+
+import type { ScribeProject } from '@prisma/client'
+import { db } from '../services/supabase'
+import type { ProjectSnapshotSummary } from '../services/supabase/project-snapshots'
+import { loadProjectRecords } from './external-export'
+import { RECORD_TABLES, applyProjectChanges, diffProjectRecords, type ApplyChangesResult, type ProjectDiff, type ProjectRecordSource } from './project-diff'
+
+export type SnapshotKind = 'manual' | 'restore-point'
+
+export interface SnapshotRestoreResult {
+  /** Snapshot of the project as it was before the restore */
+  restorePoint: ProjectSnapshotSummary
+  result: ApplyChangesResult
+  /** Project with the snapshot's content meta restored */
+  project: ScribeProject
+}
+
+/**
+ * Meta keys that hold project content and are rolled back by a restore; the
+ * rest of meta tracks external facts (upstream branches, publishes, platform
+ * migrations, forks) and keeps its current value
+ */
+const RESTORED_META_KEYS = ['coplib', 'config', 'buildSettings']
+
+/**
+ * Stored snapshot contents: records by table plus the project row's meta,
+ * which snapshots saved before meta was kept do not have
+ */
+type SnapshotData = ProjectRecordSource & { project?: { meta: ScribeProject['meta'] } }
+
+/** Audit fields and joined parents; IDs stay so children can find their parents */
+const OMITTED_COLUMNS = new Set([
+  'projectId', 'createdAt', 'createdBy', 'updatedAt', 'updatedBy', 'deletedAt', 'deletedBy', 'block', 'stringType'
+])
+
+function toSnapshotData(project: ScribeProject, records: ProjectRecordSource): SnapshotData {
+  const data = { project: { meta: project.meta } } as SnapshotData
+  for (const config of RECORD_TABLES) {
+    data[config.table] = (records[config.table] || []).map((record: Record<string, unknown>) =>
+      Object.fromEntries(Object.entries(record).filter(([column]) => !OMITTED_COLUMNS.has(column)))
+    )
+  }
+  return data
+}
+
+async function saveSnapshot(
+  project: ScribeProject,
+  records: ProjectRecordSource,
+  name: string,
+  description: string | null,
+  kind: SnapshotKind,
+  userId: string
+): Promise<ProjectSnapshotSummary> {
+  const data = toSnapshotData(project, records)
+  const recordCount = RECORD_TABLES.reduce((count, config) => count + data[config.table].length, 0)
+
+  const { data: snapshot, error } = await db.projectSnapshots.create({
+    projectId: project.id,
+    name,
+    description,
+    kind,
+    data,
+    recordCount
+  }, userId)
+  if (error || !snapshot) throw new Error(`Failed to save snapshot: ${error?.message || 'Unknown error'}`)
+
+  return snapshot
+}
+
+async function loadSnapshotRecords(projectId: string, snapshotId: string) {
+  const { data: snapshot, error } = await db.projectSnapshots.getById(snapshotId)
+  if (error || !snapshot) throw new Error(`Failed to load snapshot: ${error?.message || 'Not found'}`)
+  if (snapshot.projectId !== projectId) throw new Error('Snapshot belongs to a different project')
+
+  return { snapshot, records: snapshot.data as SnapshotData }
+}
+
+/**
+ * Save the project's current records and meta as a named snapshot
+ *
+ * @param project - Project to snapshot
+ * @param name - Snapshot name
+ * @param userId - User taking the snapshot
+ * @param description - Optional note
+ */
+export async function createSnapshot(
+  project: ScribeProject,
+  name: string,
+  userId: string,
+  description: string | null = null
+): Promise<ProjectSnapshotSummary> {
+  const records = await loadProjectRecords(project.id)
+  return saveSnapshot(project, records, name, description, 'manual', userId)
+}
+
+/**
+ * Compare the project's current records with a snapshot
+ *
+ * @returns Changes that would turn the current records into the snapshot's
+ */
+export async function loadSnapshotDiff(project: ScribeProject, snapshotId: string): Promise<ProjectDiff> {
+  const [current, { records }] = await Promise.all([
+    loadProjectRecords(project.id),
+    loadSnapshotRecords(project.id, snapshotId)
+  ])
+  return diffProjectRecords(current, records)
+}
+
+/**
+ * Roll the project's records and content meta (COP library, config, build
+ * settings) back to a snapshot
+ *
+ * The current state is saved as a restore point before anything changes,
+ * so restoring that point undoes the restore.
+ *
+ * @param project - Project to restore
+ * @param snapshotId - Snapshot to restore
+ * @param userId - User restoring the snapshot
+ */
+export async function restoreSnapshot(
+  project: ScribeProject,
+  snapshotId: string,
+  userId: string
+): Promise<SnapshotRestoreResult> {
+  const [current, { snapshot, records }] = await Promise.all([
+    loadProjectRecords(project.id),
+    loadSnapshotRecords(project.id, snapshotId)
+  ])
+
+  const restorePoint = await saveSnapshot(
+    project,
+    current,
+    `Before restoring "${snapshot.name}"`,
+    null,
+    'restore-point',
+    userId
+  )
+
+  const diff = diffProjectRecords(current, records)
+  const result = await applyProjectChanges(project.id, diff, diff.changes, userId)
+
+  if (!records.project) return { restorePoint, result, project }
+
+  const snapshotMeta = (records.project.meta ?? {}) as Record<string, unknown>
+  const meta = { ...(project.meta as Record<string, unknown> | null) }
+  for (const key of RESTORED_META_KEYS) {
+    if (key in snapshotMeta) meta[key] = snapshotMeta[key]
+    else delete meta[key]
+  }
+
+  const { data: updated, error } = await db.projects.update(project.id, { meta: meta as ScribeProject['meta'] }, userId)
+  if (error || !updated) throw new Error(`Restored records but failed to restore project meta: ${error?.message || 'Unknown error'}`)
+
+  return { restorePoint, result, project: updated }
+}
+
+/**
+ * Delete a snapshot
+ */
+export async function deleteSnapshot(snapshotId: string, userId: string): Promise<void> {
+  const { error } = await db.projectSnapshots.delete(snapshotId, userId)
+  if (error) throw new Error(`Failed to delete snapshot: ${error.message}`)
+}
@@ -274,3 +274,64 @@ export function validateRomFile(file: File): Promise<{ isValid: boolean; error?:
     resolve({ isValid: true })
   })
 }
+
+/**
+ * Calculate the SNES internal checksum for a ROM image
+ *
+ * The checksum is the 16-bit sum of every byte in the image. Images whose size
+ * is not a power of two are summed as if the remainder were mirrored up to the
+ * next power of two, matching how the console (and emulators) validate it.
+ */
+export function calculateRomChecksum(data: Uint8Array): number {
+  if (data.length === 0) return 0
+
+  // Largest power of two that fits in the image
+  let base = 1
+  while (base * 2 <= data.length) base *= 2
+
+  let sum = 0
+  for (let i = 0; i < base; i++) {
+    sum += data[i]
+  }
+
+  // Mirror the remainder until it fills the same size as the base
+  const remainder = data.length - base
+  if (remainder > 0) {
+    let remainderSum = 0
+    for (let i = base; i < data.length; i++) {
+      remainderSum += data[i]
+    }
+    sum += remainderSum * (base / remainder)
+  }
+
+  return sum & 0xFFFF
+}
+
+/**
+ * Write a corrected checksum and complement into the ROM header
+ *
+ * The checksum fields are reset to their neutral values (0xFFFF complement,
+ * 0x0000 checksum) before summing so the result is stable across rebuilds.
+ *
+ * @returns The checksum that was written
+ */
+export function writeRomChecksum(data: Uint8Array, headerLocation: number): number {
+  if (headerLocation < 0 || headerLocation + 32 > data.length) {
+    throw new Error(`Invalid header location 0x${headerLocation.toString(16).toUpperCase()}`)
+  }
+
+  data[headerLocation + 0x1C] = 0xFF
+  data[headerLocation + 0x1D] = 0xFF
+  data[headerLocation + 0x1E] = 0x00
+  data[headerLocation + 0x1F] = 0x00
+
+  const checksum = calculateRomChecksum(data)
+  const complement = checksum ^ 0xFFFF
+
+  data[headerLocation + 0x1C] = complement & 0xFF
+  data[headerLocation + 0x1D] = (complement >> 8) & 0xFF
+  data[headerLocation + 0x1E] = checksum & 0xFF
+  data[headerLocation + 0x1F] = (checksum >> 8) & 0xFF
+
+  return checksum
+}
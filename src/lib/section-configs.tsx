@@ -367,6 +367,14 @@ export const structsColumns: ColumnDefinition<Struct>[] = [
     editable: true,
     type: 'textarea',
     render: (value) => Array.isArray(value) ? value.join(', ') : ''
+  },
+  {
+    key: 'actions',
+    label: 'Actions',
+    sortable: false,
+    editable: false,
+    width: '80px',
+    render: () => null // Will be handled by StructsDataTable
   }
 ]
 
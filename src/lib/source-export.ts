@@ -0,0 +1,278 @@
+/**
+ * Source Tree Export
+ *
+ * Bundles the generated assembly of every block and binary dumps of every
+ * project file into a ZIP laid out by group and scene, together with a main
+ * include file and a manifest describing where each chunk belongs in the ROM.
+ * Assembly is written in the project's configured export dialect.
+ */
+
+import { strToU8, zipSync, type Zippable } from 'fflate'
+import type { Block, BlockPart, File as PrismaFile, ScribeProject } from '@prisma/client'
+import { db } from '../services/supabase'
+import { CompressionRegistry } from '@gaialabs/shared'
+import { getBuildSettings } from './build-settings'
+import { sanitizeFileName } from './download-utils'
+import type { BuildProgressCallback } from './build-pipeline'
+import { parseRomHeader } from './rom-parser'
+import { createDialectContext, generateMainInclude, getDialectInfo, translateAsm, type AsmDialect } from './asm-dialects'
+
+export const MAIN_INCLUDE_NAME = 'main'
+export const MANIFEST_FILE = 'manifest.json'
+
+/**
+ * A chunk in the exported tree and how the toolchain should place it
+ */
+export interface SourceManifestEntry {
+  name: string
+  path: string
+  type: string
+  location: number | null
+  size?: number
+  movable?: boolean
+  compressed?: boolean
+  /** Bytes at the start of a compressed file's dump that are stored as-is ahead of the compressed data */
+  headerSize?: number
+  upper?: boolean
+}
+
+export interface SourceManifest {
+  project: string
+  exportedAt: string
+  dialect: AsmDialect
+  compression: string
+  entryPoints: Array<{ name: string; address: number }> | null
+  assembly: SourceManifestEntry[]
+  binaries: SourceManifestEntry[]
+}
+
+export interface SourceExportResult {
+  data: Uint8Array
+  fileName: string
+  assemblyCount: number
+  binaryCount: number
+  /** Blocks that have not been built yet and were left out */
+  missingArtifacts: string[]
+  /** Files that could not be extracted from the ROM */
+  errors: string[]
+  /** Constructs that could not be translated to the export dialect, and chunks renamed to avoid a path clash */
+  warnings: string[]
+}
+
+/**
+ * Folder for a chunk: group, then scene, each omitted when unset
+ */
+function getChunkFolder(group: string | null, scene: string | null): string {
+  return ['src', group, scene]
+    .filter((segment): segment is string => Boolean(segment && segment.trim()))
+    .map(segment => sanitizeFileName(segment, 'misc'))
+    .join('/')
+}
+
+/**
+ * Reserve a path for a chunk, numbering it when another chunk's name already
+ * sanitized to the same path
+ */
+function claimPath(used: Set<string>, folder: string, baseName: string, extension: string, warnings: string[], chunkName: string): string {
+  const preferred = `${folder}/${baseName}.${extension}`
+  let path = preferred
+  for (let n = 2; used.has(path.toLowerCase()); n++) {
+    path = `${folder}/${baseName}_${n}.${extension}`
+  }
+  if (path !== preferred) {
+    warnings.push(`${chunkName}: another chunk is already exported as ${preferred}; exported as ${path}`)
+  }
+  used.add(path.toLowerCase())
+  return path
+}
+
+/**
+ * Header bytes that precede the compressed data of a file type, as the ROM
+ * builder reads them
+ */
+const FILE_HEADER_SIZES: Record<string, number> = { Tilemap: 2, Meta17: 4 }
+
+/**
+ * Bytes to dump for a file
+ *
+ * Files not stored compressed are copied exactly as they sit in the ROM,
+ * header and length word included, so including them back at their location
+ * rebuilds the ROM. Compressed files are expanded so they can be edited, with
+ * their header kept ahead of the expanded data as createChunkFileFromDbFile
+ * lays it out.
+ */
+function extractFileDump(romData: Uint8Array, file: PrismaFile, compressionProvider: string): { data: Uint8Array; headerSize: number } {
+  if (file.compressed !== true) {
+    return { data: romData.slice(file.location, file.location + file.size), headerSize: 0 }
+  }
+
+  const compression = CompressionRegistry.get(compressionProvider)
+  if (!compression) throw new Error(`${compressionProvider} compression not available`)
+
+  const headerSize = FILE_HEADER_SIZES[file.type] ?? 0
+  const start = file.location + headerSize
+  const expanded = compression.expand(romData, start, Math.max(0, file.size - headerSize))
+  const data = new Uint8Array(headerSize + expanded.length)
+  data.set(romData.subarray(file.location, start))
+  data.set(expanded, headerSize)
+  return { data, headerSize }
+}
+
+/**
+ * Export the project's generated source tree as a ZIP archive
+ */
+export async function exportSourceTree(
+  project: ScribeProject,
+  romData: Uint8Array,
+  reportProgress?: BuildProgressCallback
+): Promise<SourceExportResult> {
+  const totalSteps = 4
+  const settings = getBuildSettings(project.meta)
+  const dialect = getDialectInfo(settings.dialect)
+  const { mapMode } = parseRomHeader(romData.slice().buffer)
+
+  reportProgress?.('Loading blocks and artifacts...', 1, totalSteps)
+  const [blocksResult, partsResult, artifactsResult, filesResult] = await Promise.all([
+    db.blocks.getByProject(project.id),
+    db.blockParts.getByProject(project.id),
+    db.blockArtifacts.getByProject(project.id),
+    db.files.getByProject(project.id)
+  ])
+  if (blocksResult.error) throw new Error(`Failed to load blocks: ${blocksResult.error.message}`)
+  if (partsResult.error) throw new Error(`Failed to load block parts: ${partsResult.error.message}`)
+  if (artifactsResult.error) throw new Error(`Failed to load artifacts: ${artifactsResult.error.message}`)
+  if (filesResult.error) throw new Error(`Failed to load files: ${filesResult.error.message}`)
+
+  const context = dialect.id === 'gaia' ? null : await loadDialectContext(project, mapMode)
+
+  const blocks: Block[] = blocksResult.data || []
+  const parts: BlockPart[] = partsResult.data || []
+  const files: PrismaFile[] = filesResult.data || []
+  const artifacts = new Map((artifactsResult.data || []).map(artifact => [artifact.blockId, artifact.content]))
+
+  const blockLocations = new Map<string, number>()
+  for (const part of parts) {
+    const current = blockLocations.get(part.blockId)
+    if (current === undefined || part.location < current) {
+      blockLocations.set(part.blockId, part.location)
+    }
+  }
+
+  const entries: Zippable = {}
+  // Paths compare case-insensitively, as they would once unpacked on most systems
+  const usedPaths = new Set<string>()
+  const result: SourceExportResult = {
+    data: new Uint8Array(0),
+    fileName: `${sanitizeFileName(project.name, 'project')}-source.zip`,
+    assemblyCount: 0,
+    binaryCount: 0,
+    missingArtifacts: [],
+    errors: [],
+    warnings: []
+  }
+
+  // Assembly sources
+  reportProgress?.('Collecting assembly sources...', 2, totalSteps)
+  const assembly: SourceManifestEntry[] = []
+  for (const block of blocks) {
+    const content = artifacts.get(block.id)
+    if (content === undefined) {
+      result.missingArtifacts.push(block.name)
+      continue
+    }
+
+    const path = claimPath(usedPaths, getChunkFolder(block.group, block.scene), sanitizeFileName(block.name, block.id), dialect.extension, result.warnings, block.name)
+    const location = blockLocations.get(block.id) ?? null
+    let text = content
+    if (context) {
+      const translation = translateAsm(content, dialect.id, context, {
+        blockName: block.name,
+        location: location ?? undefined,
+        movable: block.movable
+      })
+      text = translation.text
+      result.warnings.push(...translation.warnings)
+    }
+
+    entries[path] = strToU8(text)
+    assembly.push({
+      name: block.name,
+      path,
+      type: 'Assembly',
+      location,
+      movable: block.movable
+    })
+  }
+  assembly.sort((a, b) => (a.location ?? Infinity) - (b.location ?? Infinity))
+  result.assemblyCount = assembly.length
+
+  // Binary dumps of files; compressed files are expanded so they can be edited directly
+  reportProgress?.('Extracting binary files...', 3, totalSteps)
+  const binaries: SourceManifestEntry[] = []
+  for (const file of [...files].sort((a, b) => a.location - b.location)) {
+    try {
+      const { data, headerSize } = extractFileDump(romData, file, settings.compression)
+      const path = claimPath(usedPaths, getChunkFolder(file.group, file.scene), sanitizeFileName(file.name, file.id), 'bin', result.warnings, file.name)
+      entries[path] = data
+      binaries.push({
+        name: file.name,
+        path,
+        type: file.type,
+        location: file.location,
+        size: file.size,
+        compressed: file.compressed ?? undefined,
+        headerSize: headerSize || undefined,
+        upper: file.upper ?? undefined
+      })
+    } catch (error) {
+      result.errors.push(`${file.name}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+  result.binaryCount = binaries.length
+
+  // Main include file and manifest
+  reportProgress?.('Compressing archive...', 4, totalSteps)
+  const manifest: SourceManifest = {
+    project: project.name,
+    exportedAt: new Date().toISOString(),
+    dialect: dialect.id,
+    compression: settings.compression,
+    entryPoints: settings.entryPoints,
+    assembly,
+    binaries
+  }
+  const includes = [
+    ...assembly,
+    ...binaries.map(entry => ({ ...entry, binary: true }))
+  ].sort((a, b) => (a.location ?? Infinity) - (b.location ?? Infinity))
+  entries[`${MAIN_INCLUDE_NAME}.${dialect.extension}`] = strToU8(generateMainInclude(dialect.id, project.name, includes, mapMode))
+  entries[MANIFEST_FILE] = strToU8(JSON.stringify(manifest, null, 2))
+
+  result.data = zipSync(entries, { level: 6 })
+  return result
+}
+
+/**
+ * Load the instruction set, COPs and string types used to translate assembly
+ */
+async function loadDialectContext(project: ScribeProject, mapMode: ReturnType<typeof parseRomHeader>['mapMode']) {
+  const [addressingModes, instructionGroups, instructionCodes, cops, stringTypes, stringCommands] = await Promise.all([
+    db.addressingModes.getByPlatform(project.platformId),
+    db.instructionGroups.getByPlatform(project.platformId),
+    db.instructionCodes.getByPlatform(project.platformId),
+    db.cops.getByProject(project.id),
+    db.stringTypes.getByProject(project.id),
+    db.stringCommands.getByProject(project.id)
+  ])
+  const failed = [addressingModes, instructionGroups, instructionCodes, cops, stringTypes, stringCommands].find(x => x.error)
+  if (failed?.error) throw new Error(`Failed to load the instruction set: ${failed.error.message}`)
+
+  return createDialectContext({
+    addressingModes: addressingModes.data || [],
+    instructionGroups: instructionGroups.data || [],
+    instructionCodes: instructionCodes.data || [],
+    cops: cops.data || [],
+    stringTypes: stringTypes.data || [],
+    stringCommands: stringCommands.data || []
+  }, mapMode)
+}
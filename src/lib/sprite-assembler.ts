@@ -0,0 +1,469 @@
+/**
+ * Sprite Assembly
+ *
+ * Decodes sprite tables described by project structs and assembles their
+ * frames from OAM entries, the way the SNES PPU draws objects.
+ *
+ * A struct describes one entry of a table: its `types` give the size of each
+ * field and its `parts` name them. Block parts typed with the struct's name
+ * hold the tables; each part is one frame, and the parts of a block play in
+ * order as an animation. Entries are read to the end of the part, or until
+ * an entry starts with the struct's delimiter.
+ *
+ * Entry fields map onto the OAM attributes:
+ * - x, y: signed offsets from the sprite's origin
+ * - tile: tile number; a 16-bit tile field carries the attribute byte in its
+ *   high byte, as in OAM
+ * - attr: `vhoopppN` - flips, priority, palette row and the tile's high bit
+ * - size: nonzero for a large (16×16) object
+ */
+
+import type { BlockPart, File as PrismaFile, PlatformType, ScribeProject, Struct } from '@prisma/client'
+import { db } from '../services/supabase'
+import { TILE_DECODERS, isTileFormat, type TileFormat } from './tile-decoders'
+
+export type SpriteField = 'x' | 'y' | 'tile' | 'attr' | 'size'
+
+/**
+ * One field of a struct entry
+ */
+export interface StructField {
+  name: string
+  type: string
+  offset: number
+  size: number
+  signed: boolean
+}
+
+export interface SpriteOptions {
+  /** Struct field holding each OAM attribute; attr and size are optional */
+  fields: Record<SpriteField, string | null>
+  format: TileFormat
+  /** Graphics file the tile numbers index into */
+  graphics: string | null
+  palette: string | null
+  /** Palette row added to each entry's palette bits, e.g. 8 for a full CGRAM dump */
+  paletteBase: number
+  /** Milliseconds each frame is shown */
+  frameDelay: number
+}
+
+export interface SpriteEntry {
+  x: number
+  y: number
+  tile: number
+  palette: number
+  priority: number
+  hFlip: boolean
+  vFlip: boolean
+  large: boolean
+}
+
+export interface SpriteFrame {
+  name: string
+  location: number
+  entries: SpriteEntry[]
+}
+
+/**
+ * Parts of one block holding sprite tables, in playback order
+ */
+export interface SpriteSequence {
+  name: string
+  parts: BlockPart[]
+}
+
+export interface SpriteBounds {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
+export interface SpriteSources {
+  fields: StructField[]
+  sequences: SpriteSequence[]
+  graphicsFiles: PrismaFile[]
+  paletteFiles: PrismaFile[]
+}
+
+export const SPRITE_FIELDS: SpriteField[] = ['x', 'y', 'tile', 'attr', 'size']
+
+const DEFAULT_FRAME_DELAY = 150
+
+/** Normalized field names recognized for each attribute */
+const FIELD_NAMES: Record<SpriteField, string[]> = {
+  x: ['x', 'dx', 'xoffset', 'offsetx', 'xpos', 'posx'],
+  y: ['y', 'dy', 'yoffset', 'offsety', 'ypos', 'posy'],
+  tile: ['tile', 'tileid', 'tilenum', 'char', 'chr', 'character', 'name'],
+  attr: ['attr', 'attrs', 'attribute', 'attributes', 'flags', 'props', 'properties'],
+  size: ['size', 'large', 'big']
+}
+
+/**
+ * Lay out the fields of a struct entry
+ *
+ * Types are platform types, references written with a pointer type's prefix,
+ * or other structs, which take up their own entry size.
+ *
+ * @param struct - Struct describing one entry
+ * @param structs - All structs of the project, for nested structs
+ * @param types - Types of the project's platform
+ */
+export function getStructFields(struct: Struct, structs: Struct[], types: PlatformType[]): StructField[] {
+  const typesByName = new Map(types.map(type => [type.name, type]))
+  const pointerTypes = new Map(types.filter(type => type.pointerChar).map(type => [type.pointerChar as string, type]))
+  const structsByName = new Map(structs.map(x => [x.name, x]))
+
+  const getSize = (type: string, seen: Set<string>): { size: number; signed: boolean } => {
+    const name = type.trim()
+    const platformType = typesByName.get(name) ?? (name.length > 1 ? pointerTypes.get(name[0]) : undefined)
+    if (platformType) return { size: platformType.size, signed: platformType.isSigned }
+
+    const nested = structsByName.get(name)
+    if (nested) {
+      if (seen.has(name)) throw new Error(`Struct ${name} contains itself`)
+      const next = new Set(seen).add(name)
+      return { size: nested.types.reduce((size, x) => size + getSize(x, next).size, 0), signed: false }
+    }
+
+    throw new Error(`Unknown type "${name}" in struct ${struct.name}`)
+  }
+
+  let offset = 0
+  return struct.types.map((type, i) => {
+    const { size, signed } = getSize(type, new Set([struct.name]))
+    const field = { name: struct.parts[i]?.trim() || `field${i}`, type, offset, size, signed }
+    offset += size
+    return field
+  })
+}
+
+export function getEntrySize(fields: StructField[]): number {
+  return fields.reduce((size, field) => size + field.size, 0)
+}
+
+function readValue(data: Uint8Array, offset: number, size: number): number {
+  let value = 0
+  for (let i = Math.min(size, 4) - 1; i >= 0; i--) value = (value * 0x100) + data[offset + i]
+  return value
+}
+
+function signExtend(value: number, size: number): number {
+  const bits = Math.min(size, 4) * 8
+  return value >= 2 ** (bits - 1) ? value - 2 ** bits : value
+}
+
+/**
+ * Pick the struct fields holding each OAM attribute
+ *
+ * Fields are matched by name first; x, y, tile and attr then fall back to
+ * the first unused fields in that order. A 16-bit tile field already holds
+ * the attributes, so attr is not guessed for it.
+ */
+export function guessSpriteFields(fields: StructField[]): Record<SpriteField, string | null> {
+  const normalize = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '')
+  const result: Record<SpriteField, string | null> = { x: null, y: null, tile: null, attr: null, size: null }
+  const used = new Set<string>()
+
+  for (const key of SPRITE_FIELDS) {
+    const field = fields.find(x => !used.has(x.name) && FIELD_NAMES[key].includes(normalize(x.name)))
+    if (field) {
+      result[key] = field.name
+      used.add(field.name)
+    }
+  }
+
+  if (fields.length >= 3) {
+    for (const key of ['x', 'y', 'tile', 'attr'] as const) {
+      if (result[key]) continue
+      if (key === 'attr' && (fields.find(x => x.name === result.tile)?.size ?? 0) >= 2) continue
+      const field = fields.find(x => !used.has(x.name))
+      if (!field) break
+      result[key] = field.name
+      used.add(field.name)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Read a struct's sprite settings from its meta, falling back to guessed fields
+ */
+export function getSpriteOptions(meta: unknown, fields: StructField[]): SpriteOptions {
+  const sprite = meta && typeof meta === 'object' && !Array.isArray(meta)
+    ? (meta as Record<string, any>).sprite
+    : null
+  const names = new Set(fields.map(field => field.name))
+  const guessed = guessSpriteFields(fields)
+
+  const storedFields = {} as Record<SpriteField, string | null>
+  for (const key of SPRITE_FIELDS) {
+    const stored = sprite?.fields?.[key]
+    storedFields[key] = typeof stored === 'string' && names.has(stored) ? stored : stored === null ? null : guessed[key]
+  }
+
+  return {
+    fields: storedFields,
+    format: isTileFormat(sprite?.format) ? sprite.format : '4bpp',
+    graphics: typeof sprite?.graphics === 'string' ? sprite.graphics : null,
+    palette: typeof sprite?.palette === 'string' ? sprite.palette : null,
+    paletteBase: Number.isInteger(sprite?.paletteBase) && sprite.paletteBase >= 0 ? sprite.paletteBase : 0,
+    frameDelay: Number.isInteger(sprite?.frameDelay) && sprite.frameDelay > 0 ? sprite.frameDelay : DEFAULT_FRAME_DELAY
+  }
+}
+
+/**
+ * Merge sprite settings into a struct's meta
+ */
+export function setSpriteOptions(meta: unknown, options: SpriteOptions): Record<string, unknown> {
+  const base = meta && typeof meta === 'object' && !Array.isArray(meta) ? meta as Record<string, unknown> : {}
+  return {
+    ...base,
+    sprite: {
+      fields: options.fields,
+      format: options.format,
+      graphics: options.graphics ?? null,
+      palette: options.palette ?? null,
+      paletteBase: options.paletteBase,
+      frameDelay: options.frameDelay
+    }
+  }
+}
+
+/**
+ * Load what a struct's sprites are assembled from
+ *
+ * @param project - Project the struct belongs to
+ * @param struct - Struct describing one sprite table entry
+ */
+export async function loadSpriteSources(project: ScribeProject, struct: Struct): Promise<SpriteSources> {
+  const [structs, types, blocks, parts, files] = await Promise.all([
+    db.structs.getByProject(project.id),
+    db.platformTypes.getByPlatform(project.platformId),
+    db.blocks.getByProject(project.id),
+    db.blockParts.getByProject(project.id),
+    db.files.getByProject(project.id)
+  ])
+
+  const results = { structs, types, blocks, parts, files }
+  for (const [name, result] of Object.entries(results)) {
+    if (result.error) throw new Error(`Failed to load ${name}: ${result.error.message}`)
+  }
+
+  const fields = getStructFields(struct, structs.data || [], types.data || [])
+
+  const partsByBlock = new Map<string, BlockPart[]>()
+  for (const part of parts.data || []) {
+    if (part.type !== struct.name) continue
+    partsByBlock.set(part.blockId, [...(partsByBlock.get(part.blockId) ?? []), part])
+  }
+
+  const blockNames = new Map<string, string>((blocks.data || []).map(block => [block.id, block.name]))
+  const sequences = [...partsByBlock].map(([blockId, blockParts]) => ({
+    name: blockNames.get(blockId) ?? blockId,
+    parts: blockParts.sort((a, b) => (a.index ?? 0) - (b.index ?? 0) || a.location - b.location)
+  }))
+  sequences.sort((a, b) => a.name.localeCompare(b.name))
+
+  const projectFiles = (files.data || []) as PrismaFile[]
+  return {
+    fields,
+    sequences,
+    graphicsFiles: projectFiles.filter(file => file.type === 'Bitmap'),
+    paletteFiles: projectFiles.filter(file => file.type === 'Palette')
+  }
+}
+
+/**
+ * Decode the OAM entries of one sprite table
+ *
+ * @param data - Table data
+ * @param fields - Struct field layout
+ * @param mapping - Fields holding each OAM attribute
+ * @param delimiter - Value that ends the table when an entry starts with it
+ */
+export function decodeSpriteEntries(
+  data: Uint8Array,
+  fields: StructField[],
+  mapping: Record<SpriteField, string | null>,
+  delimiter?: number | null
+): SpriteEntry[] {
+  const entrySize = getEntrySize(fields)
+  if (entrySize === 0) return []
+
+  const byName = new Map(fields.map(field => [field.name, field]))
+  const get = (key: SpriteField) => mapping[key] ? byName.get(mapping[key] as string) ?? null : null
+  const xField = get('x')
+  const yField = get('y')
+  const tileField = get('tile')
+  const attrField = get('attr')
+  const sizeField = get('size')
+  if (!xField || !yField || !tileField) throw new Error('The x, y and tile fields must be set')
+
+  const delimiterSize = delimiter !== null && delimiter !== undefined && delimiter > 0xFF ? 2 : 1
+  const entries: SpriteEntry[] = []
+
+  for (let offset = 0; offset + entrySize <= data.length; offset += entrySize) {
+    if (delimiter !== null && delimiter !== undefined && readValue(data, offset, delimiterSize) === delimiter) break
+
+    const read = (field: StructField) => readValue(data, offset + field.offset, field.size)
+    let tile = read(tileField)
+    let attr = attrField ? read(attrField) : 0
+    if (tileField.size >= 2) {
+      if (!attrField) attr = (tile >> 8) & 0xFF
+      tile &= 0x1FF
+    } else {
+      tile |= (attr & 0x01) << 8
+    }
+
+    entries.push({
+      x: signExtend(read(xField), xField.size),
+      y: signExtend(read(yField), yField.size),
+      tile,
+      palette: (attr >> 1) & 0x07,
+      priority: (attr >> 4) & 0x03,
+      hFlip: (attr & 0x40) !== 0,
+      vFlip: (attr & 0x80) !== 0,
+      large: sizeField ? read(sizeField) !== 0 : false
+    })
+  }
+
+  return entries
+}
+
+/**
+ * Decode the frames of a sprite sequence from ROM
+ */
+export function decodeSpriteSequence(
+  romData: Uint8Array,
+  sequence: SpriteSequence,
+  fields: StructField[],
+  mapping: Record<SpriteField, string | null>,
+  delimiter?: number | null
+): SpriteFrame[] {
+  return sequence.parts.map(part => {
+    if (part.location + part.size > romData.length) {
+      throw new Error(`Part ${part.name} extends past the end of the ROM`)
+    }
+    return {
+      name: part.name,
+      location: part.location,
+      entries: decodeSpriteEntries(romData.subarray(part.location, part.location + part.size), fields, mapping, delimiter)
+    }
+  })
+}
+
+/**
+ * Area covered by every entry of the given frames, so a sequence plays back in place
+ */
+export function getSpriteBounds(frames: SpriteFrame[]): SpriteBounds {
+  let left = Infinity
+  let top = Infinity
+  let right = -Infinity
+  let bottom = -Infinity
+
+  for (const entry of frames.flatMap(frame => frame.entries)) {
+    const size = entry.large ? 16 : 8
+    left = Math.min(left, entry.x)
+    top = Math.min(top, entry.y)
+    right = Math.max(right, entry.x + size)
+    bottom = Math.max(bottom, entry.y + size)
+  }
+
+  if (left === Infinity) return { left: 0, top: 0, width: 16, height: 16 }
+  return { left, top, width: right - left, height: bottom - top }
+}
+
+/**
+ * Render one sprite frame to canvas ImageData
+ *
+ * Earlier entries are drawn over later ones, as OAM priority works. Large
+ * objects use the 2×2 tiles starting at their tile number, with rows sixteen
+ * tiles apart as in VRAM. Color index 0 is transparent, and without a palette
+ * colors are drawn in grayscale.
+ *
+ * @param entries - Entries of the frame
+ * @param tiles - Tile graphics data
+ * @param options - Tile format and the palette row entries start from
+ * @param bounds - Area to draw, relative to the sprite's origin
+ * @param paletteData - Optional palette data (4 bytes RGBA per color)
+ */
+export function renderSpriteFrame(
+  entries: SpriteEntry[],
+  tiles: Uint8Array,
+  options: Pick<SpriteOptions, 'format' | 'paletteBase'>,
+  bounds: SpriteBounds,
+  paletteData?: Uint8Array
+): ImageData {
+  const decoder = TILE_DECODERS[options.format]
+  const imageData = new ImageData(bounds.width, bounds.height)
+  const pixels = imageData.data
+
+  const maxIndex = (1 << decoder.bitsPerPixel) - 1
+  const colorsPerRow = decoder.bitsPerPixel >= 8 ? 0 : 1 << decoder.bitsPerPixel
+  const tileCount = Math.floor(tiles.length / decoder.bytesPerTile)
+
+  const tileCache = new Map<number, Uint8Array>()
+  const getTile = (tile: number) => {
+    let indexes = tileCache.get(tile)
+    if (!indexes) {
+      indexes = new Uint8Array(64)
+      decoder.decodeTile(tiles, tile * decoder.bytesPerTile, indexes)
+      tileCache.set(tile, indexes)
+    }
+    return indexes
+  }
+
+  for (let i = entries.length - 1; i >= 0; i--) {
+    const entry = entries[i]
+    const span = entry.large ? 2 : 1
+    const paletteBase = (options.paletteBase + entry.palette) * colorsPerRow
+
+    for (let ty = 0; ty < span; ty++) {
+      for (let tx = 0; tx < span; tx++) {
+        // Flipping a large object also swaps its tiles
+        const col = entry.hFlip ? span - 1 - tx : tx
+        const row = entry.vFlip ? span - 1 - ty : ty
+        const tile = (entry.tile & 0x100) | ((entry.tile + (row << 4)) & 0xF0) | ((entry.tile + col) & 0x0F)
+        if (tile >= tileCount) continue
+
+        const indexes = getTile(tile)
+        const originX = entry.x - bounds.left + (tx << 3)
+        const originY = entry.y - bounds.top + (ty << 3)
+
+        for (let py = 0; py < 8; py++) {
+          const y = originY + py
+          if (y < 0 || y >= bounds.height) continue
+          const srcRow = entry.vFlip ? 7 - py : py
+
+          for (let px = 0; px < 8; px++) {
+            const x = originX + px
+            if (x < 0 || x >= bounds.width) continue
+
+            const cIndex = indexes[(srcRow << 3) + (entry.hFlip ? 7 - px : px)]
+            if (cIndex === 0) continue // Transparent pixel
+
+            let cOffset = ((y * bounds.width) + x) << 2
+            const zOffset = (paletteBase + cIndex) << 2
+            if (paletteData && zOffset + 3 < paletteData.length) {
+              pixels[cOffset++] = paletteData[zOffset]
+              pixels[cOffset++] = paletteData[zOffset + 1]
+              pixels[cOffset++] = paletteData[zOffset + 2]
+            } else {
+              // Grayscale fallback
+              const gray = Math.round((cIndex * 0xFF) / maxIndex)
+              pixels[cOffset++] = gray
+              pixels[cOffset++] = gray
+              pixels[cOffset++] = gray
+            }
+            pixels[cOffset] = 0xFF
+          }
+        }
+      }
+    }
+  }
+
+  return imageData
+}
@@ -0,0 +1,148 @@
+/**
+ * Line-based text diff used to compare build artifacts
+ */
+
+export type DiffLineType = 'equal' | 'added' | 'removed'
+
+export interface DiffLine {
+  type: DiffLineType
+  text: string
+  oldLine: number | null
+  newLine: number | null
+}
+
+/**
+ * A row of a side-by-side diff; either side is null when the line only
+ * exists in the other version
+ */
+export interface SplitDiffRow {
+  left: DiffLine | null
+  right: DiffLine | null
+}
+
+// Largest LCS table (old lines x new lines) computed exactly; beyond this the
+// changed region is reported as a full replacement
+const MAX_LCS_CELLS = 4000000
+
+/**
+ * Compute a line diff between two texts
+ */
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = oldText.split('\n')
+  const b = newText.split('\n')
+  const result: DiffLine[] = []
+
+  // Skip the common prefix and suffix so the LCS only covers the changed region
+  let prefix = 0
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++
+  }
+  let suffix = 0
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++
+  }
+
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: i + 1 })
+  }
+
+  const aMid = a.slice(prefix, a.length - suffix)
+  const bMid = b.slice(prefix, b.length - suffix)
+  result.push(...diffRegion(aMid, bMid, prefix, prefix))
+
+  for (let i = suffix; i > 0; i--) {
+    const oldIndex = a.length - i
+    const newIndex = b.length - i
+    result.push({ type: 'equal', text: a[oldIndex], oldLine: oldIndex + 1, newLine: newIndex + 1 })
+  }
+
+  return result
+}
+
+function diffRegion(a: string[], b: string[], oldOffset: number, newOffset: number): DiffLine[] {
+  const n = a.length
+  const m = b.length
+  const result: DiffLine[] = []
+
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    a.forEach((text, i) => result.push({ type: 'removed', text, oldLine: oldOffset + i + 1, newLine: null }))
+    b.forEach((text, j) => result.push({ type: 'added', text, oldLine: null, newLine: newOffset + j + 1 }))
+    return result
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of a[i..] and b[j..]
+  const width = m + 1
+  const lengths = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = a[i] === b[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i], oldLine: oldOffset + i + 1, newLine: newOffset + j + 1 })
+      i++
+      j++
+    } else if (i < n && (j === m || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      result.push({ type: 'removed', text: a[i], oldLine: oldOffset + i + 1, newLine: null })
+      i++
+    } else {
+      result.push({ type: 'added', text: b[j], oldLine: null, newLine: newOffset + j + 1 })
+      j++
+    }
+  }
+
+  return result
+}
+
+/**
+ * Pair removed and added lines into side-by-side rows
+ */
+export function toSplitRows(lines: DiffLine[]): SplitDiffRow[] {
+  const rows: SplitDiffRow[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index]
+    if (line.type === 'equal') {
+      rows.push({ left: line, right: line })
+      index++
+      continue
+    }
+
+    // Collect a run of changes and line up removals against additions
+    const removed: DiffLine[] = []
+    const added: DiffLine[] = []
+    while (index < lines.length && lines[index].type !== 'equal') {
+      if (lines[index].type === 'removed') {
+        removed.push(lines[index])
+      } else {
+        added.push(lines[index])
+      }
+      index++
+    }
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k] ?? null, right: added[k] ?? null })
+    }
+  }
+
+  return rows
+}
+
+/**
+ * Count added and removed lines in a diff
+ */
+export function summarizeDiff(lines: DiffLine[]): { added: number; removed: number } {
+  let added = 0
+  let removed = 0
+  for (const line of lines) {
+    if (line.type === 'added') added++
+    else if (line.type === 'removed') removed++
+  }
+  return { added, removed }
+}
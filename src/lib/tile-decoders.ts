@@ -0,0 +1,178 @@
+/**
+ * SNES Tile Decoders
+ *
+ * Decoders for the 8x8 tile formats used by SNES graphics. Each decoder
+ * turns one tile of source data into 64 color indexes, row by row, so the
+ * same renderer can lay out tiles of any format, and encodes indexes back
+ * into tile data.
+ *
+ * Planar formats store bitplanes in pairs: each row is two bytes (planes 0
+ * and 1), and every further pair of planes follows 16 bytes later. Mode 7
+ * character data is linear, one byte per pixel.
+ */
+
+export type TileFormat = '1bpp' | '2bpp' | '4bpp' | '8bpp' | 'mode7'
+
+export interface TileDecoder {
+  format: TileFormat
+  name: string
+  bitsPerPixel: number
+  bytesPerTile: number
+  /**
+   * Decode one tile into 64 color indexes
+   *
+   * @param data - Source graphics data
+   * @param offset - Offset of the tile in the data
+   * @param out - Receives the indexes; bytes past the end of the data decode as 0
+   */
+  decodeTile: (data: Uint8Array, offset: number, out: Uint8Array) => void
+  /**
+   * Encode 64 color indexes into one tile, the inverse of `decodeTile`
+   *
+   * @param indexes - Color indexes, row by row; bits above the tile depth are dropped
+   * @param out - Receives the tile data
+   * @param offset - Offset of the tile in the output
+   */
+  encodeTile: (indexes: Uint8Array, out: Uint8Array, offset: number) => void
+}
+
+/**
+ * Graphics display settings for a file, stored in `File.meta.graphics`
+ */
+export interface GraphicsOptions {
+  format: TileFormat
+  tilesPerRow: number
+  /** Name of the Palette file the graphic is drawn with; names survive forks and restores */
+  palette?: string | null
+  /** Subpalette row for formats below 8bpp */
+  paletteRow?: number
+}
+
+export const DEFAULT_GRAPHICS_OPTIONS: GraphicsOptions = { format: '4bpp', tilesPerRow: 16, palette: null, paletteRow: 0 }
+
+function createPlanarDecoder(format: TileFormat, name: string, bitsPerPixel: number): TileDecoder {
+  return {
+    format,
+    name,
+    bitsPerPixel,
+    bytesPerTile: bitsPerPixel * 8,
+    decodeTile(data, offset, out) {
+      out.fill(0)
+      for (let row = 0; row < 8; row++) {
+        for (let plane = 0; plane < bitsPerPixel; plane++) {
+          const index = offset + (plane >> 1) * 16 + row * 2 + (plane & 1)
+          if (index >= data.length) continue
+
+          const sample = data[index]
+          const planeBit = 1 << plane
+          for (let col = 0, testBit = 0x80; col < 8; col++, testBit >>= 1) {
+            if ((sample & testBit) !== 0) out[row * 8 + col] |= planeBit
+          }
+        }
+      }
+    },
+    encodeTile(indexes, out, offset) {
+      for (let row = 0; row < 8; row++) {
+        for (let plane = 0; plane < bitsPerPixel; plane++) {
+          let sample = 0
+          for (let col = 0, testBit = 0x80; col < 8; col++, testBit >>= 1) {
+            if ((indexes[row * 8 + col] >> plane) & 1) sample |= testBit
+          }
+          out[offset + (plane >> 1) * 16 + row * 2 + (plane & 1)] = sample
+        }
+      }
+    }
+  }
+}
+
+const decoder1bpp: TileDecoder = {
+  format: '1bpp',
+  name: '1bpp (2 colors, fonts)',
+  bitsPerPixel: 1,
+  bytesPerTile: 8,
+  decodeTile(data, offset, out) {
+    out.fill(0)
+    for (let row = 0; row < 8; row++) {
+      const index = offset + row
+      if (index >= data.length) continue
+
+      const sample = data[index]
+      for (let col = 0, testBit = 0x80; col < 8; col++, testBit >>= 1) {
+        if ((sample & testBit) !== 0) out[row * 8 + col] = 1
+      }
+    }
+  },
+  encodeTile(indexes, out, offset) {
+    for (let row = 0; row < 8; row++) {
+      let sample = 0
+      for (let col = 0, testBit = 0x80; col < 8; col++, testBit >>= 1) {
+        if (indexes[row * 8 + col] & 1) sample |= testBit
+      }
+      out[offset + row] = sample
+    }
+  }
+}
+
+const decoderMode7: TileDecoder = {
+  format: 'mode7',
+  name: 'Mode 7 (256 colors, linear)',
+  bitsPerPixel: 8,
+  bytesPerTile: 64,
+  decodeTile(data, offset, out) {
+    out.fill(0)
+    const end = Math.min(64, data.length - offset)
+    for (let i = 0; i < end; i++) out[i] = data[offset + i]
+  },
+  encodeTile(indexes, out, offset) {
+    out.set(indexes.subarray(0, 64), offset)
+  }
+}
+
+/**
+ * Tile decoders by format, in the order they are offered
+ */
+export const TILE_DECODERS: Record<TileFormat, TileDecoder> = {
+  '1bpp': decoder1bpp,
+  '2bpp': createPlanarDecoder('2bpp', '2bpp (4 colors)', 2),
+  '4bpp': createPlanarDecoder('4bpp', '4bpp (16 colors)', 4),
+  '8bpp': createPlanarDecoder('8bpp', '8bpp (256 colors)', 8),
+  mode7: decoderMode7
+}
+
+export function isTileFormat(value: unknown): value is TileFormat {
+  return typeof value === 'string' && value in TILE_DECODERS
+}
+
+/**
+ * Read a file's graphics settings from its meta, falling back to the defaults
+ */
+export function getGraphicsOptions(meta: unknown): GraphicsOptions {
+  const graphics = meta && typeof meta === 'object' && !Array.isArray(meta)
+    ? (meta as Record<string, any>).graphics
+    : null
+
+  return {
+    format: isTileFormat(graphics?.format) ? graphics.format : DEFAULT_GRAPHICS_OPTIONS.format,
+    tilesPerRow: Number.isInteger(graphics?.tilesPerRow) && graphics.tilesPerRow > 0
+      ? graphics.tilesPerRow
+      : DEFAULT_GRAPHICS_OPTIONS.tilesPerRow,
+    palette: typeof graphics?.palette === 'string' ? graphics.palette : null,
+    paletteRow: Number.isInteger(graphics?.paletteRow) && graphics.paletteRow >= 0 ? graphics.paletteRow : 0
+  }
+}
+
+/**
+ * Merge graphics settings into a file's meta
+ */
+export function setGraphicsOptions(meta: unknown, options: GraphicsOptions): Record<string, unknown> {
+  const base = meta && typeof meta === 'object' && !Array.isArray(meta) ? meta as Record<string, unknown> : {}
+  return {
+    ...base,
+    graphics: {
+      format: options.format,
+      tilesPerRow: options.tilesPerRow,
+      palette: options.palette ?? null,
+      paletteRow: options.paletteRow ?? 0
+    }
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Tilemap Rendering
+ *
+ * Composes a background layer from a tilemap, the tile graphics loaded into
+ * its character area and a palette, the way the SNES PPU draws a BG.
+ *
+ * Each tilemap entry is a little-endian word: `vhopppcc cccccccc`
+ * - c: tile number (10 bits)
+ * - p: palette row (3 bits)
+ * - o: priority
+ * - h/v: horizontal and vertical flip
+ */
+
+import type { File as PrismaFile } from '@prisma/client'
+import { TILE_DECODERS, type TileFormat } from './tile-decoders'
+
+export interface TilemapEntry {
+  tile: number
+  palette: number
+  priority: boolean
+  hFlip: boolean
+  vFlip: boolean
+}
+
+export type TilemapLayer = 'all' | 'low' | 'high'
+
+export interface TilemapRenderOptions {
+  /** Map width in tiles */
+  width: number
+  format: TileFormat
+  /** Which priority to draw; the other tiles are left transparent */
+  layer?: TilemapLayer
+}
+
+/** Standard SNES background width in tiles */
+export const DEFAULT_TILEMAP_WIDTH = 32
+
+export function decodeTilemapEntry(value: number): TilemapEntry {
+  return {
+    tile: value & 0x3FF,
+    palette: (value >> 10) & 0x07,
+    priority: (value & 0x2000) !== 0,
+    hFlip: (value & 0x4000) !== 0,
+    vFlip: (value & 0x8000) !== 0
+  }
+}
+
+/**
+ * Decode the entries of a tilemap
+ */
+export function parseTilemap(data: Uint8Array): TilemapEntry[] {
+  const entries: TilemapEntry[] = []
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    entries.push(decodeTilemapEntry(data[i] | (data[i + 1] << 8)))
+  }
+  return entries
+}
+
+/**
+ * Guess the map width from the tilemap header
+ *
+ * The header's first byte is taken as the width in tiles when the header
+ * dimensions match the number of entries; otherwise the standard 32-tile
+ * background width is used.
+ */
+export function getTilemapWidth(header: Uint8Array, entryCount: number): number {
+  const [width, height] = header
+  if (width > 0 && height > 0 && width * height === entryCount) return width
+  return DEFAULT_TILEMAP_WIDTH
+}
+
+/**
+ * Render a tilemap to canvas ImageData
+ *
+ * Tile numbers index into `tiles`, the graphics loaded at the layer's
+ * character base. The entry's palette bits select the palette row for 2bpp
+ * and 4bpp graphics; 8bpp graphics use the whole palette. Color index 0 is
+ * transparent, and without a palette colors are drawn in grayscale.
+ *
+ * @param entries - Decoded tilemap entries
+ * @param tiles - Tile graphics data
+ * @param options - Map width, tile format and priority layer
+ * @param paletteData - Optional palette data (4 bytes RGBA per color)
+ */
+export function renderTilemap(
+  entries: TilemapEntry[],
+  tiles: Uint8Array,
+  options: TilemapRenderOptions,
+  paletteData?: Uint8Array
+): ImageData {
+  const decoder = TILE_DECODERS[options.format]
+  const layer = options.layer ?? 'all'
+  const tilesX = Math.max(1, Math.floor(options.width))
+  const tilesY = Math.max(1, Math.ceil(entries.length / tilesX))
+
+  const width = tilesX << 3
+  const height = tilesY << 3
+  const imageData = new ImageData(width, height)
+  const pixels = imageData.data
+
+  const maxIndex = (1 << decoder.bitsPerPixel) - 1
+  const colorsPerRow = decoder.bitsPerPixel >= 8 ? 0 : 1 << decoder.bitsPerPixel
+  const tileCount = Math.floor(tiles.length / decoder.bytesPerTile)
+
+  // Tiles are reused heavily, so decode each one once
+  const tileCache = new Map<number, Uint8Array>()
+  const getTile = (tile: number) => {
+    let indexes = tileCache.get(tile)
+    if (!indexes) {
+      indexes = new Uint8Array(64)
+      decoder.decodeTile(tiles, tile * decoder.bytesPerTile, indexes)
+      tileCache.set(tile, indexes)
+    }
+    return indexes
+  }
+
+  entries.forEach((entry, i) => {
+    if (layer === 'low' && entry.priority) return
+    if (layer === 'high' && !entry.priority) return
+    if (entry.tile >= tileCount) return
+
+    const indexes = getTile(entry.tile)
+    const tileX = (i % tilesX) << 3
+    const tileY = Math.floor(i / tilesX) << 3
+    const paletteBase = entry.palette * colorsPerRow
+
+    for (let row = 0; row < 8; row++) {
+      const srcRow = entry.vFlip ? 7 - row : row
+      let cOffset = (((tileY + row) * width) + tileX) << 2
+
+      for (let col = 0; col < 8; col++) {
+        const srcCol = entry.hFlip ? 7 - col : col
+        const cIndex = indexes[(srcRow << 3) + srcCol]
+
+        if (cIndex === 0) {
+          // Transparent pixel
+          cOffset += 4
+          continue
+        }
+
+        const zOffset = (paletteBase + cIndex) << 2
+        if (paletteData && zOffset + 3 < paletteData.length) {
+          pixels[cOffset++] = paletteData[zOffset]
+          pixels[cOffset++] = paletteData[zOffset + 1]
+          pixels[cOffset++] = paletteData[zOffset + 2]
+        } else {
+          // Grayscale fallback
+          const gray = Math.round((cIndex * 0xFF) / maxIndex)
+          pixels[cOffset++] = gray
+          pixels[cOffset++] = gray
+          pixels[cOffset++] = gray
+        }
+        pixels[cOffset++] = 0xFF
+      }
+    }
+  })
+
+  return imageData
+}
+
+/**
+ * Files that make up a tilemap's scene
+ *
+ * Graphics and palettes are matched on the tilemap's scene, falling back to
+ * its group when it has no scene or nothing shares it.
+ */
+export function findSceneFiles(files: PrismaFile[], tilemap: PrismaFile): { tilesets: PrismaFile[]; palettes: PrismaFile[] } {
+  const byType = (type: string) => files.filter(file => file.type === type)
+  const match = (candidates: PrismaFile[]) => {
+    const inScene = tilemap.scene ? candidates.filter(file => file.scene === tilemap.scene) : []
+    if (inScene.length > 0) return inScene
+    return tilemap.group ? candidates.filter(file => file.group === tilemap.group) : []
+  }
+
+  return {
+    tilesets: match(byType('Bitmap')).sort((a, b) => a.location - b.location),
+    palettes: match(byType('Palette'))
+  }
+}
@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { ScribeProject } from '@prisma/client'
+import type { GameRomBranchData } from '@gaialabs/shared'
+import { external } from '../services/supabase/external'
+import type { ProjectRecordSet } from './data-converter'
+import { preparePublish, publishProject } from './upstream-publish'
+import { applyUpstreamChanges, getUpstreamBranchId, loadUpstreamDiff } from './upstream-sync'
+
+const projects = vi.hoisted(() => ({ update: vi.fn() }))
+const loadProjectRecords = vi.hoisted(() => vi.fn())
+
+vi.mock('../services/supabase', () => ({ db: { external, projects } }))
+vi.mock('./external-export', () => ({ loadProjectRecords }))
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const timestamp = '2025-01-01T00:00:00.000Z'
+const platform = { id: 'platform', name: 'SNES', meta: null, createdAt: timestamp, updatedAt: timestamp }
+const region = { id: 'region', name: 'US', meta: null, platformId: platform.id, createdAt: timestamp, updatedAt: timestamp }
+const game = { id: 'game', name: 'Illusion of Gaia', createdAt: timestamp, updatedAt: timestamp }
+const gameRom = { id: 'rom', crc: 0x1C3848C0, meta: null, gameId: game.id, regionId: region.id, createdAt: timestamp, updatedAt: timestamp, game, region }
+const platformBranch = {
+  id: 'platform-branch', name: 'main', version: 1, platformId: platform.id,
+  addressingModes: null, instructionSet: null, vectors: null, types: null,
+  createdAt: timestamp, updatedAt: timestamp, platform
+}
+
+function branchVersion(id: string, version: number, labels: Array<{ label: string; location: number }>): GameRomBranchData {
+  return {
+    id, name: 'main', version, gameRomId: gameRom.id, platformBranchId: platformBranch.id,
+    coplib: {}, config: null, files: {}, blocks: {},
+    fixups: { labels, mnemonics: {}, overrides: [], rewrites: [] },
+    strings: {}, structs: {}, notes: null,
+    gameRom, platformBranch, createdAt: timestamp, updatedAt: timestamp
+  }
+}
+
+/**
+ * Local stand-in for the GaiaLabs PostgREST API, serving the GameRomBranch
+ * table from memory
+ */
+function createExternalStandIn(branches: GameRomBranchData[]) {
+  let nextId = 1
+  const fetch = vi.fn(async (input: string, init?: RequestInit) => {
+    const url = new URL(input)
+    if (url.pathname !== '/rest/v1/GameRomBranch') return new Response('Not found', { status: 404 })
+
+    if (init?.method === 'POST') {
+      const row = JSON.parse(init.body as string) as GameRomBranchData
+      const created = { ...row, id: `published-${nextId++}`, gameRom, platformBranch, createdAt: timestamp, updatedAt: timestamp }
+      branches.push(created)
+      return Response.json([created], { status: 201 })
+    }
+
+    const [column, filter] = [...url.searchParams].find(([key]) => key === 'id' || key === 'gameRomId') ?? []
+    const value = filter?.replace(/^eq\./, '')
+    const rows = branches.filter(branch => !column || branch[column as 'id' | 'gameRomId'] === value)
+    return Response.json(url.searchParams.get('select')?.startsWith('id,')
+      ? rows.map(({ id, name, version, createdAt }) => ({ id, name, version, createdAt }))
+      : rows)
+  })
+  return { branches, fetch }
+}
+
+const imported = branchVersion('imported', 2, [{ label: 'intro_entry', location: 0x028000 }])
+
+const project = {
+  id: 'project',
+  name: 'Gaia',
+  isPublic: false,
+  platformId: 'internal-platform',
+  gameRomBranchId: imported.id,
+  meta: { externalGameRomBranchId: imported.id, buildSettings: { fillByte: 0xFF } },
+  createdAt: new Date(timestamp),
+  updatedAt: null,
+  deletedAt: null,
+  createdBy: 'user',
+  updatedBy: null,
+  deletedBy: null
+} as unknown as ScribeProject
+
+// The project renamed a label and added one since importing
+const records: ProjectRecordSet = {
+  cops: [], files: [], blocks: [], blockTransforms: [], blockParts: [], mnemonics: [], overrides: [], rewrites: [],
+  stringTypes: [], stringCommands: [], structs: [],
+  labels: [
+    { id: 'l1', projectId: project.id, label: 'intro_start', location: 0x028000 },
+    { id: 'l2', projectId: project.id, label: 'menu_entry', location: 0x030000 }
+  ] as ProjectRecordSet['labels']
+}
+
+describe('upstream publish', () => {
+  let standIn: ReturnType<typeof createExternalStandIn>
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    standIn = createExternalStandIn([imported])
+    vi.stubGlobal('fetch', standIn.fetch)
+    loadProjectRecords.mockResolvedValue(records)
+    projects.update.mockImplementation(async (_id: string, updates: Partial<ScribeProject>) => ({ data: { ...project, ...updates }, error: null }))
+  })
+
+  it('packages the local changes as the next version', async () => {
+    const preview = await preparePublish(project, 'user')
+
+    expect(preview.validationErrors).toEqual([])
+    expect(preview.newerVersion).toBeNull()
+    expect(preview.nextVersion).toBe(3)
+    expect(preview.diff.changes.map(change => [change.key, change.kind])).toEqual([['0x028000', 'changed'], ['0x030000', 'added']])
+    expect((preview.sections.fixups as any).labels).toEqual([
+      { label: 'intro_start', location: 0x028000 },
+      { label: 'menu_entry', location: 0x030000 }
+    ])
+  })
+
+  it('writes the new version and records it in meta without touching the base ROM branch', async () => {
+    const preview = await preparePublish(project, 'user')
+    const updated = await publishProject(project, preview, 'Rename intro entry', 'token', 'user')
+
+    const published = standIn.branches[1]
+    expect(published).toMatchObject({ id: 'published-1', name: 'main', version: 3, gameRomId: gameRom.id, notes: ['Rename intro entry'] })
+    expect(published.fixups).toEqual(preview.sections.fixups)
+    expect(standIn.fetch.mock.calls[standIn.fetch.mock.calls.length - 1][1]?.headers).toMatchObject({ Authorization: 'Bearer token' })
+
+    const [, updates] = projects.update.mock.calls[0]
+    expect(updates).not.toHaveProperty('gameRomBranchId')
+    expect(updated.gameRomBranchId).toBe(imported.id)
+    expect(updated.meta).toMatchObject({
+      externalGameRomBranchId: imported.id,
+      upstream: { branchId: 'published-1' },
+      gameRomBranchVersion: 3,
+      buildSettings: { fillByte: 0xFF },
+      publishedVersions: [{ branchId: 'published-1', version: 3, publishedBy: 'user', notes: 'Rename intro entry' }]
+    })
+    expect(getUpstreamBranchId(updated)).toBe('published-1')
+  })
+
+  it('refuses to publish while upstream has a newer version', async () => {
+    standIn.branches.push(branchVersion('upstream-3', 3, []))
+    const preview = await preparePublish(project, 'user')
+
+    expect(preview.newerVersion).toBe(3)
+    await expect(publishProject(project, preview, '', 'token', 'user')).rejects.toThrow('Upstream is at version 3')
+    expect(standIn.branches).toHaveLength(2)
+    expect(projects.update).not.toHaveBeenCalled()
+  })
+
+  it('publishes after pulling the newer upstream version', async () => {
+    standIn.branches.push(branchVersion('upstream-3', 3, [
+      { label: 'intro_main', location: 0x028000 },
+      { label: 'title_entry', location: 0x029000 }
+    ]))
+
+    // Only rows upstream changed since the imported version are offered; the
+    // local label rename upstream also changed is a conflict, and the label
+    // added locally is not offered for removal
+    const pulled = await loadUpstreamDiff(project, 'user')
+    expect(pulled.base.id).toBe(imported.id)
+    expect(pulled.branch.id).toBe('upstream-3')
+    expect(pulled.diff.changes.map(change => [change.key, change.kind])).toEqual([['0x028000', 'changed'], ['0x029000', 'added']])
+    expect(pulled.metaChanges).toEqual([])
+    expect([...pulled.conflicts]).toEqual(['labels:0x028000'])
+
+    await applyUpstreamChanges(project, pulled, [], 'user')
+    const [, syncUpdates] = projects.update.mock.calls[0]
+    const synced = { ...project, ...syncUpdates } as ScribeProject
+    expect(synced.meta).toMatchObject({ upstream: { branchId: 'upstream-3' }, gameRomBranchVersion: 3 })
+
+    const preview = await preparePublish(synced, 'user')
+    expect(preview.newerVersion).toBeNull()
+    expect(preview.nextVersion).toBe(4)
+
+    const updated = await publishProject(synced, preview, '', 'token', 'user')
+    expect(standIn.branches[2]).toMatchObject({ id: 'published-1', version: 4 })
+    expect(getUpstreamBranchId(updated)).toBe('published-1')
+  })
+})
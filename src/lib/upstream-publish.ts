@@ -0,0 +1,160 @@
+/**
+ * Upstream Publish
+ *
+ * Packages a project's records into a new version of the external
+ * GameRomBranch it was imported from. The package is validated by running it
+ * back through the importer's conversion and validation before anything is
+ * written, and publishing is refused while the project is behind upstream.
+ */
+
+import { createId } from '@paralleldrive/cuid2'
+import type { ScribeProject } from '@prisma/client'
+import type { GameRomBranchData } from '@gaialabs/shared'
+import { db } from '../services/supabase'
+import { convertBundleToInternal, convertExternalToInternal, convertInternalToExternal, toCompleteGameRomData, PROJECT_BUNDLE_SECTIONS, type ProjectBundle } from './data-converter'
+import { loadProjectRecords } from './external-export'
+import { validateProjectData } from './project-importer'
+import { diffProjectRecords, type ProjectDiff } from './project-diff'
+import { fetchUpstreamBranch, getLatestBranchVersion } from './upstream-sync'
+
+/**
+ * A version published from Scribe, recorded in ScribeProject.meta
+ */
+export interface PublishedVersion {
+  branchId: string
+  version: number
+  publishedAt: string
+  publishedBy: string
+  notes: string | null
+}
+
+export interface PublishPreview {
+  branch: GameRomBranchData
+  /** Sections that will make up the new branch version */
+  sections: ProjectBundle
+  /** Project changes relative to the upstream branch */
+  diff: ProjectDiff
+  validationErrors: string[]
+  /** Newer upstream version the project has not pulled yet */
+  newerVersion: number | null
+  nextVersion: number
+}
+
+function getMeta(project: ScribeProject): Record<string, any> {
+  return project.meta && typeof project.meta === 'object' && !Array.isArray(project.meta)
+    ? project.meta as Record<string, any>
+    : {}
+}
+
+/**
+ * Versions previously published from this project, oldest first
+ */
+export function getPublishedVersions(project: ScribeProject): PublishedVersion[] {
+  const versions = getMeta(project).publishedVersions
+  return Array.isArray(versions) ? versions : []
+}
+
+/**
+ * Package the project and compare it with upstream without writing anything
+ */
+export async function preparePublish(project: ScribeProject, userId: string): Promise<PublishPreview> {
+  const branch = await fetchUpstreamBranch(project)
+  const latestVersion = (await getLatestBranchVersion(branch)).version ?? 1
+
+  const records = await loadProjectRecords(project.id)
+  const exported = convertInternalToExternal(project, records).gameRomBranch
+  const sections: ProjectBundle = {}
+  for (const section of PROJECT_BUNDLE_SECTIONS) {
+    sections[section] = exported[section]
+  }
+
+  // The package must import cleanly, exactly as others will consume it
+  const validationErrors = validateProjectData(
+    convertBundleToInternal(sections, userId, project.name, project.platformId, 'publish')
+  )
+
+  const upstream = convertExternalToInternal(toCompleteGameRomData(branch), userId, project.name, project.platformId, branch.id)
+
+  return {
+    branch,
+    sections,
+    diff: diffProjectRecords(upstream, records),
+    validationErrors,
+    newerVersion: latestVersion > (branch.version ?? 1) ? latestVersion : null,
+    nextVersion: latestVersion + 1
+  }
+}
+
+/**
+ * Write the package as a new branch version and point the project at it
+ *
+ * The new branch is recorded in meta.upstream for later pulls and publishes;
+ * gameRomBranchId keeps naming the branch the project's base ROM comes from.
+ *
+ * @param project - Project being published
+ * @param preview - Package from preparePublish
+ * @param notes - Release notes for the new version
+ * @param accessToken - GaiaLabs access token with write access
+ * @param userId - User publishing the project
+ * @returns The updated project
+ */
+export async function publishProject(
+  project: ScribeProject,
+  preview: PublishPreview,
+  notes: string,
+  accessToken: string,
+  userId: string
+): Promise<ScribeProject> {
+  if (preview.validationErrors.length > 0) {
+    throw new Error(`Package failed validation: ${preview.validationErrors.join(', ')}`)
+  }
+  if (preview.newerVersion !== null) {
+    throw new Error(`Upstream is at version ${preview.newerVersion}; pull upstream changes before publishing`)
+  }
+
+  const { branch, sections } = preview
+  const trimmedNotes = notes.trim()
+  const { data: published, error } = await db.external.createGameRomBranch({
+    id: createId(),
+    name: branch.name,
+    version: preview.nextVersion,
+    gameRomId: branch.gameRomId,
+    platformBranchId: branch.platformBranchId,
+    coplib: sections.coplib ?? null,
+    config: sections.config ?? null,
+    files: sections.files ?? null,
+    blocks: sections.blocks ?? null,
+    fixups: sections.fixups ?? null,
+    strings: sections.strings ?? null,
+    structs: sections.structs ?? null,
+    isActive: true,
+    notes: trimmedNotes ? [trimmedNotes, ...(branch.notes ?? [])] : branch.notes ?? null
+  }, accessToken)
+  if (error || !published) {
+    throw new Error(`Failed to publish branch: ${error?.message || 'No branch returned'}`)
+  }
+
+  const publishedVersion: PublishedVersion = {
+    branchId: published.id,
+    version: preview.nextVersion,
+    publishedAt: new Date().toISOString(),
+    publishedBy: userId,
+    notes: trimmedNotes || null
+  }
+
+  // Track the new version so later pulls and publishes start from it
+  const meta = getMeta(project)
+  const { data: updated, error: updateError } = await db.projects.update(project.id, {
+    meta: {
+      ...meta,
+      upstream: { ...meta.upstream, branchId: published.id },
+      gameRomBranchVersion: preview.nextVersion,
+      publishedVersions: [...getPublishedVersions(project), publishedVersion]
+    }
+  }, userId)
+  if (updateError || !updated) {
+    throw new Error(`Published version ${preview.nextVersion} but failed to record it on the project: ${updateError?.message || 'Unknown error'}`)
+  }
+
+  return updated
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { GameRomBranchData } from '@gaialabs/shared'
+import { diffUpstreamMeta, mergeUpstreamMeta } from './upstream-sync'
+
+vi.mock('../services/supabase', () => ({ db: {} }))
+vi.mock('./external-export', () => ({ loadProjectRecords: vi.fn() }))
+vi.mock('./supabase', () => ({ supabase: {} }))
+
+const branch = {
+  coplib: { '00': { code: 0, parts: ['Address'] } },
+  config: { compression: 'QuintetLZ' }
+} as GameRomBranchData
+
+const meta = {
+  coplib: { '00': { code: 0, parts: [] } },
+  config: { compression: 'QuintetLZ' },
+  buildSettings: { fillByte: 0xFF }
+}
+
+describe('upstream meta sync', () => {
+  it('offers only the sections that differ', () => {
+    const changes = diffUpstreamMeta(meta, branch)
+
+    expect(changes.map(change => [change.id, change.kind])).toEqual([['meta:coplib', 'changed']])
+  })
+
+  it('keeps local sections and other meta when nothing is selected', () => {
+    expect(mergeUpstreamMeta(meta, [])).toEqual(meta)
+  })
+
+  it('takes the selected upstream sections', () => {
+    const merged = mergeUpstreamMeta(meta, diffUpstreamMeta(meta, branch))
+
+    expect(merged).toEqual({ ...meta, coplib: branch.coplib })
+  })
+
+  it('removes a section upstream no longer has', () => {
+    const changes = diffUpstreamMeta(meta, { ...branch, config: null })
+    const removed = changes.filter(change => change.key === 'config')
+
+    expect(removed.map(change => change.kind)).toEqual(['removed'])
+    expect(mergeUpstreamMeta(meta, removed)).toEqual({ coplib: meta.coplib, buildSettings: meta.buildSettings })
+  })
+})
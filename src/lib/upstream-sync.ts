@@ -0,0 +1,206 @@
+/**
+ * Upstream Sync
+ *
+ * Pulls changes from the external GameRomBranch a project was imported from.
+ * The newest version of the branch is fetched and converted exactly as on
+ * import, then compared three ways: the version the project is in step with is
+ * the base, so only rows upstream changed since then are offered, and rows the
+ * project also changed are flagged as conflicts rather than taken by default.
+ * The version pulled is recorded in meta.upstream, so later pulls and
+ * publishes start from it.
+ * The coplib and config kept in project meta are diffed the same way, so a
+ * sync only replaces them when the user takes the upstream value.
+ */
+
+import type { ScribeProject } from '@prisma/client'
+import type { GameRomBranchData } from '@gaialabs/shared'
+import { db } from '../services/supabase'
+import type { GameRomBranchVersion } from '../services/supabase/external'
+import { convertExternalToInternal, toCompleteGameRomData } from './data-converter'
+import { loadProjectRecords } from './external-export'
+import {
+  RECORD_TABLES,
+  applyProjectChanges,
+  diffProjectRecords,
+  diffRecordRows,
+  type ApplyChangesResult,
+  type ProjectDiff,
+  type RecordChange,
+  type RecordRow
+} from './project-diff'
+
+/** Project meta keys that mirror a section of the upstream branch */
+const UPSTREAM_META_KEYS = ['coplib', 'config'] as const
+
+export type UpstreamMetaChange = RecordChange<'meta'>
+
+export type UpstreamChange = RecordChange | UpstreamMetaChange
+
+/** Groups shown when choosing upstream changes: project settings, then the record tables */
+export const UPSTREAM_TABLES = [{ table: 'meta', name: 'Project Settings' }, ...RECORD_TABLES]
+
+export interface UpstreamDiff {
+  /** Newest upstream version, the one being pulled */
+  branch: GameRomBranchData
+  /** Version the project was last in step with */
+  base: GameRomBranchData
+  /** Project differences from upstream, limited to rows upstream changed since base */
+  diff: ProjectDiff
+  /** Differences in the upstream sections kept in project meta, limited the same way */
+  metaChanges: UpstreamMetaChange[]
+  /** IDs of offered changes the project also changed since base */
+  conflicts: Set<string>
+}
+
+function getProjectMeta(project: ScribeProject): Record<string, unknown> {
+  return project.meta && typeof project.meta === 'object' && !Array.isArray(project.meta)
+    ? project.meta as Record<string, unknown>
+    : {}
+}
+
+function diffMetaSections(local: Record<string, unknown>, incoming: Record<string, unknown>): UpstreamMetaChange[] {
+  const toRows = (source: Record<string, unknown>) => {
+    const rows = new Map<string, RecordRow>()
+    for (const key of UPSTREAM_META_KEYS) {
+      if (source[key] !== null && source[key] !== undefined) {
+        rows.set(key, { key, values: { value: source[key] } })
+      }
+    }
+    return rows
+  }
+  return diffRecordRows('meta', ['value'], toRows(local), toRows(incoming))
+}
+
+function getBranchSections(branch: GameRomBranchData): Record<string, unknown> {
+  return { coplib: branch.coplib, config: branch.config }
+}
+
+/**
+ * Compare the upstream sections kept in project meta with the branch
+ */
+export function diffUpstreamMeta(meta: Record<string, unknown>, branch: GameRomBranchData): UpstreamMetaChange[] {
+  return diffMetaSections(meta, getBranchSections(branch))
+}
+
+/**
+ * Project meta with the selected upstream sections taken
+ */
+export function mergeUpstreamMeta(meta: Record<string, unknown>, selected: UpstreamMetaChange[]): Record<string, unknown> {
+  const merged = { ...meta }
+  for (const change of selected) {
+    if (change.kind === 'removed') delete merged[change.key]
+    else merged[change.key] = change.incoming?.values.value
+  }
+  return merged
+}
+
+/**
+ * External GameRomBranch version a project is in step with: the version last
+ * pulled or published, otherwise the branch it was imported from
+ */
+export function getUpstreamBranchId(project: ScribeProject): string | null {
+  const meta = project.meta as Record<string, any> | null
+  return meta?.upstream?.branchId ?? project.gameRomBranchId ?? meta?.externalGameRomBranchId ?? null
+}
+
+/**
+ * Fetch the branch version the project is in step with
+ */
+export async function fetchUpstreamBranch(project: ScribeProject): Promise<GameRomBranchData> {
+  const branchId = getUpstreamBranchId(project)
+  if (!branchId) throw new Error('This project was not imported from an upstream branch')
+  return fetchBranch(branchId)
+}
+
+async function fetchBranch(branchId: string): Promise<GameRomBranchData> {
+  const { data: branch, error } = await db.external.getGameRomBranchById(branchId)
+  if (error || !branch) {
+    throw new Error(`Failed to fetch upstream branch: ${error instanceof Error ? error.message : 'Branch not found'}`)
+  }
+  return branch
+}
+
+/**
+ * Newest version of a branch: the highest version with the same name on the
+ * same game ROM, or the branch itself when nothing newer exists
+ */
+export async function getLatestBranchVersion(branch: GameRomBranchData): Promise<GameRomBranchVersion> {
+  const { data: versions, error } = await db.external.getGameRomBranchVersions(branch.gameRomId)
+  if (error) throw new Error(`Failed to fetch upstream versions: ${error.message}`)
+
+  let latest: GameRomBranchVersion = { id: branch.id, name: branch.name, version: branch.version, createdAt: branch.createdAt }
+  for (const version of versions || []) {
+    if (version.name === branch.name && (version.version ?? 1) > (latest.version ?? 1)) latest = version
+  }
+  return latest
+}
+
+/**
+ * Fetch the newest upstream version and compare it with the project, using
+ * the version the project is in step with as the common base
+ */
+export async function loadUpstreamDiff(project: ScribeProject, userId: string): Promise<UpstreamDiff> {
+  const base = await fetchUpstreamBranch(project)
+  const latest = await getLatestBranchVersion(base)
+  const branch = latest.id === base.id ? base : await fetchBranch(latest.id)
+
+  const toRecords = (source: GameRomBranchData) =>
+    convertExternalToInternal(toCompleteGameRomData(source), userId, project.name, project.platformId, source.id)
+  const baseRecords = toRecords(base)
+  const upstream = toRecords(branch)
+  const local = await loadProjectRecords(project.id)
+  const meta = getProjectMeta(project)
+  const baseSections = getBranchSections(base)
+
+  const changeIds = (changes: UpstreamChange[]) => new Set(changes.map(change => change.id))
+  const changedUpstream = changeIds([
+    ...diffProjectRecords(baseRecords, upstream).changes,
+    ...diffMetaSections(baseSections, getBranchSections(branch))
+  ])
+  const changedLocally = changeIds([
+    ...diffProjectRecords(baseRecords, local).changes,
+    ...diffMetaSections(baseSections, meta)
+  ])
+
+  const fullDiff = diffProjectRecords(local, upstream)
+  const diff = { ...fullDiff, changes: fullDiff.changes.filter(change => changedUpstream.has(change.id)) }
+  const metaChanges = diffUpstreamMeta(meta, branch).filter(change => changedUpstream.has(change.id))
+
+  return {
+    branch,
+    base,
+    diff,
+    metaChanges,
+    conflicts: new Set([...diff.changes, ...metaChanges].map(change => change.id).filter(id => changedLocally.has(id)))
+  }
+}
+
+/**
+ * Apply the chosen upstream changes and record the pulled version in project
+ * meta, so the project is in step with it for the next pull or publish
+ */
+export async function applyUpstreamChanges(
+  project: ScribeProject,
+  upstream: UpstreamDiff,
+  selected: UpstreamChange[],
+  userId: string
+): Promise<ApplyChangesResult> {
+  const records = selected.filter((change): change is RecordChange => change.table !== 'meta')
+  const metaChanges = selected.filter((change): change is UpstreamMetaChange => change.table === 'meta')
+  const result = await applyProjectChanges(project.id, upstream.diff, records, userId)
+
+  const meta = getProjectMeta(project)
+  const upstreamMeta = meta.upstream && typeof meta.upstream === 'object' ? meta.upstream : {}
+  const { error } = await db.projects.update(project.id, {
+    meta: {
+      ...mergeUpstreamMeta(meta, metaChanges),
+      upstream: { ...upstreamMeta, branchId: upstream.branch.id },
+      gameRomBranchName: upstream.branch.name,
+      gameRomBranchVersion: upstream.branch.version,
+      lastSyncedAt: new Date().toISOString()
+    }
+  }, userId)
+  if (error) throw new Error(`Failed to record sync: ${error.message}`)
+
+  return result
+}
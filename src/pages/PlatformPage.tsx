@@ -171,6 +171,14 @@ export default function PlatformPage() {
     setPlatforms(prev => [newPlatform as PlatformWithCreator, ...prev])
   }
 
+  const handlePlatformUpdated = (updatedPlatform: Platform) => {
+    // Move the updated platform to the top of the list
+    setPlatforms(prev => [
+      updatedPlatform as PlatformWithCreator,
+      ...prev.filter(platform => platform.id !== updatedPlatform.id)
+    ])
+  }
+
   const handlePlatformCreated = (newPlatform: Platform) => {
     // Add the created platform to the list
     setPlatforms(prev => [newPlatform as PlatformWithCreator, ...prev])
@@ -361,6 +369,7 @@ export default function PlatformPage() {
         isOpen={showImportModal}
         onClose={() => setShowImportModal(false)}
         onImportComplete={handleImportComplete}
+        onUpdateComplete={handlePlatformUpdated}
       />
     </div>
   )
@@ -1,15 +1,25 @@
 import { useState, useEffect } from 'react'
 import { useParams, useNavigate } from 'react-router-dom'
 import { db } from '../services/supabase'
-import { Calendar, Edit, Trash2, ArrowLeft, Globe, Lock } from 'lucide-react'
+import { Calendar, Edit, Trash2, ArrowLeft, Globe, Lock, FileJson, GitPullRequest, Upload, Cpu, GitFork, GitCompare } from 'lucide-react'
 import type { ScribeProject } from '@prisma/client'
 import EditProjectModal from '../components/EditProjectModal'
 import DeleteProjectModal from '../components/DeleteProjectModal'
 import SectionCard from '../components/SectionCard'
 import ContributorManagement from '../components/ContributorManagement'
+import UpstreamSyncModal from '../components/UpstreamSyncModal'
+import PublishProjectModal from '../components/PublishProjectModal'
+import MigratePlatformModal from '../components/MigratePlatformModal'
+import ForkProjectModal from '../components/ForkProjectModal'
+import CompareProjectsModal from '../components/CompareProjectsModal'
+import ProjectSnapshotsPanel from '../components/ProjectSnapshotsPanel'
 import { useProjectSectionCounts } from '../hooks/useProjectSectionCounts'
 import { useProjectPermissions } from '../hooks/useProjectPermissions'
 import { PROJECT_SECTIONS } from '../lib/project-sections'
+import { exportProjectAsExternal } from '../lib/external-export'
+import { downloadBlob } from '../lib/download-utils'
+import { getUpstreamBranchId } from '../lib/upstream-sync'
+import { getForkSource } from '../lib/project-fork'
 import clsx from 'clsx'
 
 export default function ProjectDetailPage() {
@@ -21,12 +31,19 @@ export default function ProjectDetailPage() {
   const [error, setError] = useState<string | null>(null)
   const [showEditModal, setShowEditModal] = useState(false)
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false)
+  const [exporting, setExporting] = useState(false)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [showSyncModal, setShowSyncModal] = useState(false)
+  const [showPublishModal, setShowPublishModal] = useState(false)
+  const [showMigrateModal, setShowMigrateModal] = useState(false)
+  const [showForkModal, setShowForkModal] = useState(false)
+  const [showCompareModal, setShowCompareModal] = useState(false)
 
   // Fetch section counts
   const { counts, loading: countsLoading } = useProjectSectionCounts(id)
 
   // Check permissions
-  const { canManage, loading: permissionsLoading } = useProjectPermissions(id || null)
+  const { canEdit, canManage, loading: permissionsLoading } = useProjectPermissions(id || null)
 
   // Load project details
   useEffect(() => {
@@ -64,6 +81,8 @@ export default function ProjectDetailPage() {
 
   // Use permission-based checks for UI controls
   const showManagementActions = canManage && !permissionsLoading
+  const forkSource = project ? getForkSource(project) : null
+  const canPullUpstream = canEdit && !permissionsLoading && project !== null && getUpstreamBranchId(project) !== null
 
   const handleBack = () => {
     navigate('/dashboard')
@@ -77,10 +96,30 @@ export default function ProjectDetailPage() {
     setShowDeleteConfirm(true)
   }
 
+  const handleExport = async () => {
+    if (!project) return
+
+    setExporting(true)
+    setExportError(null)
+    try {
+      const result = await exportProjectAsExternal(project)
+      downloadBlob(new Blob([result.json], { type: 'application/json' }), result.fileName)
+    } catch (err) {
+      console.error('Error exporting project:', err)
+      setExportError(err instanceof Error ? err.message : 'Failed to export project')
+    } finally {
+      setExporting(false)
+    }
+  }
+
   const handleProjectUpdated = (updatedProject: ScribeProject) => {
     setProject(updatedProject)
   }
 
+  const handleProjectForked = (forkedProject: ScribeProject) => {
+    navigate(`/projects/${forkedProject.id}`)
+  }
+
   const handleProjectDeleted = () => {
     navigate('/dashboard')
   }
@@ -150,30 +189,101 @@ export default function ProjectDetailPage() {
                     <Calendar className="h-4 w-4 mr-1" />
                     <span>Created {new Date(project.createdAt).toLocaleDateString()}</span>
                   </div>
+                  {forkSource && (
+                    <button
+                      onClick={() => navigate(`/projects/${forkSource.projectId}`)}
+                      className="flex items-center text-sm text-gray-500 hover:text-gray-700"
+                    >
+                      <GitFork className="h-4 w-4 mr-1" />
+                      <span>Forked from {forkSource.projectName}</span>
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
 
-            {/* Management Actions */}
-            {showManagementActions && (
-              <div className="flex items-center space-x-3">
+            {/* Actions */}
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={handleExport}
+                disabled={exporting}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+                title="Download the project in GaiaLabs JSON format"
+              >
+                <FileJson className="h-4 w-4 mr-2" />
+                {exporting ? 'Exporting...' : 'Export JSON'}
+              </button>
+              <button
+                onClick={() => setShowForkModal(true)}
+                className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                title="Copy this project and all of its data into a new project you own"
+              >
+                <GitFork className="h-4 w-4 mr-2" />
+                Fork
+              </button>
+              {project.gameRomBranchId && (
                 <button
-                  onClick={handleEdit}
+                  onClick={() => setShowCompareModal(true)}
                   className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  title="Compare with another project built on the same GameRomBranch"
                 >
-                  <Edit className="h-4 w-4 mr-2" />
-                  Edit
+                  <GitCompare className="h-4 w-4 mr-2" />
+                  Compare
                 </button>
+              )}
+              {canPullUpstream && (
                 <button
-                  onClick={handleDelete}
-                  className="inline-flex items-center px-3 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                  onClick={() => setShowSyncModal(true)}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  title="Pull changes from the GameRomBranch this project was imported from"
                 >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
+                  <GitPullRequest className="h-4 w-4 mr-2" />
+                  Pull Upstream
                 </button>
-              </div>
-            )}
+              )}
+              {canPullUpstream && showManagementActions && (
+                <button
+                  onClick={() => setShowPublishModal(true)}
+                  className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  title="Publish the project as a new version of its GameRomBranch"
+                >
+                  <Upload className="h-4 w-4 mr-2" />
+                  Publish
+                </button>
+              )}
+              {showManagementActions && (
+                <>
+                  <button
+                    onClick={() => setShowMigrateModal(true)}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                    title="Move the project to a different platform"
+                  >
+                    <Cpu className="h-4 w-4 mr-2" />
+                    Platform
+                  </button>
+                  <button
+                    onClick={handleEdit}
+                    className="inline-flex items-center px-3 py-2 border border-gray-300 text-sm font-medium rounded-md text-gray-700 bg-white hover:bg-gray-50"
+                  >
+                    <Edit className="h-4 w-4 mr-2" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={handleDelete}
+                    className="inline-flex items-center px-3 py-2 border border-red-300 text-sm font-medium rounded-md text-red-700 bg-white hover:bg-red-50"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </button>
+                </>
+              )}
+            </div>
           </div>
+          {exportError && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-md text-red-700 text-sm">
+              {exportError}
+            </div>
+          )}
         </div>
       </div>
 
@@ -196,7 +306,7 @@ export default function ProjectDetailPage() {
               sectionName={section.name}
               sectionKey={section.key}
               icon={section.icon}
-              count={counts[section.key as keyof typeof counts] || 0}
+              count={section.showCount === false ? undefined : counts[section.key as keyof typeof counts] || 0}
               description={section.description}
               loading={countsLoading}
             />
@@ -208,6 +318,15 @@ export default function ProjectDetailPage() {
           <ContributorManagement project={project} canManage={showManagementActions} />
         </div>
 
+        {/* Snapshots Section */}
+        <div className="mb-8">
+          <ProjectSnapshotsPanel
+            project={project}
+            canEdit={canEdit && !permissionsLoading}
+            onProjectUpdated={handleProjectUpdated}
+          />
+        </div>
+
         {/* Project Information */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
           <div className="bg-white shadow rounded-lg p-6">
@@ -309,6 +428,41 @@ export default function ProjectDetailPage() {
         project={project}
         onProjectDeleted={handleProjectDeleted}
       />
+
+      <UpstreamSyncModal
+        isOpen={showSyncModal}
+        onClose={() => setShowSyncModal(false)}
+        project={project}
+        onSynced={handleProjectUpdated}
+      />
+
+      <PublishProjectModal
+        isOpen={showPublishModal}
+        onClose={() => setShowPublishModal(false)}
+        project={project}
+        onPublished={handleProjectUpdated}
+      />
+
+      <MigratePlatformModal
+        isOpen={showMigrateModal}
+        onClose={() => setShowMigrateModal(false)}
+        project={project}
+        onMigrated={handleProjectUpdated}
+      />
+
+      <ForkProjectModal
+        isOpen={showForkModal}
+        onClose={() => setShowForkModal(false)}
+        project={project}
+        onForked={handleProjectForked}
+      />
+
+      <CompareProjectsModal
+        isOpen={showCompareModal}
+        onClose={() => setShowCompareModal(false)}
+        project={project}
+        canEdit={canEdit && !permissionsLoading}
+      />
     </div>
   )
 }
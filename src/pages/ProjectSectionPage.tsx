@@ -10,6 +10,8 @@ import DataTable from '../components/DataTable'
 import FilesDataTable from '../components/FilesDataTable'
 import BlocksDataTable from '../components/BlocksDataTable'
 import StringTypesDataTable from '../components/StringTypesDataTable'
+import StructsDataTable from '../components/StructsDataTable'
+import BuildSettingsForm from '../components/BuildSettingsForm'
 import Breadcrumbs from '../components/Breadcrumbs'
 import {
   filesColumns,
@@ -343,7 +345,13 @@ export default function ProjectSectionPage() {
 
       {/* Main Content */}
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {section === 'files' ? (
+        {section === 'build-settings' ? (
+          <BuildSettingsForm
+            project={project}
+            canEdit={canEdit && !permissionsLoading}
+            onSaved={setProject}
+          />
+        ) : section === 'files' ? (
           <FilesDataTable
             data={sectionData}
             project={project || undefined}
@@ -375,6 +383,21 @@ export default function ProjectSectionPage() {
             addButtonText={`Add ${sectionConfig.name.slice(0, -1)}`} // Remove 's' from plural
             emptyMessage={`No ${sectionConfig.name.toLowerCase()} found. Click "Add ${sectionConfig.name.slice(0, -1)}" to create your first entry.`}
           />
+        ) : section === 'structs' ? (
+          <StructsDataTable
+            data={sectionData}
+            project={project}
+            columns={getColumnConfig() as any}
+            loading={sectionLoading}
+            error={sectionError}
+            onAdd={canEdit && !permissionsLoading ? handleAdd : undefined}
+            onEdit={canEdit && !permissionsLoading ? handleEdit : undefined}
+            onDelete={canEdit && !permissionsLoading ? handleDelete : undefined}
+            onRefresh={handleRefresh}
+            searchPlaceholder={`Search ${sectionConfig.name.toLowerCase()}...`}
+            addButtonText={`Add ${sectionConfig.name.slice(0, -1)}`} // Remove 's' from plural
+            emptyMessage={`No ${sectionConfig.name.toLowerCase()} found. Click "Add ${sectionConfig.name.slice(0, -1)}" to create your first entry.`}
+          />
         ) : section === 'strings' ? (
           <StringTypesDataTable
             data={sectionData}
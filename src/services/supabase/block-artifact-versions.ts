@@ -0,0 +1,35 @@
+import { BlockArtifactVersion, BuildRun } from '@prisma/client'
+import { supabase } from '../../lib/supabase'
+import { createId } from '@paralleldrive/cuid2'
+
+export type BlockArtifactVersionWithRun = BlockArtifactVersion & {
+  buildRun: Pick<BuildRun, 'id' | 'mode' | 'success' | 'romName' | 'createdAt' | 'createdBy'>
+}
+
+export const blockArtifactVersions = {
+  async getByBlock(blockId: string) {
+    return supabase.from('BlockArtifactVersion')
+      .select<string, BlockArtifactVersionWithRun>('*,buildRun:BuildRun!inner(id,mode,success,romName,createdAt,createdBy)')
+      .eq('blockId', blockId)
+      .is('deletedAt', null)
+      .order('createdAt', { ascending: false })
+      .limit(100)
+  },
+
+  async getByBuildRun(buildRunId: string) {
+    return supabase.from('BlockArtifactVersion')
+      .select<'*', BlockArtifactVersion>()
+      .eq('buildRunId', buildRunId)
+      .is('deletedAt', null)
+  },
+
+  async createBatch(versions: Array<{ blockId: string; buildRunId: string; content: string; meta?: any }>, userId: string) {
+    return (supabase as any)
+      .from('BlockArtifactVersion')
+      .insert(versions.map(version => ({
+        id: createId(),
+        ...version,
+        createdBy: userId,
+      })))
+  },
+}
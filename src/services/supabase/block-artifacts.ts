@@ -1,7 +1,17 @@
+import { BlockArtifact } from '@prisma/client'
 import { supabase } from '../../lib/supabase'
 import { createId } from '@paralleldrive/cuid2'
 
 export const blockArtifacts = {
+  async getByProject(projectId: string) {
+    return supabase.from('BlockArtifact')
+      .select<'*,block:Block!inner(id,projectId,deletedAt)', BlockArtifact>('*,block:Block!inner(id,projectId,deletedAt)')
+      .eq('block.projectId', projectId)
+      .is('deletedAt', null)
+      .is('block.deletedAt', null)
+      .limit(3000)
+  },
+
   async getByBlock(blockId: string) {
     return supabase
       .from('BlockArtifact')
@@ -1,7 +1,17 @@
+import { BlockTransform } from '@prisma/client'
 import { supabase } from '../../lib/supabase'
 import { createId } from '@paralleldrive/cuid2'
 
 export const blockTransforms = {
+  async getByProject(projectId: string) {
+    return supabase.from('BlockTransform')
+      .select<'*,block:Block!inner(id,projectId,deletedAt)', BlockTransform>('*,block:Block!inner(id,projectId,deletedAt)')
+      .eq('block.projectId', projectId)
+      .is('deletedAt', null)
+      .is('block.deletedAt', null)
+      .limit(8000)
+  },
+
   async getByBlock(blockId: string) {
     return supabase
       .from('BlockTransform')
@@ -0,0 +1,54 @@
+import { BuildRun } from '@prisma/client'
+import { supabase } from '../../lib/supabase'
+import { createId } from '@paralleldrive/cuid2'
+
+export const buildRuns = {
+  async getByProject(projectId: string) {
+    return supabase.from('BuildRun')
+      .select<'*', BuildRun>()
+      .eq('projectId', projectId)
+      .is('deletedAt', null)
+      .order('createdAt', { ascending: false })
+      .limit(200)
+  },
+
+  async getLatestByProject(projectId: string) {
+    return supabase.from('BuildRun')
+      .select<'*', BuildRun>()
+      .eq('projectId', projectId)
+      .is('deletedAt', null)
+      .order('createdAt', { ascending: false })
+      .limit(1)
+      .maybeSingle<BuildRun>()
+  },
+
+  async getById(id: string) {
+    return supabase.from('BuildRun')
+      .select('*')
+      .eq('id', id)
+      .is('deletedAt', null)
+      .single<BuildRun>()
+  },
+
+  async create(run: { projectId: string; mode: string; success: boolean; errors: string[]; diagnostics?: any; romName?: string | null; romSize?: number | null; romCrc?: string | null; meta?: any }, userId: string) {
+    return (supabase as any)
+      .from('BuildRun')
+      .insert({
+        id: createId(),
+        ...run,
+        createdBy: userId,
+      })
+      .select()
+      .single()
+  },
+
+  async delete(id: string, userId: string) {
+    return (supabase as any)
+      .from('BuildRun')
+      .update({
+        deletedAt: new Date().toISOString(),
+        deletedBy: userId,
+      })
+      .eq('id', id)
+  },
+}
@@ -5,8 +5,26 @@ import type {
 } from '@gaialabs/shared'
 
 // External API configuration (using HTTP requests instead of Supabase client)
-const EXTERNAL_SUPABASE_URL = 'https://adwobxutnpmjbmhdxrzx.supabase.co'
-const EXTERNAL_SUPABASE_KEY = 'sb_publishable_uBZdKmgGql5sDNGpj1DVMQ_opZ2V4kV'
+// Overridable so a local stand-in of the GaiaLabs database can be used instead
+const EXTERNAL_SUPABASE_URL = import.meta.env.VITE_EXTERNAL_SUPABASE_URL || 'https://adwobxutnpmjbmhdxrzx.supabase.co'
+const EXTERNAL_SUPABASE_KEY = import.meta.env.VITE_EXTERNAL_SUPABASE_KEY || 'sb_publishable_uBZdKmgGql5sDNGpj1DVMQ_opZ2V4kV'
+
+const GAME_ROM_BRANCH_SELECT = 'select=*,gameRom:GameRom!inner(id,crc,meta,gameId,regionId,game:Game!inner(id,name),region:Region!inner(id,name,meta,platformId)),platformBranch:PlatformBranch!inner(id,name,version,platformId,addressingModes,instructionSet,vectors,types,platform:Platform!inner(id,name,meta))'
+
+/**
+ * Columns written when publishing a new GameRomBranch version
+ */
+export type GameRomBranchInsert = Omit<GameRomBranchData, 'gameRom' | 'platformBranch' | 'createdAt' | 'updatedAt'>
+
+/**
+ * Summary of one version of a GameRomBranch
+ */
+export interface GameRomBranchVersion {
+  id: string
+  name: string | null
+  version: number | null
+  createdAt: string
+}
 
 export const external = {
   async searchGameRomBranches(searchQuery?: string) {
@@ -108,7 +126,7 @@ export const external = {
       console.log('Fetching GameRomBranch data for:', gameRomBranchId)
 
       // Fetch GameRomBranch with all nested relationships needed for import
-      const url = `${EXTERNAL_SUPABASE_URL}/rest/v1/GameRomBranch?select=*,gameRom:GameRom!inner(id,crc,meta,gameId,regionId,game:Game!inner(id,name),region:Region!inner(id,name,meta,platformId)),platformBranch:PlatformBranch!inner(id,name,version,platformId,addressingModes,instructionSet,vectors,types,platform:Platform!inner(id,name,meta))&id=eq.${encodeURIComponent(gameRomBranchId)}&limit=1`
+      const url = `${EXTERNAL_SUPABASE_URL}/rest/v1/GameRomBranch?${GAME_ROM_BRANCH_SELECT}&id=eq.${encodeURIComponent(gameRomBranchId)}&limit=1`
 
       const response = await fetch(url, {
         headers: {
@@ -193,6 +211,60 @@ export const external = {
       console.error('Error fetching PlatformBranch:', error)
       return { data: null, error: error instanceof Error ? error : new Error(String(error)) }
     }
+  },
+
+  async getGameRomBranchVersions(gameRomId: string) : Promise<{data: GameRomBranchVersion[] | null, error: Error | null}> {
+    try {
+      const url = `${EXTERNAL_SUPABASE_URL}/rest/v1/GameRomBranch?select=id,name,version,createdAt&gameRomId=eq.${encodeURIComponent(gameRomId)}&order=version.desc.nullslast`
+
+      const response = await fetch(url, {
+        headers: {
+          'apikey': EXTERNAL_SUPABASE_KEY,
+          'Authorization': `Bearer ${EXTERNAL_SUPABASE_KEY}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        }
+      })
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+      }
+
+      const data = await response.json() as GameRomBranchVersion[]
+      return { data, error: null }
+    } catch (error) {
+      console.error('Error fetching GameRomBranch versions:', error)
+      return { data: null, error: error instanceof Error ? error : new Error(String(error)) }
+    }
+  },
+
+  // Write methods require an access token for a GaiaLabs account with write access
+  async createGameRomBranch(branch: GameRomBranchInsert, accessToken: string) : Promise<{data: GameRomBranchData | null, error: Error | null}> {
+    try {
+      const url = `${EXTERNAL_SUPABASE_URL}/rest/v1/GameRomBranch?${GAME_ROM_BRANCH_SELECT}`
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'apikey': EXTERNAL_SUPABASE_KEY,
+          'Authorization': `Bearer ${accessToken}`,
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Prefer': 'return=representation'
+        },
+        body: JSON.stringify(branch)
+      })
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '')
+        throw new Error(`HTTP ${response.status}: ${response.statusText}${detail ? ` - ${detail}` : ''}`)
+      }
+
+      const data = await response.json() as GameRomBranchData[]
+      return { data: data[0] || null, error: null }
+    } catch (error) {
+      console.error('Error creating GameRomBranch:', error)
+      return { data: null, error: error instanceof Error ? error : new Error(String(error)) }
+    }
   }
 }
-
@@ -8,6 +8,9 @@ import { blockTransforms } from './block-transforms'
 import { blockParts } from './block-parts'
 import { strings } from './strings'
 import { blockArtifacts } from './block-artifacts'
+import { blockArtifactVersions } from './block-artifact-versions'
+import { buildRuns } from './build-runs'
+import { projectSnapshots } from './project-snapshots'
 import { stringCommands } from './string-commands'
 import { structs } from './structs'
 import { labels } from './labels'
@@ -34,6 +37,9 @@ export const db = {
   blockParts,
   strings,
   blockArtifacts,
+  blockArtifactVersions,
+  buildRuns,
+  projectSnapshots,
   stringCommands,
   structs,
   labels,
@@ -83,6 +89,9 @@ export {
   blockParts,
   strings,
   blockArtifacts,
+  blockArtifactVersions,
+  buildRuns,
+  projectSnapshots,
   stringCommands,
   structs,
   labels,
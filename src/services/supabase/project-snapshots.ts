@@ -0,0 +1,48 @@
+import { ProjectSnapshot } from '@prisma/client'
+import { supabase } from '../../lib/supabase'
+import { createId } from '@paralleldrive/cuid2'
+
+/** Snapshot listing without the stored records */
+export type ProjectSnapshotSummary = Omit<ProjectSnapshot, 'data'>
+
+const SUMMARY_COLUMNS = 'id,name,description,kind,recordCount,meta,projectId,createdAt,createdBy,deletedAt,deletedBy,updatedAt,updatedBy'
+
+export const projectSnapshots = {
+  async getByProject(projectId: string) {
+    return supabase.from('ProjectSnapshot')
+      .select<string, ProjectSnapshotSummary>(SUMMARY_COLUMNS)
+      .eq('projectId', projectId)
+      .is('deletedAt', null)
+      .order('createdAt', { ascending: false })
+  },
+
+  async getById(id: string) {
+    return supabase.from('ProjectSnapshot')
+      .select('*')
+      .eq('id', id)
+      .is('deletedAt', null)
+      .single<ProjectSnapshot>()
+  },
+
+  async create(snapshot: { projectId: string; name: string; description?: string | null; kind?: string; data: any; recordCount: number; meta?: any }, userId: string) {
+    return (supabase as any)
+      .from('ProjectSnapshot')
+      .insert({
+        id: createId(),
+        ...snapshot,
+        createdBy: userId,
+      })
+      .select(SUMMARY_COLUMNS)
+      .single()
+  },
+
+  async delete(id: string, userId: string) {
+    return (supabase as any)
+      .from('ProjectSnapshot')
+      .update({
+        deletedAt: new Date().toISOString(),
+        deletedBy: userId,
+      })
+      .eq('id', id)
+  },
+}
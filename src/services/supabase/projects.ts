@@ -1,5 +1,5 @@
 import { supabase } from '../../lib/supabase'
-import type { ScribeProject } from '@prisma/client'
+import type { Prisma, ScribeProject } from '@prisma/client'
 
 export const projects = {
   async getAll() {
@@ -98,6 +98,14 @@ export const projects = {
 
     return query
   },
+
+  async getByGameRomBranch(gameRomBranchId: string) {
+    return supabase.from('ScribeProject')
+      .select<'*', ScribeProject>()
+      .eq('gameRomBranchId', gameRomBranchId)
+      .is('deletedAt', null)
+      .order('updatedAt', { ascending: false, nullsFirst: false })
+  },
   
   async getById(id: string) {
     return supabase.from('ScribeProject')
@@ -107,7 +115,7 @@ export const projects = {
       .single<ScribeProject>()
   },
   
-  async create(project: Omit<ScribeProject, 'createdAt' | 'updatedAt' | 'deletedAt' | 'createdBy' | 'updatedBy' | 'deletedBy'>, userId: string) {
+  async create(project: Omit<ScribeProject, 'meta' | 'createdAt' | 'updatedAt' | 'deletedAt' | 'createdBy' | 'updatedBy' | 'deletedBy'> & { meta: Prisma.InputJsonValue | null }, userId: string) {
     return supabase.from('ScribeProject')
       .insert({
         ...project,
@@ -117,7 +125,7 @@ export const projects = {
       .single<ScribeProject>()
   },
   
-  async update(id: string, updates: { name?: string; isPublic?: boolean }, userId: string) {
+  async update(id: string, updates: { name?: string; isPublic?: boolean; meta?: any; gameRomBranchId?: string | null; platformId?: string }, userId: string) {
     return supabase.from('ScribeProject')
       .update({
         ...updates,
@@ -1,5 +1,6 @@
 import { create } from 'zustand'
 import type { Block, BlockArtifact } from '@prisma/client'
+import type { BlockArtifactVersionWithRun } from '../services/supabase/block-artifact-versions'
 
 export interface ArtifactViewerState {
   // Panel visibility and state
@@ -16,15 +17,18 @@ export interface ArtifactViewerState {
   // Content state
   selectedBlock: Block | null
   artifact: BlockArtifact | null
+  versions: BlockArtifactVersionWithRun[] // Build history, newest first
+  highlightLine: number | null // 1-based line to scroll to in the current artifact
 
   // Actions
-  openPanel: (block: Block) => void
+  openPanel: (block: Block, line?: number) => void
   closePanel: () => void
   setWidth: (width: number) => void
   setTemporaryWidth: (width: number) => void
   setFinalWidth: (width: number) => void
   clearTemporaryWidth: () => void
   setArtifact: (artifact: BlockArtifact | null) => void
+  setVersions: (versions: BlockArtifactVersionWithRun[]) => void
   setLoading: (loading: boolean) => void
   setError: (error: string | null) => void
 
@@ -56,13 +60,17 @@ export const useArtifactViewerStore = create<ArtifactViewerState>((set, get) =>
   // Content
   selectedBlock: null,
   artifact: null,
+  versions: [],
+  highlightLine: null,
   
   // Actions
-  openPanel: (block: Block) => {
+  openPanel: (block: Block, line?: number) => {
     set({
       isOpen: true,
       selectedBlock: block,
       artifact: null,
+      versions: [],
+      highlightLine: line ?? null,
       error: null,
       isLoading: true
     })
@@ -73,6 +81,8 @@ export const useArtifactViewerStore = create<ArtifactViewerState>((set, get) =>
       isOpen: false,
       selectedBlock: null,
       artifact: null,
+      versions: [],
+      highlightLine: null,
       error: null,
       isLoading: false
     })
@@ -114,6 +124,10 @@ export const useArtifactViewerStore = create<ArtifactViewerState>((set, get) =>
   setArtifact: (artifact: BlockArtifact | null) => {
     set({ artifact, isLoading: false })
   },
+
+  setVersions: (versions: BlockArtifactVersionWithRun[]) => {
+    set({ versions })
+  },
   
   setLoading: (loading: boolean) => {
     set({ isLoading: loading })
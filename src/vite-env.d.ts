@@ -4,4 +4,6 @@ declare interface ImportMetaEnv {
   readonly VITE_PUBLIC_SUPABASE_URL: string
   readonly VITE_PUBLIC_SUPABASE_ANON_KEY: string
   readonly VITE_ENABLE_ANONYMOUS_MODE?: string
+  readonly VITE_EXTERNAL_SUPABASE_URL?: string
+  readonly VITE_EXTERNAL_SUPABASE_KEY?: string
 }
@@ -0,0 +1,32 @@
+/**
+ * Build Worker
+ *
+ * Runs the CPU-bound build pipeline off the main thread so large ROMs do not
+ * freeze the UI. The worker receives plain project data (see
+ * BuildWorkerRequest) and reports progress, the result or an error back to
+ * the BuildOrchestrator. Cancellation is handled by terminating the worker.
+ */
+
+import { runBuildPipeline, type BuildWorkerRequest, type BuildWorkerResponse } from '../lib/build-pipeline'
+
+const ctx = self as unknown as Worker
+
+function post(message: BuildWorkerResponse, transfer: Transferable[] = []) {
+  ctx.postMessage(message, transfer)
+}
+
+ctx.onmessage = async (event: MessageEvent<BuildWorkerRequest>) => {
+  const request = event.data
+  if (request.type !== 'build') return
+
+  try {
+    const output = await runBuildPipeline(request.input, (step, progress, total) => {
+      post({ type: 'progress', step, progress, total })
+    })
+
+    post({ type: 'result', output }, output.rom ? [output.rom.data.buffer] : [])
+  } catch (error) {
+    console.error('Build worker error:', error)
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) })
+  }
+}
@@ -29,6 +29,10 @@ export default defineConfig({
     outDir: 'dist',
     sourcemap: true,
   },
+  // The build worker imports the same code-split modules as the app
+  worker: {
+    format: 'es',
+  },
   optimizeDeps: {
     exclude: ['@supabase/realtime-js'],
     include: [